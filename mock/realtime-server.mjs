@@ -0,0 +1,154 @@
+// Local stand-in for the realtime channel, so live updates can be exercised
+// without the backend.
+//
+//   npm run mock:realtime            # stream only, push events by hand
+//   npm run mock:realtime -- --demo  # also emit a random event every few seconds
+//
+// Point the app at it with VITE_REALTIME_URL=http://localhost:4000/events, then
+// push events with e.g.
+//
+//   curl -X POST localhost:4000/emit -H 'Content-Type: application/json' \
+//     -d '{"type":"booking.status_changed","booking":{"id":12,"status":"cancelled"}}'
+
+import http from 'node:http'
+
+const PORT = Number(process.env.PORT) || 4000
+const DEMO_INTERVAL = Number(process.env.DEMO_INTERVAL) || 8000
+const demo = process.argv.includes('--demo')
+
+const clients = new Set()
+let nextId = 10000
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+}
+
+function broadcast(event) {
+  const frame = `data: ${JSON.stringify(event)}\n\n`
+  clients.forEach(res => res.write(frame))
+  console.log(`→ ${event.type} to ${clients.size} client(s)`)
+}
+
+function openStream(req, res, url) {
+  // Any non-empty token is accepted - the real server verifies the JWT
+  if (!url.searchParams.get('token')) {
+    res.writeHead(401, corsHeaders).end('Missing token')
+    return
+  }
+
+  res.writeHead(200, {
+    ...corsHeaders,
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  })
+  res.write(': connected\n\n')
+  clients.add(res)
+  console.log(`client connected (${clients.size} open)`)
+
+  // Comments keep proxies from timing out an idle stream
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000)
+  req.on('close', () => {
+    clearInterval(heartbeat)
+    clients.delete(res)
+    console.log(`client disconnected (${clients.size} open)`)
+  })
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => resolve(body))
+    req.on('error', reject)
+  })
+}
+
+async function emit(req, res) {
+  try {
+    const event = JSON.parse(await readBody(req))
+    if (typeof event?.type !== 'string') throw new Error('Event needs a type')
+    broadcast(event)
+    res.writeHead(202, { ...corsHeaders, 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ delivered: clients.size }))
+  } catch (err) {
+    res.writeHead(400, corsHeaders).end(err.message)
+  }
+}
+
+// ── Demo events ──
+
+const pick = list => list[Math.floor(Math.random() * list.length)]
+
+function randomBooking() {
+  const start = new Date()
+  start.setDate(start.getDate() + 1 + Math.floor(Math.random() * 5))
+  start.setHours(9 + Math.floor(Math.random() * 8), 0, 0, 0)
+  const end = new Date(start.getTime() + 60 * 60 * 1000)
+  const now = new Date().toISOString()
+
+  return {
+    id: nextId++,
+    resource_id: pick([1, 2, 3]),
+    resource_name: pick(['Boardroom', 'Focus Room 2', 'MacBook Pro #4']),
+    user_id: 2,
+    employee_name: pick(['Priya Sharma', 'Daniel Okafor', 'Mei Lin']),
+    employee_id: 'EMP002',
+    start_time: start.toISOString(),
+    end_time: end.toISOString(),
+    status: 'pending',
+    created_at: now,
+    updated_at: now,
+  }
+}
+
+function randomEvent() {
+  const now = new Date().toISOString()
+  switch (pick(['booking.created', 'booking.status_changed', 'notification.created'])) {
+    case 'booking.created':
+      return { type: 'booking.created', booking: randomBooking() }
+    case 'booking.status_changed':
+      return {
+        type: 'booking.status_changed',
+        booking: { id: 1 + Math.floor(Math.random() * 20), status: pick(['approved', 'rejected', 'cancelled', 'no_show']), updated_at: now },
+      }
+    default: {
+      const [notification_type, message] = pick([
+        ['booking_reminder', 'Your booking starts in 15 minutes'],
+        ['waitlist_offered', 'A slot you were waiting for is free - claim it within 30 minutes'],
+      ])
+      return {
+        type: 'notification.created',
+        notification: {
+          id: nextId++,
+          user_id: 2,
+          booking_id: null,
+          notification_type,
+          channel: 'in_app',
+          message,
+          is_read: false,
+          created_at: now,
+        },
+      }
+    }
+  }
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`)
+
+  if (req.method === 'OPTIONS') return res.writeHead(204, corsHeaders).end()
+  if (req.method === 'GET' && url.pathname === '/events') return openStream(req, res, url)
+  if (req.method === 'POST' && url.pathname === '/emit') return emit(req, res)
+  res.writeHead(404, corsHeaders).end('Not found')
+})
+
+server.listen(PORT, () => {
+  console.log(`Realtime mock listening on http://localhost:${PORT}/events`)
+  if (demo) {
+    console.log(`Demo mode: emitting an event every ${DEMO_INTERVAL / 1000}s`)
+    setInterval(() => clients.size > 0 && broadcast(randomEvent()), DEMO_INTERVAL)
+  }
+})
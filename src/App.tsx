@@ -16,6 +16,11 @@ import Unauthorized from './pages/Unauthorized'
 import Profile from './pages/Profile'
 import { Role } from './types/auth'
 import AdminDashboard from './pages/admin/AdminDashboard'
+import ResourceCalendar from './pages/ResourceCalendar'
+import Availability from './pages/Availability'
+import Closures from './pages/admin/Closures'
+import Policies from './pages/admin/Policies'
+import ResourceTypes from './pages/admin/ResourceTypes'
 const App: React.FC = () => {
   return (
     <Routes>
@@ -45,23 +50,29 @@ const App: React.FC = () => {
         <Route path="overview" element={<AdminDashboard />} />
         <Route path="users" element={<AdminUsers />} />
         <Route path="resources" element={<AdminResources />} />
+        <Route path="resource-types" element={<ResourceTypes />} />
         <Route path="book" element={<BookResource />} />
         <Route path="bookings" element={<Bookings />} />
+        <Route path="calendar" element={<ResourceCalendar />} />
+        <Route path="availability" element={<Availability />} />
+        <Route path="closures" element={<Closures />} />
+        <Route path="policies" element={<Policies />} />
       </Route>
 
       {/* Employee nested routes */}
       <Route
-        path="/dashboard/employee/*"
+        path="/dashboard/employee"
         element={
           <ProtectedRoute allowedRoles={[Role.Employee]}>
             <EmployeeLayout />
           </ProtectedRoute>
         }
-      />
-      <Route path="/dashboard/employee" element={<EmployeeLayout />}>
+      >
         <Route index element={<EmployeeDashboard />} />
         <Route path="book" element={<BookResource />} />
         <Route path="history" element={<BookingHistory />} />
+        <Route path="calendar" element={<ResourceCalendar />} />
+        <Route path="availability" element={<Availability />} />
       </Route>
 
 
@@ -0,0 +1,109 @@
+import { AssetEvent, AssetEventType } from '../lib/schemas'
+import { returnConditionLabels } from '../utils/validators'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { CheckCircle2, PackageCheck, PackageOpen, Wrench } from 'lucide-react'
+import { useAssetHistory } from '../hooks/useMaintenance'
+import dayjs from 'dayjs'
+
+interface AssetHistoryTimelineProps {
+  resourceId: number
+}
+
+const eventIcons: Record<AssetEventType, typeof Wrench> = {
+  checkout: PackageOpen,
+  return: PackageCheck,
+  maintenance_opened: Wrench,
+  maintenance_resolved: CheckCircle2,
+}
+
+const eventDot: Record<AssetEventType, string> = {
+  checkout: 'bg-blue-50 text-blue-600 border-blue-200',
+  return: 'bg-emerald-50 text-emerald-600 border-emerald-200',
+  maintenance_opened: 'bg-amber-50 text-amber-600 border-amber-200',
+  maintenance_resolved: 'bg-neutral-50 text-neutral-600 border-neutral-200',
+}
+
+function describeEvent(event: AssetEvent) {
+  switch (event.type) {
+    case 'checkout':
+      return `Handed over to ${event.employee_name ?? 'Unknown'}`
+    case 'return':
+      return `Returned by ${event.employee_name ?? 'Unknown'}`
+    case 'maintenance_opened':
+      return `Maintenance opened: ${event.title ?? 'Untitled'}`
+    case 'maintenance_resolved':
+      return `Maintenance resolved: ${event.title ?? 'Untitled'}`
+  }
+}
+
+// Everything that has happened to one asset, newest first
+export function AssetHistoryTimeline({ resourceId }: AssetHistoryTimelineProps) {
+  const { data, isLoading, isError, hasNextPage, fetchNextPage, isFetchingNextPage } = useAssetHistory(resourceId)
+  const events = data?.pages.flatMap(page => page.events) ?? []
+
+  if (isLoading) {
+    return <p className="text-sm text-neutral-500">Loading history...</p>
+  }
+  if (isError) {
+    return <p className="text-sm text-red-600">Couldn't load this asset's history.</p>
+  }
+  if (events.length === 0) {
+    return <p className="text-sm text-neutral-500">No checkouts, returns or maintenance yet.</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      <ol className="relative border-l border-neutral-200 ml-3 space-y-4">
+        {events.map(event => {
+          const Icon = eventIcons[event.type]
+          return (
+            <li key={event.id} className="ml-6">
+              <span className={`absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full border ${eventDot[event.type]}`}>
+                <Icon className="w-3.5 h-3.5" />
+              </span>
+              <div className="flex flex-wrap items-center gap-2">
+                <p className="text-sm font-medium text-neutral-900">{describeEvent(event)}</p>
+                {event.condition && (
+                  <Badge
+                    variant="outline"
+                    className={event.condition === 'good' || event.condition === 'worn'
+                      ? 'bg-emerald-50 text-emerald-700 border-emerald-200'
+                      : 'bg-red-50 text-red-700 border-red-200'}
+                  >
+                    {returnConditionLabels[event.condition]}
+                  </Badge>
+                )}
+              </div>
+              <p className="text-xs text-neutral-500">
+                {dayjs(event.occurred_at).format('MMM D, YYYY h:mm A')}
+                {event.actor_name && ` · ${event.actor_name}`}
+              </p>
+              {event.note && <p className="text-sm text-neutral-600 mt-1">{event.note}</p>}
+              {event.photo_urls.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {event.photo_urls.map(url => (
+                    <a key={url} href={url} target="_blank" rel="noreferrer">
+                      <img src={url} alt="Return condition" className="w-16 h-16 object-cover rounded-md border border-neutral-200" />
+                    </a>
+                  ))}
+                </div>
+              )}
+            </li>
+          )
+        })}
+      </ol>
+      {hasNextPage && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+          className="border-neutral-200"
+        >
+          {isFetchingNextPage ? 'Loading...' : 'Load older events'}
+        </Button>
+      )}
+    </div>
+  )
+}
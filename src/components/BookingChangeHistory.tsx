@@ -0,0 +1,50 @@
+import React from 'react'
+import { BookingChange } from '../lib/schemas'
+import { changeStatusConfig, formatChangeSlot, movesResource } from '../utils/bookingChanges'
+import { Badge } from '@/components/ui/badge'
+import { ArrowRight, History } from 'lucide-react'
+import dayjs from 'dayjs'
+
+interface BookingChangeHistoryProps {
+  changes: BookingChange[]
+}
+
+// Moves asked for on a booking that have been settled, newest first. The
+// open one, if any, is shown separately with its actions.
+export function BookingChangeHistory({ changes }: BookingChangeHistoryProps) {
+  const sorted = changes
+    .filter(c => c.status !== 'pending')
+    .sort((a, b) => dayjs(b.created_at).diff(dayjs(a.created_at)))
+  if (sorted.length === 0) return null
+
+  return (
+    <div className="bg-neutral-50 rounded-xl p-4 border border-neutral-100 space-y-3">
+      <p className="text-xs font-semibold text-neutral-400 uppercase tracking-wider flex items-center gap-1">
+        <History className="w-3 h-3" /> Changes
+      </p>
+      {sorted.map(change => (
+        <div key={change.id} className="text-sm space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-neutral-500">
+              {dayjs(change.created_at).format('MMM D, h:mm A')}
+              {change.requested_by_name && ` · ${change.requested_by_name}`}
+            </span>
+            <Badge className={`${changeStatusConfig[change.status].color} border`}>
+              {changeStatusConfig[change.status].label}
+            </Badge>
+          </div>
+          <p className="text-neutral-900 flex flex-wrap items-center gap-1">
+            <span className="text-neutral-500 line-through">{formatChangeSlot(change.previous_start_time, change.previous_end_time)}</span>
+            <ArrowRight className="w-3 h-3 text-neutral-400" />
+            <span className="font-medium">{formatChangeSlot(change.start_time, change.end_time)}</span>
+            {movesResource(change) && change.resource_name && (
+              <span className="text-neutral-500">in {change.resource_name}</span>
+            )}
+          </p>
+          {change.reason && <p className="text-neutral-600">“{change.reason}”</p>}
+          {change.admin_note && <p className="text-neutral-500">Admin: {change.admin_note}</p>}
+        </div>
+      ))}
+    </div>
+  )
+}
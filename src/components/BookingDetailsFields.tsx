@@ -0,0 +1,161 @@
+import React, { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Users, X } from 'lucide-react'
+import { useUsers } from '../hooks/useUsers'
+import { useAuth } from '../store/authStore'
+import { BookingDetailsFormValues, bookingDetailsSchemaFor, MAX_ATTENDEES } from '../utils/validators'
+
+interface BookingDetailsFieldsProps {
+  value: BookingDetailsFormValues
+  onChange: (value: BookingDetailsFormValues) => void
+  // People the room holds, when it says; null means no limit to check
+  capacity: number | null
+  // Equipment goes to one person, so there's nobody to invite
+  showAttendees: boolean
+  // Errors stay hidden until the first attempt to book
+  showErrors: boolean
+}
+
+export function BookingDetailsFields({ value, onChange, capacity, showAttendees, showErrors }: BookingDetailsFieldsProps) {
+  const errors = showErrors ? bookingDetailsSchemaFor(capacity).safeParse(value).error?.issues ?? [] : []
+  const errorFor = (field: string) => errors.find(issue => issue.path[0] === field)?.message
+
+  function update(patch: Partial<BookingDetailsFormValues>) {
+    onChange({ ...value, ...patch })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="booking-title" className="text-sm font-medium text-neutral-700">Purpose</Label>
+        <Input
+          id="booking-title"
+          maxLength={100}
+          value={value.title}
+          onChange={(e) => update({ title: e.target.value })}
+          placeholder="e.g., Sprint planning"
+          className="border-neutral-200 bg-white"
+        />
+        {errorFor('title') && <p className="text-sm text-red-600">{errorFor('title')}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="booking-description" className="text-sm font-medium text-neutral-700">Notes (optional)</Label>
+        <Textarea
+          id="booking-description"
+          rows={2}
+          maxLength={1000}
+          value={value.description ?? ''}
+          onChange={(e) => update({ description: e.target.value })}
+          placeholder="Anything the approver or attendees should know"
+          className="border-neutral-200 bg-white"
+        />
+        {errorFor('description') && <p className="text-sm text-red-600">{errorFor('description')}</p>}
+      </div>
+
+      {showAttendees && (
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-neutral-700 flex items-center gap-2">
+            <Users className="w-4 h-4 text-neutral-500" />
+            Attendees
+            {capacity !== null && (
+              <span className="text-xs font-normal text-neutral-500">
+                {value.attendee_emails.length + 1} of {capacity} seats, including you
+              </span>
+            )}
+          </Label>
+          <AttendeePicker emails={value.attendee_emails} onChange={(attendee_emails) => update({ attendee_emails })} />
+          {errorFor('attendee_emails') && <p className="text-sm text-red-600">{errorFor('attendee_emails')}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface AttendeePickerProps {
+  emails: string[]
+  onChange: (emails: string[]) => void
+}
+
+// Colleagues are suggested from the directory; anyone else can be typed in by email
+function AttendeePicker({ emails, onChange }: AttendeePickerProps) {
+  const [query, setQuery] = useState('')
+  const { data } = useUsers()
+  const ownEmail = useAuth(state => state.user?.email)
+
+  const users = data?.users ?? []
+  const nameOf = (email: string) => users.find(u => u.email.toLowerCase() === email)?.name
+  const term = query.trim().toLowerCase()
+  const suggestions = term
+    ? users
+      .filter(u => u.email !== ownEmail && !emails.includes(u.email.toLowerCase()))
+      .filter(u => u.name.toLowerCase().includes(term) || u.email.toLowerCase().includes(term))
+      .slice(0, 5)
+    : []
+
+  function add(email: string) {
+    const normalized = email.trim().toLowerCase()
+    if (normalized && !emails.includes(normalized) && emails.length < MAX_ATTENDEES) {
+      onChange([...emails, normalized])
+    }
+    setQuery('')
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault()
+      if (suggestions.length > 0) add(suggestions[0].email)
+      else if (term) add(term)
+    } else if (e.key === 'Backspace' && !query && emails.length > 0) {
+      onChange(emails.slice(0, -1))
+    }
+  }
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap gap-2 items-center border border-neutral-200 rounded-md bg-white px-2 py-1.5">
+        {emails.map(email => (
+          <Badge key={email} variant="secondary" className="gap-1 font-normal">
+            {nameOf(email) ?? email}
+            <button
+              type="button"
+              onClick={() => onChange(emails.filter(e => e !== email))}
+              aria-label={`Remove ${email}`}
+              className="text-neutral-400 hover:text-neutral-700"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        ))}
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => term.includes('@') && add(term)}
+          placeholder={emails.length === 0 ? 'Add people by name or email' : ''}
+          className="flex-1 min-w-40 text-sm outline-none bg-transparent py-1"
+        />
+      </div>
+      {suggestions.length > 0 && (
+        <div className="absolute z-20 mt-1 w-full bg-white border border-neutral-200 rounded-lg shadow-lg overflow-hidden">
+          {suggestions.map(user => (
+            <button
+              key={user.id}
+              type="button"
+              // Keeps the input from blurring before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => add(user.email)}
+              className="w-full text-left px-3 py-2 hover:bg-neutral-50"
+            >
+              <span className="text-sm text-neutral-900">{user.name}</span>
+              <span className="text-xs text-neutral-500 ml-2">{user.email}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
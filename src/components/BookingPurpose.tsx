@@ -0,0 +1,39 @@
+import React from 'react'
+import { Booking } from '../lib/schemas'
+import { Users } from 'lucide-react'
+
+interface BookingPurposeProps {
+  booking: Pick<Booking, 'title' | 'description' | 'attendees'>
+}
+
+// What a booking is for and who's coming, for dialogs that show one booking in full
+export function BookingPurpose({ booking }: BookingPurposeProps) {
+  if (!booking.title && !booking.description && booking.attendees.length === 0) return null
+
+  return (
+    <div className="bg-neutral-50 rounded-xl p-4 border border-neutral-100 space-y-3">
+      <div>
+        <p className="text-xs font-semibold text-neutral-400 uppercase tracking-wider mb-1">Purpose</p>
+        <p className="font-medium text-neutral-900">{booking.title ?? 'Not given'}</p>
+        {booking.description && (
+          <p className="text-sm text-neutral-600 mt-1 whitespace-pre-line">{booking.description}</p>
+        )}
+      </div>
+      {booking.attendees.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold text-neutral-400 uppercase tracking-wider mb-1 flex items-center gap-1">
+            <Users className="w-3 h-3" /> Attendees ({booking.attendees.length})
+          </p>
+          <ul className="text-sm text-neutral-700 space-y-0.5">
+            {booking.attendees.map(a => (
+              <li key={a.email}>
+                {a.name ?? a.email}
+                {a.name && <span className="text-neutral-400 ml-1">{a.email}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+import React from 'react'
+import dayjs from 'dayjs'
+import { Booking } from '../lib/schemas'
+import { slotHoldingStatuses } from '../utils/bookingConflicts'
+
+interface BookingTimelineProps {
+  candidate: Booking
+  bookings: Booking[]
+  conflictIds: Set<number>
+}
+
+const statusBar: Record<string, string> = {
+  approved: 'bg-blue-200 border-blue-400',
+  pending: 'bg-amber-100 border-amber-300',
+  checked_in: 'bg-emerald-200 border-emerald-400',
+}
+
+// One resource's day, with the booking under review drawn over the others
+export function BookingTimeline({ candidate, bookings, conflictIds }: BookingTimelineProps) {
+  const day = dayjs(candidate.start_time).startOf('day')
+  const others = bookings.filter(b => b.id !== candidate.id && slotHoldingStatuses.includes(b.status))
+
+  // Office hours by default, stretched to fit anything booked outside them
+  const hours = [candidate, ...others].flatMap(b => [
+    dayjs(b.start_time).diff(day, 'hour', true),
+    dayjs(b.end_time).diff(day, 'hour', true),
+  ])
+  const startHour = Math.max(0, Math.floor(Math.min(8, ...hours)))
+  const endHour = Math.min(24, Math.ceil(Math.max(20, ...hours)))
+  const span = endHour - startHour
+
+  const position = (b: Booking) => {
+    const start = dayjs(b.start_time).diff(day, 'hour', true)
+    const end = dayjs(b.end_time).diff(day, 'hour', true)
+    return {
+      left: `${((Math.max(start, startHour) - startHour) / span) * 100}%`,
+      width: `${((Math.min(end, endHour) - Math.max(start, startHour)) / span) * 100}%`,
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-neutral-500">
+        <span className="font-medium text-neutral-700">{day.format('dddd, MMM D')}</span>
+        <div className="flex items-center gap-3">
+          <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-blue-200 border border-blue-400" />Approved</span>
+          <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-amber-100 border border-amber-300" />Pending</span>
+          <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-emerald-200 border border-emerald-400" />Checked in</span>
+        </div>
+      </div>
+
+      <div className="relative h-16 bg-neutral-50 border border-neutral-200 rounded-lg overflow-hidden">
+        {Array.from({ length: span + 1 }).map((_, i) => (
+          <div
+            key={i}
+            className="absolute top-0 bottom-0 border-l border-neutral-200"
+            style={{ left: `${(i / span) * 100}%` }}
+          />
+        ))}
+
+        {/* Existing bookings on the lower lane */}
+        {others.map(b => (
+          <div
+            key={b.id}
+            title={`${b.employee_name} · ${dayjs(b.start_time).format('h:mm A')} – ${dayjs(b.end_time).format('h:mm A')} (${b.status.replace(/_/g, ' ')})`}
+            className={`absolute top-8 h-6 rounded border ${statusBar[b.status]} ${conflictIds.has(b.id) ? 'ring-2 ring-red-500' : ''}`}
+            style={position(b)}
+          />
+        ))}
+
+        {/* Candidate on the upper lane */}
+        <div
+          title={`This request · ${dayjs(candidate.start_time).format('h:mm A')} – ${dayjs(candidate.end_time).format('h:mm A')}`}
+          className={`absolute top-1.5 h-6 rounded border-2 border-dashed ${conflictIds.size > 0 ? 'bg-red-50 border-red-500' : 'bg-neutral-900/10 border-neutral-900'}`}
+          style={position(candidate)}
+        />
+      </div>
+
+      <div className="relative h-4 text-[10px] text-neutral-400">
+        {Array.from({ length: span + 1 }).map((_, i) => (i % 2 === 0 || span <= 12) && (
+          <span
+            key={i}
+            className="absolute -translate-x-1/2"
+            style={{ left: `${(i / span) * 100}%` }}
+          >
+            {dayjs().hour(startHour + i).format('ha')}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+import React, { useState } from 'react'
+import { errorMessage } from '../lib/apiError'
+import { useCalendarFeed, useResetCalendarFeed } from '../hooks/useCalendarFeed'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { CalendarSync, Copy, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+
+// The personal iCal URL a calendar app subscribes to. The server keeps it in
+// step with the user's bookings, cancellations included.
+export function CalendarFeedCard() {
+  const { data: feed, isLoading, isError } = useCalendarFeed()
+  const resetFeed = useResetCalendarFeed()
+  const [confirmReset, setConfirmReset] = useState(false)
+
+  async function handleCopy() {
+    if (!feed) return
+    try {
+      await navigator.clipboard.writeText(feed.url)
+      toast.success('Feed link copied')
+    } catch {
+      toast.error('Could not copy - select the link and copy it instead')
+    }
+  }
+
+  async function handleReset() {
+    try {
+      await resetFeed.mutateAsync()
+      toast.success('New feed link created. Subscribe again with it.')
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to reset the feed link'))
+    }
+  }
+
+  return (
+    <Card className="rounded-2xl border-neutral-200 shadow-sm mt-6">
+      <CardHeader>
+        <CardTitle className="text-lg text-neutral-900 flex items-center gap-2">
+          <CalendarSync className="w-5 h-5 text-neutral-500" />
+          Calendar Feed
+        </CardTitle>
+        <CardDescription className="text-neutral-500">
+          Subscribe from Google Calendar, Outlook or Apple Calendar to see your upcoming bookings there.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <Skeleton className="h-10 w-full" />
+        ) : isError || !feed ? (
+          <p className="text-sm text-red-600">Couldn't load your feed link</p>
+        ) : (
+          <>
+            <div className="flex gap-2">
+              <Input readOnly value={feed.url} onFocus={(e) => e.target.select()} className="font-mono text-xs border-neutral-200" />
+              <Button variant="outline" onClick={handleCopy} className="border-neutral-200" aria-label="Copy feed link">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-neutral-500">
+              Anyone with this link can see your bookings. If it has been shared by mistake, reset it.
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setConfirmReset(true)}
+              disabled={resetFeed.isPending}
+              className="border-neutral-200"
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              {resetFeed.isPending ? 'Resetting...' : 'Reset Link'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmReset} onOpenChange={setConfirmReset}>
+        <AlertDialogContent className="bg-white border border-neutral-200 shadow-2xl rounded-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-red-700">Reset Feed Link</AlertDialogTitle>
+            <AlertDialogDescription className="text-neutral-500">
+              The current link stops working. Calendars subscribed to it stop updating until you subscribe with the new one.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="border-neutral-200">Keep It</AlertDialogCancel>
+            <AlertDialogAction onClick={handleReset} className="bg-red-600 hover:bg-red-700 text-white">
+              Reset
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
@@ -0,0 +1,75 @@
+import { DateRange } from 'react-day-picker'
+import { DailyAvailability } from '../lib/schemas'
+import dayjs from 'dayjs'
+
+type DayStatus = 'free' | 'booked' | 'closed'
+
+const dayStyles: Record<DayStatus, string> = {
+  free: 'bg-white border-neutral-200 text-neutral-800 hover:border-emerald-400 hover:bg-emerald-50/30 cursor-pointer',
+  booked: 'bg-red-50 border-red-200 text-red-700 cursor-not-allowed',
+  closed: 'bg-neutral-100 border-neutral-200 text-neutral-400 cursor-not-allowed',
+}
+
+interface DailyAvailabilityGridProps {
+  days: DailyAvailability['days']
+  selected?: DateRange
+  // Closures, past days and days beyond the booking window
+  isClosed: (date: Date) => boolean
+  onDayClick: (date: Date) => void
+}
+
+// Week-by-week view of which days a piece of equipment is free
+export function DailyAvailabilityGrid({ days, selected, isClosed, onDayClick }: DailyAvailabilityGridProps) {
+  if (days.length === 0) return null
+
+  const statusOf = (day: DailyAvailability['days'][number]): DayStatus => {
+    if (isClosed(dayjs(day.date).toDate())) return 'closed'
+    return day.available ? 'free' : 'booked'
+  }
+  const inRange = (date: string) => {
+    if (!selected?.from) return false
+    const day = dayjs(date)
+    const to = selected.to ?? selected.from
+    return !day.isBefore(dayjs(selected.from), 'day') && !day.isAfter(dayjs(to), 'day')
+  }
+  // Pad the first week so columns line up with weekdays
+  const leading = dayjs(days[0].date).day()
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-7 gap-2">
+        {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(name => (
+          <div key={name} className="text-center text-xs font-medium uppercase tracking-wide text-neutral-500">{name}</div>
+        ))}
+        {Array.from({ length: leading }, (_, i) => <div key={`pad-${i}`} />)}
+        {days.map(day => {
+          const date = dayjs(day.date)
+          const status = statusOf(day)
+          const selectedDay = inRange(day.date)
+          return (
+            <button
+              key={day.date}
+              type="button"
+              disabled={status !== 'free'}
+              onClick={() => onDayClick(date.toDate())}
+              className={`rounded-xl border p-2 text-center transition ${selectedDay
+                ? 'bg-emerald-600 border-emerald-600 text-white'
+                : dayStyles[status]}`}
+            >
+              <div className="text-sm font-semibold">{date.format('D')}</div>
+              <div className={`text-[10px] ${selectedDay ? 'text-white/80' : 'text-neutral-400'}`}>
+                {date.date() === 1 || day === days[0] ? date.format('MMM') : status === 'booked' ? 'Booked' : ' '}
+              </div>
+            </button>
+          )
+        })}
+      </div>
+      <div className="flex flex-wrap gap-4 text-xs text-neutral-500">
+        <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded border border-neutral-200 bg-white" /> Free</span>
+        <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded border border-red-200 bg-red-50" /> Booked</span>
+        <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded border border-neutral-200 bg-neutral-100" /> Closed</span>
+        <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded bg-emerald-600" /> Your loan</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react'
+import { Controller, useForm, useWatch } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { errorMessage } from '../lib/apiError'
+import { Booking } from '../lib/schemas'
+import {
+  equipmentReturnSchema, EquipmentReturnFormValues, MAX_RETURN_PHOTOS, returnConditionLabels, returnConditionSchema
+} from '../utils/validators'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { ImagePlus, PackageCheck, PackageOpen, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { useCheckOutEquipment, useReturnEquipment } from '../hooks/useBookings'
+import { formatBookingDates } from '../utils/equipment'
+import { applyFieldErrors } from '../utils/formErrors'
+
+const returnFormFields = ['condition', 'note'] as const
+
+interface EquipmentHandoverDialogProps {
+  // Approved loans are handed over; checked-out ones are taken back
+  booking: Booking | null
+  onClose: () => void
+}
+
+// Admin side of an equipment loan: hand the item over, then record its return
+export function EquipmentHandoverDialog({ booking, onClose }: EquipmentHandoverDialogProps) {
+  const checkOut = useCheckOutEquipment()
+  const recordReturn = useReturnEquipment()
+  const returning = booking?.status === 'checked_in'
+
+  const { control, register, handleSubmit, reset, setError, formState: { errors } } = useForm<EquipmentReturnFormValues>({
+    resolver: zodResolver(equipmentReturnSchema),
+    defaultValues: { condition: 'good', note: '' },
+  })
+  const condition = useWatch({ control, name: 'condition' })
+  const [photos, setPhotos] = useState<File[]>([])
+
+  useEffect(() => {
+    if (booking) reset({ condition: 'good', note: '' })
+  }, [booking, reset])
+
+  function close() {
+    setPhotos([])
+    onClose()
+  }
+
+  function addPhotos(files: FileList | null) {
+    const picked = Array.from(files ?? []).filter(f => f.type.startsWith('image/'))
+    if (photos.length + picked.length > MAX_RETURN_PHOTOS) {
+      toast.error(`Attach up to ${MAX_RETURN_PHOTOS} photos`)
+    }
+    setPhotos([...photos, ...picked].slice(0, MAX_RETURN_PHOTOS))
+  }
+
+  async function handleCheckOut() {
+    if (!booking) return
+    try {
+      await checkOut.mutateAsync({ id: booking.id })
+      toast.success(`${booking.resource_name} handed over to ${booking.employee_name}`)
+      onClose()
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to record checkout'))
+    }
+  }
+
+  async function handleReturn(values: EquipmentReturnFormValues) {
+    if (!booking) return
+    try {
+      await recordReturn.mutateAsync({ id: booking.id, values, photos })
+      toast.success(`${booking.resource_name} returned (${returnConditionLabels[values.condition].toLowerCase()})`)
+      close()
+    } catch (err) {
+      if (applyFieldErrors(err, setError, returnFormFields)) {
+        toast.error('Please fix the highlighted fields')
+      } else {
+        toast.error(errorMessage(err, 'Failed to record return'))
+      }
+    }
+  }
+
+  return (
+    <Dialog open={booking !== null} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="bg-white border border-neutral-200 shadow-2xl rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl text-neutral-900 flex items-center gap-2">
+            {returning ? <PackageCheck className="w-5 h-5 text-neutral-500" /> : <PackageOpen className="w-5 h-5 text-neutral-500" />}
+            {returning ? 'Record Return' : 'Hand Over Equipment'}
+          </DialogTitle>
+          {booking && (
+            <DialogDescription className="text-neutral-500">
+              {booking.resource_name} · {booking.employee_name} · {formatBookingDates(booking)}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {returning ? (
+          <form onSubmit={handleSubmit(handleReturn)} className="space-y-4 mt-2">
+            <div className="space-y-2">
+              <Label className="text-neutral-700">Condition *</Label>
+              <Controller
+                control={control}
+                name="condition"
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger className="border-neutral-200 bg-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-white">
+                      {returnConditionSchema.options.map(option => (
+                        <SelectItem key={option} value={option}>{returnConditionLabels[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="return_note" className="text-neutral-700">
+                Notes {condition === 'damaged' || condition === 'missing_parts' ? '*' : ''}
+              </Label>
+              <Textarea
+                id="return_note"
+                placeholder="e.g., Cracked screen corner, charger missing"
+                {...register('note')}
+                rows={3}
+                className="border-neutral-200 focus:ring-neutral-400"
+              />
+              {errors.note && <p className="text-sm text-red-600">{errors.note.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="return_photos" className="text-neutral-700">Photos</Label>
+              {photos.length > 0 && (
+                <ul className="space-y-1">
+                  {photos.map((photo, i) => (
+                    <li key={`${photo.name}-${i}`} className="flex items-center justify-between text-sm text-neutral-700 bg-neutral-50 border border-neutral-200 rounded-md px-3 py-1.5">
+                      <span className="truncate">{photo.name}</span>
+                      <button
+                        type="button"
+                        onClick={() => setPhotos(photos.filter((_, j) => j !== i))}
+                        className="text-neutral-400 hover:text-neutral-700"
+                        aria-label={`Remove ${photo.name}`}
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {photos.length < MAX_RETURN_PHOTOS && (
+                <label htmlFor="return_photos" className="flex items-center gap-2 text-sm text-neutral-600 cursor-pointer hover:text-neutral-900">
+                  <ImagePlus className="w-4 h-4" />
+                  Add photos of the item's condition
+                </label>
+              )}
+              <Input
+                id="return_photos"
+                type="file"
+                accept="image/*"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  addPhotos(e.target.files)
+                  e.target.value = ''
+                }}
+              />
+            </div>
+            <div className="flex gap-3">
+              <Button type="button" variant="outline" onClick={close} className="flex-1 border-neutral-200">
+                Cancel
+              </Button>
+              <Button type="submit" disabled={recordReturn.isPending} className="flex-1 bg-neutral-900 hover:bg-neutral-800 text-white">
+                {recordReturn.isPending ? 'Saving...' : 'Record Return'}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-4 mt-2">
+            <p className="text-sm text-neutral-600">
+              Confirm the item is leaving with the borrower now. The loan shows as checked out until it's returned.
+            </p>
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={onClose} className="flex-1 border-neutral-200">
+                Cancel
+              </Button>
+              <Button onClick={handleCheckOut} disabled={checkOut.isPending} className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white">
+                {checkOut.isPending ? 'Saving...' : 'Hand Over'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
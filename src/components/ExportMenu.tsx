@@ -0,0 +1,66 @@
+import React, { useState } from 'react'
+import { errorMessage } from '../lib/apiError'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Download, FileSpreadsheet, FileText } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface ExportOption {
+  label: string
+  format: 'csv' | 'pdf'
+  onSelect: () => void | Promise<void>
+}
+
+interface ExportMenuProps {
+  options: ExportOption[]
+  disabled?: boolean
+}
+
+export function ExportMenu({ options, disabled }: ExportMenuProps) {
+  const [exporting, setExporting] = useState(false)
+
+  async function run(option: ExportOption) {
+    setExporting(true)
+    try {
+      await option.onSelect()
+    } catch (err) {
+      toast.error(errorMessage(err, 'Export failed'))
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={disabled || exporting} className="border-neutral-200 text-neutral-700">
+          {exporting ? (
+            <span className="w-4 h-4 border-2 border-neutral-400 border-t-transparent rounded-full animate-spin mr-2" />
+          ) : (
+            <Download className="w-4 h-4 mr-2" />
+          )}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="bg-white rounded-xl shadow-lg border border-neutral-200">
+        {options.map(option => (
+          <DropdownMenuItem
+            key={option.label}
+            onClick={() => run(option)}
+            className="cursor-pointer rounded-lg"
+          >
+            {option.format === 'csv'
+              ? <FileSpreadsheet className="w-4 h-4 mr-2 text-neutral-500" />
+              : <FileText className="w-4 h-4 mr-2 text-neutral-500" />}
+            {option.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
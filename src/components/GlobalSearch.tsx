@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { api } from '../lib/api'
+import { bookingsApi, resourcesApi, usersApi } from '../lib/client'
 import {
   CommandDialog,
   CommandEmpty,
@@ -49,9 +49,9 @@ export function GlobalSearch() {
     setLoading(true)
     try {
       const [resourcesRes, bookingsRes, usersRes] = await Promise.all([
-        api.get<{ resources: any[] }>('/resources').catch(() => ({ resources: [] })),
-        api.get<{ bookings: any[] }>('/bookings').catch(() => ({ bookings: [] })),
-        api.get<{ users: any[] }>('/users').catch(() => ({ users: [] }))
+        resourcesApi.list().catch(() => ({ resources: [] })),
+        bookingsApi.list().catch(() => ({ bookings: [] })),
+        usersApi.list().catch(() => ({ users: [] }))
       ])
       const searchResults: SearchResult[] = []
       const lowerQuery = searchQuery.toLowerCase()
@@ -61,8 +61,8 @@ export function GlobalSearch() {
         .forEach(r => { searchResults.push({ type: 'resource', id: r.id, title: r.name, subtitle: r.location, url: `/resources/${r.id}` }) })
 
       bookingsRes.bookings
-        .filter(b => b.resource?.name.toLowerCase().includes(lowerQuery) || b.user?.name.toLowerCase().includes(lowerQuery))
-        .forEach(b => { searchResults.push({ type: 'booking', id: b.id, title: `${b.resource?.name} - ${b.user?.name}`, subtitle: dayjs(b.start_time).format('MMM D, YYYY h:mm A'), url: `/bookings/${b.id}` }) })
+        .filter(b => b.resource_name.toLowerCase().includes(lowerQuery) || b.employee_name.toLowerCase().includes(lowerQuery))
+        .forEach(b => { searchResults.push({ type: 'booking', id: b.id, title: `${b.resource_name} - ${b.employee_name}`, subtitle: dayjs(b.start_time).format('MMM D, YYYY h:mm A'), url: `/bookings/${b.id}` }) })
 
       usersRes.users
         .filter(u => u.name.toLowerCase().includes(lowerQuery) || u.email.toLowerCase().includes(lowerQuery))
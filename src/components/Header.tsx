@@ -1,7 +1,7 @@
 import React, { useState } from 'react'
 import { Link, useNavigate } from 'react-router-dom'
 import { useAuth } from '../store/authStore'
-import { api } from '../lib/api'
+import { authApi } from '../lib/client'
 import { Button } from '@/components/ui/button'
 // import { GlobalSearch } from './GlobalSearch'
 import {
@@ -30,7 +30,7 @@ const Header: React.FC = () => {
     navigate('/login', { replace: true })
     toast.success('Logged out successfully')
     try {
-      await api.del('/auth/logout')
+      await authApi.logout()
     } catch (err) {
       console.warn('Logout API call failed:', err)
     } finally {
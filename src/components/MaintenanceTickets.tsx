@@ -0,0 +1,199 @@
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { errorMessage } from '../lib/apiError'
+import { MaintenanceTicket, Resource } from '../lib/schemas'
+import { maintenanceTicketSchema, MaintenanceTicketFormValues } from '../utils/validators'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Plus, Wrench } from 'lucide-react'
+import { toast } from 'sonner'
+import { useMaintenanceTickets, useOpenMaintenanceTicket, useUpdateMaintenanceTicket } from '../hooks/useMaintenance'
+import { applyFieldErrors } from '../utils/formErrors'
+import dayjs from 'dayjs'
+
+const ticketFormFields = ['title', 'description'] as const
+
+interface MaintenanceTicketsProps {
+  resource: Resource
+}
+
+// Unresolved tickets for one resource, with reporting and resolving inline.
+// The resource can't be booked while any of these are open.
+export function MaintenanceTickets({ resource }: MaintenanceTicketsProps) {
+  const { data, isLoading } = useMaintenanceTickets({ resource_id: resource.id, unresolved: true })
+  const tickets = data?.tickets ?? []
+  const openTicket = useOpenMaintenanceTicket()
+  const updateTicket = useUpdateMaintenanceTicket()
+
+  const [reporting, setReporting] = useState(false)
+  const [resolving, setResolving] = useState<MaintenanceTicket | null>(null)
+  const [resolutionNote, setResolutionNote] = useState('')
+
+  const { register, handleSubmit, reset, setError, formState: { errors } } = useForm<MaintenanceTicketFormValues>({
+    resolver: zodResolver(maintenanceTicketSchema),
+    defaultValues: { title: '', description: '' },
+  })
+
+  async function handleReport(values: MaintenanceTicketFormValues) {
+    try {
+      await openTicket.mutateAsync({ resourceId: resource.id, values })
+      toast.success(`${resource.name} is out for maintenance until the ticket is resolved`)
+      reset()
+      setReporting(false)
+    } catch (err) {
+      if (applyFieldErrors(err, setError, ticketFormFields)) {
+        toast.error('Please fix the highlighted fields')
+      } else {
+        toast.error(errorMessage(err, 'Failed to open ticket'))
+      }
+    }
+  }
+
+  async function handleStart(ticket: MaintenanceTicket) {
+    try {
+      await updateTicket.mutateAsync({ id: ticket.id, status: 'in_progress' })
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to update ticket'))
+    }
+  }
+
+  async function handleResolve() {
+    if (!resolving) return
+    try {
+      await updateTicket.mutateAsync({
+        id: resolving.id,
+        status: 'resolved',
+        resolution_note: resolutionNote.trim() || undefined,
+      })
+      toast.success(`Resolved "${resolving.title}"`)
+      setResolving(null)
+      setResolutionNote('')
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to resolve ticket'))
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <p className="text-sm text-neutral-500">Loading tickets...</p>
+      ) : tickets.length === 0 ? (
+        <p className="text-sm text-neutral-500">No open tickets. The asset is available to book.</p>
+      ) : (
+        <ul className="space-y-2">
+          {tickets.map(ticket => (
+            <li key={ticket.id} className="border border-amber-200 bg-amber-50/50 rounded-lg p-3 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="text-sm font-medium text-neutral-900 flex items-center gap-2">
+                    <Wrench className="w-4 h-4 text-amber-600" />
+                    {ticket.title}
+                  </p>
+                  <p className="text-xs text-neutral-500">
+                    Opened {dayjs(ticket.created_at).format('MMM D, YYYY')}
+                    {ticket.reported_by_name && ` by ${ticket.reported_by_name}`}
+                  </p>
+                </div>
+                <Badge variant="outline" className="bg-white text-amber-700 border-amber-200 capitalize">
+                  {ticket.status.replace('_', ' ')}
+                </Badge>
+              </div>
+              {ticket.description && <p className="text-sm text-neutral-600">{ticket.description}</p>}
+
+              {resolving?.id === ticket.id ? (
+                <div className="space-y-2">
+                  <Textarea
+                    placeholder="What was done (optional)"
+                    value={resolutionNote}
+                    onChange={(e) => setResolutionNote(e.target.value)}
+                    rows={2}
+                    className="bg-white border-neutral-200"
+                  />
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => setResolving(null)} className="border-neutral-200">
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={handleResolve}
+                      disabled={updateTicket.isPending}
+                      className="bg-emerald-600 hover:bg-emerald-700 text-white"
+                    >
+                      {updateTicket.isPending ? 'Saving...' : 'Mark Resolved'}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  {ticket.status === 'open' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleStart(ticket)}
+                      disabled={updateTicket.isPending}
+                      className="border-neutral-200"
+                    >
+                      Start Work
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setResolving(ticket)
+                      setResolutionNote('')
+                    }}
+                    className="border-neutral-200"
+                  >
+                    Resolve
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {reporting ? (
+        <form onSubmit={handleSubmit(handleReport)} className="space-y-3 border border-neutral-200 rounded-lg p-3">
+          <div className="space-y-2">
+            <Label htmlFor="ticket_title">Issue *</Label>
+            <Input id="ticket_title" placeholder="e.g., Battery won't hold charge" {...register('title')} />
+            {errors.title && <p className="text-sm text-red-600">{errors.title.message}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ticket_description">Details</Label>
+            <Textarea id="ticket_description" rows={2} {...register('description')} />
+            {errors.description && <p className="text-sm text-red-600">{errors.description.message}</p>}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                reset()
+                setReporting(false)
+              }}
+              className="border-neutral-200"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={openTicket.isPending} className="bg-neutral-900 hover:bg-neutral-800 text-white">
+              {openTicket.isPending ? 'Opening...' : 'Open Ticket'}
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <Button size="sm" variant="outline" onClick={() => setReporting(true)} className="border-neutral-200">
+          <Plus className="w-4 h-4 mr-1" />
+          Report Issue
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react'
-import { api } from '../lib/api'
+import React from 'react'
+import { useNavigate } from 'react-router-dom'
 import { Button } from '@/components/ui/button'
 import {
   DropdownMenu,
@@ -10,61 +10,50 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 import { Badge } from '@/components/ui/badge'
-import { Bell, Check, Clock, CheckCircle, XCircle } from 'lucide-react'
+import { Bell, CalendarClock, Clock, CheckCircle, Hourglass, Users, UserX, XCircle } from 'lucide-react'
 import { toast } from 'sonner'
 import dayjs from 'dayjs'
 import relativeTime from 'dayjs/plugin/relativeTime'
+import { Notification } from '../lib/schemas'
+import { errorMessage } from '../lib/apiError'
+import { useAuth } from '../store/authStore'
+import { Role } from '../types/auth'
+import {
+  useMarkAllNotificationsRead, useMarkNotificationRead, useNotifications
+} from '../hooks/useNotifications'
 
 dayjs.extend(relativeTime)
 
-interface Notification {
-  id: number
-  user_id: number
-  booking_id?: number
-  notification_type: string
-  channel: string
-  message: string
-  is_read: boolean
-  sent_at: string
-  created_at: string
-}
-
 export function NotificationCenter() {
-  const [notifications, setNotifications] = useState<Notification[]>([])
-  const [unreadCount, setUnreadCount] = useState(0)
-  const [loading, setLoading] = useState(false)
+  const navigate = useNavigate()
+  const role = useAuth(state => state.user?.role)
+  const { data, isError, fetchNextPage, hasNextPage, isFetchingNextPage } = useNotifications()
+  const markRead = useMarkNotificationRead()
+  const markAllRead = useMarkAllNotificationsRead()
 
-  useEffect(() => {
-    fetchNotifications()
-    const interval = setInterval(fetchNotifications, 30000)
-    return () => clearInterval(interval)
-  }, [])
+  const notifications = data?.pages.flatMap(p => p.notifications) ?? []
+  const unreadCount = data?.pages[0]?.unread_count ?? 0
 
-  async function fetchNotifications() {
-    try {
-      setNotifications([])
-      setUnreadCount(0)
-    } catch (err) {
-      console.error('Failed to fetch notifications:', err)
+  function handleSelect(notification: Notification) {
+    if (!notification.is_read) markRead.mutate(notification.id)
+    // Held slots are claimed from the waitlist card in the employee's history
+    if (notification.notification_type.startsWith('waitlist_') && role !== Role.Admin) {
+      navigate('/dashboard/employee/history#waitlist')
+      return
     }
-  }
+    if (notification.booking_id == null) return
 
-  async function markAsRead(id: number) {
-    try {
-      setNotifications(prev => prev.map(n => n.id === id ? { ...n, is_read: true } : n))
-      setUnreadCount(prev => Math.max(0, prev - 1))
-    } catch (err) {
-      fetchNotifications()
-    }
+    // Admins review bookings in the management table, employees in their history
+    const base = role === Role.Admin ? '/dashboard/admin/bookings' : '/dashboard/employee/history'
+    navigate(`${base}?booking=${notification.booking_id}`)
   }
 
   async function markAllAsRead() {
     try {
-      setNotifications(prev => prev.map(n => ({ ...n, is_read: true })))
-      setUnreadCount(0)
+      await markAllRead.mutateAsync()
       toast.success('All notifications marked as read')
     } catch (err) {
-      fetchNotifications()
+      toast.error(errorMessage(err, 'Failed to mark notifications as read'))
     }
   }
 
@@ -73,6 +62,13 @@ export function NotificationCenter() {
       case 'booking_approved': return <CheckCircle className="w-4 h-4 text-emerald-600" />
       case 'booking_rejected': return <XCircle className="w-4 h-4 text-red-600" />
       case 'booking_reminder': return <Clock className="w-4 h-4 text-amber-600" />
+      case 'booking_no_show': return <UserX className="w-4 h-4 text-orange-600" />
+      case 'booking_change_requested': return <CalendarClock className="w-4 h-4 text-amber-600" />
+      case 'booking_change_approved': return <CalendarClock className="w-4 h-4 text-emerald-600" />
+      case 'booking_change_rejected': return <CalendarClock className="w-4 h-4 text-red-600" />
+      case 'booking_invitation': return <Users className="w-4 h-4 text-blue-600" />
+      case 'waitlist_offered': return <Hourglass className="w-4 h-4 text-emerald-600" />
+      case 'waitlist_expired': return <Hourglass className="w-4 h-4 text-neutral-400" />
       default: return <Bell className="w-4 h-4 text-neutral-600" />
     }
   }
@@ -97,7 +93,7 @@ export function NotificationCenter() {
         <DropdownMenuLabel className="flex items-center justify-between text-neutral-900">
           <span>Notifications</span>
           {unreadCount > 0 && (
-            <Button variant="ghost" size="sm" onClick={markAllAsRead} className="text-xs h-auto py-1 text-neutral-500 hover:text-neutral-900">
+            <Button variant="ghost" size="sm" onClick={markAllAsRead} disabled={markAllRead.isPending} className="text-xs h-auto py-1 text-neutral-500 hover:text-neutral-900">
               Mark all read
             </Button>
           )}
@@ -105,7 +101,12 @@ export function NotificationCenter() {
         <DropdownMenuSeparator className="bg-neutral-100" />
 
         <div className="max-h-96 overflow-y-auto">
-          {notifications.length === 0 ? (
+          {isError && notifications.length === 0 ? (
+            <div className="p-8 text-center text-neutral-400">
+              <Bell className="w-12 h-12 mx-auto mb-3 text-neutral-200" />
+              <p className="text-sm">Couldn't load notifications</p>
+            </div>
+          ) : notifications.length === 0 ? (
             <div className="p-8 text-center text-neutral-400">
               <Bell className="w-12 h-12 mx-auto mb-3 text-neutral-200" />
               <p className="text-sm">No notifications yet</p>
@@ -115,7 +116,7 @@ export function NotificationCenter() {
               <DropdownMenuItem
                 key={notification.id}
                 className={`p-4 cursor-pointer ${!notification.is_read ? 'bg-neutral-50' : ''}`}
-                onClick={() => !notification.is_read && markAsRead(notification.id)}
+                onClick={() => handleSelect(notification)}
               >
                 <div className="flex gap-3 w-full">
                   <div className="flex-shrink-0 mt-1">
@@ -138,6 +139,19 @@ export function NotificationCenter() {
               </DropdownMenuItem>
             ))
           )}
+          {hasNextPage && (
+            <div className="p-2 border-t border-neutral-100">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                className="w-full text-xs text-neutral-500 hover:text-neutral-900"
+              >
+                {isFetchingNextPage ? 'Loading...' : 'Load older notifications'}
+              </Button>
+            </div>
+          )}
         </div>
       </DropdownMenuContent>
     </DropdownMenu>
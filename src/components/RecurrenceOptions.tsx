@@ -0,0 +1,164 @@
+import React from 'react'
+import dayjs from 'dayjs'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select'
+import { Repeat } from 'lucide-react'
+import { defaultRecurrence, Occurrence } from '../utils/recurrence'
+import { MAX_OCCURRENCES, RecurrenceFormValues, recurrenceSchema } from '../utils/validators'
+
+type RepeatChoice = 'none' | 'daily' | 'weekly' | 'biweekly'
+
+function toChoice(value: RecurrenceFormValues | null): RepeatChoice {
+  if (!value) return 'none'
+  if (value.frequency === 'daily') return 'daily'
+  return value.interval === 2 ? 'biweekly' : 'weekly'
+}
+
+interface RecurrenceOptionsProps {
+  value: RecurrenceFormValues | null
+  onChange: (value: RecurrenceFormValues | null) => void
+  // Date of the first occurrence; the series can't end before it
+  firstDate: Date
+}
+
+export function RecurrenceOptions({ value, onChange, firstDate }: RecurrenceOptionsProps) {
+  const errors = value ? recurrenceSchema.safeParse(value).error?.issues ?? [] : []
+  const errorFor = (field: string) => errors.find(issue => issue.path[0] === field)?.message
+
+  function handleRepeatChange(choice: RepeatChoice) {
+    if (choice === 'none') return onChange(null)
+    const base = value ?? defaultRecurrence
+    onChange({
+      ...base,
+      frequency: choice === 'daily' ? 'daily' : 'weekly',
+      interval: choice === 'biweekly' ? 2 : 1,
+    })
+  }
+
+  function update(patch: Partial<RecurrenceFormValues>) {
+    if (value) onChange({ ...value, ...patch })
+  }
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-sm font-medium text-neutral-700 flex items-center gap-2">
+        <Repeat className="w-4 h-4 text-neutral-500" />
+        Repeat
+      </Label>
+      <Select value={toChoice(value)} onValueChange={(v) => handleRepeatChange(v as RepeatChoice)}>
+        <SelectTrigger className="border-neutral-200 bg-white"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Does not repeat</SelectItem>
+          <SelectItem value="daily">Daily</SelectItem>
+          <SelectItem value="weekly">Weekly on {dayjs(firstDate).format('dddd')}</SelectItem>
+          <SelectItem value="biweekly">Every 2 weeks on {dayjs(firstDate).format('dddd')}</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs text-neutral-500">Ends</Label>
+              <Select value={value.ends} onValueChange={(v) => update({ ends: v as RecurrenceFormValues['ends'] })}>
+                <SelectTrigger className="border-neutral-200 bg-white"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="after_count">After</SelectItem>
+                  <SelectItem value="on_date">On date</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              {value.ends === 'after_count' ? (
+                <>
+                  <Label htmlFor="recurrence-count" className="text-xs text-neutral-500">Occurrences</Label>
+                  <Input
+                    id="recurrence-count"
+                    type="number"
+                    min={2}
+                    max={MAX_OCCURRENCES}
+                    value={value.count ?? ''}
+                    onChange={(e) => update({ count: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    className="border-neutral-200"
+                  />
+                </>
+              ) : (
+                <>
+                  <Label htmlFor="recurrence-until" className="text-xs text-neutral-500">Last date</Label>
+                  <Input
+                    id="recurrence-until"
+                    type="date"
+                    min={dayjs(firstDate).add(1, 'day').format('YYYY-MM-DD')}
+                    value={value.until ?? ''}
+                    onChange={(e) => update({ until: e.target.value || undefined })}
+                    className="border-neutral-200"
+                  />
+                </>
+              )}
+            </div>
+          </div>
+          {(errorFor('count') || errorFor('until')) && (
+            <p className="text-sm text-red-600">{errorFor('count') || errorFor('until')}</p>
+          )}
+
+          <div className="space-y-2">
+            {value.frequency === 'daily' && (
+              <label className="flex items-center gap-2 text-sm text-neutral-700 cursor-pointer">
+                <Checkbox
+                  checked={value.skip_weekends}
+                  onCheckedChange={(checked) => update({ skip_weekends: checked === true })}
+                />
+                Skip weekends
+              </label>
+            )}
+            <label className="flex items-center gap-2 text-sm text-neutral-700 cursor-pointer">
+              <Checkbox
+                checked={value.skip_holidays}
+                onCheckedChange={(checked) => update({ skip_holidays: checked === true })}
+              />
+              Skip holidays
+            </label>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export type OccurrenceStatus = 'checking' | 'available' | 'unavailable' | 'unknown' | 'skipped'
+
+const occurrenceBadges: Record<OccurrenceStatus, { label: string; color: string }> = {
+  checking:    { label: 'Checking…',   color: 'bg-neutral-100 text-neutral-500 border-neutral-200' },
+  available:   { label: 'Available',   color: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  unavailable: { label: 'Unavailable', color: 'bg-red-50 text-red-700 border-red-200' },
+  unknown:     { label: 'Not checked', color: 'bg-amber-50 text-amber-700 border-amber-200' },
+  skipped:     { label: 'Skipped',     color: 'bg-neutral-100 text-neutral-400 border-neutral-200' },
+}
+
+interface RecurrencePreviewProps {
+  occurrences: (Occurrence & { status: OccurrenceStatus })[]
+}
+
+// One row per date the rule lands on, with whether it can be booked
+export function RecurrencePreview({ occurrences }: RecurrencePreviewProps) {
+  return (
+    <ul className="max-h-64 overflow-y-auto divide-y divide-neutral-100 rounded-xl border border-neutral-200 bg-white">
+      {occurrences.map(o => (
+        <li key={o.start_time} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+          <span className={o.status === 'skipped' ? 'text-neutral-400 line-through' : 'text-neutral-800'}>
+            {dayjs(o.start_time).format('ddd, MMM D, YYYY')}
+            <span className="text-neutral-400"> · {dayjs(o.start_time).format('h:mm A')} – {dayjs(o.end_time).format('h:mm A')}</span>
+          </span>
+          <Badge className={`${occurrenceBadges[o.status].color} border shrink-0`}>
+            {o.status === 'skipped' && o.skipped === 'holiday' ? 'Holiday' : occurrenceBadges[o.status].label}
+          </Badge>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,283 @@
+import React, { useState } from 'react'
+import { Booking, TimeSlot } from '../lib/schemas'
+import { errorMessage } from '../lib/apiError'
+import { bookingConflictFrom } from '../lib/client'
+import { formatChangeSlot } from '../utils/bookingChanges'
+import { EffectivePolicy, formatHours, latestBookableDate } from '../utils/policies'
+import { rankAlternativeResources, rankNearbySlots } from '../utils/suggestions'
+import { useRequestBookingChange } from '../hooks/useBookings'
+import { usePolicyForBooking } from '../hooks/usePolicies'
+import { useResource, useRescheduleAvailability, useSlotSuggestions } from '../hooks/useResources'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Textarea } from '@/components/ui/textarea'
+import { Info, Lightbulb, MapPin } from 'lucide-react'
+import { toast } from 'sonner'
+import dayjs from 'dayjs'
+
+interface RescheduleDialogProps {
+  booking: Booking
+  onClose: () => void
+}
+
+// Asks to move a booking. Nothing changes until the request is approved, so
+// the current slot is never lost by trying.
+export function RescheduleDialog({ booking, onClose }: RescheduleDialogProps) {
+  const policy = usePolicyForBooking()(booking)
+
+  // Durations and how far ahead it can move come from the policy
+  if (!policy) {
+    return (
+      <Dialog open onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="max-w-2xl bg-white border border-neutral-200 shadow-2xl rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-2xl font-semibold text-neutral-900">Reschedule Booking</DialogTitle>
+            <DialogDescription className="text-neutral-500">Loading the booking policy...</DialogDescription>
+          </DialogHeader>
+          <Skeleton className="h-40 w-full" />
+        </DialogContent>
+      </Dialog>
+    )
+  }
+  return <RescheduleForm booking={booking} policy={policy} onClose={onClose} />
+}
+
+function RescheduleForm({ booking, policy, onClose }: RescheduleDialogProps & { policy: EffectivePolicy }) {
+  const currentLength = dayjs(booking.end_time).diff(dayjs(booking.start_time), 'minute') / 60
+
+  const [target, setTarget] = useState({ id: booking.resource_id, name: booking.resource_name })
+  const [date, setDate] = useState(dayjs(booking.start_time).format('YYYY-MM-DD'))
+  const [duration, setDuration] = useState(currentLength)
+  const [slot, setSlot] = useState<TimeSlot | null>(null)
+  // A taken slot the alternatives are suggested around
+  const [takenSlot, setTakenSlot] = useState<TimeSlot | null>(null)
+  const [reason, setReason] = useState('')
+
+  const durations = policy.allowed_durations
+  const slotDuration = durations.includes(duration) ? duration : durations[0]
+
+  const availability = useRescheduleAvailability(booking.id, target.id, date, slotDuration)
+  const now = dayjs()
+  const slots = (availability.data?.available_slots ?? []).filter(s => dayjs(s.start_time).isAfter(now))
+
+  const { data: targetResource } = useResource(target.id)
+  const suggestions = useSlotSuggestions(takenSlot ? target.id : null, takenSlot)
+  const alternativeSlots = takenSlot && suggestions.data ? rankNearbySlots(takenSlot, suggestions.data.slots).slice(0, 6) : []
+  const alternativeResources = takenSlot && targetResource && suggestions.data
+    ? rankAlternativeResources(targetResource, suggestions.data.resources).slice(0, 3)
+    : []
+
+  const requestChange = useRequestBookingChange()
+  const unchanged = slot !== null && target.id === booking.resource_id &&
+    dayjs(slot.start_time).isSame(dayjs(booking.start_time)) && dayjs(slot.end_time).isSame(dayjs(booking.end_time))
+
+  function pick(next: TimeSlot) {
+    if (next.available) {
+      setSlot(next)
+      setTakenSlot(null)
+    } else {
+      setSlot(null)
+      setTakenSlot(next)
+    }
+  }
+
+  function changeDate(value: string) {
+    setDate(value)
+    setSlot(null)
+    setTakenSlot(null)
+  }
+
+  async function handleSubmit() {
+    if (!slot) return
+    try {
+      const change = await requestChange.mutateAsync({
+        id: booking.id,
+        values: {
+          resource_id: target.id,
+          start_time: slot.start_time,
+          end_time: slot.end_time,
+          reason: reason.trim() || undefined,
+        },
+      })
+      if (change.status === 'approved') toast.success(`Moved to ${formatChangeSlot(change.start_time, change.end_time)}`)
+      else toast.success('Change requested. Your current booking stands until it is approved.')
+      onClose()
+    } catch (err) {
+      // Someone took the slot while the dialog was open
+      if (bookingConflictFrom(err)) availability.refetch()
+      toast.error(errorMessage(err, 'Failed to request the change'))
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl bg-white border border-neutral-200 shadow-2xl rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-semibold text-neutral-900">Reschedule Booking</DialogTitle>
+          <DialogDescription className="text-neutral-500">
+            {booking.resource_name} · currently {formatChangeSlot(booking.start_time, booking.end_time)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 mt-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="reschedule-date" className="text-neutral-700">Date</Label>
+              <Input
+                id="reschedule-date"
+                type="date"
+                min={now.format('YYYY-MM-DD')}
+                max={latestBookableDate(policy).format('YYYY-MM-DD')}
+                value={date}
+                onChange={(e) => e.target.value && changeDate(e.target.value)}
+                className="border-neutral-200"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-neutral-700">Duration</Label>
+              <Select value={String(slotDuration)} onValueChange={(v) => { setDuration(Number(v)); setSlot(null); setTakenSlot(null) }}>
+                <SelectTrigger className="border-neutral-200"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {durations.map(d => (
+                    <SelectItem key={d} value={String(d)}>{formatHours(d)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm text-neutral-700 mb-2">
+              {target.id === booking.resource_id ? 'Times' : `Times for ${target.name}`}
+              {target.id !== booking.resource_id && (
+                <button
+                  type="button"
+                  onClick={() => { setTarget({ id: booking.resource_id, name: booking.resource_name }); setSlot(null) }}
+                  className="ml-2 text-xs text-neutral-500 underline"
+                >
+                  Back to {booking.resource_name}
+                </button>
+              )}
+            </p>
+            {availability.isLoading ? (
+              <div className="grid grid-cols-4 gap-2">
+                {[1, 2, 3, 4, 5, 6, 7, 8].map(i => <Skeleton key={i} className="h-10" />)}
+              </div>
+            ) : slots.length === 0 ? (
+              <p className="text-sm text-neutral-500 bg-neutral-50 border border-neutral-200 rounded-xl p-4">
+                No times left on this day. Try another date.
+              </p>
+            ) : (
+              <div className="grid grid-cols-4 gap-2 max-h-56 overflow-y-auto">
+                {slots.map(s => {
+                  const selected = slot?.start_time === s.start_time
+                  return (
+                    <button
+                      key={s.start_time}
+                      type="button"
+                      onClick={() => pick(s)}
+                      className={`rounded-lg border px-2 py-2 text-sm transition ${selected
+                        ? 'bg-emerald-600 border-emerald-600 text-white'
+                        : s.available
+                          ? 'bg-white border-neutral-200 text-neutral-800 hover:border-emerald-400 hover:bg-emerald-50/30'
+                          : 'bg-neutral-100 border-neutral-200 text-neutral-400 line-through'}`}
+                    >
+                      {dayjs(s.start_time).format('h:mm A')}
+                    </button>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+
+          {takenSlot && (
+            <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 space-y-3">
+              <p className="text-sm font-medium text-amber-900 flex items-center gap-2">
+                <Lightbulb className="w-4 h-4" />
+                {dayjs(takenSlot.start_time).format('h:mm A')} is taken. How about:
+              </p>
+              {suggestions.isLoading ? (
+                <Skeleton className="h-10 w-full" />
+              ) : alternativeSlots.length === 0 && alternativeResources.length === 0 ? (
+                <p className="text-sm text-amber-800">Nothing close by. Try another date.</p>
+              ) : (
+                <>
+                  {alternativeSlots.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {alternativeSlots.map(s => (
+                        <Button
+                          key={s.start_time}
+                          size="sm"
+                          variant="outline"
+                          onClick={() => { setDate(dayjs(s.start_time).format('YYYY-MM-DD')); pick(s) }}
+                          className="bg-white border-amber-200"
+                        >
+                          {dayjs(s.start_time).format(dayjs(s.start_time).isSame(dayjs(date), 'day') ? 'h:mm A' : 'ddd h:mm A')}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                  {alternativeResources.map(r => (
+                    <button
+                      key={r.id}
+                      type="button"
+                      // Free at the time that was asked for, so keep that slot
+                      onClick={() => { setTarget({ id: r.id, name: r.name }); pick({ ...takenSlot, available: true }) }}
+                      className="w-full text-left bg-white border border-amber-200 rounded-lg px-3 py-2 hover:border-emerald-400 transition"
+                    >
+                      <span className="text-sm font-medium text-neutral-900">{r.name}</span>
+                      <span className="text-xs text-neutral-500 ml-2 inline-flex items-center gap-1">
+                        <MapPin className="w-3 h-3" />{r.location}
+                      </span>
+                    </button>
+                  ))}
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="reschedule-reason" className="text-neutral-700">Reason (optional)</Label>
+            <Textarea
+              id="reschedule-reason"
+              rows={2}
+              maxLength={500}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., Client moved the call"
+              className="border-neutral-200"
+            />
+          </div>
+
+          <p className="text-xs text-neutral-500 flex items-start gap-2">
+            <Info className="w-4 h-4 shrink-0" />
+            {policy.auto_approve
+              ? 'The new time is confirmed straight away if it is still free.'
+              : 'An admin approves the new time. Until then you keep your current booking.'}
+          </p>
+
+          <div className="flex gap-3">
+            <Button
+              onClick={handleSubmit}
+              disabled={!slot || unchanged || requestChange.isPending}
+              className="flex-1 bg-neutral-900 hover:bg-neutral-800 text-white"
+            >
+              {requestChange.isPending
+                ? 'Sending...'
+                : slot ? `Move to ${dayjs(slot.start_time).format('ddd, MMM D h:mm A')}` : 'Pick a new time'}
+            </Button>
+            <Button variant="outline" onClick={onClose} className="flex-1 border-neutral-200">Cancel</Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
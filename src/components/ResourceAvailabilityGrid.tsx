@@ -0,0 +1,114 @@
+import React, { useState } from 'react'
+import { Resource, TimeSlot } from '../lib/schemas'
+import { useResourcesAvailability } from '../hooks/useResources'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { MapPin } from 'lucide-react'
+import dayjs from 'dayjs'
+
+// Rows load a batch at a time so a big pool doesn't fire dozens of requests at once
+const BATCH_SIZE = 10
+
+interface ResourceAvailabilityGridProps {
+  resources: Resource[]
+  date: string
+  duration: number
+  // Resources whose policy doesn't allow `duration` aren't queried at all
+  bookable: (resource: Resource) => boolean
+  onSelect: (resource: Resource, slot: TimeSlot) => void
+}
+
+// Resources down the side, the day's slots across the top
+export function ResourceAvailabilityGrid({ resources, date, duration, bookable, onSelect }: ResourceAvailabilityGridProps) {
+  const [shown, setShown] = useState(BATCH_SIZE)
+  const rows = resources.slice(0, shown)
+  const queried = rows.filter(bookable)
+  const results = useResourcesAvailability(queried.map(r => r.id), date, duration)
+
+  const slotsOf = (resource: Resource) => results[queried.indexOf(resource)]
+  // Opening hours can differ per resource, so the columns are every start time any row offers
+  const columns = [...new Set(results.flatMap(r => r.data?.available_slots ?? []).map(s => dayjs(s.start_time).format('HH:mm')))]
+    .sort()
+  const now = dayjs()
+
+  if (resources.length === 0) return null
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto border border-neutral-200 rounded-2xl bg-white">
+        <table className="w-full border-collapse text-sm">
+          <thead>
+            <tr className="bg-neutral-50">
+              <th className="sticky left-0 z-10 bg-neutral-50 text-left font-semibold text-neutral-600 px-4 py-3 min-w-48 border-b border-neutral-200">
+                Resource
+              </th>
+              {columns.map(time => (
+                <th key={time} className="font-medium text-neutral-500 px-1 py-3 border-b border-neutral-200 whitespace-nowrap">
+                  {dayjs(`${date}T${time}`).format('h:mm A')}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(resource => {
+              const query = slotsOf(resource)
+              return (
+                <tr key={resource.id} className="border-b border-neutral-100 last:border-0">
+                  <td className="sticky left-0 z-10 bg-white px-4 py-2">
+                    <p className="font-medium text-neutral-900">{resource.name}</p>
+                    {resource.location && (
+                      <p className="text-xs text-neutral-500 flex items-center gap-1">
+                        <MapPin className="w-3 h-3" />
+                        {resource.location}
+                      </p>
+                    )}
+                  </td>
+                  {!query ? (
+                    <td colSpan={Math.max(columns.length, 1)} className="px-2 py-2 text-xs text-neutral-400">
+                      Can't be booked for this length
+                    </td>
+                  ) : query.isLoading ? (
+                    <td colSpan={Math.max(columns.length, 1)} className="px-2 py-2"><Skeleton className="h-8 w-full" /></td>
+                  ) : query.isError ? (
+                    <td colSpan={Math.max(columns.length, 1)} className="px-2 py-2 text-xs text-red-600">
+                      Couldn't load availability
+                    </td>
+                  ) : (
+                    columns.map(time => {
+                      const slot = query.data?.available_slots.find(s => dayjs(s.start_time).format('HH:mm') === time)
+                      if (!slot) return <td key={time} className="px-1 py-2" />
+                      const free = slot.available && dayjs(slot.start_time).isAfter(now)
+                      return (
+                        <td key={time} className="px-1 py-2">
+                          <button
+                            type="button"
+                            disabled={!free}
+                            onClick={() => onSelect(resource, slot)}
+                            title={`${resource.name} · ${dayjs(slot.start_time).format('h:mm A')} - ${dayjs(slot.end_time).format('h:mm A')}`}
+                            className={`w-full min-w-14 h-8 rounded-lg border text-xs transition ${free
+                              ? 'bg-white border-emerald-200 text-emerald-700 hover:bg-emerald-50 hover:border-emerald-400 cursor-pointer'
+                              : 'bg-neutral-100 border-neutral-200 text-neutral-400 cursor-not-allowed'}`}
+                          >
+                            {free ? 'Book' : slot.available ? 'Past' : 'Taken'}
+                          </button>
+                        </td>
+                      )
+                    })
+                  )}
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {shown < resources.length && (
+        <div className="text-center">
+          <Button variant="outline" onClick={() => setShown(shown + BATCH_SIZE)}>
+            Show {Math.min(BATCH_SIZE, resources.length - shown)} more
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
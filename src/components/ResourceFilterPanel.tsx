@@ -0,0 +1,188 @@
+import React from 'react'
+import dayjs from 'dayjs'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select'
+import { Clock, SlidersHorizontal, X } from 'lucide-react'
+import { Resource, ResourceTypeDefinition } from '../lib/schemas'
+import {
+  activeFilterCount, distinctValues, emptyResourceFilters, emptyTimeWindow, filterableFields, FilterValue,
+  locationsOf, ResourceFilters, TimeWindow,
+} from '../utils/resourceFilters'
+import { PropertyField } from '../utils/validators'
+
+const ANY = 'any'
+
+interface ResourceFilterPanelProps {
+  definition: ResourceTypeDefinition
+  // Every resource of the type, for the location and brand choices
+  resources: Resource[]
+  filters: ResourceFilters
+  onFiltersChange: (filters: ResourceFilters) => void
+  // Only for types booked by the slot; equipment is loaned by the day
+  when?: TimeWindow
+  onWhenChange?: (when: TimeWindow) => void
+}
+
+export function ResourceFilterPanel({
+  definition, resources, filters, onFiltersChange, when, onWhenChange,
+}: ResourceFilterPanelProps) {
+  const fields = filterableFields(definition)
+  const locations = locationsOf(resources)
+  const numberFields = definition.properties.filter(f => f.type === 'number')
+  const hasWhen = when != null && (when.date !== '' || when.from !== '' || when.to !== '')
+
+  function setProperty(key: string, value: FilterValue | undefined) {
+    const properties = { ...filters.properties }
+    if (value === undefined) delete properties[key]
+    else properties[key] = value
+    onFiltersChange({ ...filters, properties })
+  }
+
+  function clear() {
+    onFiltersChange({ ...emptyResourceFilters, sort: filters.sort })
+    onWhenChange?.(emptyTimeWindow)
+  }
+
+  const renderField = (field: PropertyField) => {
+    const id = `filter_${field.key}`
+    const value = filters.properties[field.key]
+
+    if (field.type === 'boolean') {
+      return (
+        <label key={field.key} htmlFor={id} className="flex items-center gap-2 text-sm text-neutral-700 cursor-pointer self-end h-9">
+          <Checkbox id={id} checked={value === true} onCheckedChange={(checked) => setProperty(field.key, checked === true ? true : undefined)} />
+          {field.label}
+        </label>
+      )
+    }
+
+    if (field.type === 'number') {
+      return (
+        <div key={field.key} className="space-y-1">
+          <Label htmlFor={id} className="text-xs text-neutral-500">
+            Min. {field.label.toLowerCase()}{field.unit ? ` (${field.unit})` : ''}
+          </Label>
+          <Input
+            id={id}
+            type="number"
+            min={field.min}
+            max={field.max}
+            placeholder="Any"
+            value={value === undefined ? '' : String(value)}
+            onChange={(e) => setProperty(field.key, e.target.value === '' ? undefined : Number(e.target.value))}
+            className="border-neutral-200 bg-white"
+          />
+        </div>
+      )
+    }
+
+    // Choices come from the definition; free text from what the resources carry
+    const options = field.type === 'select' ? field.options : distinctValues(resources, field.key)
+    return (
+      <div key={field.key} className="space-y-1">
+        <Label htmlFor={id} className="text-xs text-neutral-500">{field.label}</Label>
+        <Select
+          value={value === undefined ? ANY : String(value)}
+          onValueChange={(v) => setProperty(field.key, v === ANY ? undefined : v)}
+        >
+          <SelectTrigger id={id} className="border-neutral-200 bg-white"><SelectValue /></SelectTrigger>
+          <SelectContent className="bg-white">
+            <SelectItem value={ANY}>Any {field.label.toLowerCase()}</SelectItem>
+            {options.map(option => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white border border-neutral-200 rounded-2xl p-4 mb-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-neutral-900 flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4 text-neutral-500" />
+          Filters
+        </p>
+        {(activeFilterCount(filters) > 0 || hasWhen) && (
+          <Button variant="ghost" size="sm" onClick={clear} className="text-neutral-500">
+            <X className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="filter_location" className="text-xs text-neutral-500">Location</Label>
+          <Select
+            value={filters.location ?? ANY}
+            onValueChange={(v) => onFiltersChange({ ...filters, location: v === ANY ? null : v })}
+          >
+            <SelectTrigger id="filter_location" className="border-neutral-200 bg-white"><SelectValue /></SelectTrigger>
+            <SelectContent className="bg-white">
+              <SelectItem value={ANY}>Any location</SelectItem>
+              {locations.map(location => (
+                <SelectItem key={location} value={location}>{location}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {fields.map(renderField)}
+        <div className="space-y-1">
+          <Label htmlFor="filter_sort" className="text-xs text-neutral-500">Sort by</Label>
+          <Select value={filters.sort} onValueChange={(v) => onFiltersChange({ ...filters, sort: v })}>
+            <SelectTrigger id="filter_sort" className="border-neutral-200 bg-white"><SelectValue /></SelectTrigger>
+            <SelectContent className="bg-white">
+              <SelectItem value="name">Name</SelectItem>
+              <SelectItem value="location">Location</SelectItem>
+              {numberFields.map(field => (
+                <SelectItem key={field.key} value={field.key}>{field.label} (highest first)</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {when && onWhenChange && (
+        <div className="border-t border-neutral-100 pt-4">
+          <p className="text-xs text-neutral-500 mb-2 flex items-center gap-1">
+            <Clock className="w-3 h-3" />
+            Free at a particular time?
+          </p>
+          <div className="grid grid-cols-3 gap-3 max-w-xl">
+            <Input
+              type="date"
+              aria-label="Date"
+              min={dayjs().format('YYYY-MM-DD')}
+              value={when.date}
+              onChange={(e) => onWhenChange({ ...when, date: e.target.value })}
+              className="border-neutral-200 bg-white"
+            />
+            <Input
+              type="time"
+              aria-label="From"
+              step={1800}
+              value={when.from}
+              onChange={(e) => onWhenChange({ ...when, from: e.target.value })}
+              className="border-neutral-200 bg-white"
+            />
+            <Input
+              type="time"
+              aria-label="To"
+              step={1800}
+              value={when.to}
+              onChange={(e) => onWhenChange({ ...when, to: e.target.value })}
+              className="border-neutral-200 bg-white"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
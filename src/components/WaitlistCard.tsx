@@ -0,0 +1,160 @@
+import { useEffect, useRef } from 'react'
+import { useLocation } from 'react-router-dom'
+import { WaitlistEntry } from '../lib/schemas'
+import { errorMessage } from '../lib/apiError'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from '@/components/ui/table'
+import { Calendar, Clock, Hourglass, MapPin } from 'lucide-react'
+import { toast } from 'sonner'
+import { TableSkeleton } from './TableSkeleton'
+import { useClaimWaitlistSlot, useLeaveWaitlist, useWaitlist } from '../hooks/useWaitlist'
+import { canClaim, isQueued } from '../utils/waitlist'
+import dayjs from 'dayjs'
+import relativeTime from 'dayjs/plugin/relativeTime'
+
+dayjs.extend(relativeTime)
+
+const statusColors: Record<WaitlistEntry['status'], string> = {
+  waiting:   'bg-amber-50 text-amber-700 border-amber-200',
+  offered:   'bg-emerald-50 text-emerald-700 border-emerald-200',
+  claimed:   'bg-violet-50 text-violet-700 border-violet-200',
+  expired:   'bg-neutral-100 text-neutral-500 border-neutral-200',
+  cancelled: 'bg-neutral-100 text-neutral-500 border-neutral-200',
+}
+
+function statusDetail(entry: WaitlistEntry) {
+  if (entry.status === 'waiting' && entry.position) return `#${entry.position} in line`
+  if (entry.status === 'offered' && entry.hold_expires_at) {
+    return canClaim(entry) ? `Held for you, expires ${dayjs(entry.hold_expires_at).fromNow()}` : 'Hold expired'
+  }
+  return null
+}
+
+// The signed-in user's waitlist places, linked to as #waitlist from notifications
+export function WaitlistCard() {
+  const { hash } = useLocation()
+  const cardRef = useRef<HTMLDivElement>(null)
+  const { data, isLoading, isError } = useWaitlist({ mine: true, limit: 100 })
+  const entries = data?.entries ?? []
+  const claimSlot = useClaimWaitlistSlot()
+  const leaveWaitlist = useLeaveWaitlist()
+
+  useEffect(() => {
+    if (isError) toast.error('Failed to load your waitlist')
+  }, [isError])
+
+  useEffect(() => {
+    if (hash === '#waitlist' && !isLoading) cardRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [hash, isLoading])
+
+  async function handleClaim(entry: WaitlistEntry) {
+    try {
+      await claimSlot.mutateAsync(entry.id)
+      toast.success('Slot claimed! It\'s now one of your bookings.')
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to claim the slot'))
+    }
+  }
+
+  async function handleLeave(entry: WaitlistEntry) {
+    try {
+      await leaveWaitlist.mutateAsync(entry.id)
+      toast.success('Removed from the waitlist')
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to leave the waitlist'))
+    }
+  }
+
+  if (!isLoading && entries.length === 0) return null
+
+  return (
+    <Card id="waitlist" ref={cardRef} className="shadow-sm border-neutral-200 rounded-2xl overflow-hidden mt-6 scroll-mt-6">
+      <CardHeader className="bg-neutral-50 border-b border-neutral-100">
+        <CardTitle className="text-neutral-900 flex items-center gap-2">
+          <Hourglass className="w-5 h-5 text-neutral-500" />
+          Waitlist
+        </CardTitle>
+        <CardDescription className="text-neutral-500">
+          When a slot you're waiting on frees up, it's held for the first person in line for a limited time.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading ? (
+          <div className="p-6"><TableSkeleton rows={2} columns={4} /></div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-neutral-50/50">
+                <TableHead className="text-neutral-600 font-semibold">Resource</TableHead>
+                <TableHead className="text-neutral-600 font-semibold">Date & Time</TableHead>
+                <TableHead className="text-neutral-600 font-semibold">Status</TableHead>
+                <TableHead className="text-right text-neutral-600 font-semibold">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-3">
+                      <div className="w-10 h-10 bg-neutral-100 border border-neutral-200 rounded-xl flex items-center justify-center">
+                        <MapPin className="w-5 h-5 text-neutral-500" />
+                      </div>
+                      <p className="font-medium text-neutral-900">{entry.resource_name ?? `Resource #${entry.resource_id}`}</p>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-1 text-sm">
+                        <Calendar className="w-3 h-3 text-neutral-400" />
+                        <span className="font-medium">{dayjs(entry.start_time).format('MMM D, YYYY')}</span>
+                      </div>
+                      <div className="flex items-center gap-1 text-sm text-neutral-500">
+                        <Clock className="w-3 h-3 text-neutral-400" />
+                        {dayjs(entry.start_time).format('h:mm A')} – {dayjs(entry.end_time).format('h:mm A')}
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="space-y-1">
+                      <Badge className={`${statusColors[entry.status]} border`}>{entry.status}</Badge>
+                      {statusDetail(entry) && <p className="text-xs text-neutral-500">{statusDetail(entry)}</p>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex items-center justify-end gap-2">
+                      {canClaim(entry) && (
+                        <Button
+                          size="sm"
+                          onClick={() => handleClaim(entry)}
+                          disabled={claimSlot.isPending}
+                          className="bg-emerald-600 hover:bg-emerald-700 text-white"
+                        >
+                          Claim
+                        </Button>
+                      )}
+                      {isQueued(entry) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleLeave(entry)}
+                          disabled={leaveWaitlist.isPending}
+                          className="border-red-200 text-red-600 hover:bg-red-50"
+                        >
+                          Leave
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
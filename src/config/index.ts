@@ -1,5 +1,7 @@
 const config = {
   apiBaseUrl: import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api/v1',
+  // Server-sent events stream for live booking and notification updates
+  realtimeUrl: import.meta.env.VITE_REALTIME_URL || 'http://localhost:3000/api/v1/events',
   apiTimeout: Number(import.meta.env.VITE_API_TIMEOUT) || 30000,
   tokenKey: import.meta.env.VITE_TOKEN_KEY || 'sra_auth',
   tokenExpiryBuffer: Number(import.meta.env.VITE_TOKEN_EXPIRY_BUFFER) || 300000, // 5 min before expiry
@@ -1,6 +1,7 @@
 import { useEffect, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { useAuth } from '../store/authStore'
+import { refreshAccessToken } from '../lib/api'
 import { toast } from 'sonner'
 
 export function useAutoLogout() {
@@ -9,25 +10,45 @@ export function useAutoLogout() {
   const isTokenExpired = useAuth(state => state.isTokenExpired)
   const isTokenExpiringSoon = useAuth(state => state.isTokenExpiringSoon)
   const expires_at = useAuth(state => state.expires_at)
+  const refresh_token = useAuth(state => state.refresh_token)
   const hasShownWarning = useRef(false)
 
   useEffect(() => {
     if (!expires_at) return
 
-    // Check immediately on mount
-    if (isTokenExpired()) {
+    const expireSession = () => {
       logout()
       navigate('/login', { replace: true })
       toast.error('Your session has expired. Please login again.')
+    }
+
+    // Renew in the background so half-filled forms survive the expiry
+    const renewSession = async () => {
+      try {
+        await refreshAccessToken()
+        hasShownWarning.current = false
+      } catch (err) {
+        console.warn('Token refresh failed:', err)
+        if (isTokenExpired()) expireSession()
+      }
+    }
+
+    // Check immediately on mount
+    if (isTokenExpired()) {
+      if (refresh_token) {
+        renewSession()
+      } else {
+        expireSession()
+      }
       return
     }
 
     // Check every minute
     const checkInterval = setInterval(() => {
-      if (isTokenExpired()) {
-        logout()
-        navigate('/login', { replace: true })
-        toast.error('Your session has expired. Please login again.')
+      if (refresh_token && isTokenExpiringSoon()) {
+        renewSession()
+      } else if (isTokenExpired()) {
+        expireSession()
         clearInterval(checkInterval)
       } else if (isTokenExpiringSoon() && !hasShownWarning.current) {
         toast.warning('Your session will expire soon. Please save your work.')
@@ -36,5 +57,5 @@ export function useAutoLogout() {
     }, 60000) // Check every 1 minute
 
     return () => clearInterval(checkInterval)
-  }, [expires_at, isTokenExpired, isTokenExpiringSoon, logout, navigate])
-}
\ No newline at end of file
+  }, [expires_at, refresh_token, isTokenExpired, isTokenExpiringSoon, logout, navigate])
+}
@@ -0,0 +1,297 @@
+import { keepPreviousData, QueryKey, useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { bookingConflictFrom, bookingSeriesApi, bookingsApi, BookingListParams } from '../lib/client'
+import { queryKeys } from '../lib/queryKeys'
+import { Booking, BookingList } from '../lib/schemas'
+import {
+  BookingChangeFormValues, BookingFormValues, BookingSeriesFormValues, BookingSeriesUpdateValues,
+  EquipmentReturnFormValues
+} from '../utils/validators'
+import dayjs from 'dayjs'
+
+// `keepPrevious` keeps the current page on screen while the next page or
+// filter loads. Only for lists: anything checked against the rows (conflicts,
+// limits) would be checked against another query's bookings in the meantime.
+export function useBookings(params: BookingListParams = {}, options: { enabled?: boolean; keepPrevious?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.bookings.list(params),
+    queryFn: () => bookingsApi.list(params),
+    enabled: options.enabled,
+    placeholderData: options.keepPrevious ? keepPreviousData : undefined,
+  })
+}
+
+export function useBooking(id: number | null) {
+  return useQuery({
+    queryKey: queryKeys.bookings.detail(id ?? 0),
+    queryFn: () => bookingsApi.get(id!),
+    enabled: id != null,
+  })
+}
+
+type Snapshot = [QueryKey, unknown][]
+
+// Everything that can change when a booking is created, reviewed or cancelled.
+// A freed slot is offered to the waitlist, so queues move too, and loan
+// handovers and returns show up in the asset's history.
+export function invalidateBookingViews(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: queryKeys.bookings.all })
+  queryClient.invalidateQueries({ queryKey: queryKeys.reports.all })
+  queryClient.invalidateQueries({ queryKey: queryKeys.availability.all })
+  queryClient.invalidateQueries({ queryKey: queryKeys.waitlist.all })
+  queryClient.invalidateQueries({ queryKey: queryKeys.assets.all })
+}
+
+// Applies `patch` to every cached booking (lists and details) that `matches`.
+// Returning null from `patch` drops the booking from lists.
+export function patchCachedBookings(
+  queryClient: ReturnType<typeof useQueryClient>,
+  matches: (booking: Booking) => boolean,
+  patch: (booking: Booking) => Booking | null
+) {
+  queryClient.setQueriesData<BookingList>({ queryKey: queryKeys.bookings.lists() }, list => {
+    if (!list) return list
+    const bookings = list.bookings.flatMap(b => {
+      if (!matches(b)) return [b]
+      const next = patch(b)
+      return next ? [next] : []
+    })
+    return { ...list, bookings, total: list.total - (list.bookings.length - bookings.length) }
+  })
+  queryClient.setQueriesData<Booking>({ queryKey: [...queryKeys.bookings.all, 'detail'] }, booking => {
+    if (!booking || !matches(booking)) return booking
+    return patch(booking) ?? booking
+  })
+}
+
+export function patchCachedBooking(
+  queryClient: ReturnType<typeof useQueryClient>,
+  id: number,
+  patch: (booking: Booking) => Booking | null
+) {
+  patchCachedBookings(queryClient, b => b.id === id, patch)
+}
+
+// Shared lifecycle for booking mutations: patch the cache up front, roll back
+// on failure and refetch everything a booking change can affect once settled.
+function useOptimisticBookingMutation<TVars extends { id: number }>(
+  mutationFn: (vars: TVars) => Promise<unknown>,
+  patch: (booking: Booking, vars: TVars) => Booking | null
+) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn,
+    onMutate: async (vars: TVars) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.bookings.all })
+      const snapshot: Snapshot = queryClient.getQueriesData({ queryKey: queryKeys.bookings.all })
+      patchCachedBooking(queryClient, vars.id, b => patch(b, vars))
+      return { snapshot }
+    },
+    onError: (_err, _vars, context) => {
+      context?.snapshot.forEach(([key, data]) => queryClient.setQueryData(key, data))
+    },
+    onSettled: () => invalidateBookingViews(queryClient),
+  })
+}
+
+interface ReviewVars {
+  id: number
+  status: 'approved' | 'rejected'
+  admin_note?: string
+}
+
+export function useReviewBooking() {
+  return useOptimisticBookingMutation(
+    ({ id, status, admin_note }: ReviewVars) => bookingsApi.review(id, status, admin_note),
+    (b, { status, admin_note }) => ({ ...b, status, admin_note: admin_note ?? null })
+  )
+}
+
+export function useCheckInBooking() {
+  return useOptimisticBookingMutation(
+    ({ id }: { id: number }) => bookingsApi.checkIn(id),
+    b => ({ ...b, status: 'checked_in', checked_in_at: new Date().toISOString() })
+  )
+}
+
+export function useCheckOutEquipment() {
+  return useOptimisticBookingMutation(
+    ({ id }: { id: number }) => bookingsApi.checkOut(id),
+    b => ({ ...b, status: 'checked_in', checked_in_at: new Date().toISOString() })
+  )
+}
+
+export function useReturnEquipment() {
+  return useOptimisticBookingMutation(
+    ({ id, values, photos }: { id: number; values: EquipmentReturnFormValues; photos?: File[] }) =>
+      bookingsApi.recordReturn(id, values, photos),
+    (b, { values }) => ({
+      ...b,
+      status: 'completed',
+      returned_at: new Date().toISOString(),
+      return_condition: values.condition,
+      return_note: values.note ?? null,
+    })
+  )
+}
+
+export interface BulkReviewResult {
+  booking: Booking
+  ok: boolean
+  error?: string
+}
+
+interface BulkReviewVars {
+  bookings: Booking[]
+  status: 'approved' | 'rejected'
+  admin_note?: string
+}
+
+const BULK_CONCURRENCY = 5
+
+// Reviews each booking individually and resolves with a per-row report
+// instead of failing the whole batch on the first conflict.
+export function useBulkReviewBookings() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ bookings, status, admin_note }: BulkReviewVars) => {
+      const results: BulkReviewResult[] = []
+      for (let i = 0; i < bookings.length; i += BULK_CONCURRENCY) {
+        const chunk = bookings.slice(i, i + BULK_CONCURRENCY)
+        const settled = await Promise.allSettled(chunk.map(b => bookingsApi.review(b.id, status, admin_note)))
+        settled.forEach((outcome, j) => {
+          results.push(outcome.status === 'fulfilled'
+            ? { booking: chunk[j], ok: true }
+            : { booking: chunk[j], ok: false, error: outcome.reason?.message || 'Request failed' })
+        })
+      }
+      return results
+    },
+    onSettled: () => invalidateBookingViews(queryClient),
+  })
+}
+
+// DELETE /bookings/:id - employees cancel their own bookings, admins remove any
+export function useCancelBooking() {
+  return useOptimisticBookingMutation(
+    ({ id }: { id: number }) => bookingsApi.remove(id),
+    () => null
+  )
+}
+
+export function useCreateBooking() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (values: BookingFormValues) => bookingsApi.create(values),
+    onSuccess: () => invalidateBookingViews(queryClient),
+    // The conflict response already says what's free, so the alternatives
+    // dialog can show it without asking again
+    onError: (err, values) => {
+      const suggestions = bookingConflictFrom(err)?.suggestions
+      if (!suggestions) return
+      queryClient.setQueryData(
+        queryKeys.availability.suggestions(values.resource_id, values.start_time, values.end_time),
+        suggestions
+      )
+    },
+  })
+}
+
+// The reply says whether the change was applied or is waiting for an admin
+export function useRequestBookingChange() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, values }: { id: number; values: BookingChangeFormValues }) =>
+      bookingsApi.requestChange(id, values),
+    onSettled: () => invalidateBookingViews(queryClient),
+  })
+}
+
+interface ChangeReviewVars {
+  id: number
+  changeId: number
+  status: 'approved' | 'rejected'
+  admin_note?: string
+}
+
+// Approving moves the booking to the requested slot
+export function useReviewBookingChange() {
+  return useOptimisticBookingMutation(
+    ({ id, changeId, status, admin_note }: ChangeReviewVars) => bookingsApi.reviewChange(id, changeId, status, admin_note),
+    (b, { changeId, status, admin_note }) => {
+      const change = b.change_requests.find(c => c.id === changeId)
+      const reviewed = b.change_requests.map(c =>
+        c.id === changeId ? { ...c, status, admin_note: admin_note ?? null, reviewed_at: new Date().toISOString() } : c
+      )
+      if (!change || status === 'rejected') return { ...b, change_requests: reviewed }
+      return {
+        ...b,
+        resource_id: change.resource_id,
+        resource_name: change.resource_name ?? b.resource_name,
+        start_time: change.start_time,
+        end_time: change.end_time,
+        change_requests: reviewed,
+      }
+    }
+  )
+}
+
+export function useWithdrawBookingChange() {
+  return useOptimisticBookingMutation(
+    ({ id, changeId }: { id: number; changeId: number }) => bookingsApi.withdrawChange(id, changeId),
+    (b, { changeId }) => ({
+      ...b,
+      change_requests: b.change_requests.map(c => c.id === changeId ? { ...c, status: 'withdrawn' as const } : c),
+    })
+  )
+}
+
+export function useCreateBookingSeries() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (values: BookingSeriesFormValues) => bookingSeriesApi.create(values),
+    onSuccess: () => invalidateBookingViews(queryClient),
+  })
+}
+
+interface SeriesVars {
+  seriesId: number
+  // ISO start of the first occurrence affected; earlier ones are left alone
+  from: string
+}
+
+const inSeriesFrom = ({ seriesId, from }: SeriesVars) => (b: Booking) =>
+  b.series_id === seriesId && !dayjs(b.start_time).isBefore(dayjs(from))
+
+export function useUpdateBookingSeries() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ seriesId, from, ...values }: SeriesVars & BookingSeriesUpdateValues) =>
+      bookingSeriesApi.update(seriesId, { ...values, from }),
+    onSettled: () => invalidateBookingViews(queryClient),
+  })
+}
+
+// Cancels this and every later occurrence, optimistically like a single cancel
+export function useCancelBookingSeries() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ seriesId, from }: SeriesVars) => bookingSeriesApi.cancel(seriesId, from),
+    onMutate: async (vars: SeriesVars) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.bookings.all })
+      const snapshot: Snapshot = queryClient.getQueriesData({ queryKey: queryKeys.bookings.all })
+      patchCachedBookings(queryClient, inSeriesFrom(vars), () => null)
+      return { snapshot }
+    },
+    onError: (_err, _vars, context) => {
+      context?.snapshot.forEach(([key, data]) => queryClient.setQueryData(key, data))
+    },
+    onSettled: () => invalidateBookingViews(queryClient),
+  })
+}
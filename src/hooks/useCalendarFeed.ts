@@ -0,0 +1,18 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { calendarFeedApi } from '../lib/client'
+import { queryKeys } from '../lib/queryKeys'
+
+export function useCalendarFeed() {
+  return useQuery({
+    queryKey: queryKeys.calendarFeed.all,
+    queryFn: () => calendarFeedApi.get(),
+  })
+}
+
+export function useResetCalendarFeed() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: () => calendarFeedApi.reset(),
+    onSuccess: (feed) => queryClient.setQueryData(queryKeys.calendarFeed.all, feed),
+  })
+}
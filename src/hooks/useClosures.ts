@@ -0,0 +1,105 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { closuresApi, ClosureListParams } from '../lib/client'
+import { queryKeys } from '../lib/queryKeys'
+import { WeekdayRule } from '../lib/schemas'
+import { ClosureFormValues, ResourceType } from '../utils/validators'
+
+export function useClosures(params: ClosureListParams = {}) {
+  return useQuery({
+    queryKey: queryKeys.closures.list(params),
+    queryFn: () => closuresApi.list(params),
+  })
+}
+
+export function useWeekdayRules() {
+  return useQuery({
+    queryKey: queryKeys.closures.weekdayRules(),
+    queryFn: () => closuresApi.weekdayRules(),
+  })
+}
+
+// Closures change what can be booked, so cached slots go too
+function useInvalidateClosures() {
+  const queryClient = useQueryClient()
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.closures.all })
+    queryClient.invalidateQueries({ queryKey: queryKeys.availability.all })
+  }
+}
+
+export function useCreateClosure() {
+  const invalidate = useInvalidateClosures()
+  return useMutation({
+    mutationFn: (values: ClosureFormValues) => closuresApi.create(values),
+    onSettled: invalidate,
+  })
+}
+
+export function useUpdateClosure() {
+  const invalidate = useInvalidateClosures()
+  return useMutation({
+    mutationFn: ({ id, values }: { id: number; values: ClosureFormValues }) => closuresApi.update(id, values),
+    onSettled: invalidate,
+  })
+}
+
+export function useDeleteClosure() {
+  const invalidate = useInvalidateClosures()
+  return useMutation({
+    mutationFn: (id: number) => closuresApi.remove(id),
+    onSettled: invalidate,
+  })
+}
+
+export interface ImportResult {
+  values: ClosureFormValues
+  ok: boolean
+  error?: string
+}
+
+const IMPORT_CONCURRENCY = 5
+
+// Creates each imported closure individually and reports per row, like bulk review
+export function useImportClosures() {
+  const invalidate = useInvalidateClosures()
+
+  return useMutation({
+    mutationFn: async (rows: ClosureFormValues[]) => {
+      const results: ImportResult[] = []
+      for (let i = 0; i < rows.length; i += IMPORT_CONCURRENCY) {
+        const chunk = rows.slice(i, i + IMPORT_CONCURRENCY)
+        const settled = await Promise.allSettled(chunk.map(values => closuresApi.create(values)))
+        settled.forEach((outcome, j) => {
+          results.push(outcome.status === 'fulfilled'
+            ? { values: chunk[j], ok: true }
+            : { values: chunk[j], ok: false, error: outcome.reason?.message || 'Request failed' })
+        })
+      }
+      return results
+    },
+    onSettled: invalidate,
+  })
+}
+
+export function useUpdateWeekdayRule() {
+  const queryClient = useQueryClient()
+  const invalidate = useInvalidateClosures()
+
+  return useMutation({
+    mutationFn: ({ type, closed_weekdays }: { type: ResourceType; closed_weekdays: number[] }) =>
+      closuresApi.updateWeekdayRule(type, closed_weekdays),
+    onMutate: async ({ type, closed_weekdays }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.closures.weekdayRules() })
+      const previous = queryClient.getQueryData<WeekdayRule[]>(queryKeys.closures.weekdayRules())
+      queryClient.setQueryData<WeekdayRule[]>(queryKeys.closures.weekdayRules(), rules => [
+        ...(rules ?? []).filter(r => r.resource_type !== type),
+        { resource_type: type, closed_weekdays },
+      ])
+      return { previous }
+    },
+    onError: (_err, _vars, context) => {
+      queryClient.setQueryData(queryKeys.closures.weekdayRules(), context?.previous)
+    },
+    onSettled: invalidate,
+  })
+}
@@ -0,0 +1,19 @@
+import { useSearchParams } from 'react-router-dom'
+import { useBooking } from './useBookings'
+
+// Resolves the booking named by ?booking=<id>, as used by notification deep
+// links. Pages open their detail dialog for it and clear the param on close.
+export function useLinkedBooking() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const id = Number(searchParams.get('booking'))
+  const { data } = useBooking(Number.isInteger(id) && id > 0 ? id : null)
+
+  function clearLinkedBooking() {
+    if (!searchParams.has('booking')) return
+    const next = new URLSearchParams(searchParams)
+    next.delete('booking')
+    setSearchParams(next, { replace: true })
+  }
+
+  return { linkedBooking: data ?? null, clearLinkedBooking }
+}
@@ -0,0 +1,53 @@
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { maintenanceApi, MaintenanceListParams, resourcesApi } from '../lib/client'
+import { queryKeys } from '../lib/queryKeys'
+import { MaintenanceStatus } from '../lib/schemas'
+import { MaintenanceTicketFormValues } from '../utils/validators'
+
+const HISTORY_PAGE_SIZE = 20
+
+export function useMaintenanceTickets(params: MaintenanceListParams = {}, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.assets.maintenance(params),
+    queryFn: () => maintenanceApi.list(params),
+    enabled: options.enabled,
+  })
+}
+
+// Newest first; older events load on demand
+export function useAssetHistory(resourceId: number | null) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.assets.history(resourceId ?? 0),
+    queryFn: ({ pageParam }) => resourcesApi.history(resourceId!, { limit: HISTORY_PAGE_SIZE, offset: pageParam }),
+    initialPageParam: 0,
+    getNextPageParam: (last, pages) => last.has_more ? pages.length * HISTORY_PAGE_SIZE : undefined,
+    enabled: resourceId != null,
+  })
+}
+
+// Unresolved tickets block the resource, so cached slots go too
+function useInvalidateMaintenance() {
+  const queryClient = useQueryClient()
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.assets.all })
+    queryClient.invalidateQueries({ queryKey: queryKeys.availability.all })
+  }
+}
+
+export function useOpenMaintenanceTicket() {
+  const invalidate = useInvalidateMaintenance()
+  return useMutation({
+    mutationFn: ({ resourceId, values }: { resourceId: number; values: MaintenanceTicketFormValues }) =>
+      maintenanceApi.create(resourceId, values),
+    onSettled: invalidate,
+  })
+}
+
+export function useUpdateMaintenanceTicket() {
+  const invalidate = useInvalidateMaintenance()
+  return useMutation({
+    mutationFn: ({ id, ...values }: { id: number; status: MaintenanceStatus; resolution_note?: string }) =>
+      maintenanceApi.update(id, values),
+    onSettled: invalidate,
+  })
+}
@@ -0,0 +1,106 @@
+import { InfiniteData, QueryClient, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { notificationsApi } from '../lib/client'
+import { useRealtimeStatus } from '../lib/realtime'
+import { queryKeys } from '../lib/queryKeys'
+import { Notification, NotificationList } from '../lib/schemas'
+
+const PAGE_SIZE = 20
+
+type Feed = InfiniteData<NotificationList, number>
+
+// Each notification once, where it first appears. Offsets shift as new ones
+// arrive, so a page can repeat rows an earlier page already has.
+function withoutRepeats(feed: Feed): Feed {
+  const seen = new Set<number>()
+  return {
+    ...feed,
+    pages: feed.pages.map(page => ({
+      ...page,
+      notifications: page.notifications.filter(n => {
+        if (seen.has(n.id)) return false
+        seen.add(n.id)
+        return true
+      }),
+    })),
+  }
+}
+
+// Newest first; older pages load on demand. New notifications arrive over the
+// realtime channel; polling only covers the gaps while it is down.
+export function useNotifications() {
+  const live = useRealtimeStatus(state => state.status === 'open')
+
+  return useInfiniteQuery({
+    queryKey: queryKeys.notifications.feed(),
+    queryFn: ({ pageParam }) => notificationsApi.list({ limit: PAGE_SIZE, offset: pageParam }),
+    initialPageParam: 0,
+    // Pushed notifications sit at the top of the first page, so counting the
+    // rows held (not pages) skips past everything already loaded
+    getNextPageParam: (last, pages) =>
+      last.has_more ? pages.reduce((count, page) => count + page.notifications.length, 0) : undefined,
+    select: withoutRepeats,
+    refetchInterval: live ? false : 30 * 1000,
+    staleTime: 0,
+  })
+}
+
+// Puts a pushed notification at the top of the feed without refetching it
+export function addToFeed(queryClient: QueryClient, notification: Notification) {
+  queryClient.setQueryData<Feed>(queryKeys.notifications.feed(), feed => {
+    if (!feed?.pages.length) return feed
+    if (feed.pages.some(p => p.notifications.some(n => n.id === notification.id))) return feed
+
+    const unread = notification.is_read ? 0 : 1
+    const [first, ...rest] = feed.pages
+    return {
+      ...feed,
+      pages: [
+        { ...first, notifications: [notification, ...first.notifications], total: first.total + 1, unread_count: first.unread_count + unread },
+        ...rest.map(page => ({ ...page, total: page.total + 1, unread_count: page.unread_count + unread })),
+      ],
+    }
+  })
+}
+
+// Marks notifications read in every loaded page and drops the unread count to match
+function markReadInFeed(feed: Feed | undefined, isTarget: (n: Notification) => boolean): Feed | undefined {
+  if (!feed) return feed
+  const newlyRead = feed.pages
+    .flatMap(p => p.notifications)
+    .filter(n => !n.is_read && isTarget(n)).length
+
+  return {
+    ...feed,
+    pages: feed.pages.map(page => ({
+      ...page,
+      unread_count: Math.max(0, page.unread_count - newlyRead),
+      notifications: page.notifications.map(n => isTarget(n) ? { ...n, is_read: true } : n),
+    })),
+  }
+}
+
+function useMarkRead<TVars>(mutationFn: (vars: TVars) => Promise<unknown>, isTarget: (vars: TVars) => (n: Notification) => boolean) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn,
+    onMutate: async (vars: TVars) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.notifications.all })
+      const previous = queryClient.getQueryData<Feed>(queryKeys.notifications.feed())
+      queryClient.setQueryData<Feed>(queryKeys.notifications.feed(), feed => markReadInFeed(feed, isTarget(vars)))
+      return { previous }
+    },
+    onError: (_err, _vars, context) => {
+      queryClient.setQueryData(queryKeys.notifications.feed(), context?.previous)
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all }),
+  })
+}
+
+export function useMarkNotificationRead() {
+  return useMarkRead((id: number) => notificationsApi.markRead(id), id => n => n.id === id)
+}
+
+export function useMarkAllNotificationsRead() {
+  return useMarkRead<void>(() => notificationsApi.markAllRead(), () => () => true)
+}
@@ -0,0 +1,59 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { bookingPoliciesApi } from '../lib/client'
+import { queryKeys } from '../lib/queryKeys'
+import { Booking } from '../lib/schemas'
+import { EffectivePolicy, policyFor } from '../utils/policies'
+import { BookingPolicyFormValues } from '../utils/validators'
+import { useResourceTypeOf } from './useResources'
+
+export function useBookingPolicies() {
+  return useQuery({
+    queryKey: queryKeys.policies.all,
+    queryFn: () => bookingPoliciesApi.list(),
+  })
+}
+
+// Resolves the policy for a booking, or null while its resource type is still
+// unknown. A stand-in of the wrong type would, say, expect equipment to be checked in.
+export function usePolicyForBooking() {
+  const { data: policies = [] } = useBookingPolicies()
+  const resourceTypeOf = useResourceTypeOf()
+
+  return (booking: Pick<Booking, 'resource_id' | 'resource_type'>): EffectivePolicy | null => {
+    const type = resourceTypeOf(booking)
+    return type ? policyFor(policies, { id: booking.resource_id, resource_type: type }) : null
+  }
+}
+
+// Policies change what can be booked and for how long, so cached slots go too
+function useInvalidatePolicies() {
+  const queryClient = useQueryClient()
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.policies.all })
+    queryClient.invalidateQueries({ queryKey: queryKeys.availability.all })
+  }
+}
+
+export function useCreateBookingPolicy() {
+  const invalidate = useInvalidatePolicies()
+  return useMutation({
+    mutationFn: (values: BookingPolicyFormValues) => bookingPoliciesApi.create(values),
+    onSettled: invalidate,
+  })
+}
+
+export function useUpdateBookingPolicy() {
+  const invalidate = useInvalidatePolicies()
+  return useMutation({
+    mutationFn: ({ id, values }: { id: number; values: BookingPolicyFormValues }) => bookingPoliciesApi.update(id, values),
+    onSettled: invalidate,
+  })
+}
+
+export function useDeleteBookingPolicy() {
+  const invalidate = useInvalidatePolicies()
+  return useMutation({
+    mutationFn: (id: number) => bookingPoliciesApi.remove(id),
+    onSettled: invalidate,
+  })
+}
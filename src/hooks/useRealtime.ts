@@ -0,0 +1,50 @@
+import { useEffect } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { queryKeys } from '../lib/queryKeys'
+import { realtime } from '../lib/realtime'
+import { useAuth } from '../store/authStore'
+import { invalidateBookingViews, patchCachedBooking } from './useBookings'
+import { addToFeed } from './useNotifications'
+
+// Keeps the cache in step with the realtime channel while someone is signed in.
+// Pushed changes are applied straight away so tables, dashboard counters and
+// the notification badge update without waiting for a refetch.
+export function useRealtimeSync() {
+  const queryClient = useQueryClient()
+  const token = useAuth(state => state.token)
+
+  // Reconnects whenever the token is renewed, since the server checks it on connect
+  useEffect(() => {
+    if (!token) return
+    realtime.connect()
+    return () => realtime.disconnect()
+  }, [token])
+
+  useEffect(() => realtime.subscribe(event => {
+    switch (event.type) {
+      case 'booking.created':
+        invalidateBookingViews(queryClient)
+        break
+      case 'booking.status_changed': {
+        const { id, status, admin_note, updated_at } = event.booking
+        patchCachedBooking(queryClient, id, b => ({
+          ...b,
+          status,
+          admin_note: admin_note ?? b.admin_note,
+          updated_at: updated_at ?? b.updated_at,
+        }))
+        invalidateBookingViews(queryClient)
+        break
+      }
+      case 'notification.created':
+        addToFeed(queryClient, event.notification)
+        toast(event.notification.message)
+        // Offers and expiries move the caller's place in a queue
+        if (event.notification.notification_type.startsWith('waitlist_')) {
+          queryClient.invalidateQueries({ queryKey: queryKeys.waitlist.all })
+        }
+        break
+    }
+  }), [queryClient])
+}
@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query'
+import { reportsApi } from '../lib/client'
+import { queryKeys } from '../lib/queryKeys'
+
+export function useResourceUsageReport() {
+  return useQuery({
+    queryKey: queryKeys.reports.resourceUsage(),
+    queryFn: reportsApi.resourceUsage,
+  })
+}
+
+export function useUserBookingsReport() {
+  return useQuery({
+    queryKey: queryKeys.reports.userBookings(),
+    queryFn: reportsApi.userBookings,
+  })
+}
+
+export function useNoShowReport() {
+  return useQuery({
+    queryKey: queryKeys.reports.noShows(),
+    queryFn: reportsApi.noShows,
+  })
+}
+
+export function usePeakHoursReport() {
+  return useQuery({
+    queryKey: queryKeys.reports.peakHours(),
+    queryFn: reportsApi.peakHours,
+  })
+}
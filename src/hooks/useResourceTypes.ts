@@ -0,0 +1,53 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { resourceTypesApi } from '../lib/client'
+import { queryKeys } from '../lib/queryKeys'
+import { builtInResourceTypeDefinitions, definitionFor, withBuiltIns } from '../utils/resourceTypes'
+import { ResourceType, ResourceTypeDefinitionFormValues } from '../utils/validators'
+
+export function useResourceTypes() {
+  return useQuery({
+    queryKey: queryKeys.resourceTypes.all,
+    queryFn: async () => withBuiltIns(await resourceTypesApi.list()),
+    // Tabs, forms and pickers render from the built-ins until the list arrives
+    placeholderData: builtInResourceTypeDefinitions,
+  })
+}
+
+// Every type plus a lookup that never comes back empty
+export function useResourceTypeDefinitions() {
+  const { data: types = builtInResourceTypeDefinitions } = useResourceTypes()
+  return { types, definitionOf: (key: ResourceType) => definitionFor(types, key) }
+}
+
+function useInvalidateResourceTypes() {
+  const queryClient = useQueryClient()
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.resourceTypes.all })
+    queryClient.invalidateQueries({ queryKey: queryKeys.resources.all })
+  }
+}
+
+export function useCreateResourceType() {
+  const invalidate = useInvalidateResourceTypes()
+  return useMutation({
+    mutationFn: (values: ResourceTypeDefinitionFormValues) => resourceTypesApi.create(values),
+    onSettled: invalidate,
+  })
+}
+
+export function useUpdateResourceType() {
+  const invalidate = useInvalidateResourceTypes()
+  return useMutation({
+    mutationFn: ({ key, values }: { key: ResourceType; values: ResourceTypeDefinitionFormValues }) =>
+      resourceTypesApi.update(key, values),
+    onSettled: invalidate,
+  })
+}
+
+export function useDeleteResourceType() {
+  const invalidate = useInvalidateResourceTypes()
+  return useMutation({
+    mutationFn: (key: ResourceType) => resourceTypesApi.remove(key),
+    onSettled: invalidate,
+  })
+}
@@ -0,0 +1,171 @@
+import { useMutation, useQueries, useQuery, useQueryClient } from '@tanstack/react-query'
+import { resourcesApi, ResourceListParams } from '../lib/client'
+import { queryKeys } from '../lib/queryKeys'
+import { Booking, Resource, TimeSlot } from '../lib/schemas'
+import { ResourceFormValues } from '../utils/validators'
+
+export function useResources(params: ResourceListParams = {}, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.resources.list(params),
+    queryFn: () => resourcesApi.list(params),
+    enabled: options.enabled,
+  })
+}
+
+// Every page of a filtered list, for screens that filter and sort client-side
+export function useAllResources(params: Omit<ResourceListParams, 'limit' | 'offset'>, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.resources.listAll(params),
+    queryFn: () => resourcesApi.listAll(params),
+    enabled: options.enabled,
+  })
+}
+
+// Every resource across all pages, for the admin inventory screen
+export function useResourceInventory() {
+  return useQuery({
+    queryKey: queryKeys.resources.inventory(),
+    queryFn: () => resourcesApi.listAll(),
+  })
+}
+
+export function useResource(id: number | null) {
+  return useQuery({
+    queryKey: queryKeys.resources.detail(id ?? 0),
+    queryFn: () => resourcesApi.get(id!),
+    enabled: id != null,
+  })
+}
+
+export function useResourceAvailability(resourceId: number | null, date: string, duration: number) {
+  return useQuery({
+    queryKey: queryKeys.availability.slots(resourceId ?? 0, date, duration),
+    queryFn: () => resourcesApi.availability(resourceId!, date, duration),
+    enabled: resourceId != null,
+    // Slots change as colleagues book, so don't trust the global 5 minute staleTime
+    staleTime: 30 * 1000,
+  })
+}
+
+// Slots for moving a booking, counting its current slot as free so it can
+// shift by half an hour into itself
+export function useRescheduleAvailability(bookingId: number, resourceId: number, date: string, duration: number) {
+  return useQuery({
+    queryKey: queryKeys.availability.reschedule(bookingId, resourceId, date, duration),
+    queryFn: () => resourcesApi.availability(resourceId, date, duration, bookingId),
+    staleTime: 30 * 1000,
+  })
+}
+
+// Which days in a range equipment is free, for the loan picker
+export function useDailyAvailability(resourceId: number | null, startDate: string, endDate: string) {
+  return useQuery({
+    queryKey: queryKeys.availability.daily(resourceId ?? 0, startDate, endDate),
+    queryFn: () => resourcesApi.dailyAvailability(resourceId!, startDate, endDate),
+    enabled: resourceId != null,
+    staleTime: 30 * 1000,
+  })
+}
+
+// Resolves a booking's resource type. Flat booking rows don't always carry
+// it, so it falls back to the inventory; null until that loads.
+export function useResourceTypeOf() {
+  const { data: resources = [] } = useResourceInventory()
+  return (booking: Pick<Booking, 'resource_id' | 'resource_type'>) =>
+    booking.resource_type ?? resources.find(r => r.id === booking.resource_id)?.resource_type ?? null
+}
+
+// Availability for several days at once, e.g. every date in a recurring series.
+// Shares cache entries with useResourceAvailability.
+export function useResourceAvailabilityForDates(resourceId: number | null, dates: string[], duration: number) {
+  return useQueries({
+    queries: dates.map(date => ({
+      queryKey: queryKeys.availability.slots(resourceId ?? 0, date, duration),
+      queryFn: () => resourcesApi.availability(resourceId!, date, duration),
+      enabled: resourceId != null,
+      staleTime: 30 * 1000,
+    })),
+  })
+}
+
+// One day's availability for several resources, e.g. every room that matches
+// a search. Shares cache entries with useResourceAvailability.
+export function useResourcesAvailability(resourceIds: number[], date: string, duration: number) {
+  return useQueries({
+    queries: resourceIds.map(resourceId => ({
+      queryKey: queryKeys.availability.slots(resourceId, date, duration),
+      queryFn: () => resourcesApi.availability(resourceId, date, duration),
+      staleTime: 30 * 1000,
+    })),
+  })
+}
+
+// Alternatives for a taken slot. Lives under availability so it refreshes
+// whenever bookings change.
+export function useSlotSuggestions(resourceId: number | null, slot: Pick<TimeSlot, 'start_time' | 'end_time'> | null) {
+  return useQuery({
+    queryKey: queryKeys.availability.suggestions(resourceId ?? 0, slot?.start_time ?? '', slot?.end_time ?? ''),
+    queryFn: () => resourcesApi.suggestions(resourceId!, { start_time: slot!.start_time, end_time: slot!.end_time }),
+    enabled: resourceId != null && slot != null,
+    staleTime: 30 * 1000,
+  })
+}
+
+function useInvalidateResources() {
+  const queryClient = useQueryClient()
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.resources.all })
+    queryClient.invalidateQueries({ queryKey: queryKeys.availability.all })
+  }
+}
+
+export function useCreateResource() {
+  const invalidate = useInvalidateResources()
+  return useMutation({
+    mutationFn: (values: ResourceFormValues) => resourcesApi.create(values),
+    onSettled: invalidate,
+  })
+}
+
+export function useUpdateResource() {
+  const queryClient = useQueryClient()
+  const invalidate = useInvalidateResources()
+
+  return useMutation({
+    mutationFn: ({ id, values }: { id: number; values: Partial<ResourceFormValues> }) =>
+      resourcesApi.update(id, values),
+    onMutate: async ({ id, values }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.resources.inventory() })
+      const previous = queryClient.getQueryData<Resource[]>(queryKeys.resources.inventory())
+      queryClient.setQueryData<Resource[]>(queryKeys.resources.inventory(), list =>
+        list?.map(r => r.id === id ? { ...r, ...values } : r)
+      )
+      return { previous }
+    },
+    onError: (_err, _vars, context) => {
+      queryClient.setQueryData(queryKeys.resources.inventory(), context?.previous)
+    },
+    onSettled: invalidate,
+  })
+}
+
+export function useDeleteResource() {
+  const queryClient = useQueryClient()
+  const invalidate = useInvalidateResources()
+
+  return useMutation({
+    mutationFn: (id: number) => resourcesApi.remove(id),
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.resources.inventory() })
+      const previous = queryClient.getQueryData<Resource[]>(queryKeys.resources.inventory())
+      queryClient.setQueryData<Resource[]>(queryKeys.resources.inventory(), list =>
+        list?.filter(r => r.id !== id)
+      )
+      return { previous }
+    },
+    onError: (_err, _vars, context) => {
+      queryClient.setQueryData(queryKeys.resources.inventory(), context?.previous)
+    },
+    onSettled: invalidate,
+  })
+}
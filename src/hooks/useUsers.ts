@@ -0,0 +1,43 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { usersApi } from '../lib/client'
+import { queryKeys } from '../lib/queryKeys'
+import { UserList } from '../lib/schemas'
+import { UserFormValues } from '../utils/validators'
+
+export function useUsers() {
+  return useQuery({
+    queryKey: queryKeys.users.list(),
+    queryFn: () => usersApi.list(),
+  })
+}
+
+export function useCreateUser() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (values: UserFormValues) => usersApi.create(values),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.users.all }),
+  })
+}
+
+export function useDeleteUser() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: number) => usersApi.remove(id),
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.users.all })
+      const previous = queryClient.getQueryData<UserList>(queryKeys.users.list())
+      queryClient.setQueryData<UserList>(queryKeys.users.list(), list =>
+        list && { ...list, users: list.users.filter(u => u.id !== id), total: list.total - 1 }
+      )
+      return { previous }
+    },
+    onError: (_err, _vars, context) => {
+      queryClient.setQueryData(queryKeys.users.list(), context?.previous)
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.users.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.reports.all })
+    },
+  })
+}
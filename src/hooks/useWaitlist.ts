@@ -0,0 +1,49 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { waitlistApi, WaitlistJoinValues, WaitlistListParams } from '../lib/client'
+import { queryKeys } from '../lib/queryKeys'
+import { invalidateBookingViews } from './useBookings'
+
+export function useWaitlist(params: WaitlistListParams = {}) {
+  return useQuery({
+    queryKey: queryKeys.waitlist.list(params),
+    queryFn: () => waitlistApi.list(params),
+  })
+}
+
+// How many people are queued per resource, for the admin inventory
+export function useWaitlistDepth() {
+  return useQuery({
+    queryKey: queryKeys.waitlist.depth(),
+    queryFn: () => waitlistApi.depth(),
+  })
+}
+
+function useInvalidateWaitlist() {
+  const queryClient = useQueryClient()
+  return () => queryClient.invalidateQueries({ queryKey: queryKeys.waitlist.all })
+}
+
+export function useJoinWaitlist() {
+  const invalidate = useInvalidateWaitlist()
+  return useMutation({
+    mutationFn: (values: WaitlistJoinValues) => waitlistApi.join(values),
+    onSettled: invalidate,
+  })
+}
+
+export function useLeaveWaitlist() {
+  const invalidate = useInvalidateWaitlist()
+  return useMutation({
+    mutationFn: (id: number) => waitlistApi.leave(id),
+    onSettled: invalidate,
+  })
+}
+
+// Claiming creates a booking, so every booking view refreshes (waitlist included)
+export function useClaimWaitlistSlot() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (id: number) => waitlistApi.claim(id),
+    onSettled: () => invalidateBookingViews(queryClient),
+  })
+}
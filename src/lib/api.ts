@@ -1,6 +1,8 @@
 import axios, { AxiosError, AxiosRequestConfig } from 'axios'
 import config from '../config'
 import { useAuth } from '../store/authStore'
+import { RefreshResponse } from '../types/auth'
+import { ApiError, fieldErrorsFrom } from './apiError'
 
 const apiClient = axios.create({
   baseURL: config.apiBaseUrl,
@@ -22,6 +24,54 @@ apiClient.interceptors.request.use(
   (error:any) => Promise.reject(error)
 )
 
+// Error bodies vary by endpoint; only these keys are read, and only when they're strings
+interface ErrorBody {
+  error?: unknown
+  message?: unknown
+  errors?: unknown
+  code?: unknown
+}
+
+function isErrorBody(data: unknown): data is ErrorBody {
+  return data !== null && typeof data === 'object' && !Array.isArray(data)
+}
+
+const text = (value: unknown) => typeof value === 'string' && value !== '' ? value : undefined
+
+// Shared in-flight refresh - concurrent 401s all wait on the same call
+let refreshPromise: Promise<string> | null = null
+
+async function requestNewToken(): Promise<string> {
+  const { refresh_token, updateTokens } = useAuth.getState()
+  if (!refresh_token) {
+    throw new Error('No refresh token available')
+  }
+
+  // Bare axios so a failing refresh never re-enters the interceptors below
+  const response = await axios.post<RefreshResponse>(
+    `${config.apiBaseUrl}/auth/refresh`,
+    { refresh_token },
+    { timeout: config.apiTimeout }
+  )
+  updateTokens(response.data)
+  return response.data.token
+}
+
+// Renew the access token, reusing a refresh that is already in flight
+export function refreshAccessToken(): Promise<string> {
+  if (!refreshPromise) {
+    refreshPromise = requestNewToken().finally(() => {
+      refreshPromise = null
+    })
+  }
+  return refreshPromise
+}
+
+function endSession() {
+  useAuth.getState().logout()
+  window.location.href = '/login'
+}
+
 // Response interceptor - Handle errors & token refresh
 apiClient.interceptors.response.use(
   (response:any) => response,
@@ -29,37 +79,58 @@ apiClient.interceptors.response.use(
     const originalRequest = error.config as AxiosRequestConfig & { _retry?: boolean }
 
     // Handle 401 Unauthorized - Token expired
-    if (error.response?.status === 401 && !originalRequest._retry) {
+    if (error.response?.status === 401 && originalRequest && !originalRequest._retry) {
       originalRequest._retry = true
 
+      // Renew silently and replay the original request with the new token
+      if (useAuth.getState().refresh_token) {
+        try {
+          const token = await refreshAccessToken()
+          originalRequest.headers = { ...originalRequest.headers, Authorization: `Bearer ${token}` }
+          return apiClient(originalRequest)
+        } catch {
+          endSession()
+          return Promise.reject(new ApiError('Session expired. Please login again.', { status: 401 }))
+        }
+      }
+
       // Check if token is expired
-      const { expires_at, logout } = useAuth.getState()
+      const { expires_at } = useAuth.getState()
       if (expires_at) {
         const expiryTime = new Date(expires_at).getTime()
         const now = Date.now()
 
         if (now >= expiryTime) {
-          // Token expired, logout user
-          logout()
-          window.location.href = '/login'
-          return Promise.reject(new Error('Session expired. Please login again.'))
+          // Token expired and nothing to refresh with, logout user
+          endSession()
+          return Promise.reject(new ApiError('Session expired. Please login again.', { status: 401 }))
         }
       }
     }
 
     // Handle network errors
     if (!error.response) {
-      return Promise.reject(new Error('Network error. Please check your connection.'))
+      return Promise.reject(new ApiError('Network error. Please check your connection.'))
     }
 
-    // Handle other errors
-    const errorMessage = 
-      (error.response?.data as any)?.error || 
-      (error.response?.data as any)?.message ||
+    // Handle other errors, keeping the status and body for the caller
+    const data: unknown = error.response.data
+    const body: ErrorBody = isErrorBody(data) ? data : {}
+    const fieldErrors = fieldErrorsFrom(data)
+    const errorMessage =
+      text(body.error) ||
+      text(body.message) ||
+      (Array.isArray(body.errors) ? text(body.errors[0]) : undefined) ||
+      Object.values(fieldErrors)[0] ||
       error.message ||
       'An unexpected error occurred'
 
-    return Promise.reject(new Error(errorMessage))
+    return Promise.reject(new ApiError(errorMessage, {
+      status: error.response.status,
+      code: text(body.code) ?? null,
+      fieldErrors,
+      payload: data,
+    }))
   }
 )
 
@@ -0,0 +1,63 @@
+// What every failed request rejects with. Keeps what the server said, so
+// callers can branch on the status or code instead of matching message text,
+// and forms can put validation errors next to the inputs they belong to.
+export class ApiError extends Error {
+  // null when the request never got a response (offline, timeout)
+  readonly status: number | null
+  readonly code: string | null
+  // First message per field, e.g. { email: 'Email has already been taken' }
+  readonly fieldErrors: Record<string, string>
+  // The response body as sent
+  readonly payload: unknown
+
+  constructor(
+    message: string,
+    details: { status?: number | null; code?: string | null; fieldErrors?: Record<string, string>; payload?: unknown } = {}
+  ) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = details.status ?? null
+    this.code = details.code ?? null
+    this.fieldErrors = details.fieldErrors ?? {}
+    this.payload = details.payload ?? null
+  }
+
+  get isConflict() {
+    return this.status === 409 || this.code === 'conflict'
+  }
+}
+
+export function isApiError(err: unknown): err is ApiError {
+  return err instanceof ApiError
+}
+
+// What to put in a toast for anything a request threw. Only ApiError messages
+// are written for people; anything else gets the caller's wording.
+export function errorMessage(err: unknown, fallback: string) {
+  return isApiError(err) && err.message ? err.message : fallback
+}
+
+const humanize = (field: string) => {
+  const words = field.split('.').pop()!.replace(/_/g, ' ')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+// Validation errors come as { errors: { email: ['has already been taken'] } }
+// or { errors: [{ field: 'email', message: '...' }] }. Bare messages get the
+// field name in front so they still read on their own in a toast.
+export function fieldErrorsFrom(body: unknown): Record<string, string> {
+  const errors = (body as { errors?: unknown } | null)?.errors
+  const entries: [string, unknown][] = Array.isArray(errors)
+    ? errors
+      .filter((e): e is { field: string; message: unknown } => typeof e?.field === 'string')
+      .map(e => [e.field, e.message])
+    : errors && typeof errors === 'object' ? Object.entries(errors) : []
+
+  const result: Record<string, string> = {}
+  for (const [field, value] of entries) {
+    const message = Array.isArray(value) ? value[0] : value
+    if (typeof message !== 'string' || message === '') continue
+    result[field] = /^[A-Z]/.test(message) ? message : `${humanize(field)} ${message}`
+  }
+  return result
+}
@@ -0,0 +1,497 @@
+import { z } from 'zod'
+import { api } from './api'
+import config from '../config'
+import { ApiError, isApiError } from './apiError'
+import { LoginResponse, User } from '../types/auth'
+import {
+  BookingChangeFormValues,
+  BookingFormValues,
+  BookingPolicyFormValues,
+  BookingSeriesFormValues,
+  BookingSeriesUpdateValues,
+  ClosureFormValues,
+  ClosureScope,
+  EquipmentReturnFormValues,
+  MaintenanceTicketFormValues,
+  ResourceFormValues,
+  ResourceType,
+  ResourceTypeDefinitionFormValues,
+  UserFormValues,
+} from '../utils/validators'
+import {
+  assetHistorySchema,
+  availabilityResponseSchema,
+  Booking,
+  bookingChangeResponseSchema,
+  bookingConflictSchema,
+  bookingListSchema,
+  bookingPolicyListSchema,
+  bookingPolicyResponseSchema,
+  bookingResponseSchema,
+  BookingStatus,
+  calendarFeedSchema,
+  closureListSchema,
+  dailyAvailabilitySchema,
+  closureResponseSchema,
+  loginResponseSchema,
+  maintenanceTicketListSchema,
+  maintenanceTicketResponseSchema,
+  MaintenanceStatus,
+  noShowStatSchema,
+  notificationListSchema,
+  peakHourSchema,
+  reportSchema,
+  resourceListSchema,
+  Resource,
+  resourceResponseSchema,
+  resourceTypeDefinitionListSchema,
+  resourceTypeDefinitionResponseSchema,
+  resourceUsageSchema,
+  sessionUserSchema,
+  slotSuggestionsSchema,
+  toApiResourceType,
+  userBookingStatSchema,
+  userListSchema,
+  waitlistDepthSchema,
+  waitlistEntrySchema,
+  waitlistListSchema,
+  WaitlistStatus,
+  weekdayRuleListSchema,
+} from './schemas'
+
+// Typed wrappers around the REST endpoints. Pages should call these instead
+// of api.get/post directly so every response is validated and normalised.
+
+function reportSchemaDrift(endpoint: string, error: z.ZodError) {
+  console.warn(`[api] ${endpoint} returned an unexpected shape:\n${z.prettifyError(error)}`)
+}
+
+interface RowPath {
+  // Keys down to the list, e.g. ['bookings']
+  list: PropertyKey[]
+  index: number
+}
+
+// The list rows the issues point into. Null when an issue is outside any row,
+// i.e. the envelope itself is off.
+function badRows(error: z.ZodError): RowPath[] | null {
+  const rows = new Map<string, RowPath>()
+  for (const issue of error.issues) {
+    const at = issue.path.findIndex(key => typeof key === 'number')
+    if (at === -1) return null
+    const row = { list: issue.path.slice(0, at), index: issue.path[at] as number }
+    rows.set([...row.list, row.index].map(String).join('.'), row)
+  }
+  return [...rows.values()]
+}
+
+function withoutRows(data: unknown, rows: RowPath[]) {
+  const copy = structuredClone(data)
+  // Highest index first, so each removal leaves the others in place
+  for (const row of [...rows].sort((a, b) => b.index - a.index)) {
+    let list: unknown = copy
+    for (const key of row.list) list = (list as Record<PropertyKey, unknown> | null)?.[key]
+    if (Array.isArray(list)) list.splice(row.index, 1)
+  }
+  return copy
+}
+
+// Pages only ever get normalised data: a malformed row is dropped so the rest
+// of the list still renders, and a response that's wrong as a whole fails the
+// request rather than reaching the page raw.
+function parseResponse<T extends z.ZodType>(schema: T, data: unknown, endpoint: string): z.infer<T> {
+  const result = schema.safeParse(data)
+  if (result.success) return result.data
+
+  if (config.isDevelopment) reportSchemaDrift(endpoint, result.error)
+
+  const rows = badRows(result.error)
+  const retry = rows ? schema.safeParse(withoutRows(data, rows)) : null
+  if (rows && retry?.success) {
+    if (config.isDevelopment) console.warn(`[api] ${endpoint}: dropped ${rows.length} malformed row${rows.length === 1 ? '' : 's'}`)
+    return retry.data
+  }
+  throw new ApiError('The server sent a response the app could not read', { code: 'unexpected_response', payload: data })
+}
+
+// ── Bookings ──
+
+export type BookingSortField = 'start_time' | 'created_at' | 'status' | 'resource_name' | 'employee_name'
+
+export interface BookingListParams {
+  status?: BookingStatus
+  resource_id?: number
+  resource_type?: ResourceType
+  user_id?: number
+  series_id?: number
+  // Only bookings with a change request waiting for review
+  pending_change?: boolean
+  // Bookings the caller is invited to rather than owns
+  attending?: boolean
+  // Inclusive YYYY-MM-DD bounds on start_time
+  start_date?: string
+  end_date?: string
+  sort_by?: BookingSortField
+  sort_order?: 'asc' | 'desc'
+  limit?: number
+  offset?: number
+}
+
+// A slot taken before the booking landed: 409, or 422 carrying suggestions.
+// Returns the server's alternatives when it sent any.
+export function bookingConflictFrom(err: unknown) {
+  if (!isApiError(err)) return null
+  const body = bookingConflictSchema.safeParse(err.payload)
+  const suggestions = body.success ? body.data.suggestions : null
+  if (!err.isConflict && !suggestions) return null
+  return { message: err.message, suggestions }
+}
+
+export const bookingsApi = {
+  list: async ({ resource_type, ...params }: BookingListParams = {}) =>
+    parseResponse(
+      bookingListSchema,
+      await api.get('/bookings', {
+        params: { ...params, resource_type: resource_type && toApiResourceType(resource_type) },
+      }),
+      'GET /bookings'
+    ),
+
+  // Walks every page matching the filters - for bulk actions across pages
+  listAll: async (params: Omit<BookingListParams, 'limit' | 'offset'> = {}) => {
+    const limit = 100
+    let offset = 0
+    let all: Booking[] = []
+    let hasMore = true
+
+    while (hasMore) {
+      const page = await bookingsApi.list({ ...params, limit, offset })
+      all = [...all, ...page.bookings]
+      hasMore = page.has_more && page.bookings.length > 0
+      offset += limit
+    }
+    return all
+  },
+
+  get: async (id: number) =>
+    parseResponse(bookingResponseSchema, await api.get(`/bookings/${id}`), 'GET /bookings/:id'),
+
+  create: (values: BookingFormValues) => api.post('/bookings', values),
+
+  review: (id: number, status: Extract<BookingStatus, 'approved' | 'rejected'>, admin_note?: string) =>
+    api.patch(`/bookings/${id}`, { status, admin_note }),
+
+  checkIn: (id: number) => api.post(`/bookings/${id}/check_in`, {}),
+
+  // Equipment handover, recorded by an admin: checkout moves the booking to
+  // checked_in, return to completed
+  checkOut: (id: number) => api.post(`/bookings/${id}/checkout`, {}),
+
+  // Photos go up in the same request, so the form switches to multipart when there are any
+  recordReturn: (id: number, values: EquipmentReturnFormValues, photos: File[] = []) => {
+    if (photos.length === 0) return api.post(`/bookings/${id}/return`, values)
+
+    const form = new FormData()
+    form.append('condition', values.condition)
+    if (values.note) form.append('note', values.note)
+    photos.forEach(photo => form.append('photos[]', photo))
+    return api.post(`/bookings/${id}/return`, form, { headers: { 'Content-Type': 'multipart/form-data' } })
+  },
+
+  remove: (id: number) => api.del(`/bookings/${id}`),
+
+  // The booking keeps its current slot until the change is approved. Policies
+  // that auto-approve bookings apply the change straight away.
+  requestChange: async (id: number, values: BookingChangeFormValues) =>
+    parseResponse(
+      bookingChangeResponseSchema,
+      await api.post(`/bookings/${id}/change_requests`, values),
+      'POST /bookings/:id/change_requests'
+    ),
+
+  reviewChange: (id: number, changeId: number, status: 'approved' | 'rejected', admin_note?: string) =>
+    api.patch(`/bookings/${id}/change_requests/${changeId}`, { status, admin_note }),
+
+  withdrawChange: (id: number, changeId: number) => api.del(`/bookings/${id}/change_requests/${changeId}`),
+}
+
+// Recurring series. Single occurrences are still cancelled through bookingsApi.remove.
+export const bookingSeriesApi = {
+  create: (values: BookingSeriesFormValues) => api.post('/booking_series', values),
+
+  // Moves every occurrence starting at or after `from` to the new time of day
+  update: (id: number, values: BookingSeriesUpdateValues & { from: string }) =>
+    api.patch(`/booking_series/${id}`, values),
+
+  // Cancels every occurrence starting at or after `from`
+  cancel: (id: number, from: string) => api.del(`/booking_series/${id}`, { params: { from } }),
+}
+
+// ── Resources ──
+
+export interface ResourceListParams {
+  resource_type?: ResourceType
+  is_active?: boolean
+  limit?: number
+  offset?: number
+}
+
+const toResourcePayload = (values: Partial<ResourceFormValues>) => ({
+  ...values,
+  resource_type: values.resource_type && toApiResourceType(values.resource_type),
+})
+
+export const resourcesApi = {
+  list: async ({ resource_type, ...params }: ResourceListParams = {}) =>
+    parseResponse(
+      resourceListSchema,
+      await api.get('/resources', {
+        params: { ...params, resource_type: resource_type && toApiResourceType(resource_type) },
+      }),
+      'GET /resources'
+    ),
+
+  // Walks every page - for admin screens that need the full inventory
+  listAll: async (params: Omit<ResourceListParams, 'limit' | 'offset'> = {}) => {
+    const limit = 100
+    let offset = 0
+    let all: Resource[] = []
+    let hasMore = true
+
+    while (hasMore) {
+      const page = await resourcesApi.list({ ...params, limit, offset })
+      all = [...all, ...page.resources]
+      hasMore = page.has_more && page.resources.length > 0
+      offset += limit
+    }
+    return all
+  },
+
+  get: async (id: number) =>
+    parseResponse(resourceResponseSchema, await api.get(`/resources/${id}`), 'GET /resources/:id'),
+
+  // ignore_booking_id: treat that booking's slot as free, for moving it
+  availability: async (id: number, date: string, duration: number, ignore_booking_id?: number) =>
+    parseResponse(
+      availabilityResponseSchema,
+      await api.get(`/resources/${id}/availability`, { params: { date, duration, ignore_booking_id } }),
+      'GET /resources/:id/availability'
+    ),
+
+  // YYYY-MM-DD range, inclusive
+  dailyAvailability: async (id: number, start_date: string, end_date: string) =>
+    parseResponse(
+      dailyAvailabilitySchema,
+      await api.get(`/resources/${id}/daily_availability`, { params: { start_date, end_date } }),
+      'GET /resources/:id/daily_availability'
+    ),
+
+  // Read-only: nothing is booked or held by asking
+  suggestions: async (id: number, slot: { start_time: string; end_time: string }) =>
+    parseResponse(
+      slotSuggestionsSchema,
+      await api.get(`/resources/${id}/suggestions`, { params: slot }),
+      'GET /resources/:id/suggestions'
+    ),
+
+  // Checkouts, returns and maintenance for one asset, newest first
+  history: async (id: number, params: { limit?: number; offset?: number } = {}) =>
+    parseResponse(assetHistorySchema, await api.get(`/resources/${id}/history`, { params }), 'GET /resources/:id/history'),
+
+  create: (values: ResourceFormValues) => api.post('/resources', toResourcePayload(values)),
+
+  update: (id: number, values: Partial<ResourceFormValues>) =>
+    api.patch(`/resources/${id}`, toResourcePayload(values)),
+
+  remove: (id: number) => api.del(`/resources/${id}`),
+}
+
+// ── Resource types ──
+
+const toResourceTypePayload = (values: ResourceTypeDefinitionFormValues) => ({
+  ...values,
+  key: toApiResourceType(values.key),
+})
+
+export const resourceTypesApi = {
+  list: async () =>
+    parseResponse(resourceTypeDefinitionListSchema, await api.get('/resource_types'), 'GET /resource_types').resource_types,
+
+  create: async (values: ResourceTypeDefinitionFormValues) =>
+    parseResponse(resourceTypeDefinitionResponseSchema, await api.post('/resource_types', toResourceTypePayload(values)), 'POST /resource_types'),
+
+  // The key is fixed once resources use it
+  update: (key: ResourceType, values: ResourceTypeDefinitionFormValues) =>
+    api.patch(`/resource_types/${toApiResourceType(key)}`, toResourceTypePayload(values)),
+
+  // Refused while any resource still has the type
+  remove: (key: ResourceType) => api.del(`/resource_types/${toApiResourceType(key)}`),
+}
+
+// ── Closures ──
+
+export interface ClosureListParams {
+  scope?: ClosureScope
+  // Closures overlapping this YYYY-MM-DD window
+  start_date?: string
+  end_date?: string
+  limit?: number
+  offset?: number
+}
+
+export const closuresApi = {
+  list: async (params: ClosureListParams = {}) =>
+    parseResponse(closureListSchema, await api.get('/closures', { params }), 'GET /closures'),
+
+  create: async (values: ClosureFormValues) =>
+    parseResponse(closureResponseSchema, await api.post('/closures', values), 'POST /closures'),
+
+  update: (id: number, values: ClosureFormValues) => api.patch(`/closures/${id}`, values),
+
+  remove: (id: number) => api.del(`/closures/${id}`),
+
+  weekdayRules: async () =>
+    parseResponse(weekdayRuleListSchema, await api.get('/closures/weekday_rules'), 'GET /closures/weekday_rules').rules,
+
+  updateWeekdayRule: (type: ResourceType, closed_weekdays: number[]) =>
+    api.put(`/closures/weekday_rules/${toApiResourceType(type)}`, { closed_weekdays }),
+}
+
+// ── Maintenance ──
+
+export interface MaintenanceListParams {
+  resource_id?: number
+  status?: MaintenanceStatus
+  // Open and in-progress tickets - the ones blocking bookings
+  unresolved?: boolean
+  limit?: number
+  offset?: number
+}
+
+export const maintenanceApi = {
+  list: async (params: MaintenanceListParams = {}) =>
+    parseResponse(maintenanceTicketListSchema, await api.get('/maintenance_tickets', { params }), 'GET /maintenance_tickets'),
+
+  // Opening a ticket takes the resource out of availability straight away
+  create: async (resourceId: number, values: MaintenanceTicketFormValues) =>
+    parseResponse(
+      maintenanceTicketResponseSchema,
+      await api.post('/maintenance_tickets', { ...values, resource_id: resourceId }),
+      'POST /maintenance_tickets'
+    ),
+
+  update: (id: number, values: { status: MaintenanceStatus; resolution_note?: string }) =>
+    api.patch(`/maintenance_tickets/${id}`, values),
+}
+
+// ── Booking policies ──
+
+const toPolicyPayload = (values: BookingPolicyFormValues) => ({
+  ...values,
+  resource_type: toApiResourceType(values.resource_type),
+  max_active_bookings: values.max_active_bookings ?? null,
+})
+
+export const bookingPoliciesApi = {
+  list: async () =>
+    parseResponse(bookingPolicyListSchema, await api.get('/booking_policies'), 'GET /booking_policies').policies,
+
+  create: async (values: BookingPolicyFormValues) =>
+    parseResponse(bookingPolicyResponseSchema, await api.post('/booking_policies', toPolicyPayload(values)), 'POST /booking_policies'),
+
+  update: (id: number, values: BookingPolicyFormValues) => api.patch(`/booking_policies/${id}`, toPolicyPayload(values)),
+
+  remove: (id: number) => api.del(`/booking_policies/${id}`),
+}
+
+// ── Waitlist ──
+
+export interface WaitlistListParams {
+  // Admins see everyone's unless they ask for their own; employees only ever get theirs
+  user_id?: number
+  mine?: boolean
+  status?: WaitlistStatus
+  limit?: number
+  offset?: number
+}
+
+export interface WaitlistJoinValues {
+  resource_id: number
+  start_time: string
+  end_time: string
+}
+
+export const waitlistApi = {
+  list: async (params: WaitlistListParams = {}) =>
+    parseResponse(waitlistListSchema, await api.get('/waitlist', { params }), 'GET /waitlist'),
+
+  join: async (values: WaitlistJoinValues) =>
+    parseResponse(waitlistEntrySchema, await api.post('/waitlist', values), 'POST /waitlist'),
+
+  leave: (id: number) => api.del(`/waitlist/${id}`),
+
+  // Turns a held offer into a booking
+  claim: async (id: number) =>
+    parseResponse(bookingResponseSchema, await api.post(`/waitlist/${id}/claim`, {}), 'POST /waitlist/:id/claim'),
+
+  depth: async () =>
+    parseResponse(waitlistDepthSchema, await api.get('/waitlist/depth'), 'GET /waitlist/depth').resources,
+}
+
+// ── Users ──
+
+export const usersApi = {
+  list: async () => parseResponse(userListSchema, await api.get('/users'), 'GET /users'),
+
+  create: (values: UserFormValues) => api.post('/users', values),
+
+  remove: (id: number) => api.del(`/users/${id}`),
+}
+
+// ── Reports ──
+
+export const reportsApi = {
+  resourceUsage: async () =>
+    parseResponse(reportSchema(resourceUsageSchema), await api.get('/reports/resource_usage'), 'GET /reports/resource_usage').data,
+
+  userBookings: async () =>
+    parseResponse(reportSchema(userBookingStatSchema), await api.get('/reports/user_bookings'), 'GET /reports/user_bookings').data,
+
+  peakHours: async () =>
+    parseResponse(reportSchema(peakHourSchema), await api.get('/reports/peak_hours'), 'GET /reports/peak_hours').data,
+
+  noShows: async () =>
+    parseResponse(reportSchema(noShowStatSchema), await api.get('/reports/no_shows'), 'GET /reports/no_shows').data,
+}
+
+// ── Notifications ──
+
+export const notificationsApi = {
+  list: async (params: { limit?: number; offset?: number } = {}) =>
+    parseResponse(notificationListSchema, await api.get('/notifications', { params }), 'GET /notifications'),
+
+  markRead: (id: number) => api.patch(`/notifications/${id}`, { is_read: true }),
+
+  markAllRead: () => api.post('/notifications/mark_all_read', {}),
+}
+
+// ── Calendar feed ──
+
+export const calendarFeedApi = {
+  get: async () => parseResponse(calendarFeedSchema, await api.get('/calendar_feed'), 'GET /calendar_feed'),
+
+  // Issues a new token; the old URL stops working
+  reset: async () => parseResponse(calendarFeedSchema, await api.post('/calendar_feed/reset', {}), 'POST /calendar_feed/reset'),
+}
+
+// ── Auth ──
+
+export const authApi = {
+  login: async (values: { email: string; password: string }): Promise<LoginResponse> =>
+    parseResponse(loginResponseSchema, await api.post('/auth/login', values), 'POST /auth/login'),
+
+  me: async (): Promise<User> =>
+    parseResponse(sessionUserSchema, await api.get('/auth/me'), 'GET /auth/me'),
+
+  logout: () => api.del('/auth/logout'),
+}
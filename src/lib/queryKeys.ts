@@ -0,0 +1,73 @@
+import { BookingListParams, ClosureListParams, MaintenanceListParams, ResourceListParams, WaitlistListParams } from './client'
+
+// Shared React Query keys. Every key for an entity starts with its root, so
+// invalidating e.g. queryKeys.bookings.all refreshes lists and details alike.
+
+export const queryKeys = {
+  bookings: {
+    all: ['bookings'] as const,
+    lists: () => [...queryKeys.bookings.all, 'list'] as const,
+    list: (params: BookingListParams = {}) => [...queryKeys.bookings.lists(), params] as const,
+    detail: (id: number) => [...queryKeys.bookings.all, 'detail', id] as const,
+  },
+  resources: {
+    all: ['resources'] as const,
+    lists: () => [...queryKeys.resources.all, 'list'] as const,
+    list: (params: ResourceListParams = {}) => [...queryKeys.resources.lists(), params] as const,
+    listAll: (params: Omit<ResourceListParams, 'limit' | 'offset'> = {}) =>
+      [...queryKeys.resources.lists(), 'all', params] as const,
+    inventory: () => [...queryKeys.resources.all, 'inventory'] as const,
+    detail: (id: number) => [...queryKeys.resources.all, 'detail', id] as const,
+  },
+  resourceTypes: {
+    all: ['resource_types'] as const,
+  },
+  availability: {
+    all: ['availability'] as const,
+    slots: (resourceId: number, date: string, duration: number) =>
+      [...queryKeys.availability.all, resourceId, date, duration] as const,
+    daily: (resourceId: number, startDate: string, endDate: string) =>
+      [...queryKeys.availability.all, 'daily', resourceId, startDate, endDate] as const,
+    // Slots for moving a booking, with its own time counted as free
+    reschedule: (bookingId: number, resourceId: number, date: string, duration: number) =>
+      [...queryKeys.availability.all, 'reschedule', bookingId, resourceId, date, duration] as const,
+    suggestions: (resourceId: number, startTime: string, endTime: string) =>
+      [...queryKeys.availability.all, 'suggestions', resourceId, startTime, endTime] as const,
+  },
+  closures: {
+    all: ['closures'] as const,
+    list: (params: ClosureListParams = {}) => [...queryKeys.closures.all, 'list', params] as const,
+    weekdayRules: () => [...queryKeys.closures.all, 'weekday_rules'] as const,
+  },
+  policies: {
+    all: ['booking_policies'] as const,
+  },
+  waitlist: {
+    all: ['waitlist'] as const,
+    list: (params: WaitlistListParams = {}) => [...queryKeys.waitlist.all, 'list', params] as const,
+    depth: () => [...queryKeys.waitlist.all, 'depth'] as const,
+  },
+  assets: {
+    all: ['assets'] as const,
+    history: (resourceId: number) => [...queryKeys.assets.all, 'history', resourceId] as const,
+    maintenance: (params: MaintenanceListParams = {}) => [...queryKeys.assets.all, 'maintenance', params] as const,
+  },
+  users: {
+    all: ['users'] as const,
+    list: () => [...queryKeys.users.all, 'list'] as const,
+  },
+  calendarFeed: {
+    all: ['calendar_feed'] as const,
+  },
+  notifications: {
+    all: ['notifications'] as const,
+    feed: () => [...queryKeys.notifications.all, 'feed'] as const,
+  },
+  reports: {
+    all: ['reports'] as const,
+    resourceUsage: () => [...queryKeys.reports.all, 'resource_usage'] as const,
+    userBookings: () => [...queryKeys.reports.all, 'user_bookings'] as const,
+    peakHours: () => [...queryKeys.reports.all, 'peak_hours'] as const,
+    noShows: () => [...queryKeys.reports.all, 'no_shows'] as const,
+  },
+}
@@ -0,0 +1,116 @@
+import { create } from 'zustand'
+import config from '../config'
+import { useAuth } from '../store/authStore'
+import { refreshAccessToken } from './api'
+import { RealtimeEvent, realtimeEventSchema } from './schemas'
+
+// Live updates over server-sent events. EventSource can't send headers, so
+// the access token travels as a query parameter. The browser's own retry
+// would keep reusing a stale token, so we close on error and reconnect
+// ourselves with exponential backoff.
+
+export type RealtimeStatus = 'idle' | 'connecting' | 'open' | 'reconnecting'
+
+export const useRealtimeStatus = create<{ status: RealtimeStatus }>(() => ({ status: 'idle' }))
+
+type Listener = (event: RealtimeEvent) => void
+
+const MIN_BACKOFF = 1000
+const MAX_BACKOFF = 30 * 1000
+
+const listeners = new Set<Listener>()
+let source: EventSource | null = null
+let retryTimer: ReturnType<typeof setTimeout> | undefined
+let attempt = 0
+let active = false
+
+function setStatus(status: RealtimeStatus) {
+  useRealtimeStatus.setState({ status })
+}
+
+function handleMessage(message: MessageEvent<string>) {
+  let data: unknown
+  try {
+    data = JSON.parse(message.data)
+  } catch {
+    return
+  }
+
+  const result = realtimeEventSchema.safeParse(data)
+  if (!result.success) {
+    // Unknown event types are expected as the backend grows - ignore them
+    if (config.isDevelopment) console.warn('Ignoring realtime message', data)
+    return
+  }
+  listeners.forEach(listener => listener(result.data))
+}
+
+function scheduleReconnect() {
+  if (!active) return
+  setStatus('reconnecting')
+  // Full jitter so a server restart doesn't get every client back at once
+  const delay = Math.random() * Math.min(MAX_BACKOFF, MIN_BACKOFF * 2 ** attempt)
+  attempt += 1
+  retryTimer = setTimeout(open, delay)
+}
+
+async function open() {
+  if (!active) return
+
+  const auth = useAuth.getState()
+  let token = auth.token
+  if (auth.refresh_token && auth.isTokenExpiringSoon()) {
+    try {
+      token = await refreshAccessToken()
+    } catch {
+      // The API interceptor ends the session on the next request
+      scheduleReconnect()
+      return
+    }
+  }
+  if (!active || !token || source) return
+
+  setStatus(attempt === 0 ? 'connecting' : 'reconnecting')
+  const url = new URL(config.realtimeUrl)
+  url.searchParams.set('token', token)
+
+  source = new EventSource(url)
+  source.onopen = () => {
+    attempt = 0
+    setStatus('open')
+  }
+  source.onmessage = handleMessage
+  source.onerror = () => {
+    source?.close()
+    source = null
+    scheduleReconnect()
+  }
+}
+
+function close() {
+  clearTimeout(retryTimer)
+  source?.close()
+  source = null
+}
+
+export const realtime = {
+  connect() {
+    if (active) return
+    active = true
+    attempt = 0
+    open()
+  },
+
+  disconnect() {
+    active = false
+    close()
+    setStatus('idle')
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  },
+}
@@ -0,0 +1,556 @@
+import { z } from 'zod'
+import { Role } from '../types/auth'
+import {
+  closureScopeSchema, propertyFieldTypeSchema, resourceTypeIconSchema, resourceTypeSchema, ResourceType,
+  returnConditionSchema,
+} from '../utils/validators'
+
+// Response schemas for the backend API. Everything the pages render goes
+// through here, so the flat/nested booking shapes and the resource type
+// spelling are normalised once instead of in every component.
+
+// The API spells meeting rooms 'meeting-room', the app uses 'meeting_room'
+export const fromApiResourceType = (type: string): ResourceType => {
+  if (type === 'meeting-room') return 'meeting_room'
+  return type as ResourceType
+}
+
+export const toApiResourceType = (type: ResourceType) =>
+  type === 'meeting_room' ? 'meeting-room' : type
+
+const apiResourceTypeSchema = z.string().transform(fromApiResourceType).pipe(resourceTypeSchema)
+
+// Pagination envelope shared by list endpoints
+const pageFields = {
+  total: z.number().default(0),
+  limit: z.number().optional(),
+  offset: z.number().optional(),
+  has_more: z.boolean().default(false),
+}
+
+// ── Resources ──
+
+export const resourceResponseSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  resource_type: apiResourceTypeSchema,
+  description: z.string().nullish().transform(v => v ?? undefined).optional(),
+  location: z.string().nullish().transform(v => v ?? ''),
+  is_active: z.boolean().default(true),
+  properties: z.record(z.string(), z.any()).nullish().transform(v => v ?? {}),
+  created_at: z.string().optional(),
+})
+
+export type Resource = z.infer<typeof resourceResponseSchema>
+
+export const resourceListSchema = z.object({
+  resources: z.array(resourceResponseSchema).default([]),
+  ...pageFields,
+})
+
+export type ResourceList = z.infer<typeof resourceListSchema>
+
+// ── Resource types ──
+
+// Optional settings come back as null; the form types use undefined
+const propertyFieldResponseSchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  type: propertyFieldTypeSchema,
+  required: z.boolean().default(false),
+  filterable: z.boolean().nullish(),
+  options: z.array(z.string()).nullish().transform(v => v ?? []),
+  unit: z.string().nullish().transform(v => v ?? undefined).optional(),
+  min: z.number().nullish().transform(v => v ?? undefined).optional(),
+  max: z.number().nullish().transform(v => v ?? undefined).optional(),
+  placeholder: z.string().nullish().transform(v => v ?? undefined).optional(),
+  // Free text is rarely worth filtering on (serial numbers), everything else is
+}).transform(f => ({ ...f, filterable: f.filterable ?? f.type !== 'text' }))
+
+export const resourceTypeDefinitionResponseSchema = z.object({
+  key: apiResourceTypeSchema,
+  label: z.string(),
+  singular_label: z.string(),
+  description: z.string().nullish().transform(v => v ?? undefined).optional(),
+  icon: resourceTypeIconSchema.catch('box'),
+  // Built-in types can be edited but not deleted
+  built_in: z.boolean().default(false),
+  properties: z.array(propertyFieldResponseSchema).default([]),
+})
+
+export type ResourceTypeDefinition = z.infer<typeof resourceTypeDefinitionResponseSchema>
+
+export const resourceTypeDefinitionListSchema = z.object({
+  resource_types: z.array(resourceTypeDefinitionResponseSchema).default([]),
+})
+
+export const timeSlotSchema = z.object({
+  start_time: z.string(),
+  end_time: z.string(),
+  available: z.boolean(),
+})
+
+export type TimeSlot = z.infer<typeof timeSlotSchema>
+
+export const availabilityResponseSchema = z.object({
+  resource_id: z.number(),
+  resource_name: z.string().optional(),
+  query_date: z.string().optional(),
+  slot_duration_hours: z.number().optional(),
+  available_slots: z.array(timeSlotSchema).default([]),
+})
+
+export type AvailabilityResponse = z.infer<typeof availabilityResponseSchema>
+
+// Whole-day availability, for equipment borrowed by the day
+export const dailyAvailabilitySchema = z.object({
+  resource_id: z.number(),
+  days: z.array(z.object({
+    date: z.string(),
+    available: z.boolean(),
+  })).default([]),
+})
+
+export type DailyAvailability = z.infer<typeof dailyAvailabilitySchema>
+
+// Alternatives to a taken slot: other resources of the same type free at that
+// time, and free slots on the same resource near it
+export const slotSuggestionsSchema = z.object({
+  resources: z.array(resourceResponseSchema).default([]),
+  slots: z.array(timeSlotSchema).default([]),
+})
+
+export type SlotSuggestions = z.infer<typeof slotSuggestionsSchema>
+
+// Error body when a booking hits a taken slot; the server may say what's free instead
+export const bookingConflictSchema = z.object({
+  errors: z.array(z.string()).default([]),
+  suggestions: z.object({
+    available_resources: z.array(resourceResponseSchema).default([]),
+    available_slots: z.array(timeSlotSchema).default([]),
+  }).nullish().transform(s => s ? { resources: s.available_resources, slots: s.available_slots } : null),
+})
+
+// ── Bookings ──
+
+// no_show: approved but not checked in before the check-in window closed;
+// the server releases the slot when it sets this
+export const bookingStatusSchema = z.enum([
+  'pending', 'approved', 'rejected', 'checked_in', 'completed', 'cancelled', 'no_show',
+])
+
+export type BookingStatus = z.infer<typeof bookingStatusSchema>
+
+// A request to move a booking. The booking keeps its slot until one is
+// approved; every request stays on the booking as its change history.
+export const bookingChangeStatusSchema = z.enum(['pending', 'approved', 'rejected', 'withdrawn'])
+
+export type BookingChangeStatus = z.infer<typeof bookingChangeStatusSchema>
+
+export const bookingChangeResponseSchema = z.object({
+  id: z.number(),
+  status: bookingChangeStatusSchema,
+  // Where the booking was when the change was asked for
+  previous_resource_id: z.number(),
+  previous_start_time: z.string(),
+  previous_end_time: z.string(),
+  resource_id: z.number(),
+  resource_name: z.string().nullish().transform(v => v ?? null),
+  start_time: z.string(),
+  end_time: z.string(),
+  reason: z.string().nullish().transform(v => v ?? null),
+  admin_note: z.string().nullish().transform(v => v ?? null),
+  requested_by_name: z.string().nullish().transform(v => v ?? null),
+  created_at: z.string(),
+  reviewed_at: z.string().nullish().transform(v => v ?? null),
+})
+
+export type BookingChange = z.infer<typeof bookingChangeResponseSchema>
+
+// Invitees can be colleagues or outside guests, who have no account
+export const attendeeSchema = z.object({
+  email: z.string(),
+  name: z.string().nullish().transform(v => v ?? null),
+  user_id: z.number().nullish().transform(v => v ?? null),
+})
+
+export type Attendee = z.infer<typeof attendeeSchema>
+
+const rawBookingSchema = z.object({
+  id: z.number(),
+  resource_id: z.number(),
+  user_id: z.number().nullish(),
+  start_time: z.string(),
+  end_time: z.string(),
+  status: bookingStatusSchema,
+  title: z.string().nullish(),
+  description: z.string().nullish(),
+  attendees: z.array(attendeeSchema).nullish(),
+  employee_id: z.string().nullish(),
+  employee_name: z.string().nullish(),
+  resource_name: z.string().nullish(),
+  approved_at: z.string().nullish(),
+  cancelled_at: z.string().nullish(),
+  // For equipment this is the checkout (handover) time
+  checked_in_at: z.string().nullish(),
+  returned_at: z.string().nullish(),
+  return_condition: returnConditionSchema.nullish(),
+  return_note: z.string().nullish(),
+  return_photo_urls: z.array(z.string()).nullish(),
+  admin_note: z.string().nullish(),
+  // Set when the booking is one occurrence of a recurring series
+  series_id: z.number().nullish(),
+  change_requests: z.array(bookingChangeResponseSchema).nullish(),
+  created_at: z.string(),
+  updated_at: z.string().nullish(),
+  // Legacy nested shape (older endpoints still embed these)
+  resource: z.object({
+    id: z.number(),
+    name: z.string(),
+    resource_type: z.string(),
+    location: z.string().nullish(),
+  }).nullish(),
+  user: z.object({
+    id: z.number(),
+    name: z.string(),
+    email: z.string(),
+    employee_id: z.string().nullish(),
+  }).nullish(),
+})
+
+export const bookingResponseSchema = rawBookingSchema.transform(b => ({
+  id: b.id,
+  resource_id: b.resource_id,
+  user_id: b.user_id ?? b.user?.id ?? null,
+  start_time: b.start_time,
+  end_time: b.end_time,
+  status: b.status,
+  title: b.title || null,
+  description: b.description || null,
+  attendees: b.attendees ?? [],
+  approved_at: b.approved_at ?? null,
+  cancelled_at: b.cancelled_at ?? null,
+  checked_in_at: b.checked_in_at ?? null,
+  returned_at: b.returned_at ?? null,
+  return_condition: b.return_condition ?? null,
+  return_note: b.return_note ?? null,
+  return_photo_urls: b.return_photo_urls ?? [],
+  admin_note: b.admin_note ?? null,
+  series_id: b.series_id ?? null,
+  change_requests: b.change_requests ?? [],
+  created_at: b.created_at,
+  updated_at: b.updated_at ?? b.created_at,
+  resource_name: b.resource_name || b.resource?.name || 'Unknown Resource',
+  resource_type: b.resource ? fromApiResourceType(b.resource.resource_type) : null,
+  resource_location: b.resource?.location ?? '',
+  employee_name: b.employee_name || b.user?.name || 'Unknown',
+  employee_id: b.employee_id || b.user?.employee_id || '',
+  employee_email: b.user?.email ?? '',
+}))
+
+export type Booking = z.infer<typeof bookingResponseSchema>
+
+export const bookingListSchema = z.object({
+  bookings: z.array(bookingResponseSchema).default([]),
+  ...pageFields,
+})
+
+export type BookingList = z.infer<typeof bookingListSchema>
+
+// ── Users ──
+
+export const userRecordSchema = z.object({
+  id: z.number(),
+  employee_id: z.string(),
+  name: z.string(),
+  email: z.string(),
+  role: z.enum(['admin', 'employee']),
+  created_at: z.string().optional(),
+})
+
+export type UserRecord = z.infer<typeof userRecordSchema>
+
+export const userListSchema = z.object({
+  users: z.array(userRecordSchema).default([]),
+  ...pageFields,
+})
+
+export type UserList = z.infer<typeof userListSchema>
+
+// ── Reports ──
+
+export const resourceUsageSchema = z.object({
+  resource_id: z.number(),
+  resource_name: z.string(),
+  resource_type: z.string().optional(),
+  total_bookings: z.number(),
+  checked_in_count: z.number().optional(),
+  no_show_count: z.number().optional(),
+  utilization_rate: z.number().nullish(),
+})
+
+export type ResourceUsage = z.infer<typeof resourceUsageSchema>
+
+export const userBookingStatSchema = z.object({
+  user_id: z.number(),
+  user_name: z.string(),
+  total_approved_bookings: z.number(),
+})
+
+export type UserBookingStat = z.infer<typeof userBookingStatSchema>
+
+export const noShowStatSchema = z.object({
+  user_id: z.number(),
+  user_name: z.string(),
+  no_show_count: z.number(),
+  // Approved bookings that have started, checked in or not
+  total_bookings: z.number().optional(),
+})
+
+export type NoShowStat = z.infer<typeof noShowStatSchema>
+
+// Peak hours come back as { hour: "9:00", bookings: 2 } or { hour: 9, booking_count: 2 }
+export const peakHourSchema = z.object({
+  hour: z.union([z.string(), z.number()]),
+  bookings: z.number().optional(),
+  booking_count: z.number().optional(),
+}).transform(p => ({
+  hour: typeof p.hour === 'number' ? `${p.hour}:00` : p.hour,
+  bookings: p.bookings ?? p.booking_count ?? 0,
+}))
+
+export type PeakHour = z.infer<typeof peakHourSchema>
+
+export const reportSchema = <T extends z.ZodType>(row: T) =>
+  z.object({ data: z.array(row).default([]) })
+
+// ── Notifications ──
+
+export const notificationSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  booking_id: z.number().nullish().transform(v => v ?? null),
+  notification_type: z.string(),
+  channel: z.string(),
+  message: z.string(),
+  is_read: z.boolean().default(false),
+  sent_at: z.string().nullish(),
+  created_at: z.string(),
+}).transform(n => ({ ...n, sent_at: n.sent_at ?? n.created_at }))
+
+export type Notification = z.infer<typeof notificationSchema>
+
+export const notificationListSchema = z.object({
+  notifications: z.array(notificationSchema).default([]),
+  unread_count: z.number().default(0),
+  ...pageFields,
+})
+
+export type NotificationList = z.infer<typeof notificationListSchema>
+
+// ── Closures ──
+
+export const closureResponseSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  scope: closureScopeSchema,
+  location: z.string().nullish().transform(v => v ?? null),
+  resource_id: z.number().nullish().transform(v => v ?? null),
+  resource_name: z.string().nullish().transform(v => v ?? null),
+  // Inclusive YYYY-MM-DD range; times (HH:MM) narrow it to a daily window
+  start_date: z.string(),
+  end_date: z.string(),
+  start_time: z.string().nullish().transform(v => v ?? null),
+  end_time: z.string().nullish().transform(v => v ?? null),
+})
+
+export type Closure = z.infer<typeof closureResponseSchema>
+
+export const closureListSchema = z.object({
+  closures: z.array(closureResponseSchema).default([]),
+  ...pageFields,
+})
+
+export type ClosureList = z.infer<typeof closureListSchema>
+
+// Days of the week (0 = Sunday) a resource type can't be booked
+export const weekdayRuleSchema = z.object({
+  resource_type: apiResourceTypeSchema,
+  closed_weekdays: z.array(z.number().int().min(0).max(6)).default([]),
+})
+
+export type WeekdayRule = z.infer<typeof weekdayRuleSchema>
+
+export const weekdayRuleListSchema = z.object({
+  rules: z.array(weekdayRuleSchema).default([]),
+})
+
+// ── Booking policies ──
+
+export const bookingPolicyResponseSchema = z.object({
+  id: z.number(),
+  resource_type: apiResourceTypeSchema,
+  // Set when the policy overrides its type for one resource
+  resource_id: z.number().nullish().transform(v => v ?? null),
+  resource_name: z.string().nullish().transform(v => v ?? null),
+  allowed_durations: z.array(z.number()).default([]),
+  max_advance_days: z.number(),
+  max_active_bookings: z.number().nullish().transform(v => v ?? null),
+  // Minutes before and after the start time that check-in is open
+  check_in_opens_minutes: z.number(),
+  check_in_closes_minutes: z.number(),
+  auto_approve: z.boolean().default(false),
+  buffer_minutes: z.number().default(0),
+})
+
+export type BookingPolicy = z.infer<typeof bookingPolicyResponseSchema>
+
+export const bookingPolicyListSchema = z.object({
+  policies: z.array(bookingPolicyResponseSchema).default([]),
+})
+
+// ── Waitlist ──
+
+// waiting -> offered (slot freed, held for this person) -> claimed, or expired
+// if the hold runs out and the offer moves down the queue
+export const waitlistStatusSchema = z.enum(['waiting', 'offered', 'claimed', 'expired', 'cancelled'])
+
+export type WaitlistStatus = z.infer<typeof waitlistStatusSchema>
+
+export const waitlistEntrySchema = z.object({
+  id: z.number(),
+  resource_id: z.number(),
+  resource_name: z.string().nullish().transform(v => v ?? null),
+  user_id: z.number().optional(),
+  employee_name: z.string().optional(),
+  start_time: z.string(),
+  end_time: z.string(),
+  status: waitlistStatusSchema,
+  // 1 is next in line; null once the entry has left the queue
+  position: z.number().nullish().transform(v => v ?? null),
+  // Set while offered: the slot is held until then
+  hold_expires_at: z.string().nullish().transform(v => v ?? null),
+  created_at: z.string(),
+})
+
+export type WaitlistEntry = z.infer<typeof waitlistEntrySchema>
+
+export const waitlistListSchema = z.object({
+  entries: z.array(waitlistEntrySchema).default([]),
+  ...pageFields,
+})
+
+export const waitlistDepthSchema = z.object({
+  resources: z.array(z.object({
+    resource_id: z.number(),
+    waiting: z.number(),
+  })).default([]),
+})
+
+// ── Asset lifecycle ──
+
+// open -> in_progress -> resolved. The resource can't be booked until resolved.
+export const maintenanceStatusSchema = z.enum(['open', 'in_progress', 'resolved'])
+
+export type MaintenanceStatus = z.infer<typeof maintenanceStatusSchema>
+
+export const maintenanceTicketResponseSchema = z.object({
+  id: z.number(),
+  resource_id: z.number(),
+  resource_name: z.string().nullish().transform(v => v ?? null),
+  title: z.string(),
+  description: z.string().nullish().transform(v => v ?? null),
+  status: maintenanceStatusSchema,
+  reported_by_name: z.string().nullish().transform(v => v ?? null),
+  resolution_note: z.string().nullish().transform(v => v ?? null),
+  created_at: z.string(),
+  resolved_at: z.string().nullish().transform(v => v ?? null),
+})
+
+export type MaintenanceTicket = z.infer<typeof maintenanceTicketResponseSchema>
+
+export const maintenanceTicketListSchema = z.object({
+  tickets: z.array(maintenanceTicketResponseSchema).default([]),
+  ...pageFields,
+})
+
+export const assetEventTypeSchema = z.enum(['checkout', 'return', 'maintenance_opened', 'maintenance_resolved'])
+
+export type AssetEventType = z.infer<typeof assetEventTypeSchema>
+
+// One entry in a resource's history. Loan events carry the booking, maintenance
+// events the ticket; condition and photos only come with returns.
+export const assetEventSchema = z.object({
+  id: z.number(),
+  type: assetEventTypeSchema,
+  occurred_at: z.string(),
+  // The admin who handed over or took back the item, or who reported or resolved the ticket
+  actor_name: z.string().nullish().transform(v => v ?? null),
+  booking_id: z.number().nullish().transform(v => v ?? null),
+  employee_name: z.string().nullish().transform(v => v ?? null),
+  ticket_id: z.number().nullish().transform(v => v ?? null),
+  title: z.string().nullish().transform(v => v ?? null),
+  condition: returnConditionSchema.nullish().transform(v => v ?? null),
+  note: z.string().nullish().transform(v => v ?? null),
+  photo_urls: z.array(z.string()).nullish().transform(v => v ?? []),
+})
+
+export type AssetEvent = z.infer<typeof assetEventSchema>
+
+export const assetHistorySchema = z.object({
+  events: z.array(assetEventSchema).default([]),
+  ...pageFields,
+})
+
+export type AssetHistory = z.infer<typeof assetHistorySchema>
+
+// ── Calendar feed ──
+
+// A private iCal URL; the token in it is the only credential, so it can be reset
+export const calendarFeedSchema = z.object({
+  url: z.string(),
+  created_at: z.string().nullish().transform(v => v ?? null),
+})
+
+export type CalendarFeed = z.infer<typeof calendarFeedSchema>
+
+// ── Realtime ──
+
+// Pushed over the live channel, one JSON object per message
+export const realtimeEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('booking.created'),
+    booking: bookingResponseSchema,
+  }),
+  z.object({
+    type: z.literal('booking.status_changed'),
+    booking: z.object({
+      id: z.number(),
+      status: bookingStatusSchema,
+      admin_note: z.string().nullish(),
+      updated_at: z.string().optional(),
+    }),
+  }),
+  z.object({
+    type: z.literal('notification.created'),
+    notification: notificationSchema,
+  }),
+])
+
+export type RealtimeEvent = z.infer<typeof realtimeEventSchema>
+
+// ── Auth ──
+
+export const sessionUserSchema = z.object({
+  employee_id: z.string().optional(),
+  name: z.string(),
+  email: z.string(),
+  role: z.enum(Role),
+})
+
+export const loginResponseSchema = z.object({
+  token: z.string(),
+  user: sessionUserSchema,
+  expires_at: z.string(),
+  refresh_token: z.string().nullish(),
+})
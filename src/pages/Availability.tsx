@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Resource, TimeSlot } from '../lib/schemas'
+import { ResourceType } from '../utils/validators'
+import { isEquipment } from '../utils/equipment'
+import { formatHours, policyFor } from '../utils/policies'
+import { emptyResourceFilters, filterResources, ResourceFilters } from '../utils/resourceFilters'
+import { useAllResources } from '../hooks/useResources'
+import { useBookingPolicies } from '../hooks/usePolicies'
+import { useResourceTypeDefinitions } from '../hooks/useResourceTypes'
+import { useAuth } from '../store/authStore'
+import { Role } from '../types/auth'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import { AlertCircle } from 'lucide-react'
+import { toast } from 'sonner'
+import { Breadcrumbs } from '../components/Breadcrumbs'
+import { ResourceAvailabilityGrid } from '../components/ResourceAvailabilityGrid'
+import { ResourceFilterPanel } from '../components/ResourceFilterPanel'
+import dayjs from 'dayjs'
+
+const Availability: React.FC = () => {
+  const navigate = useNavigate()
+  const role = useAuth(state => state.user?.role)
+  const basePath = role === Role.Admin ? '/dashboard/admin' : '/dashboard/employee'
+
+  // Equipment is loaned by the day, so the grid is for types booked by the slot
+  const { types, definitionOf } = useResourceTypeDefinitions()
+  const slotTypes = types.filter(t => !isEquipment(t.key))
+
+  const [resourceType, setResourceType] = useState<ResourceType>('meeting_room')
+  const [date, setDate] = useState(dayjs().format('YYYY-MM-DD'))
+  const [duration, setDuration] = useState(1)
+  const [filters, setFilters] = useState<ResourceFilters>(emptyResourceFilters)
+
+  const definition = definitionOf(resourceType)
+  const { data: resources = [], isLoading, isError } = useAllResources({ resource_type: resourceType, is_active: true })
+  const matching = filterResources(definition, filters, resources)
+
+  // The type's durations; a resource with its own policy may not allow the one picked
+  const { data: policies = [] } = useBookingPolicies()
+  const durations = policyFor(policies, { id: 0, resource_type: resourceType }).allowed_durations
+  const slotDuration = durations.includes(duration) ? duration : durations[0]
+  const bookable = (resource: Resource) => policyFor(policies, resource).allowed_durations.includes(slotDuration)
+
+  useEffect(() => {
+    if (isError) toast.error('Failed to load resources')
+  }, [isError])
+
+  function handleTypeChange(value: string) {
+    setResourceType(value)
+    setFilters(emptyResourceFilters)
+  }
+
+  function handleSelect(resource: Resource, slot: TimeSlot) {
+    const params = new URLSearchParams({
+      resource: String(resource.id),
+      date,
+      start: slot.start_time,
+      end: slot.end_time,
+    })
+    navigate(`${basePath}/book?${params}`)
+  }
+
+  return (
+    <div className="max-w-7xl">
+      <Breadcrumbs
+        items={[
+          role === Role.Admin
+            ? { label: 'Admin Dashboard', href: '/dashboard/admin' }
+            : { label: 'Employee Dashboard', href: '/dashboard/employee' },
+          { label: 'Availability' }
+        ]}
+      />
+
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold text-neutral-900 mb-2" style={{ fontFamily: "'Playfair Display', serif" }}>
+          Find a Free Slot
+        </h1>
+        <p className="text-neutral-500">Every {definition.singular_label.toLowerCase()} side by side - pick a free cell to book it</p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 mb-6">
+        <div className="space-y-1">
+          <Label className="text-xs text-neutral-500">Resource type</Label>
+          <Select value={resourceType} onValueChange={handleTypeChange}>
+            <SelectTrigger className="w-48 border-neutral-200"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {slotTypes.map(t => (
+                <SelectItem key={t.key} value={t.key}>{t.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="availability-date" className="text-xs text-neutral-500">Date</Label>
+          <Input
+            id="availability-date"
+            type="date"
+            min={dayjs().format('YYYY-MM-DD')}
+            value={date}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+            className="w-44 border-neutral-200"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-neutral-500">Duration</Label>
+          <Select value={String(slotDuration)} onValueChange={(v) => setDuration(Number(v))}>
+            <SelectTrigger className="w-36 border-neutral-200"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {durations.map(d => (
+                <SelectItem key={d} value={String(d)}>{formatHours(d)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {resources.length > 0 && (
+        <ResourceFilterPanel definition={definition} resources={resources} filters={filters} onFiltersChange={setFilters} />
+      )}
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3, 4].map(i => <Skeleton key={i} className="h-12 w-full" />)}
+        </div>
+      ) : matching.length === 0 ? (
+        <Card className="text-center py-12 border-neutral-200">
+          <CardContent>
+            <AlertCircle className="w-16 h-16 text-neutral-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-neutral-900 mb-2">
+              {resources.length === 0 ? `No active ${definition.label.toLowerCase()}` : 'Nothing matches'}
+            </h3>
+            <p className="text-neutral-500">
+              {resources.length === 0 ? 'There is nothing of this type to book yet.' : 'Try loosening the filters.'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <ResourceAvailabilityGrid
+          // A new type, day or length starts again from the first batch
+          key={`${resourceType}-${date}-${slotDuration}`}
+          resources={matching}
+          date={date}
+          duration={slotDuration}
+          bookable={bookable}
+          onSelect={handleSelect}
+        />
+      )}
+    </div>
+  )
+}
+
+export default Availability
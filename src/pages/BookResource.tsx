@@ -1,10 +1,31 @@
 import React, { useState, useEffect } from 'react'
-import { useNavigate } from 'react-router-dom'
-import { api } from '../lib/api'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { DateRange } from 'react-day-picker'
+import { bookingConflictFrom } from '../lib/client'
+import { errorMessage } from '../lib/apiError'
+import { Resource, TimeSlot } from '../lib/schemas'
+import {
+  BookingDetailsFormValues, bookingDetailsSchemaFor, emptyBookingDetails, RecurrenceFormValues, recurrenceSchema, ResourceType, resourceTypeSchema,
+} from '../utils/validators'
+import { expandRecurrence } from '../utils/recurrence'
+import {
+  closedDates, closedWeekdaysFor, closureOverlapping, closuresFor, fullDayClosureOn, weekdayNames
+} from '../utils/closures'
+import { activeBookingsUnder, describePolicy, formatHours, latestBookableDate, policyFor } from '../utils/policies'
+import { canClaim, waitlistEntryFor } from '../utils/waitlist'
+import { formatPropertyValue, resourceTypeIcons } from '../utils/resourceTypes'
+import { rankAlternativeResources, rankNearbySlots } from '../utils/suggestions'
+import { isEquipment, loanDays, loanWindow } from '../utils/equipment'
+import {
+  emptyResourceFilters, emptyTimeWindow, filterResources, freeDuring, ResourceFilters, TimeWindow, windowSlot
+} from '../utils/resourceFilters'
+import { Role } from '../types/auth'
+import { useAuth } from '../store/authStore'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Calendar } from '@/components/ui/calendar'
+import { Checkbox } from '@/components/ui/checkbox'
 import {
   Select,
   SelectContent,
@@ -21,9 +42,6 @@ import {
 } from '@/components/ui/dialog'
 import {
   DoorOpen,
-  Smartphone,
-  Laptop,
-  Sprout,
   Calendar as CalendarIcon,
   Clock,
   MapPin,
@@ -33,10 +51,26 @@ import {
   AlertCircle,
   Info,
   Lightbulb,
-  ArrowRight
+  ArrowRight,
+  CalendarOff,
+  Hourglass,
+  SlidersHorizontal
 } from 'lucide-react'
 import { toast } from 'sonner'
 import { Breadcrumbs } from '../components/Breadcrumbs'
+import { OccurrenceStatus, RecurrenceOptions, RecurrencePreview } from '../components/RecurrenceOptions'
+import { DailyAvailabilityGrid } from '../components/DailyAvailabilityGrid'
+import { BookingDetailsFields } from '../components/BookingDetailsFields'
+import { ResourceFilterPanel } from '../components/ResourceFilterPanel'
+import { useBookings, useCreateBooking, useCreateBookingSeries } from '../hooks/useBookings'
+import { useClosures, useWeekdayRules } from '../hooks/useClosures'
+import { useBookingPolicies } from '../hooks/usePolicies'
+import { useResourceTypeDefinitions } from '../hooks/useResourceTypes'
+import { useClaimWaitlistSlot, useJoinWaitlist, useLeaveWaitlist, useWaitlist } from '../hooks/useWaitlist'
+import {
+  useAllResources, useDailyAvailability, useResource, useResourceAvailability, useResourceAvailabilityForDates,
+  useResourceInventory, useResourcesAvailability, useSlotSuggestions
+} from '../hooks/useResources'
 import { Skeleton } from '@/components/ui/skeleton'
 import dayjs from 'dayjs'
 import utc from 'dayjs/plugin/utc'
@@ -47,261 +81,479 @@ dayjs.extend(utc)
 dayjs.extend(isBetween)
 dayjs.extend(isSameOrAfter)
 
-interface Resource {
-  id: number
-  name: string
-  resource_type: string
-  location: string
-  description?: string
-  is_active: boolean
-  properties: Record<string, any>
-}
+// Roomy day cells for the booking calendars
+const calendarClassNames = {
+  months: "flex flex-col w-full",
+  month: "space-y-4 w-full",
+  caption: "flex justify-center items-center py-3 relative",
+  caption_label: "text-base font-semibold text-neutral-900",
+  nav: "flex items-center gap-2",
+  nav_button:
+    "h-11 w-11 rounded-xl border border-neutral-200 bg-white hover:bg-neutral-100 transition flex items-center justify-center",
+  nav_button_previous: "absolute left-3",
+  nav_button_next: "absolute right-3",
 
-interface AvailabilityResponse {
-  resource_id: number
-  resource_name: string
-  query_date: string
-  slot_duration_hours: number
-  available_slots: TimeSlot[]
-}
+  table: "w-full border-separate border-spacing-2",
+  head_row: "grid grid-cols-7 mb-2",
+  head_cell:
+    "text-neutral-500 text-xs font-medium text-center uppercase tracking-wide",
 
-interface TimeSlot {
-  start_time: string
-  end_time: string
-  available: boolean
-}
+  row: "grid grid-cols-7 gap-2",
+  cell: "w-full aspect-square",
 
-interface AlternativeResource {
-  id: number
-  name: string
-  resource_type: string
-  description?: string
-  location: string
-  is_active: boolean
-  properties: Record<string, any>
-}
+  day: `
+      w-full h-full rounded-xl 
+      border border-neutral-200 
+      bg-white 
+      hover:bg-emerald-50 hover:border-emerald-400 
+      transition 
+      flex items-center justify-center 
+      text-sm font-medium
+    `,
 
-interface AlternativeSlot {
-  start_time: string
-  end_time: string
-  available: boolean
+  day_selected:
+    "bg-emerald-600 text-white border-emerald-600 hover:bg-emerald-600",
+
+  day_today:
+    "border-2 border-emerald-500 text-emerald-700 font-bold bg-emerald-50",
+
+  day_outside:
+    "text-neutral-300 bg-neutral-50 opacity-50",
+
+  day_disabled:
+    "text-neutral-300 bg-neutral-100 cursor-not-allowed opacity-40",
+
+  day_hidden: "invisible",
 }
 
-type ResourceType = 'meeting_room' | 'phone' | 'laptop' | 'turf'
-
-const resourceCategories = [
-  {
-    type: 'meeting_room' as const,
-    title: 'Meeting Rooms',
-    icon: DoorOpen,
-    description: 'Conference spaces with projectors',
-  },
-  {
-    type: 'phone' as const,
-    title: 'Phones',
-    icon: Smartphone,
-    description: 'Mobile devices for testing',
-  },
-  {
-    type: 'laptop' as const,
-    title: 'Laptops',
-    icon: Laptop,
-    description: 'Portable workstations',
-  },
-  {
-    type: 'turf' as const,
-    title: 'Turf',
-    icon: Sprout,
-    description: 'Outdoor recreational space',
+// Deep links (e.g. from the calendar) can prefill the flow:
+// ?resource=12&date=2026-10-20&start=<ISO>&end=<ISO>, or ?type=laptop&date=...
+function readPrefill(params: URLSearchParams) {
+  const resourceId = Number(params.get('resource'))
+  const type = resourceTypeSchema.safeParse(params.get('type'))
+  const date = params.get('date') ? dayjs(params.get('date')) : null
+  const start = params.get('start') ? dayjs(params.get('start')) : null
+  const end = params.get('end') ? dayjs(params.get('end')) : null
+  const minutes = start && end ? end.diff(start, 'minute') : null
+
+  return {
+    resourceId: Number.isInteger(resourceId) && resourceId > 0 ? resourceId : null,
+    type: type.success ? type.data : null,
+    date: date?.isValid() ? date.toDate() : null,
+    slotStart: start?.isValid() ? start.toISOString() : null,
+    duration: minutes !== null && minutes > 0 ? minutes / 60 : 1,
   }
-]
+}
 
 const BookResource: React.FC = () => {
   const navigate = useNavigate()
-  const [step, setStep] = useState<'category' | 'resource' | 'slots'>('category')
-  const [selectedCategory, setSelectedCategory] = useState<string | null>(null)
+  const [searchParams] = useSearchParams()
+  const [prefill] = useState(() => readPrefill(searchParams))
+  const [step, setStep] = useState<'category' | 'resource' | 'slots'>(prefill.type ? 'resource' : 'category')
+  const [selectedCategory, setSelectedCategory] = useState<ResourceType | null>(prefill.type)
+  const { types: resourceTypes, definitionOf } = useResourceTypeDefinitions()
+  const categoryIcon = selectedCategory ? resourceTypeIcons[definitionOf(selectedCategory).icon] : DoorOpen
   const [selectedResource, setSelectedResource] = useState<Resource | null>(null)
-  const [resources, setResources] = useState<Resource[]>([])
-  const [loading, setLoading] = useState(false)
-  const [selectedDate, setSelectedDate] = useState<Date>(new Date())
-  const [duration, setDuration] = useState<0.5 | 1>(1)
-  const [slots, setSlots] = useState<TimeSlot[]>([])
-  const [loadingSlots, setLoadingSlots] = useState(false)
+  const [selectedDate, setSelectedDate] = useState<Date>(prefill.date ?? new Date())
+  const [duration, setDuration] = useState(prefill.duration)
   const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null)
-  const [isBooking, setIsBooking] = useState(false)
-  const [holidays, setHolidays] = useState<string[]>([])
+  const [pendingSlotStart, setPendingSlotStart] = useState(prefill.slotStart)
+  const [recurrence, setRecurrence] = useState<RecurrenceFormValues | null>(null)
+  // Equipment is borrowed for a checkout-to-return date range instead of a slot
+  const [loanRange, setLoanRange] = useState<DateRange | undefined>()
+  const [waitlistSlot, setWaitlistSlot] = useState<TimeSlot | null>(null)
   const [showAlternatives, setShowAlternatives] = useState(false)
-  const [alternatives, setAlternatives] = useState<{
-    resources: AlternativeResource[]
-    slots: AlternativeSlot[]
-  }>({ resources: [], slots: [] })
+  // The taken slot the alternatives dialog is suggesting around
+  const [alternativesFor, setAlternativesFor] = useState<TimeSlot | null>(null)
+  const [filters, setFilters] = useState<ResourceFilters>(emptyResourceFilters)
+  const [when, setWhen] = useState<TimeWindow>(emptyTimeWindow)
+  const [onlyFree, setOnlyFree] = useState(false)
+  const [details, setDetails] = useState<BookingDetailsFormValues>(emptyBookingDetails)
+  const [showDetailsErrors, setShowDetailsErrors] = useState(false)
 
-  useEffect(() => {
-    fetchHolidays()
-  }, [])
+  // Every page, since filters and sorting run over the whole type
+  const resourcesQuery = useAllResources(
+    { resource_type: selectedCategory ?? undefined, is_active: true },
+    { enabled: selectedCategory != null }
+  )
+  const resources = resourcesQuery.data ?? []
+  const loading = resourcesQuery.isLoading
+  const categoryDefinition = selectedCategory ? definitionOf(selectedCategory) : null
+  const matchingResources = categoryDefinition ? filterResources(categoryDefinition, filters, resources) : resources
 
-  async function fetchHolidays() {
-    try {
-      setHolidays([])
-    } catch (err) {
-      console.error('Failed to fetch holidays:', err)
-    }
+  // Holidays, closures and the weekend for whatever is being booked
+  const { data: closureData } = useClosures({ start_date: dayjs().format('YYYY-MM-DD'), limit: 500 })
+  const { data: weekdayRules = [] } = useWeekdayRules()
+  const resourceClosures = closuresFor(closureData?.closures ?? [], selectedResource)
+  const closedDays = closedWeekdaysFor(weekdayRules, selectedResource?.resource_type ?? selectedCategory)
+  const holidays = closedDates(resourceClosures)
+  const selectedDateClosure = fullDayClosureOn(resourceClosures, selectedDate)
+
+  // Booking rules for the chosen resource. Durations, limits and approval all
+  // come from them, so slots aren't offered until they've loaded.
+  const policiesQuery = useBookingPolicies()
+  const policies = policiesQuery.data ?? []
+  const loadingPolicy = policiesQuery.isLoading
+  const policy = selectedResource && !loadingPolicy ? policyFor(policies, selectedResource) : null
+  const durations = policy?.allowed_durations ?? [duration]
+  // A prefilled or previously picked duration may not be allowed here
+  const slotDuration = durations.includes(duration) ? duration : durations[0]
+
+  // 'A room for 8 tomorrow 3-4pm': check the time against every match. A
+  // resource whose policy doesn't allow that length can't be booked for it.
+  const searchSlot = isEquipment(selectedCategory) || loadingPolicy ? null : windowSlot(when)
+  const searchable = searchSlot
+    ? matchingResources.filter(r => policyFor(policies, r).allowed_durations.includes(searchSlot.duration))
+    : []
+  const searchAvailability = useResourcesAvailability(
+    searchable.map(r => r.id),
+    when.date,
+    searchSlot?.duration ?? 0
+  )
+  const searchStatus = (resource: Resource) => {
+    if (!searchSlot) return null
+    const index = searchable.indexOf(resource)
+    if (index === -1) return 'unbookable'
+    const query = searchAvailability[index]
+    if (query.isLoading) return 'checking'
+    if (!query.data) return 'unknown'
+    return freeDuring(query.data.available_slots, searchSlot.start) ? 'free' : 'booked'
   }
+  const shownResources = searchSlot && onlyFree
+    ? matchingResources.filter(r => searchStatus(r) === 'free')
+    : matchingResources
 
-  async function fetchResourcesByType(type: string) {
-    setLoading(true)
-    try {
-      const apiType = type === 'meeting_room' ? 'meeting-room' : type
-      const res = await api.get<{ resources: Resource[] }>(`/resources?resource_type=${apiType}&is_active=true`)
-      setResources(res.resources || [])
-    } catch (err: any) {
-      toast.error('Failed to load resources')
-      setResources([])
-    } finally {
-      setLoading(false)
-    }
+  // Admins book on behalf of others, so only employees are held to the active-booking limit
+  const isAdmin = useAuth(state => state.user?.role) === Role.Admin
+  // Where a finished booking is shown; employee pages are off limits to admins
+  const bookingsPath = isAdmin ? '/dashboard/admin/bookings' : '/dashboard/employee'
+  const checkActiveLimit = !isAdmin && policy?.max_active_bookings != null
+  const { data: myBookings } = useBookings(
+    { start_date: dayjs().format('YYYY-MM-DD'), limit: 100 },
+    { enabled: checkActiveLimit }
+  )
+  const { data: inventory = [] } = useResourceInventory()
+  const activeCount = policy && myBookings ? activeBookingsUnder(policy, myBookings.bookings, inventory).length : 0
+
+  const equipment = isEquipment(selectedResource?.resource_type)
+  const dailyQuery = useDailyAvailability(
+    equipment && policy ? selectedResource?.id ?? null : null,
+    dayjs().format('YYYY-MM-DD'),
+    (policy ? latestBookableDate(policy) : dayjs().add(30, 'day')).format('YYYY-MM-DD')
+  )
+  const days = dailyQuery.data?.days ?? []
+  const bookedDays = new Set(days.filter(d => !d.available).map(d => d.date))
+  const loan = loanRange?.from ? loanWindow(loanRange.from, loanRange.to ?? loanRange.from) : null
+
+  const slotsQuery = useResourceAvailability(
+    equipment || !policy ? null : selectedResource?.id ?? null,
+    dayjs(selectedDate).format('YYYY-MM-DD'),
+    slotDuration
+  )
+  const slots = slotsQuery.data?.available_slots ?? []
+  const loadingSlots = loadingPolicy || slotsQuery.isLoading
+
+  // Jump straight to the slot picker for a prefilled resource. Applied while
+  // rendering, and only once, so a refetch doesn't pull the user back here.
+  const prefilledResource = useResource(prefill.resourceId)
+  const [prefillApplied, setPrefillApplied] = useState(false)
+  if (prefilledResource.data && !prefillApplied) {
+    setPrefillApplied(true)
+    setSelectedCategory(prefilledResource.data.resource_type)
+    setSelectedResource(prefilledResource.data)
+    setStep('slots')
   }
 
-  async function fetchAvailableSlots() {
-    if (!selectedResource) return
+  // ...and select the requested slot once availability arrives. A time that
+  // has gone is noted above the grid instead.
+  const [missedSlotStart, setMissedSlotStart] = useState<string | null>(null)
+  if (pendingSlotStart && slotsQuery.data) {
+    const match = slotsQuery.data.available_slots.find(s =>
+      s.available && dayjs(s.start_time).isSame(dayjs(pendingSlotStart))
+    )
+    setPendingSlotStart(null)
+    if (match) setSelectedSlot(match)
+    else setMissedSlotStart(pendingSlotStart)
+  }
+  const showMissedSlot = missedSlotStart !== null && !selectedSlot && dayjs(missedSlotStart).isSame(selectedDate, 'day')
 
-    setLoadingSlots(true)
-    try {
-      const dateStr = dayjs(selectedDate).format('YYYY-MM-DD')
-      const res = await api.get<AvailabilityResponse>(
-        `/resources/${selectedResource.id}/availability?date=${dateStr}&duration=${duration}`
-      )
-      setSlots(res.available_slots || [])
-    } catch (err: any) {
-      toast.error('Failed to load available slots')
-      setSlots([])
-    } finally {
-      setLoadingSlots(false)
+  // The caller's own queue places, to mark blocked slots they're waiting on
+  const { data: waitlistData } = useWaitlist({ mine: true, limit: 100 })
+  const myWaitlist = waitlistData?.entries ?? []
+  const waitlistEntry = waitlistSlot && selectedResource
+    ? waitlistEntryFor(myWaitlist, selectedResource.id, waitlistSlot)
+    : undefined
+  const joinWaitlist = useJoinWaitlist()
+  const leaveWaitlist = useLeaveWaitlist()
+  const claimWaitlistSlot = useClaimWaitlistSlot()
+
+  // Similar resources and nearby times for a taken slot, best match first
+  const suggestionsQuery = useSlotSuggestions(
+    showAlternatives ? selectedResource?.id ?? null : null,
+    alternativesFor
+  )
+  const alternativeResources = selectedResource && suggestionsQuery.data
+    ? rankAlternativeResources(selectedResource, suggestionsQuery.data.resources)
+    : []
+  const alternativeSlots = alternativesFor && suggestionsQuery.data
+    ? rankNearbySlots(alternativesFor, suggestionsQuery.data.slots)
+    : []
+
+  // Rooms that list a capacity cap the attendees; the person booking takes a seat too
+  const capacity = typeof selectedResource?.properties.capacity === 'number' ? selectedResource.properties.capacity : null
+  const detailsValid = bookingDetailsSchemaFor(equipment ? null : capacity).safeParse(details).success
+
+  function detailsPayload() {
+    return {
+      title: details.title.trim(),
+      description: details.description?.trim() || undefined,
+      // A loan goes to one person
+      attendee_emails: equipment ? undefined : details.attendee_emails,
     }
   }
 
-  useEffect(() => {
-    if (selectedResource && selectedDate) {
-      fetchAvailableSlots()
+  const createBooking = useCreateBooking()
+  const createSeries = useCreateBookingSeries()
+  const isBooking = createBooking.isPending || createSeries.isPending
+
+  // Recurring series: expand the rule from the chosen slot and check every date
+  const recurrenceValid = recurrence !== null && recurrenceSchema.safeParse(recurrence).success
+  const occurrences = selectedSlot && recurrence && recurrenceValid
+    ? expandRecurrence(selectedSlot, recurrence, holidays, closedDays)
+    : []
+  const occurrenceDates = [...new Set(occurrences.filter(o => !o.skipped).map(o => dayjs(o.start_time).format('YYYY-MM-DD')))]
+  const occurrenceAvailability = useResourceAvailabilityForDates(selectedResource?.id ?? null, occurrenceDates, slotDuration)
+
+  const previewedOccurrences = occurrences.map(o => {
+    let status: OccurrenceStatus = 'skipped'
+    if (!o.skipped) {
+      const query = occurrenceAvailability[occurrenceDates.indexOf(dayjs(o.start_time).format('YYYY-MM-DD'))]
+      if (closureOverlapping(resourceClosures, o)) status = 'unavailable'
+      else if (policy && dayjs(o.start_time).isAfter(latestBookableDate(policy))) status = 'unavailable'
+      else if (query?.isLoading) status = 'checking'
+      else if (!query?.data) status = 'unknown'
+      else {
+        const slot = query.data.available_slots.find(s => dayjs(s.start_time).isSame(dayjs(o.start_time)))
+        status = slot?.available ? 'available' : 'unavailable'
+      }
     }
-  }, [selectedResource, selectedDate, duration])
+    return { ...o, status }
+  })
+  const bookableOccurrences = previewedOccurrences.filter(o => o.status === 'available')
+  const checkingOccurrences = previewedOccurrences.some(o => o.status === 'checking')
+  const unavailableCount = previewedOccurrences.filter(o => o.status === 'unavailable' || o.status === 'unknown').length
 
-  function handleCategorySelect(type: string) {
+  const requestedCount = recurrence ? bookableOccurrences.length : 1
+  const overActiveLimit = checkActiveLimit && activeCount + requestedCount > (policy?.max_active_bookings ?? 0)
+
+  useEffect(() => {
+    if (resourcesQuery.isError) toast.error('Failed to load resources')
+  }, [resourcesQuery.isError])
+
+  useEffect(() => {
+    if (slotsQuery.isError) toast.error('Failed to load available slots')
+  }, [slotsQuery.isError])
+
+  function handleCategorySelect(type: ResourceType) {
     setSelectedCategory(type)
     setStep('resource')
-    fetchResourcesByType(type)
   }
 
   function handleResourceSelect(resource: Resource) {
     setSelectedResource(resource)
+    // A slot or range picked for another resource was never checked against this one
+    setSelectedSlot(null)
+    setLoanRange(undefined)
+    setMissedSlotStart(null)
     setStep('slots')
   }
 
+  // From the filtered list: carry a searched time over to the slot picker
+  function handleSearchResultSelect(resource: Resource) {
+    if (searchSlot && searchable.includes(resource)) {
+      setSelectedDate(searchSlot.start.toDate())
+      setDuration(searchSlot.duration)
+      if (searchStatus(resource) === 'free') setPendingSlotStart(searchSlot.start.toISOString())
+    }
+    handleResourceSelect(resource)
+  }
+
   function handleBack() {
     if (step === 'resource') {
       setStep('category')
       setSelectedCategory(null)
-      setResources([])
+      setFilters(emptyResourceFilters)
+      setWhen(emptyTimeWindow)
+      setOnlyFree(false)
     } else if (step === 'slots') {
       setStep('resource')
       setSelectedResource(null)
-      setSlots([])
       setSelectedSlot(null)
-      setAlternatives({ resources: [], slots: [] })
+      setLoanRange(undefined)
+      setAlternativesFor(null)
       setShowAlternatives(false)
     }
   }
 
+  async function handleSeriesBooking() {
+    if (!selectedResource || !recurrence || !policy) return
+
+    try {
+      await createSeries.mutateAsync({
+        resource_id: selectedResource.id,
+        ...detailsPayload(),
+        recurrence,
+        occurrences: bookableOccurrences.map(({ start_time, end_time }) => ({ start_time, end_time })),
+      })
+
+      toast.success(policy?.auto_approve
+        ? `${bookableOccurrences.length} bookings confirmed!`
+        : `${bookableOccurrences.length} booking requests submitted! Waiting for admin approval.`)
+      navigate(bookingsPath)
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to create recurring booking'))
+      occurrenceAvailability.forEach(query => query.refetch())
+    }
+  }
+
   async function handleBooking() {
-    if (!selectedSlot || !selectedResource) return
+    if (!selectedSlot || !selectedResource || !policy) return
+    if (!detailsValid) return setShowDetailsErrors(true)
+    if (recurrence) return handleSeriesBooking()
 
-    setIsBooking(true)
     try {
       toast.success('Creating booking request...')
 
-      await api.post('/bookings', {
+      await createBooking.mutateAsync({
         resource_id: selectedResource.id,
         start_time: selectedSlot.start_time,
-        end_time: selectedSlot.end_time
+        end_time: selectedSlot.end_time,
+        ...detailsPayload(),
       })
 
-      toast.success('Booking request submitted! Waiting for admin approval.')
-      navigate('/dashboard/employee')
-    } catch (err: any) {
-      const errorMsg = err.message || 'Failed to create booking'
-
-      if (err.response?.data?.suggestions) {
-        const { available_resources, available_slots } = err.response.data.suggestions
-        setAlternatives({
-          resources: available_resources || [],
-          slots: available_slots || []
-        })
-        setShowAlternatives(true)
+      toast.success(policy?.auto_approve ? 'Booking confirmed!' : 'Booking request submitted! Waiting for admin approval.')
+      navigate(bookingsPath)
+    } catch (err) {
+      // useCreateBooking has already cached any suggestions that came back
+      if (bookingConflictFrom(err)) {
+        showAlternativesFor(selectedSlot)
         toast.error('This slot is no longer available. Check alternatives below.')
-      } else if (errorMsg.includes('overlap') || errorMsg.includes('booked')) {
-        toast.error('This slot is no longer available. Please select another.')
-        fetchAvailableSlots()
+        slotsQuery.refetch()
+      } else {
+        toast.error(errorMessage(err, 'Failed to create booking'))
+      }
+    }
+  }
+
+  async function handleLoanBooking() {
+    if (!selectedResource || !loan || !policy) return
+    if (!detailsValid) return setShowDetailsErrors(true)
+
+    try {
+      await createBooking.mutateAsync({ resource_id: selectedResource.id, ...loan, ...detailsPayload() })
+
+      toast.success(policy?.auto_approve ? 'Loan confirmed!' : 'Loan request submitted! Waiting for admin approval.')
+      navigate(bookingsPath)
+    } catch (err) {
+      if (bookingConflictFrom(err)) {
+        toast.error('Some of those days were just booked. Pick another range.')
+        setLoanRange(undefined)
+        dailyQuery.refetch()
       } else {
-        toast.error(errorMsg)
+        toast.error(errorMessage(err, 'Failed to create loan request'))
       }
-    } finally {
-      setIsBooking(false)
     }
   }
 
-  async function checkBlockedSlot(slot: TimeSlot) {
-    if (!selectedResource) return
+  // Clicking the day grid starts a range, then ends it
+  function handleLoanDayClick(date: Date) {
+    if (!loanRange?.from || loanRange.to || dayjs(date).isBefore(loanRange.from, 'day')) {
+      setLoanRange({ from: date, to: undefined })
+      return
+    }
+    const range = { from: loanRange.from, to: date }
+    if (spansUnavailableDay(range)) {
+      toast.error('That range includes a day the item is booked or closed')
+      return
+    }
+    setLoanRange(range)
+  }
 
-    // Show loading state
-    toast.info('Checking for alternatives...')
+  function spansUnavailableDay(range: { from: Date; to: Date }) {
+    for (let d = dayjs(range.from); !d.isAfter(range.to, 'day'); d = d.add(1, 'day')) {
+      if (isLoanDayDisabled(d.toDate())) return true
+    }
+    return false
+  }
+
+  function showAlternativesFor(slot: TimeSlot) {
+    setAlternativesFor(slot)
+    setShowAlternatives(true)
+  }
+
+  async function handleJoinWaitlist() {
+    if (!selectedResource || !waitlistSlot) return
 
     try {
-      // Make a test booking request to trigger the error response with suggestions
-      await api.post('/bookings', {
+      const entry = await joinWaitlist.mutateAsync({
         resource_id: selectedResource.id,
-        start_time: slot.start_time,
-        end_time: slot.end_time
+        start_time: waitlistSlot.start_time,
+        end_time: waitlistSlot.end_time
       })
+      toast.success(entry.position ? `You're #${entry.position} on the waitlist` : 'Added to the waitlist')
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to join the waitlist'))
+    }
+  }
 
-      // If we reach here, the slot was actually available (unexpected)
-      toast.success('Slot appears available! Selected.')
-      setSelectedSlot(slot)
-    } catch (err: any) {
-      // Expected error for blocked slots
-      if (err.response?.data?.suggestions) {
-        const { available_resources, available_slots } = err.response.data.suggestions
-        setAlternatives({
-          resources: available_resources || [],
-          slots: available_slots || []
-        })
-        setShowAlternatives(true)
-        toast.info('Showing alternative options')
-      } else {
-        toast.error('This slot is blocked with no alternatives available.')
-      }
+  async function handleClaimWaitlistSlot() {
+    if (!waitlistEntry) return
+
+    try {
+      await claimWaitlistSlot.mutateAsync(waitlistEntry.id)
+      toast.success('Slot claimed! It\'s now one of your bookings.')
+      setWaitlistSlot(null)
+      navigate(bookingsPath)
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to claim the slot'))
+    }
+  }
+
+  async function handleLeaveWaitlist() {
+    if (!waitlistEntry) return
+
+    try {
+      await leaveWaitlist.mutateAsync(waitlistEntry.id)
+      toast.success('Removed from the waitlist')
+      setWaitlistSlot(null)
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to leave the waitlist'))
     }
   }
 
   const isDateDisabled = (date: Date) => {
-    const day = date.getDay()
-    if (day === 0 || day === 6) return true
-    const dateStr = dayjs(date).format('YYYY-MM-DD')
-    if (holidays.includes(dateStr)) return true
+    if (closedDays.includes(date.getDay())) return true
+    if (fullDayClosureOn(resourceClosures, date)) return true
     if (dayjs(date).isBefore(dayjs(), 'day')) return true
+    if (policy && dayjs(date).isAfter(latestBookableDate(policy))) return true
     return false
   }
 
+  const isLoanDayDisabled = (date: Date) =>
+    isDateDisabled(date) || bookedDays.has(dayjs(date).format('YYYY-MM-DD'))
+
   const now = dayjs()
 
-  const sortedSlots = slots.sort((a, b) =>
+  const sortedSlots = [...slots].sort((a, b) =>
     dayjs(a.start_time).valueOf() - dayjs(b.start_time).valueOf()
   )
 
-  const getSlotStatus = (slot: TimeSlot): 'past' | 'blocked' | 'available' => {
+  const getSlotStatus = (slot: TimeSlot): 'past' | 'closed' | 'blocked' | 'available' => {
     const slotEnd = dayjs(slot.end_time)
     if (dayjs(selectedDate).isSame(now, 'day') && slotEnd.isBefore(now)) {
       return 'past'
     }
+    if (closureOverlapping(resourceClosures, slot)) return 'closed'
     return slot.available ? 'available' : 'blocked'
   }
 
@@ -327,7 +579,7 @@ const BookResource: React.FC = () => {
     let typeStyles = ""
     if (isSelected) {
       typeStyles = "bg-gradient-to-br from-emerald-500 to-emerald-600 border-emerald-500 shadow-lg shadow-emerald-200 cursor-pointer"
-    } else if (status === 'past') {
+    } else if (status === 'past' || status === 'closed') {
       typeStyles = "bg-neutral-100 border-neutral-200 opacity-60 cursor-not-allowed grayscale pointer-events-none"
     } else if (status === 'blocked') {
       typeStyles = "bg-red-50 border-red-200 hover:border-red-300 hover:shadow-sm cursor-pointer"
@@ -338,7 +590,7 @@ const BookResource: React.FC = () => {
     return (
       <div
         onClick={() => {
-          if (status === 'past') return
+          if (status === 'past' || status === 'closed') return
           onClick?.(slot)
         }}
         className={`${baseStyles} ${typeStyles}`}
@@ -346,7 +598,7 @@ const BookResource: React.FC = () => {
         <div className="text-center w-full">
           <div className={`font-semibold text-xs ${isSelected
             ? 'text-white'
-            : status === 'past'
+            : status === 'past' || status === 'closed'
               ? 'text-neutral-400'
               : status === 'blocked'
                 ? 'text-red-700'
@@ -361,7 +613,7 @@ const BookResource: React.FC = () => {
           </div>
           <div className={`font-medium text-xs ${isSelected
             ? 'text-white/90'
-            : status === 'past'
+            : status === 'past' || status === 'closed'
               ? 'text-neutral-400'
               : status === 'blocked'
                 ? 'text-red-600'
@@ -372,15 +624,26 @@ const BookResource: React.FC = () => {
         </div>
 
         {status === 'blocked' && (
-          <Badge variant="secondary" className="text-[10px] bg-red-100 text-red-700 border-0 px-1.5 py-0 w-full justify-center">
-            Blocked
-          </Badge>
+          selectedResource && waitlistEntryFor(myWaitlist, selectedResource.id, slot) ? (
+            <Badge variant="secondary" className="text-[10px] bg-amber-100 text-amber-700 border-0 px-1.5 py-0 w-full justify-center">
+              Waitlisted
+            </Badge>
+          ) : (
+            <Badge variant="secondary" className="text-[10px] bg-red-100 text-red-700 border-0 px-1.5 py-0 w-full justify-center">
+              Blocked
+            </Badge>
+          )
         )}
         {status === 'past' && (
           <Badge variant="secondary" className="text-[10px] bg-neutral-200 text-neutral-500 border-0 px-1.5 py-0 w-full justify-center">
             Past
           </Badge>
         )}
+        {status === 'closed' && (
+          <Badge variant="secondary" className="text-[10px] bg-neutral-200 text-neutral-500 border-0 px-1.5 py-0 w-full justify-center">
+            Closed
+          </Badge>
+        )}
         {status === 'available' && !isSelected && (
           <div className="h-5"></div>
         )}
@@ -398,7 +661,9 @@ const BookResource: React.FC = () => {
     <div className="max-w-6xl mx-auto">
       <Breadcrumbs
         items={[
-          { label: 'Employee Dashboard', href: '/dashboard/employee' },
+          isAdmin
+            ? { label: 'Admin Dashboard', href: '/dashboard/admin' }
+            : { label: 'Employee Dashboard', href: '/dashboard/employee' },
           { label: 'Book Resource' }
         ]}
       />
@@ -426,20 +691,20 @@ const BookResource: React.FC = () => {
       {/* Step 1: Category Selection */}
       {step === 'category' && (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-          {resourceCategories.map((category) => {
-            const Icon = category.icon
+          {resourceTypes.map((category) => {
+            const Icon = resourceTypeIcons[category.icon]
             return (
               <Card
-                key={category.type}
+                key={category.key}
                 className="cursor-pointer hover:shadow-xl transition-all duration-300 hover:-translate-y-1 border border-neutral-200 hover:border-neutral-400 bg-white"
-                onClick={() => handleCategorySelect(category.type)}
+                onClick={() => handleCategorySelect(category.key)}
               >
                 <CardHeader className="text-center pb-4">
                   <div className="mx-auto w-20 h-20 bg-neutral-950 rounded-2xl flex items-center justify-center mb-4 shadow-lg">
                     <Icon className="w-10 h-10 text-white" />
                   </div>
                   <CardTitle className="text-xl text-neutral-900">
-                    {category.title}
+                    {category.label}
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
@@ -456,9 +721,40 @@ const BookResource: React.FC = () => {
       {/* Step 2: Resource Selection */}
       {step === 'resource' && (
         <div>
-          <h2 className="text-2xl font-bold text-neutral-900 mb-6">
-            Select {resourceCategories.find(c => c.type === selectedCategory)?.title}
-          </h2>
+          <div className="flex items-end justify-between gap-4 mb-6">
+            <h2 className="text-2xl font-bold text-neutral-900">
+              Select {categoryDefinition?.label}
+            </h2>
+            {!loading && resources.length > 0 && (
+              <p className="text-sm text-neutral-500">
+                {shownResources.length} of {resources.length} {categoryDefinition?.label.toLowerCase()}
+              </p>
+            )}
+          </div>
+
+          {categoryDefinition && resources.length > 0 && (
+            <ResourceFilterPanel
+              definition={categoryDefinition}
+              resources={resources}
+              filters={filters}
+              onFiltersChange={setFilters}
+              when={isEquipment(selectedCategory) ? undefined : when}
+              onWhenChange={isEquipment(selectedCategory) ? undefined : setWhen}
+            />
+          )}
+
+          {searchSlot && (
+            <div className="flex items-center justify-between gap-4 bg-neutral-50 border border-neutral-200 rounded-xl px-4 py-3 mb-6">
+              <p className="text-sm text-neutral-700 flex items-center gap-2">
+                <Clock className="w-4 h-4 text-neutral-500" />
+                Checking {searchSlot.start.format('ddd, MMM D')}, {searchSlot.start.format('h:mm A')} - {searchSlot.end.format('h:mm A')}
+              </p>
+              <label className="flex items-center gap-2 text-sm text-neutral-700 cursor-pointer">
+                <Checkbox checked={onlyFree} onCheckedChange={(checked) => setOnlyFree(checked === true)} />
+                Only show free
+              </label>
+            </div>
+          )}
 
           {loading ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -477,16 +773,37 @@ const BookResource: React.FC = () => {
                 <p className="text-neutral-500">There are no active resources in this category.</p>
               </CardContent>
             </Card>
+          ) : shownResources.length === 0 ? (
+            <Card className="text-center py-12 border-neutral-200">
+              <CardContent>
+                <SlidersHorizontal className="w-16 h-16 text-neutral-300 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-neutral-900 mb-2">Nothing matches</h3>
+                <p className="text-neutral-500 mb-4">
+                  {onlyFree && searchSlot && matchingResources.length > 0
+                    ? `None of the ${matchingResources.length} matching ${categoryDefinition?.label.toLowerCase()} are free then.`
+                    : 'Try loosening the filters.'}
+                </p>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setFilters({ ...emptyResourceFilters, sort: filters.sort })
+                    setOnlyFree(false)
+                  }}
+                >
+                  Clear filters
+                </Button>
+              </CardContent>
+            </Card>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {resources.map((resource) => {
-                const category = resourceCategories.find(c => c.type === selectedCategory)
-                const Icon = category?.icon || DoorOpen
+              {shownResources.map((resource) => {
+                const Icon = categoryIcon
+                const status = searchStatus(resource)
                 return (
                   <Card
                     key={resource.id}
                     className="cursor-pointer hover:shadow-xl transition-all duration-300 hover:-translate-y-1 border border-neutral-200 hover:border-neutral-400 bg-white"
-                    onClick={() => handleResourceSelect(resource)}
+                    onClick={() => handleSearchResultSelect(resource)}
                   >
                     <CardHeader>
                       <div className="flex items-start gap-3">
@@ -500,6 +817,20 @@ const BookResource: React.FC = () => {
                             {resource.location}
                           </p>
                         </div>
+                        {status === 'free' && (
+                          <Badge className="bg-emerald-50 text-emerald-700 border-emerald-200">Free</Badge>
+                        )}
+                        {status === 'booked' && (
+                          <Badge className="bg-red-50 text-red-700 border-red-200">Booked</Badge>
+                        )}
+                        {status === 'unbookable' && (
+                          <Badge variant="outline" className="text-neutral-500" title="Its booking policy doesn't allow that length">
+                            Other lengths only
+                          </Badge>
+                        )}
+                        {status === 'checking' && (
+                          <Badge variant="outline" className="text-neutral-400">Checking...</Badge>
+                        )}
                       </div>
                     </CardHeader>
                     <CardContent>
@@ -507,26 +838,24 @@ const BookResource: React.FC = () => {
                         <p className="text-sm text-neutral-500 mb-3">{resource.description}</p>
                       )}
                       <div className="bg-neutral-50 rounded-lg p-3 space-y-1 border border-neutral-100">
-                        {resource.resource_type === 'meeting-room' && resource.properties?.capacity && (
-                          <div className="flex justify-between text-sm">
-                            <span className="text-neutral-500">Capacity</span>
-                            <span className="font-medium text-neutral-900">{resource.properties.capacity} people</span>
-                          </div>
-                        )}
-                        {resource.resource_type === 'meeting-room' && resource.properties?.has_projector && (
-                          <div className="text-sm text-emerald-600 flex items-center gap-1">
-                            <CheckCircle className="w-3 h-3" />
-                            Projector available
-                          </div>
-                        )}
-                        {(resource.resource_type === 'phone' || resource.resource_type === 'laptop') && (
-                          <div className="flex justify-between text-sm">
-                            <span className="text-neutral-500">Model</span>
-                            <span className="font-medium text-neutral-900">
-                              {resource.properties?.brand} {resource.properties?.model}
-                            </span>
-                          </div>
-                        )}
+                        {definitionOf(resource.resource_type).properties.map(field => {
+                          const value = resource.properties?.[field.key]
+                          if (field.type === 'boolean') {
+                            return value ? (
+                              <div key={field.key} className="text-sm text-emerald-600 flex items-center gap-1">
+                                <CheckCircle className="w-3 h-3" />
+                                {field.label}
+                              </div>
+                            ) : null
+                          }
+                          const formatted = formatPropertyValue(field, value)
+                          return formatted && field.required ? (
+                            <div key={field.key} className="flex justify-between text-sm">
+                              <span className="text-neutral-500">{field.label}</span>
+                              <span className="font-medium text-neutral-900">{formatted}</span>
+                            </div>
+                          ) : null
+                        })}
                       </div>
                     </CardContent>
                   </Card>
@@ -545,7 +874,7 @@ const BookResource: React.FC = () => {
               <CardHeader className="bg-neutral-50 border-b border-neutral-100">
                 <CardTitle className="text-lg text-neutral-900 flex items-center gap-2">
                   <CalendarIcon className="w-5 h-5 text-neutral-500" />
-                  Select Date & Duration
+                  {equipment ? 'Select Checkout & Return' : 'Select Date & Duration'}
                 </CardTitle>
               </CardHeader>
               <CardContent
@@ -554,91 +883,59 @@ const BookResource: React.FC = () => {
                 <div
                   className="space-y-3"
                 >
-                  <label className="text-sm font-medium text-neutral-700">Date</label>
+                  <label className="text-sm font-medium text-neutral-700">{equipment ? 'Loan Dates' : 'Date'}</label>
                   <div
                     className="bg-white rounded-xl border border-neutral-200 shadow-sm overflow-hidden"
                   >
-                    <Calendar
-                      mode="single"
-                      selected={selectedDate}
-                      onSelect={(date: Date | undefined) => date && setSelectedDate(date)}
-                      disabled={isDateDisabled}
-                      className="w-full p-2"
-                      classNames={{
-                        months: "flex flex-col w-full",
-                        month: "space-y-4 w-full",
-                        caption: "flex justify-center items-center py-3 relative",
-                        caption_label: "text-base font-semibold text-neutral-900",
-                        nav: "flex items-center gap-2",
-                        nav_button:
-                          "h-11 w-11 rounded-xl border border-neutral-200 bg-white hover:bg-neutral-100 transition flex items-center justify-center",
-                        nav_button_previous: "absolute left-3",
-                        nav_button_next: "absolute right-3",
-
-                        table: "w-full border-separate border-spacing-2",
-                        head_row: "grid grid-cols-7 mb-2",
-                        head_cell:
-                          "text-neutral-500 text-xs font-medium text-center uppercase tracking-wide",
-
-                        row: "grid grid-cols-7 gap-2",
-                        cell: "w-full aspect-square",
-
-                        day: `
-      w-full h-full rounded-xl 
-      border border-neutral-200 
-      bg-white 
-      hover:bg-emerald-50 hover:border-emerald-400 
-      transition 
-      flex items-center justify-center 
-      text-sm font-medium
-    `,
-
-                        day_selected:
-                          "bg-emerald-600 text-white border-emerald-600 hover:bg-emerald-600",
-
-                        day_today:
-                          "border-2 border-emerald-500 text-emerald-700 font-bold bg-emerald-50",
-
-                        day_outside:
-                          "text-neutral-300 bg-neutral-50 opacity-50",
-
-                        day_disabled:
-                          "text-neutral-300 bg-neutral-100 cursor-not-allowed opacity-40",
-
-                        day_hidden: "invisible",
-                      }}
-                    />
+                    {equipment ? (
+                      <Calendar
+                        mode="range"
+                        selected={loanRange}
+                        onSelect={setLoanRange}
+                        disabled={isLoanDayDisabled}
+                        excludeDisabled
+                        className="w-full p-2"
+                        classNames={calendarClassNames}
+                      />
+                    ) : (
+                      <Calendar
+                        mode="single"
+                        selected={selectedDate}
+                        onSelect={(date: Date | undefined) => date && setSelectedDate(date)}
+                        disabled={isDateDisabled}
+                        className="w-full p-2"
+                        classNames={calendarClassNames}
+                      />
+                    )}
 
                   </div>
                 </div>
 
-                <div className="space-y-3">
-                  <label className="text-sm font-medium text-neutral-700">Duration</label>
-                  <Select value={String(duration)} onValueChange={(value) => setDuration(Number(value) as 0.5 | 1)}>
-                    <SelectTrigger className="border-neutral-200 h-12 text-base bg-white">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent
-                      className="bg-white border border-neutral-200 shadow-lg"
-                      position="popper"
-                      side="bottom"
-                      sideOffset={4}
-                    >
-                      <SelectItem value="0.5" className="text-base py-3 cursor-pointer hover:bg-neutral-50">
-                        <div className="flex items-center gap-2">
-                          <Clock className="w-4 h-4 text-neutral-500" />
-                          30 minutes
-                        </div>
-                      </SelectItem>
-                      <SelectItem value="1" className="text-base py-3 cursor-pointer hover:bg-neutral-50">
-                        <div className="flex items-center gap-2">
-                          <Clock className="w-4 h-4 text-neutral-500" />
-                          1 hour
-                        </div>
-                      </SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+                {!equipment && (
+                  <div className="space-y-3">
+                    <label className="text-sm font-medium text-neutral-700">Duration</label>
+                    <Select value={String(slotDuration)} onValueChange={(value) => setDuration(Number(value))} disabled={loadingPolicy}>
+                      <SelectTrigger className="border-neutral-200 h-12 text-base bg-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent
+                        className="bg-white border border-neutral-200 shadow-lg"
+                        position="popper"
+                        side="bottom"
+                        sideOffset={4}
+                      >
+                        {durations.map(hours => (
+                          <SelectItem key={hours} value={String(hours)} className="text-base py-3 cursor-pointer hover:bg-neutral-50">
+                            <div className="flex items-center gap-2">
+                              <Clock className="w-4 h-4 text-neutral-500" />
+                              {formatHours(hours)}
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
 
                 <div className="bg-blue-50 border border-blue-200 rounded-xl p-4">
                   <div className="flex items-start gap-3">
@@ -646,11 +943,27 @@ const BookResource: React.FC = () => {
                     <div>
                       <p className="text-sm font-medium text-blue-900">Booking Hours</p>
                       <p className="text-xs text-blue-700 mt-1">
-                        Mon-Fri, 9 AM - 6 PM. Weekends and holidays are blocked.
+                        9 AM - 6 PM. {closedDays.length > 0
+                          ? `Closed ${closedDays.map(d => weekdayNames[d] + 's').join(', ')}, and on holidays.`
+                          : 'Holidays are blocked.'}
                       </p>
                     </div>
                   </div>
                 </div>
+
+                {policy && (
+                  <div className="bg-neutral-50 border border-neutral-200 rounded-xl p-4">
+                    <p className="text-sm font-medium text-neutral-900">Booking Rules</p>
+                    <ul className="text-xs text-neutral-600 mt-1 space-y-0.5 list-disc pl-4">
+                      {describePolicy(policy).map(line => <li key={line}>{line}</li>)}
+                    </ul>
+                    {checkActiveLimit && (
+                      <p className="text-xs text-neutral-500 mt-2">
+                        You have {activeCount} of {policy.max_active_bookings} active bookings.
+                      </p>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -665,8 +978,7 @@ const BookResource: React.FC = () => {
                 <div className="flex items-center gap-3">
                   <div className="w-12 h-12 bg-neutral-900 rounded-xl flex items-center justify-center">
                     {(() => {
-                      const category = resourceCategories.find(c => c.type === selectedCategory)
-                      const Icon = category?.icon || DoorOpen
+                      const Icon = categoryIcon
                       return <Icon className="w-6 h-6 text-white" />
                     })()}
                   </div>
@@ -683,134 +995,345 @@ const BookResource: React.FC = () => {
 
           </div>
 
-          <div className="lg:col-span-2">
-            <Card className="shadow-sm border-neutral-200 bg-white">
-              <CardHeader className="bg-neutral-50 border-b border-neutral-100">
-                <div className="flex items-center justify-between flex-wrap gap-4">
-                  <div>
-                    <CardTitle className="text-xl flex items-center gap-2 text-neutral-900">
-                      <Clock className="w-6 h-6 text-neutral-500" />
-                      Available Time Slots
-                    </CardTitle>
-                    <CardDescription className="mt-2 text-neutral-500 flex items-center gap-2">
-                      <CalendarIcon className="w-4 h-4" />
-                      {dayjs(selectedDate).format('dddd, MMMM D, YYYY')}
-                    </CardDescription>
-                  </div>
-                  <div className="flex gap-2">
+          {equipment ? (
+            <div className="lg:col-span-2">
+              <Card className="shadow-sm border-neutral-200 bg-white">
+                <CardHeader className="bg-neutral-50 border-b border-neutral-100">
+                  <div className="flex items-center justify-between flex-wrap gap-4">
+                    <div>
+                      <CardTitle className="text-xl flex items-center gap-2 text-neutral-900">
+                        <CalendarIcon className="w-6 h-6 text-neutral-500" />
+                        Availability by Day
+                      </CardTitle>
+                      <CardDescription className="mt-2 text-neutral-500">
+                        Pick a checkout day, then a return day
+                      </CardDescription>
+                    </div>
                     <Badge className="bg-neutral-100 text-neutral-700 border border-neutral-200 px-3 py-1">
-                      {availableCount} Available
-                    </Badge>
-                    <Badge className="bg-red-100 text-red-700 border border-red-200 px-3 py-1">
-                      {blockedCount} Blocked
+                      {days.filter(d => d.available && !isDateDisabled(dayjs(d.date).toDate())).length} Days Free
                     </Badge>
                   </div>
-                </div>
-              </CardHeader>
-              <CardContent className="p-6">
-                {loadingSlots ? (
-                  <div className="grid grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3">
-                    {[1, 2, 3, 4, 5, 6, 7, 8].map(i => (
-                      <Skeleton key={i} className="h-24 w-full rounded-xl" />
-                    ))}
-                  </div>
-                ) : slots.length === 0 ? (
-                  <div className="text-center py-16">
-                    <div className="w-16 h-16 bg-neutral-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                      <XCircle className="w-8 h-8 text-neutral-400" />
+                </CardHeader>
+                <CardContent className="p-6">
+                  {loadingPolicy || dailyQuery.isLoading ? (
+                    <div className="grid grid-cols-7 gap-2">
+                      {Array.from({ length: 14 }, (_, i) => <Skeleton key={i} className="h-14 w-full rounded-xl" />)}
                     </div>
-                    <h3 className="text-lg font-medium text-neutral-900 mb-2">No slots available</h3>
-                    <p className="text-neutral-500 max-w-sm mx-auto">Try selecting a different date or duration.</p>
-                  </div>
-                ) : (
-                  <>
-                    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 mb-6">
-                      {sortedSlots.map((slot, index) => (
-                        <SlotCard
-                          key={index}
-                          slot={slot}
-                          isSelected={selectedSlot?.start_time === slot.start_time}
-                          onClick={(s) => {
-                            const status = getSlotStatus(s)
-                            if (status === 'blocked') {
-                              // When clicking a blocked slot, check for alternatives
-                              checkBlockedSlot(s)
-                            } else if (status === 'available') {
-                              // When clicking an available slot, select it
-                              setSelectedSlot(s)
-                            }
-                          }}
+                  ) : dailyQuery.isError ? (
+                    <div className="text-center py-16">
+                      <XCircle className="w-8 h-8 text-neutral-400 mx-auto mb-4" />
+                      <p className="text-neutral-500">Failed to load availability. Try again in a moment.</p>
+                    </div>
+                  ) : (
+                    <DailyAvailabilityGrid
+                      days={days}
+                      selected={loanRange}
+                      isClosed={isDateDisabled}
+                      onDayClick={handleLoanDayClick}
+                    />
+                  )}
+
+                  {loan && (
+                    <div className="bg-linear-to-br from-emerald-50 to-green-50 border-2 border-emerald-200 rounded-2xl p-5 mt-6">
+                      <h4 className="font-semibold text-emerald-800 mb-4 flex items-center gap-2">
+                        <CheckCircle className="w-5 h-5 text-emerald-600" />
+                        Loan Summary
+                      </h4>
+                      <div className="grid grid-cols-2 gap-3 mb-5">
+                        <div className="bg-white rounded-xl p-3 border border-emerald-100">
+                          <p className="text-neutral-500 text-xs mb-1">Resource</p>
+                          <p className="font-semibold text-neutral-900">{selectedResource.name}</p>
+                        </div>
+                        <div className="bg-white rounded-xl p-3 border border-emerald-100">
+                          <p className="text-neutral-500 text-xs mb-1">Length</p>
+                          <p className="font-semibold text-neutral-900">
+                            {loanDays(loan)} day{loanDays(loan) === 1 ? '' : 's'}
+                          </p>
+                        </div>
+                        <div className="bg-white rounded-xl p-3 border border-emerald-100">
+                          <p className="text-neutral-500 text-xs mb-1">Checkout</p>
+                          <p className="font-semibold text-neutral-900">{dayjs(loan.start_time).format('ddd, MMM D')}</p>
+                        </div>
+                        <div className="bg-white rounded-xl p-3 border border-emerald-100">
+                          <p className="text-neutral-500 text-xs mb-1">Return</p>
+                          <p className="font-semibold text-neutral-900">{dayjs(loan.end_time).format('ddd, MMM D')}</p>
+                        </div>
+                      </div>
+                      <div className="bg-white rounded-xl p-4 border border-emerald-100 mb-5">
+                        <BookingDetailsFields
+                          value={details}
+                          onChange={setDetails}
+                          capacity={null}
+                          showAttendees={false}
+                          showErrors={showDetailsErrors}
                         />
+                      </div>
+                      {overActiveLimit && (
+                        <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-xl p-3 mb-4">
+                          You can have at most {policy?.max_active_bookings} active bookings for this resource
+                          and already have {activeCount}. Cancel one first.
+                        </p>
+                      )}
+                      <Button
+                        onClick={handleLoanBooking}
+                        disabled={isBooking || overActiveLimit}
+                        className="w-full bg-emerald-600 hover:bg-emerald-700 text-white h-12 text-base font-semibold rounded-xl shadow-md"
+                      >
+                        {isBooking ? (
+                          <>
+                            <span className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+                            Submitting Request...
+                          </>
+                        ) : (
+                          <>
+                            <CheckCircle className="w-5 h-5 mr-2" />
+                            Request Loan
+                          </>
+                        )}
+                      </Button>
+                      <p className="text-xs text-emerald-700 mt-3 text-center flex items-center justify-center gap-1">
+                        <Info className="w-3 h-3" />
+                        {policy?.auto_approve
+                          ? 'Confirmed instantly. Collect it from an admin on the checkout day'
+                          : 'Your request will be sent to admin for approval'}
+                      </p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          ) : (
+            <div className="lg:col-span-2">
+              <Card className="shadow-sm border-neutral-200 bg-white">
+                <CardHeader className="bg-neutral-50 border-b border-neutral-100">
+                  <div className="flex items-center justify-between flex-wrap gap-4">
+                    <div>
+                      <CardTitle className="text-xl flex items-center gap-2 text-neutral-900">
+                        <Clock className="w-6 h-6 text-neutral-500" />
+                        Available Time Slots
+                      </CardTitle>
+                      <CardDescription className="mt-2 text-neutral-500 flex items-center gap-2">
+                        <CalendarIcon className="w-4 h-4" />
+                        {dayjs(selectedDate).format('dddd, MMMM D, YYYY')}
+                      </CardDescription>
+                    </div>
+                    <div className="flex gap-2">
+                      <Badge className="bg-neutral-100 text-neutral-700 border border-neutral-200 px-3 py-1">
+                        {availableCount} Available
+                      </Badge>
+                      <Badge className="bg-red-100 text-red-700 border border-red-200 px-3 py-1">
+                        {blockedCount} Blocked
+                      </Badge>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="p-6">
+                  {loadingSlots ? (
+                    <div className="grid grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3">
+                      {[1, 2, 3, 4, 5, 6, 7, 8].map(i => (
+                        <Skeleton key={i} className="h-24 w-full rounded-xl" />
                       ))}
                     </div>
+                  ) : selectedDateClosure ? (
+                    <div className="text-center py-16">
+                      <div className="w-16 h-16 bg-neutral-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                        <CalendarOff className="w-8 h-8 text-neutral-400" />
+                      </div>
+                      <h3 className="text-lg font-medium text-neutral-900 mb-2">Closed: {selectedDateClosure.name}</h3>
+                      <p className="text-neutral-500 max-w-sm mx-auto">This resource can't be booked on this date. Pick another day.</p>
+                    </div>
+                  ) : slots.length === 0 ? (
+                    <div className="text-center py-16">
+                      <div className="w-16 h-16 bg-neutral-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                        <XCircle className="w-8 h-8 text-neutral-400" />
+                      </div>
+                      <h3 className="text-lg font-medium text-neutral-900 mb-2">No slots available</h3>
+                      <p className="text-neutral-500 max-w-sm mx-auto">Try selecting a different date or duration.</p>
+                    </div>
+                  ) : (
+                    <>
+                      {showMissedSlot && (
+                        <p className="bg-amber-50 border border-amber-200 rounded-xl p-3 mb-4 text-sm text-amber-800">
+                          {dayjs(missedSlotStart).format('h:mm A')} is not available - pick another slot
+                        </p>
+                      )}
+                      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 mb-6">
+                        {sortedSlots.map((slot, index) => (
+                          <SlotCard
+                            key={index}
+                            slot={slot}
+                            isSelected={selectedSlot?.start_time === slot.start_time}
+                            onClick={(s) => {
+                              const status = getSlotStatus(s)
+                              if (status === 'blocked') {
+                                // When clicking a blocked slot, offer a place in its queue
+                                setWaitlistSlot(s)
+                              } else if (status === 'available') {
+                                // When clicking an available slot, select it
+                                setSelectedSlot(s)
+                              }
+                            }}
+                          />
+                        ))}
+                      </div>
 
-                    {selectedSlot && (
-                      <div className="bg-linear-to-br from-emerald-50 to-green-50 border-2 border-emerald-200 rounded-2xl p-5 mt-6">
-                        <h4 className="font-semibold text-emerald-800 mb-4 flex items-center gap-2">
-                          <CheckCircle className="w-5 h-5 text-emerald-600" />
-                          Booking Summary
-                        </h4>
-                        <div className="grid grid-cols-2 gap-3 mb-5">
-                          <div className="bg-white rounded-xl p-3 border border-emerald-100">
-                            <p className="text-neutral-500 text-xs mb-1">Resource</p>
-                            <p className="font-semibold text-neutral-900">{selectedResource.name}</p>
+                      {selectedSlot && (
+                        <div className="bg-linear-to-br from-emerald-50 to-green-50 border-2 border-emerald-200 rounded-2xl p-5 mt-6">
+                          <h4 className="font-semibold text-emerald-800 mb-4 flex items-center gap-2">
+                            <CheckCircle className="w-5 h-5 text-emerald-600" />
+                            Booking Summary
+                          </h4>
+                          <div className="grid grid-cols-2 gap-3 mb-5">
+                            <div className="bg-white rounded-xl p-3 border border-emerald-100">
+                              <p className="text-neutral-500 text-xs mb-1">Resource</p>
+                              <p className="font-semibold text-neutral-900">{selectedResource.name}</p>
+                            </div>
+                            <div className="bg-white rounded-xl p-3 border border-emerald-100">
+                              <p className="text-neutral-500 text-xs mb-1">Date</p>
+                              <p className="font-semibold text-neutral-900">{dayjs(selectedDate).format('MMM D, YYYY')}</p>
+                            </div>
+                            <div className="bg-white rounded-xl p-3 border border-emerald-100">
+                              <p className="text-neutral-500 text-xs mb-1">Time Slot</p>
+                              <p className="font-semibold text-neutral-900 text-sm">
+                                {formatTime(selectedSlot.start_time)} - {formatTime(selectedSlot.end_time)}
+                              </p>
+                            </div>
+                            <div className="bg-white rounded-xl p-3 border border-emerald-100">
+                              <p className="text-neutral-500 text-xs mb-1">Duration</p>
+                              <p className="font-semibold text-neutral-900">{formatHours(slotDuration)}</p>
+                            </div>
                           </div>
-                          <div className="bg-white rounded-xl p-3 border border-emerald-100">
-                            <p className="text-neutral-500 text-xs mb-1">Date</p>
-                            <p className="font-semibold text-neutral-900">{dayjs(selectedDate).format('MMM D, YYYY')}</p>
-                          </div>
-                          <div className="bg-white rounded-xl p-3 border border-emerald-100">
-                            <p className="text-neutral-500 text-xs mb-1">Time Slot</p>
-                            <p className="font-semibold text-neutral-900 text-sm">
-                              {formatTime(selectedSlot.start_time)} - {formatTime(selectedSlot.end_time)}
-                            </p>
+                          <div className="bg-white rounded-xl p-4 border border-emerald-100 mb-5">
+                            <BookingDetailsFields
+                              value={details}
+                              onChange={setDetails}
+                              capacity={capacity}
+                              showAttendees
+                              showErrors={showDetailsErrors}
+                            />
                           </div>
-                          <div className="bg-white rounded-xl p-3 border border-emerald-100">
-                            <p className="text-neutral-500 text-xs mb-1">Duration</p>
-                            <p className="font-semibold text-neutral-900">{duration === 0.5 ? '30 minutes' : '1 hour'}</p>
+                          <div className="bg-white rounded-xl p-4 border border-emerald-100 mb-5 space-y-4">
+                            <RecurrenceOptions value={recurrence} onChange={setRecurrence} firstDate={selectedDate} />
+                            {previewedOccurrences.length > 0 && (
+                              <div className="space-y-2">
+                                <p className="text-sm text-neutral-600">
+                                  {checkingOccurrences
+                                    ? 'Checking availability for every date...'
+                                    : `${bookableOccurrences.length} of ${previewedOccurrences.filter(o => o.status !== 'skipped').length} dates are free.`}
+                                  {!checkingOccurrences && unavailableCount > 0 && ' Unavailable dates will be left out of the series.'}
+                                </p>
+                                <RecurrencePreview occurrences={previewedOccurrences} />
+                              </div>
+                            )}
                           </div>
-                        </div>
-                        <Button
-                          onClick={handleBooking}
-                          disabled={isBooking}
-                          className="w-full bg-emerald-600 hover:bg-emerald-700 text-white h-12 text-base font-semibold rounded-xl shadow-md"
-                        >
-                          {isBooking ? (
-                            <>
-                              <span className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
-                              Submitting Request...
-                            </>
-                          ) : (
-                            <>
-                              <CheckCircle className="w-5 h-5 mr-2" />
-                              Confirm Booking
-                            </>
+                          {overActiveLimit && (
+                            <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-xl p-3 mb-4">
+                              You can have at most {policy?.max_active_bookings} active bookings for this resource
+                              and already have {activeCount}. Cancel one first{recurrence ? ' or book fewer dates' : ''}.
+                            </p>
                           )}
-                        </Button>
-                        <p className="text-xs text-emerald-700 mt-3 text-center flex items-center justify-center gap-1">
-                          <Info className="w-3 h-3" />
-                          Your request will be sent to admin for approval
-                        </p>
-                      </div>
-                    )}
+                          <Button
+                            onClick={handleBooking}
+                            disabled={isBooking || overActiveLimit || (recurrence !== null && (!recurrenceValid || checkingOccurrences || bookableOccurrences.length === 0))}
+                            className="w-full bg-emerald-600 hover:bg-emerald-700 text-white h-12 text-base font-semibold rounded-xl shadow-md"
+                          >
+                            {isBooking ? (
+                              <>
+                                <span className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+                                Submitting Request...
+                              </>
+                            ) : (
+                              <>
+                                <CheckCircle className="w-5 h-5 mr-2" />
+                                {recurrence
+                                  ? `Request ${bookableOccurrences.length} Booking${bookableOccurrences.length === 1 ? '' : 's'}`
+                                  : 'Confirm Booking'}
+                              </>
+                            )}
+                          </Button>
+                          <p className="text-xs text-emerald-700 mt-3 text-center flex items-center justify-center gap-1">
+                            <Info className="w-3 h-3" />
+                            {policy?.auto_approve
+                              ? 'This resource is confirmed instantly, no approval needed'
+                              : 'Your request will be sent to admin for approval'}
+                          </p>
+                        </div>
+                      )}
 
-                    {availableCount === 0 && (
-                      <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 flex items-start gap-3">
-                        <Lightbulb className="w-5 h-5 text-amber-600 shrink-0 mt-0.5" />
-                        <div>
-                          <p className="text-sm font-semibold text-amber-900">No available slots</p>
-                          <p className="text-xs text-amber-700 mt-1">Try a different date or duration.</p>
+                      {availableCount === 0 && (
+                        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 flex items-start gap-3">
+                          <Lightbulb className="w-5 h-5 text-amber-600 shrink-0 mt-0.5" />
+                          <div>
+                            <p className="text-sm font-semibold text-amber-900">No available slots</p>
+                            <p className="text-xs text-amber-700 mt-1">Try a different date or duration.</p>
+                          </div>
                         </div>
-                      </div>
-                    )}
-                  </>
-                )}
-              </CardContent>
-            </Card>
-          </div>
+                      )}
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
         </div>
       )}
 
+      {/* Waitlist Dialog */}
+      <Dialog open={!!waitlistSlot} onOpenChange={(open) => !open && setWaitlistSlot(null)}>
+        <DialogContent className="max-w-md bg-white border border-neutral-200">
+          <DialogHeader>
+            <DialogTitle className="text-xl text-neutral-900 flex items-center gap-2">
+              <Hourglass className="w-5 h-5 text-amber-600" />
+              {waitlistEntry ? 'You\'re on the Waitlist' : 'This Slot is Taken'}
+            </DialogTitle>
+            <DialogDescription className="text-neutral-500">
+              {selectedResource?.name} · {dayjs(selectedDate).format('ddd, MMM D')}
+              {waitlistSlot && `, ${formatTime(waitlistSlot.start_time)} - ${formatTime(waitlistSlot.end_time)}`}
+            </DialogDescription>
+          </DialogHeader>
+          {waitlistEntry ? (
+            <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 text-sm text-amber-800">
+              {waitlistEntry.status === 'offered'
+                ? `The slot has freed up and is being held for you${waitlistEntry.hold_expires_at ? ` until ${formatTime(waitlistEntry.hold_expires_at)}` : ''}.`
+                : waitlistEntry.position
+                  ? `You're #${waitlistEntry.position} in line. We'll notify you if the slot frees up.`
+                  : 'We\'ll notify you if the slot frees up.'}
+            </div>
+          ) : (
+            <p className="text-sm text-neutral-600">
+              Join the waitlist and, if this booking is cancelled, rejected or missed, the first person in line is
+              notified and the slot is held for them for a limited time to claim.
+            </p>
+          )}
+          <div className="flex justify-end gap-2 pt-2">
+            {waitlistSlot && !(waitlistEntry && canClaim(waitlistEntry)) && (
+              <Button
+                variant="ghost"
+                onClick={() => {
+                  showAlternativesFor(waitlistSlot)
+                  setWaitlistSlot(null)
+                }}
+              >
+                See Alternatives
+              </Button>
+            )}
+            {waitlistEntry && canClaim(waitlistEntry) ? (
+              <Button onClick={handleClaimWaitlistSlot} disabled={claimWaitlistSlot.isPending}>
+                {claimWaitlistSlot.isPending ? 'Claiming...' : 'Claim Slot'}
+              </Button>
+            ) : waitlistEntry ? (
+              <Button variant="outline" onClick={handleLeaveWaitlist} disabled={leaveWaitlist.isPending}>
+                {leaveWaitlist.isPending ? 'Leaving...' : 'Leave Waitlist'}
+              </Button>
+            ) : (
+              <Button onClick={handleJoinWaitlist} disabled={joinWaitlist.isPending}>
+                {joinWaitlist.isPending ? 'Joining...' : 'Join Waitlist'}
+              </Button>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Alternatives Dialog */}
       <Dialog open={showAlternatives} onOpenChange={setShowAlternatives}>
         <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto bg-white border border-neutral-200">
@@ -820,23 +1343,32 @@ const BookResource: React.FC = () => {
               Alternative Options Available
             </DialogTitle>
             <DialogDescription className="text-neutral-500">
-              The selected slot is no longer available. Here are some alternatives:
+              {alternativesFor
+                ? `${formatTime(alternativesFor.start_time)} - ${formatTime(alternativesFor.end_time)} is taken. Here are the closest matches:`
+                : 'The selected slot is no longer available. Here are some alternatives:'}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-6 mt-4">
-            {alternatives.resources.length > 0 && (
+            {suggestionsQuery.isLoading && (
+              <div className="space-y-2">
+                {[1, 2, 3].map(i => <Skeleton key={i} className="h-16 w-full rounded-xl" />)}
+              </div>
+            )}
+            {alternativeResources.length > 0 && (
               <div>
                 <h4 className="font-semibold text-neutral-900 mb-3 flex items-center gap-2">
                   <DoorOpen className="w-5 h-5 text-neutral-500" />
                   Similar Resources
                 </h4>
                 <div className="space-y-2">
-                  {alternatives.resources.map((res) => (
+                  {alternativeResources.map((res) => (
                     <div
                       key={res.id}
                       className="bg-neutral-50 border border-neutral-200 rounded-xl p-4 hover:border-emerald-300 hover:bg-emerald-50/30 transition-colors cursor-pointer"
                       onClick={() => {
                         handleResourceSelect(res)
+                        // It's free at the time that was asked for, so pick that slot again
+                        if (alternativesFor) setPendingSlotStart(alternativesFor.start_time)
                         setShowAlternatives(false)
                       }}
                     >
@@ -858,18 +1390,19 @@ const BookResource: React.FC = () => {
                 </div>
               </div>
             )}
-            {alternatives.slots.length > 0 && (
+            {alternativeSlots.length > 0 && (
               <div>
                 <h4 className="font-semibold text-neutral-900 mb-3 flex items-center gap-2">
                   <Clock className="w-5 h-5 text-neutral-500" />
                   Available Time Slots for {selectedResource?.name}
                 </h4>
                 <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-                  {alternatives.slots.map((slot, idx) => (
+                  {alternativeSlots.map((slot, idx) => (
                     <div
                       key={idx}
                       className="bg-emerald-50 border border-emerald-200 rounded-xl p-3 text-center hover:border-emerald-400 hover:bg-emerald-100 transition-colors cursor-pointer"
                       onClick={() => {
+                        setSelectedDate(dayjs(slot.start_time).toDate())
                         setSelectedSlot(slot)
                         setShowAlternatives(false)
                         toast.success('Alternative slot selected!')
@@ -885,7 +1418,13 @@ const BookResource: React.FC = () => {
                 </div>
               </div>
             )}
-            {alternatives.resources.length === 0 && alternatives.slots.length === 0 && (
+            {suggestionsQuery.isError && (
+              <div className="text-center py-8">
+                <AlertCircle className="w-12 h-12 text-neutral-300 mx-auto mb-3" />
+                <p className="text-neutral-500">Couldn't load alternatives. Try again in a moment.</p>
+              </div>
+            )}
+            {suggestionsQuery.isSuccess && alternativeResources.length === 0 && alternativeSlots.length === 0 && (
               <div className="text-center py-8">
                 <XCircle className="w-12 h-12 text-neutral-300 mx-auto mb-3" />
                 <p className="text-neutral-500">No alternatives available at this time.</p>
@@ -2,7 +2,9 @@ import React, { useEffect, useRef, useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { loginSchema, LoginFormValues } from '../utils/validators'
-import { api } from '../lib/api'
+import { applyFieldErrors } from '../utils/formErrors'
+import { authApi } from '../lib/client'
+import { errorMessage } from '../lib/apiError'
 import { useNavigate } from 'react-router-dom'
 import { useAuth } from '../store/authStore'
 import { useAutoLogout } from '../hooks/AutoLogout'
@@ -45,14 +47,16 @@ const Login: React.FC = () => {
 
   async function onSubmit(values: LoginFormValues) {
     try {
-      const res = await api.post<{ token: string; user: { id: number; name: string; email: string; role: Role }; expires_at: string }>('/auth/login', values)
+      const res = await authApi.login(values)
       login(res, rememberMe)
       toast.success(`Welcome back, ${res.user.name}!`)
       navigate(res.user.role === Role.Admin ? '/dashboard/admin' : '/dashboard/employee', { replace: true })
-    } catch (err: any) {
-      const errorMessage = err.message || 'Invalid email or password'
-      setError('root', { message: errorMessage })
-      toast.error(errorMessage)
+    } catch (err) {
+      const message = errorMessage(err, 'Invalid email or password')
+      if (!applyFieldErrors(err, setError, ['email', 'password'])) {
+        setError('root', { message })
+      }
+      toast.error(message)
     }
   }
 
@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react'
 import Header from '../components/Header'
-import { api } from '../lib/api'
+import { CalendarFeedCard } from '../components/CalendarFeedCard'
+import { authApi } from '../lib/client'
 import { useAuth } from '../store/authStore'
 import { User } from '../types/auth'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -21,7 +22,7 @@ const Profile: React.FC = () => {
     async function load() {
       setLoading(true); setError(null)
       try {
-        const res = await api.get<User>('/auth/me')
+        const res = await authApi.me()
         if (!mounted) return
         setLocalUser(res); setUser(res)
       } catch (err: any) { setError(err.message || String(err)) }
@@ -100,6 +101,8 @@ const Profile: React.FC = () => {
               </CardContent>
             </Card>
           )}
+
+          {user && <CalendarFeedCard />}
         </div>
       </main>
     </div>
@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Calendar as BigCalendar, dayjsLocalizer, SlotInfo, View, Views } from 'react-big-calendar'
+import { Booking } from '../lib/schemas'
+import { ResourceType } from '../utils/validators'
+import { getStatusConfig, statusConfig } from '../utils/bookingStatus'
+import { useBookings } from '../hooks/useBookings'
+import { useResourceInventory } from '../hooks/useResources'
+import { useResourceTypeDefinitions } from '../hooks/useResourceTypes'
+import { useAuth } from '../store/authStore'
+import { Role } from '../types/auth'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select'
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle,
+} from '@/components/ui/dialog'
+import { Calendar, Clock, MapPin, User } from 'lucide-react'
+import { toast } from 'sonner'
+import { Breadcrumbs } from '../components/Breadcrumbs'
+import dayjs from 'dayjs'
+
+const localizer = dayjsLocalizer(dayjs)
+
+interface CalendarEvent {
+  title: string
+  start: Date
+  end: Date
+  resource: Booking
+}
+
+// Visible date window for the current view, padded to whole weeks in month view
+function visibleRange(date: Date, view: View) {
+  const d = dayjs(date)
+  if (view === Views.DAY) return { start: d.startOf('day'), end: d.endOf('day') }
+  if (view === Views.WEEK) return { start: d.startOf('week'), end: d.endOf('week') }
+  return { start: d.startOf('month').startOf('week'), end: d.endOf('month').endOf('week') }
+}
+
+const ResourceCalendar: React.FC = () => {
+  const { types: resourceTypes, definitionOf } = useResourceTypeDefinitions()
+  const navigate = useNavigate()
+  const role = useAuth(state => state.user?.role)
+  const basePath = role === Role.Admin ? '/dashboard/admin' : '/dashboard/employee'
+
+  const [view, setView] = useState<View>(Views.WEEK)
+  const [date, setDate] = useState(new Date())
+  const [resourceType, setResourceType] = useState<ResourceType | null>(null)
+  const [resourceId, setResourceId] = useState<number | null>(null)
+  const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null)
+
+  const { data: resources = [] } = useResourceInventory()
+  const resourceOptions = resources.filter(r => r.is_active && (!resourceType || r.resource_type === resourceType))
+
+  const range = visibleRange(date, view)
+  const { data, isError, isFetching } = useBookings({
+    resource_id: resourceId ?? undefined,
+    resource_type: resourceType ?? undefined,
+    start_date: range.start.format('YYYY-MM-DD'),
+    end_date: range.end.format('YYYY-MM-DD'),
+    limit: 500,
+  }, { keepPrevious: true })
+
+  useEffect(() => {
+    if (isError) toast.error('Failed to load bookings')
+  }, [isError])
+
+  const events = useMemo<CalendarEvent[]>(() => (data?.bookings ?? [])
+    // No-shows are released, so their time is free again
+    .filter(b => !['cancelled', 'rejected', 'no_show'].includes(b.status))
+    .map(b => ({
+      title: resourceId ? b.employee_name : `${b.resource_name} · ${b.employee_name}`,
+      start: new Date(b.start_time),
+      end: new Date(b.end_time),
+      resource: b,
+    })), [data, resourceId])
+
+  function handleTypeChange(value: string) {
+    setResourceType(value === 'all' ? null : value as ResourceType)
+    setResourceId(null)
+  }
+
+  // Selecting an empty range starts the booking flow with as much prefilled as we know
+  function handleSelectSlot({ start, end }: SlotInfo) {
+    if (dayjs(end).isBefore(dayjs())) {
+      toast.error('Pick a time in the future')
+      return
+    }
+
+    const params = new URLSearchParams({ date: dayjs(start).format('YYYY-MM-DD') })
+    if (resourceId) params.set('resource', String(resourceId))
+    else if (resourceType) params.set('type', resourceType)
+
+    // Month cells select whole days - only timed views carry a slot
+    if (view !== Views.MONTH) {
+      params.set('start', dayjs(start).toISOString())
+      params.set('end', dayjs(end).toISOString())
+    }
+    navigate(`${basePath}/book?${params}`)
+  }
+
+  return (
+    <div className="max-w-7xl">
+      <Breadcrumbs
+        items={[
+          role === Role.Admin
+            ? { label: 'Admin Dashboard', href: '/dashboard/admin' }
+            : { label: 'Employee Dashboard', href: '/dashboard/employee' },
+          { label: 'Calendar' }
+        ]}
+      />
+
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold text-neutral-900 mb-2" style={{ fontFamily: "'Playfair Display', serif" }}>
+          Resource Calendar
+        </h1>
+        <p className="text-neutral-500">See who has what booked, then drag across a free slot to book it</p>
+      </div>
+
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs text-neutral-500">Resource type</Label>
+            <Select value={resourceType ?? 'all'} onValueChange={handleTypeChange}>
+              <SelectTrigger className="w-48 border-neutral-200"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All types</SelectItem>
+                {resourceTypes.map(definition => (
+                  <SelectItem key={definition.key} value={definition.key}>{definition.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-neutral-500">Resource</Label>
+            <Select
+              value={resourceId ? String(resourceId) : 'all'}
+              onValueChange={(v) => setResourceId(v === 'all' ? null : Number(v))}
+            >
+              <SelectTrigger className="w-56 border-neutral-200"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{resourceType ? `All ${definitionOf(resourceType).label.toLowerCase()}` : 'All resources'}</SelectItem>
+                {resourceOptions.map(r => (
+                  <SelectItem key={r.id} value={String(r.id)}>{r.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {['pending', 'approved', 'checked_in', 'completed'].map(status => (
+            <Badge key={status} className={`${statusConfig[status].color} border`}>
+              {statusConfig[status].label}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      <Card className="shadow-sm border-neutral-200 rounded-2xl overflow-hidden">
+        <CardContent className={`p-4 transition-opacity ${isFetching ? 'opacity-60' : ''}`}>
+          <BigCalendar<CalendarEvent>
+            localizer={localizer}
+            events={events}
+            view={view}
+            onView={setView}
+            date={date}
+            onNavigate={setDate}
+            views={[Views.MONTH, Views.WEEK, Views.DAY]}
+            selectable
+            onSelectSlot={handleSelectSlot}
+            onSelectEvent={(event) => setSelectedBooking(event.resource)}
+            eventPropGetter={(event) => ({
+              className: `border text-xs ${getStatusConfig(event.resource.status).color}`,
+            })}
+            min={dayjs().startOf('day').hour(7).toDate()}
+            max={dayjs().startOf('day').hour(21).toDate()}
+            step={30}
+            timeslots={2}
+            popup
+            style={{ height: 700 }}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Booking Details */}
+      <Dialog open={selectedBooking !== null} onOpenChange={(open) => !open && setSelectedBooking(null)}>
+        <DialogContent className="bg-white border border-neutral-200 shadow-2xl rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-2xl font-semibold text-neutral-900">Booking Details</DialogTitle>
+            <DialogDescription className="text-neutral-500">
+              {selectedBooking?.resource_name}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedBooking && (
+            <div className="space-y-4 mt-2">
+              <Badge className={`${getStatusConfig(selectedBooking.status).color} border`}>
+                {getStatusConfig(selectedBooking.status).label}
+              </Badge>
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div className="flex items-start gap-2">
+                  <Calendar className="w-4 h-4 mt-0.5 text-neutral-400" />
+                  <div>
+                    <p className="text-neutral-500">Date</p>
+                    <p className="font-medium text-neutral-900">{dayjs(selectedBooking.start_time).format('ddd, MMM D, YYYY')}</p>
+                  </div>
+                </div>
+                <div className="flex items-start gap-2">
+                  <Clock className="w-4 h-4 mt-0.5 text-neutral-400" />
+                  <div>
+                    <p className="text-neutral-500">Time</p>
+                    <p className="font-medium text-neutral-900">
+                      {dayjs(selectedBooking.start_time).format('h:mm A')} – {dayjs(selectedBooking.end_time).format('h:mm A')}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-start gap-2">
+                  <User className="w-4 h-4 mt-0.5 text-neutral-400" />
+                  <div>
+                    <p className="text-neutral-500">Booked by</p>
+                    <p className="font-medium text-neutral-900">{selectedBooking.employee_name}</p>
+                  </div>
+                </div>
+                {selectedBooking.resource_location && (
+                  <div className="flex items-start gap-2">
+                    <MapPin className="w-4 h-4 mt-0.5 text-neutral-400" />
+                    <div>
+                      <p className="text-neutral-500">Location</p>
+                      <p className="font-medium text-neutral-900">{selectedBooking.resource_location}</p>
+                    </div>
+                  </div>
+                )}
+              </div>
+              {selectedBooking.admin_note && (
+                <div className="p-3 bg-neutral-50 border border-neutral-200 rounded-lg text-sm">
+                  <p className="text-neutral-500 mb-1">Admin note</p>
+                  <p className="text-neutral-900">{selectedBooking.admin_note}</p>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+export default ResourceCalendar
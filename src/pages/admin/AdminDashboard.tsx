@@ -1,5 +1,10 @@
-import React, { useState, useEffect } from 'react'
-import { api } from '../../lib/api'
+import React, { useEffect, useMemo } from 'react'
+import { useBookings } from '../../hooks/useBookings'
+import { useResources } from '../../hooks/useResources'
+import { useUsers } from '../../hooks/useUsers'
+import {
+  useNoShowReport, usePeakHoursReport, useResourceUsageReport, useUserBookingsReport
+} from '../../hooks/useReports'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import {
@@ -8,88 +13,87 @@ import {
 } from 'recharts'
 import {
   TrendingUp, Users, Calendar, DoorOpen,
-  AlertTriangle, CheckCircle, Clock, Activity
+  AlertTriangle, CheckCircle, Clock, Activity, UserX
 } from 'lucide-react'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Breadcrumbs } from '../../components/Breadcrumbs'
+import { NoShowStat, PeakHour, ResourceUsage, UserBookingStat } from '../../lib/schemas'
+import { downloadCsv, downloadPdf, exportFilename, ExportColumn, toTable } from '../../utils/export'
+import { ExportMenu } from '../../components/ExportMenu'
 import dayjs from 'dayjs'
 
-// Updated interfaces to match actual API responses
-interface ResourceUsage {
-  resource_id: number
-  resource_name: string
-  resource_type?: string
-  total_bookings: number
-  checked_in_count?: number
-  utilization_rate?: number
-}
+const resourceUsageColumns: ExportColumn<ResourceUsage>[] = [
+  { header: 'Resource', value: r => r.resource_name },
+  { header: 'Type', value: r => r.resource_type?.replace(/[-_]/g, ' ') },
+  { header: 'Total Bookings', value: r => r.total_bookings },
+  { header: 'Check-ins', value: r => r.checked_in_count ?? 0 },
+  { header: 'No-shows', value: r => r.no_show_count ?? 0 },
+  { header: 'Utilization %', value: r => r.utilization_rate != null ? (r.utilization_rate * 100).toFixed(1) : '' },
+]
 
-interface UserBooking {
-  user_id: number
-  user_name: string
-  total_approved_bookings: number
-}
+const userBookingColumns: ExportColumn<UserBookingStat>[] = [
+  { header: 'Employee', value: u => u.user_name },
+  { header: 'Approved Bookings', value: u => u.total_approved_bookings },
+]
 
-interface PeakHour {
-  hour: string | number
-  bookings?: number
-  booking_count?: number
+// Share of started bookings nobody turned up for
+function noShowRate(noShows: number, total: number) {
+  return total > 0 ? `${((noShows / total) * 100).toFixed(1)}%` : '–'
 }
 
-interface DashboardStats {
-  totalUsers: number
-  totalResources: number
-  totalBookings: number
-  pendingBookings: number
-  approvedBookings: number
-  todayBookings: number
-}
+const noShowColumns: ExportColumn<NoShowStat>[] = [
+  { header: 'Employee', value: u => u.user_name },
+  { header: 'No-shows', value: u => u.no_show_count },
+  { header: 'Bookings', value: u => u.total_bookings },
+  { header: 'No-show Rate', value: u => u.total_bookings != null ? noShowRate(u.no_show_count, u.total_bookings) : '' },
+]
+
+const peakHourColumns: ExportColumn<PeakHour>[] = [
+  { header: 'Hour', value: p => p.hour },
+  { header: 'Bookings', value: p => p.bookings },
+]
 
 const AdminDashboard: React.FC = () => {
-  const [stats, setStats] = useState<DashboardStats>({
-    totalUsers: 0, totalResources: 0, totalBookings: 0,
-    pendingBookings: 0, approvedBookings: 0, todayBookings: 0
-  })
-  const [resourceUsage, setResourceUsage] = useState<ResourceUsage[]>([])
-  const [userBookings, setUserBookings] = useState<UserBooking[]>([])
-  const [peakHours, setPeakHours] = useState<PeakHour[]>([])
-  const [loading, setLoading] = useState(true)
+  const users = useUsers()
+  const resources = useResources()
+  const bookings = useBookings()
+  const usageReport = useResourceUsageReport()
+  const userBookingsReport = useUserBookingsReport()
+  const peakHoursReport = usePeakHoursReport()
+  const noShowReport = useNoShowReport()
 
-  useEffect(() => { fetchDashboardData() }, [])
+  const queries = [users, resources, bookings, usageReport, userBookingsReport, peakHoursReport, noShowReport]
+  const loading = queries.some(q => q.isLoading)
+  const error = queries.find(q => q.error)?.error
 
-  async function fetchDashboardData() {
-    setLoading(true)
-    try {
-      const [usersRes, resourcesRes, bookingsRes, resourceUsageRes, userBookingsRes, peakHoursRes] = await Promise.all([
-        api.get<{ users: any[]; total: number }>('/users'),
-        api.get<{ resources: any[]; total: number }>('/resources'),
-        api.get<{ bookings: any[]; total: number }>('/bookings'),
-        api.get<{ data: ResourceUsage[] }>('/reports/resource_usage'),
-        api.get<{ data: UserBooking[] }>('/reports/user_bookings'),
-        api.get<{ data: PeakHour[] }>('/reports/peak_hours')
-      ])
+  useEffect(() => {
+    if (error) console.error('Failed to fetch dashboard data:', error)
+  }, [error])
 
-      const bookings = bookingsRes.bookings || []
-      const today = dayjs().format('YYYY-MM-DD')
+  // Derived from the shared bookings query, so approvals elsewhere update these counts
+  const stats = useMemo(() => {
+    const all = bookings.data?.bookings ?? []
+    const today = dayjs().format('YYYY-MM-DD')
+    return {
+      totalUsers: users.data?.total ?? 0,
+      totalResources: resources.data?.total ?? 0,
+      totalBookings: bookings.data?.total ?? 0,
+      pendingBookings: all.filter(b => b.status === 'pending').length,
+      approvedBookings: all.filter(b => b.status === 'approved').length,
+      todayBookings: all.filter(b => dayjs(b.start_time).format('YYYY-MM-DD') === today).length
+    }
+  }, [users.data, resources.data, bookings.data])
 
-      setStats({
-        totalUsers: usersRes.total || 0,
-        totalResources: resourcesRes.total || 0,
-        totalBookings: bookingsRes.total || 0,
-        pendingBookings: bookings.filter((b: any) => b.status === 'pending').length,
-        approvedBookings: bookings.filter((b: any) => b.status === 'approved').length,
-        todayBookings: bookings.filter((b: any) => dayjs(b.start_time).format('YYYY-MM-DD') === today).length
-      })
+  const resourceUsage = usageReport.data ?? []
+  const userBookings = (userBookingsReport.data ?? []).slice(0, 10)
+  const peakHours = peakHoursReport.data ?? []
 
-      setResourceUsage(resourceUsageRes.data || [])
-      setUserBookings((userBookingsRes.data || []).slice(0, 10))
-      setPeakHours(peakHoursRes.data || [])
-    } catch (err: any) {
-      console.error('Failed to fetch dashboard data:', err)
-    } finally {
-      setLoading(false)
-    }
-  }
+  const noShowsByResource = resourceUsage
+    .filter(r => (r.no_show_count ?? 0) > 0)
+    .sort((a, b) => (b.no_show_count ?? 0) - (a.no_show_count ?? 0))
+  const noShowsByUser = [...(noShowReport.data ?? [])]
+    .filter(u => u.no_show_count > 0)
+    .sort((a, b) => b.no_show_count - a.no_show_count)
 
   // Safe data transforms — handle both API shapes
   const utilizationData = resourceUsage.map(r => ({
@@ -99,11 +103,8 @@ const AdminDashboard: React.FC = () => {
     checkins: r.checked_in_count ?? 0
   }))
 
-  // Peak hours API can return { hour: "9:00", bookings: 2 } or { hour: 9, booking_count: 2 }
-  const peakHoursData = peakHours.map(p => ({
-    hour: typeof p.hour === 'number' ? `${p.hour}:00` : p.hour,
-    bookings: p.bookings ?? p.booking_count ?? 0
-  }))
+  // Both peak hour shapes are normalised to { hour: "9:00", bookings: 2 } by the client
+  const peakHoursData = peakHours
 
   const riskScoreData = resourceUsage.map(r => {
     const rate = r.utilization_rate ?? 0
@@ -124,20 +125,50 @@ const AdminDashboard: React.FC = () => {
     { title: "Today's Bookings", value: stats.todayBookings, sub: 'Scheduled for today', icon: Activity, accent: 'border-l-blue-500' },
   ]
 
+  function exportReport() {
+    downloadPdf(exportFilename('analytics-report', 'pdf'), {
+      title: 'Resource Allocation Report',
+      filters: ['Scope: all bookings to date'],
+      tables: [
+        {
+          title: 'Summary',
+          head: ['Metric', 'Value'],
+          body: metrics.map(m => [m.title, String(m.value)]),
+        },
+        toTable('Resource Usage', resourceUsageColumns, resourceUsage),
+        toTable('User Bookings', userBookingColumns, userBookingsReport.data ?? []),
+        toTable('Peak Hours', peakHourColumns, peakHours),
+        toTable('No-shows by Employee', noShowColumns, noShowsByUser),
+      ],
+    })
+  }
+
   return (
     <div className="max-w-7xl">
       <Breadcrumbs items={[{ label: 'Admin Dashboard' }]} />
 
-      <div className="mb-10">
-        <h1
-          className="text-4xl font-bold text-neutral-900 mb-2"
-          style={{ fontFamily: "'Playfair Display', serif" }}
-        >
-          Analytics Dashboard
-        </h1>
-        <p className="text-neutral-500">
-          Real-time insights into resource utilization and booking patterns
-        </p>
+      <div className="flex items-start justify-between gap-4 mb-10">
+        <div>
+          <h1
+            className="text-4xl font-bold text-neutral-900 mb-2"
+            style={{ fontFamily: "'Playfair Display', serif" }}
+          >
+            Analytics Dashboard
+          </h1>
+          <p className="text-neutral-500">
+            Real-time insights into resource utilization and booking patterns
+          </p>
+        </div>
+        <ExportMenu
+          disabled={loading}
+          options={[
+            { label: 'Full report (PDF)', format: 'pdf', onSelect: exportReport },
+            { label: 'Resource usage (CSV)', format: 'csv', onSelect: () => downloadCsv(exportFilename('resource-usage', 'csv'), resourceUsageColumns, resourceUsage) },
+            { label: 'User bookings (CSV)', format: 'csv', onSelect: () => downloadCsv(exportFilename('user-bookings', 'csv'), userBookingColumns, userBookingsReport.data ?? []) },
+            { label: 'Peak hours (CSV)', format: 'csv', onSelect: () => downloadCsv(exportFilename('peak-hours', 'csv'), peakHourColumns, peakHours) },
+            { label: 'No-shows (CSV)', format: 'csv', onSelect: () => downloadCsv(exportFilename('no-shows', 'csv'), noShowColumns, noShowsByUser) },
+          ]}
+        />
       </div>
 
       {loading ? (
@@ -397,6 +428,65 @@ const AdminDashboard: React.FC = () => {
             </Card>
           </div>
 
+          {/* ── No-shows ── */}
+          <Card className="shadow-sm border-neutral-200 rounded-2xl overflow-hidden bg-white">
+            <CardHeader className="bg-neutral-50/80 border-b border-neutral-100 py-5">
+              <CardTitle className="flex items-center gap-2 text-neutral-900">
+                <UserX className="w-5 h-5 text-orange-500" />
+                No-shows
+              </CardTitle>
+              <CardDescription className="text-neutral-500">
+                Approved bookings released because nobody checked in
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="pt-6">
+              {noShowsByResource.length === 0 && noShowsByUser.length === 0 ? (
+                <div className="text-center py-12 text-neutral-400">
+                  <UserX className="w-12 h-12 mx-auto mb-3 text-neutral-300" />
+                  <p className="font-medium">No no-shows recorded</p>
+                  <p className="text-sm mt-1">Everyone has checked in to their bookings</p>
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <div>
+                    <p className="text-xs font-semibold text-neutral-400 uppercase tracking-wider mb-3">By Resource</p>
+                    <div className="space-y-2">
+                      {noShowsByResource.map(r => (
+                        <div key={r.resource_id} className="flex items-center justify-between p-3 bg-neutral-50 rounded-xl border border-neutral-100">
+                          <div>
+                            <p className="font-semibold text-neutral-900 text-sm">{r.resource_name}</p>
+                            <p className="text-xs text-neutral-500">
+                              {r.checked_in_count ?? 0} check-ins · {noShowRate(r.no_show_count ?? 0, (r.checked_in_count ?? 0) + (r.no_show_count ?? 0))} no-show rate
+                            </p>
+                          </div>
+                          <Badge className="bg-orange-50 text-orange-700 border border-orange-200">{r.no_show_count} no-show{r.no_show_count === 1 ? '' : 's'}</Badge>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <p className="text-xs font-semibold text-neutral-400 uppercase tracking-wider mb-3">By Employee</p>
+                    <div className="space-y-2">
+                      {noShowsByUser.slice(0, 10).map(u => (
+                        <div key={u.user_id} className="flex items-center justify-between p-3 bg-neutral-50 rounded-xl border border-neutral-100">
+                          <div>
+                            <p className="font-semibold text-neutral-900 text-sm">{u.user_name}</p>
+                            {u.total_bookings != null && (
+                              <p className="text-xs text-neutral-500">
+                                {u.total_bookings} bookings · {noShowRate(u.no_show_count, u.total_bookings)} no-show rate
+                              </p>
+                            )}
+                          </div>
+                          <Badge className="bg-orange-50 text-orange-700 border border-orange-200">{u.no_show_count} no-show{u.no_show_count === 1 ? '' : 's'}</Badge>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* ── Booking Status Distribution ── */}
           {stats.totalBookings > 0 && (
             <Card className="shadow-sm border-neutral-200 rounded-2xl overflow-hidden bg-white">
@@ -1,13 +1,20 @@
 import React from 'react'
 import { NavLink, Outlet } from 'react-router-dom'
 import Header from '../../components/Header'
-import { LayoutDashboard, CalendarCheck, Users, Boxes } from 'lucide-react'
+import {
+  LayoutDashboard, CalendarCheck, CalendarDays, CalendarOff, Users, Boxes, Shapes, ShieldCheck, LayoutGrid,
+} from 'lucide-react'
 
 const navItems = [
   { to: '/dashboard/admin/overview', label: 'Dashboard', icon: LayoutDashboard },
   { to: '/dashboard/admin/bookings', label: 'Manage Bookings', icon: CalendarCheck },
+  { to: '/dashboard/admin/calendar', label: 'Calendar', icon: CalendarDays },
+  { to: '/dashboard/admin/availability', label: 'Availability', icon: LayoutGrid },
   { to: '/dashboard/admin/users', label: 'User Management', icon: Users },
   { to: '/dashboard/admin/resources', label: 'Manage Resources', icon: Boxes },
+  { to: '/dashboard/admin/resource-types', label: 'Resource Types', icon: Shapes },
+  { to: '/dashboard/admin/closures', label: 'Holidays & Closures', icon: CalendarOff },
+  { to: '/dashboard/admin/policies', label: 'Booking Policies', icon: ShieldCheck },
 ]
 
 const linkClass = (isActive: boolean) =>
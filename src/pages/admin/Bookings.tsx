@@ -1,85 +1,163 @@
 import React, { useState, useEffect } from 'react'
 import { useForm } from 'react-hook-form'
+import { useSearchParams } from 'react-router-dom'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { api } from '../../lib/api'
-import { bookingApprovalSchema, BookingApprovalFormValues } from '../../utils/validators'
+import { errorMessage } from '../../lib/apiError'
+import { Booking, BookingStatus } from '../../lib/schemas'
+import { bookingsApi, BookingListParams, BookingSortField } from '../../lib/client'
+import { realtime } from '../../lib/realtime'
+import { bookingApprovalSchema, BookingApprovalFormValues, returnConditionLabels } from '../../utils/validators'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import {
   Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle,
 } from '@/components/ui/dialog'
 import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select'
 import { Textarea } from '@/components/ui/textarea'
 import {
   Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
 } from '@/components/ui/table'
 import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
 import {
-  Clock, CheckCircle, XCircle, Calendar, User, MapPin, Trash2, Filter
+  Clock, CheckCircle, XCircle, Calendar, MapPin, Trash2,
+  ArrowUp, ArrowDown, ArrowUpDown, ChevronLeft, ChevronRight, Repeat, ShieldAlert, PackageCheck, PackageOpen,
+  CalendarClock
 } from 'lucide-react'
 import { toast } from 'sonner'
 import { Breadcrumbs } from '../../components/Breadcrumbs'
 import { TableSkeleton } from '../../components/TableSkeleton'
 import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts'
+import { useLinkedBooking } from '../../hooks/useLinkedBooking'
+import {
+  BulkReviewResult, useBookings, useBulkReviewBookings, useCancelBooking, useReviewBooking, useReviewBookingChange
+} from '../../hooks/useBookings'
+import { useResourceInventory, useResourceTypeOf } from '../../hooks/useResources'
+import { usePolicyForBooking } from '../../hooks/usePolicies'
+import { useUsers } from '../../hooks/useUsers'
+import { BookingTimeline } from '../../components/BookingTimeline'
+import { BookingChangeHistory } from '../../components/BookingChangeHistory'
+import { BookingPurpose } from '../../components/BookingPurpose'
+import { EquipmentHandoverDialog } from '../../components/EquipmentHandoverDialog'
+import { bookingsOverlap, findConflicts } from '../../utils/bookingConflicts'
+import { activeBookingsUnder, policyViolations } from '../../utils/policies'
+import { formatBookingDates, formatBookingTimes, isEquipment, isMultiDay, loanDays } from '../../utils/equipment'
+import { getStatusConfig, statusConfig } from '../../utils/bookingStatus'
+import { formatChangeSlot, movesResource, pendingChange } from '../../utils/bookingChanges'
+import { bookingExportColumns, downloadCsv, downloadPdf, exportFilename, toTable } from '../../utils/export'
+import { ExportMenu } from '../../components/ExportMenu'
 import dayjs from 'dayjs'
 
-// Matches the ACTUAL API response shape from GET /bookings
-interface Booking {
-  id: number
-  resource_id: number
-  user_id: number
-  start_time: string
-  end_time: string
-  status: string
-  employee_id?: string
-  employee_name?: string
-  resource_name?: string
-  approved_at?: string | null
-  cancelled_at?: string | null
-  checked_in_at?: string | null
-  admin_note?: string | null
-  created_at: string
-  updated_at: string
-  // Legacy nested shape (kept for backward compat)
-  resource?: { id: number; name: string; resource_type: string; location?: string }
-  user?: { id: number; name: string; email: string; employee_id?: string }
+type StatusFilter = 'all' | BookingStatus
+
+const PAGE_SIZE = 20
+
+const sortFields: BookingSortField[] = ['start_time', 'created_at', 'status', 'resource_name', 'employee_name']
+
+// The table view is driven entirely by the query string so admins can
+// bookmark or share it, e.g. ?status=pending&resource=3&from=2026-10-19&to=2026-10-23
+interface BookingFilters {
+  status: StatusFilter
+  resource: number | null
+  employee: number | null
+  // Bookings whose owner asked to move them
+  changes: boolean
+  from: string
+  to: string
+  sort: BookingSortField
+  order: 'asc' | 'desc'
+  page: number
 }
 
-interface BookingsResponse {
-  bookings: Booking[]
-  total: number
-  limit: number
-  offset: number
-  has_more: boolean
+const defaultFilters: BookingFilters = {
+  status: 'all', resource: null, employee: null, changes: false, from: '', to: '',
+  sort: 'created_at', order: 'desc', page: 1,
+}
+
+function parseId(value: string | null) {
+  const id = Number(value)
+  return value && Number.isInteger(id) && id > 0 ? id : null
+}
+
+function readFilters(params: URLSearchParams): BookingFilters {
+  const status = params.get('status') ?? ''
+  const sort = params.get('sort') as BookingSortField
+  return {
+    // Own keys only: `in` would let ?status=toString through
+    status: Object.prototype.hasOwnProperty.call(statusConfig, status) ? status as StatusFilter : defaultFilters.status,
+    resource: parseId(params.get('resource')),
+    employee: parseId(params.get('employee')),
+    changes: params.get('changes') === 'true',
+    from: params.get('from') ?? '',
+    to: params.get('to') ?? '',
+    sort: sortFields.includes(sort) ? sort : defaultFilters.sort,
+    order: params.get('order') === 'asc' ? 'asc' : defaultFilters.order,
+    page: Math.max(1, Math.floor(Number(params.get('page'))) || 1),
+  }
 }
 
-type BookingStatus = 'all' | 'pending' | 'approved' | 'checked_in' | 'completed' | 'rejected' | 'cancelled'
+// Only non-default values go into the URL to keep shared links short
+function writeFilters(filters: BookingFilters) {
+  const params = new URLSearchParams()
+  for (const key of Object.keys(filters) as (keyof BookingFilters)[]) {
+    const value = filters[key]
+    if (value !== null && value !== '' && value !== defaultFilters[key]) params.set(key, String(value))
+  }
+  return params
+}
 
-const statusConfig: Record<string, { label: string; color: string; icon: React.FC<any> }> = {
-  all:        { label: 'All Bookings', color: 'bg-neutral-100 text-neutral-700 border-neutral-300', icon: Filter },
-  pending:    { label: 'Pending',      color: 'bg-amber-50 text-amber-700 border-amber-200',       icon: Clock },
-  approved:   { label: 'Approved',     color: 'bg-blue-50 text-blue-700 border-blue-200',          icon: CheckCircle },
-  checked_in: { label: 'Checked In',   color: 'bg-emerald-50 text-emerald-700 border-emerald-200', icon: CheckCircle },
-  completed:  { label: 'Completed',    color: 'bg-violet-50 text-violet-700 border-violet-200',    icon: CheckCircle },
-  rejected:   { label: 'Rejected',     color: 'bg-red-50 text-red-700 border-red-200',             icon: XCircle },
-  cancelled:  { label: 'Cancelled',    color: 'bg-neutral-100 text-neutral-500 border-neutral-200', icon: XCircle },
+function toListParams(filters: BookingFilters): BookingListParams {
+  return {
+    status: filters.status === 'all' ? undefined : filters.status,
+    resource_id: filters.resource ?? undefined,
+    user_id: filters.employee ?? undefined,
+    pending_change: filters.changes || undefined,
+    start_date: filters.from || undefined,
+    end_date: filters.to || undefined,
+    sort_by: filters.sort,
+    sort_order: filters.order,
+    limit: PAGE_SIZE,
+    offset: (filters.page - 1) * PAGE_SIZE,
+  }
 }
 
-const defaultStatusStyle = { label: 'Unknown', color: 'bg-neutral-100 text-neutral-500 border-neutral-200', icon: Filter }
+interface SortableHeadProps {
+  field: BookingSortField
+  label: string
+  filters: BookingFilters
+  onSort: (field: BookingSortField) => void
+}
 
-function getStatusConfig(status: string) {
-  return statusConfig[status] || defaultStatusStyle
+function SortableHead({ field, label, filters, onSort }: SortableHeadProps) {
+  const active = filters.sort === field
+  const Icon = !active ? ArrowUpDown : filters.order === 'asc' ? ArrowUp : ArrowDown
+  return (
+    <TableHead className="text-neutral-600 font-semibold">
+      <button
+        type="button"
+        onClick={() => onSort(field)}
+        className={`inline-flex items-center gap-1 hover:text-neutral-900 ${active ? 'text-neutral-900' : ''}`}
+      >
+        {label}
+        <Icon className={`w-3 h-3 ${active ? '' : 'text-neutral-400'}`} />
+      </button>
+    </TableHead>
+  )
 }
 
-// Helper to safely extract display fields from either flat or nested booking
+// Display fields for a (normalised) booking
 function getBookingDisplay(b: Booking) {
   return {
-    resourceName: b.resource_name || b.resource?.name || 'Unknown Resource',
-    employeeName: b.employee_name || b.user?.name || 'Unknown',
-    employeeId: b.employee_id || b.user?.employee_id || '',
-    employeeEmail: b.user?.email || '',
-    resourceLocation: b.resource?.location || '',
-    employeeInitial: (b.employee_name || b.user?.name || 'U').charAt(0).toUpperCase(),
+    resourceName: b.resource_name,
+    employeeName: b.employee_name,
+    employeeId: b.employee_id,
+    employeeEmail: b.employee_email,
+    resourceLocation: b.resource_location,
+    employeeInitial: b.employee_name.charAt(0).toUpperCase(),
   }
 }
 
@@ -89,16 +167,86 @@ const Bookings: React.FC = () => {
   const [openReject, setOpenReject] = useState(false)
   const [openDelete, setOpenDelete] = useState(false)
 
-  const [bookings, setBookings] = useState<Booking[]>([])
-  const [loading, setLoading] = useState(false)
+  const [searchParams, setSearchParams] = useSearchParams()
+  const filters = readFilters(searchParams)
+  const activeStatus = filters.status
+
+  const { data, isLoading: loading, isError, isFetching } = useBookings(toListParams(filters), { keepPrevious: true })
+  const { data: resources = [] } = useResourceInventory()
+  const { data: usersData } = useUsers()
+  const reviewBooking = useReviewBooking()
+  const reviewChange = useReviewBookingChange()
+  const [changeNote, setChangeNote] = useState('')
+  const cancelBooking = useCancelBooking()
+  const bookings = data?.bookings ?? []
+  const total = data?.total ?? 0
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null)
-  const [activeStatus, setActiveStatus] = useState<BookingStatus>('all')
   const [isProcessing, setIsProcessing] = useState(false)
+  // Equipment loans are handed over and taken back here
+  const [handoverBooking, setHandoverBooking] = useState<Booking | null>(null)
+  const resourceTypeOf = useResourceTypeOf()
+  const isLoan = (booking: Booking) => isEquipment(resourceTypeOf(booking))
 
   const { register, handleSubmit, reset, formState: { errors, isSubmitting } } = useForm<BookingApprovalFormValues>({
     resolver: zodResolver(bookingApprovalSchema)
   })
 
+  // The resource's other bookings on the candidate's day (every day, for a loan), for the approval timeline.
+  // The list filters on start_time, so it reaches back far enough to catch
+  // anything still running into that day: slots are under a day long, and a
+  // loan can't run longer than a year (max_advance_days tops out at 365).
+  const lookBackDays = selectedBooking && isLoan(selectedBooking) ? 366 : 1
+  const approvalFrom = selectedBooking ? dayjs(selectedBooking.start_time).subtract(lookBackDays, 'day').format('YYYY-MM-DD') : ''
+  const approvalLastDay = selectedBooking ? dayjs(selectedBooking.end_time).format('YYYY-MM-DD') : ''
+  const { data: dayData, isLoading: loadingDay } = useBookings(
+    { resource_id: selectedBooking?.resource_id, start_date: approvalFrom, end_date: approvalLastDay, limit: 100 },
+    { enabled: openApprove && selectedBooking !== null }
+  )
+  const approvalWindow = selectedBooking && {
+    start_time: dayjs(selectedBooking.start_time).startOf('day').toISOString(),
+    end_time: dayjs(selectedBooking.end_time).endOf('day').toISOString(),
+  }
+  const sameDayBookings = approvalWindow ? (dayData?.bookings ?? []).filter(b => bookingsOverlap(b, approvalWindow)) : []
+  const conflicts = selectedBooking ? findConflicts(selectedBooking, sameDayBookings) : []
+  const overlappingPending = conflicts.filter(b => b.status === 'pending')
+  const [rejectOverlapping, setRejectOverlapping] = useState(true)
+
+  // The employee's upcoming bookings, to check the candidate against its booking policy
+  const policyForBooking = usePolicyForBooking()
+  const { data: employeeData, isLoading: loadingEmployee } = useBookings(
+    { user_id: selectedBooking?.user_id ?? undefined, start_date: dayjs().format('YYYY-MM-DD'), limit: 100 },
+    { enabled: openApprove && selectedBooking?.user_id != null }
+  )
+  const approvalPolicy = selectedBooking ? policyForBooking(selectedBooking) : null
+  // Approving waits for the policy and both lists, or the check could pass on missing rows
+  const checkingPolicy = selectedBooking !== null && (!approvalPolicy || loadingEmployee || loadingDay)
+  const policyProblems = selectedBooking && approvalPolicy && !checkingPolicy
+    ? policyViolations(approvalPolicy, selectedBooking, {
+        active: activeBookingsUnder(approvalPolicy, employeeData?.bookings ?? [], resources),
+        sameDay: sameDayBookings,
+      })
+    : []
+  const [overridePolicy, setOverridePolicy] = useState(false)
+
+  // Pending dates of a recurring series, so the series can be reviewed as a unit
+  const { data: seriesData } = useBookings(
+    { series_id: selectedBooking?.series_id ?? undefined, status: 'pending', limit: 100 },
+    { enabled: (openApprove || openReject) && selectedBooking?.series_id != null }
+  )
+  const seriesPending = seriesData?.bookings ?? []
+  const [applyToSeries, setApplyToSeries] = useState(true)
+  const reviewsSeries = applyToSeries && seriesPending.length > 1
+
+  // Bulk review: selection survives paging, but not a change of filters
+  const bulkReview = useBulkReviewBookings()
+  const [selected, setSelected] = useState<Map<number, Booking>>(new Map())
+  const [selectAllMatching, setSelectAllMatching] = useState(false)
+  const [bulkAction, setBulkAction] = useState<'approved' | 'rejected' | null>(null)
+  const [bulkReport, setBulkReport] = useState<BulkReviewResult[] | null>(null)
+  const bulkForm = useForm<BookingApprovalFormValues>({
+    resolver: zodResolver(bookingApprovalSchema)
+  })
+
   useKeyboardShortcuts([
     {
       key: 'Escape',
@@ -107,46 +255,163 @@ const Bookings: React.FC = () => {
         if (openApprove) setOpenApprove(false)
         if (openReject) setOpenReject(false)
         if (openDelete) setOpenDelete(false)
+        if (bulkAction) setBulkAction(null)
       }
     }
   ])
 
-  async function fetchBookings() {
-    setLoading(true)
+  useEffect(() => {
+    if (isError) toast.error('Failed to fetch bookings')
+  }, [isError])
+
+  // Someone else settled a booking we are about to review, e.g. the employee
+  // cancelled it - stop the review rather than approving a dead request
+  useEffect(() => realtime.subscribe(event => {
+    if (event.type !== 'booking.status_changed' || event.booking.status === 'pending') return
+    const { id, status } = event.booking
+
+    setSelected(prev => {
+      if (!prev.has(id)) return prev
+      const next = new Map(prev)
+      next.delete(id)
+      return next
+    })
+
+    if (isProcessing || selectedBooking?.id !== id || !(openApprove || openReject)) return
+    setOpenApprove(false)
+    setOpenReject(false)
+    toast.warning(`${selectedBooking.employee_name}'s booking was ${getStatusConfig(status).label.toLowerCase()} while you were reviewing it`)
+  }), [isProcessing, selectedBooking, openApprove, openReject])
+
+  // Deep link from a notification
+  const { linkedBooking, clearLinkedBooking } = useLinkedBooking()
+  useEffect(() => {
+    if (!linkedBooking) return
+    setSelectedBooking(linkedBooking)
+    setOpenView(true)
+  }, [linkedBooking])
+
+  // Any filter change starts again from the first page
+  function updateFilters(patch: Partial<BookingFilters>) {
+    if (!('page' in patch)) clearSelection()
+    setSearchParams(writeFilters({ ...filters, page: 1, ...patch }))
+  }
+
+  const pendingOnPage = bookings.filter(b => b.status === 'pending')
+  const allPageSelected = pendingOnPage.length > 0 && pendingOnPage.every(b => selected.has(b.id))
+  const somePageSelected = pendingOnPage.some(b => selected.has(b.id))
+  const selectedCount = selectAllMatching ? total : selected.size
+
+  function clearSelection() {
+    setSelected(new Map())
+    setSelectAllMatching(false)
+  }
+
+  function toggleRow(booking: Booking, checked: boolean) {
+    setSelectAllMatching(false)
+    setSelected(prev => {
+      const next = new Map(prev)
+      if (checked) next.set(booking.id, booking)
+      else next.delete(booking.id)
+      return next
+    })
+  }
+
+  function togglePage(checked: boolean) {
+    setSelectAllMatching(false)
+    setSelected(prev => {
+      const next = new Map(prev)
+      pendingOnPage.forEach(b => checked ? next.set(b.id, b) : next.delete(b.id))
+      return next
+    })
+  }
+
+  function openBulkDialog(action: 'approved' | 'rejected') {
+    bulkForm.reset()
+    setBulkAction(action)
+  }
+
+  async function handleBulkReview(values: BookingApprovalFormValues) {
+    if (!bulkAction) return
     try {
-      const res = await api.get<BookingsResponse>('/bookings')
-      setBookings(res.bookings || [])
-    } catch (err: any) {
-      console.error('Failed to fetch bookings:', err)
-      toast.error('Failed to fetch bookings')
-      setBookings([])
-    } finally {
-      setLoading(false)
+      // listAll replaces the page window with its own
+      const targets = selectAllMatching
+        ? (await bookingsApi.listAll(toListParams(filters))).filter(b => b.status === 'pending')
+        : [...selected.values()]
+
+      const results = await bulkReview.mutateAsync({
+        bookings: targets,
+        status: bulkAction,
+        admin_note: values.admin_note,
+      })
+      setBulkAction(null)
+      setBulkReport(results)
+
+      // Failed rows stay selected so they can be retried after fixing the conflict
+      setSelectAllMatching(false)
+      setSelected(new Map(results.filter(r => !r.ok).map(r => [r.booking.id, r.booking])))
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to process bookings'))
     }
   }
 
-  useEffect(() => { fetchBookings() }, [])
+  function handleSort(field: BookingSortField) {
+    const order = filters.sort === field && filters.order === 'desc' ? 'asc' : 'desc'
+    updateFilters({ sort: field, order })
+  }
+
+  function showThisWeek() {
+    updateFilters({
+      from: dayjs().startOf('week').format('YYYY-MM-DD'),
+      to: dayjs().endOf('week').format('YYYY-MM-DD'),
+    })
+  }
 
-  const filteredBookings = activeStatus === 'all'
-    ? bookings
-    : bookings.filter(b => b.status === activeStatus)
+  const hasFilters = filters.resource !== null || filters.employee !== null || filters.changes ||
+    filters.from !== '' || filters.to !== ''
+  const firstRow = total === 0 ? 0 : (filters.page - 1) * PAGE_SIZE + 1
+  const lastRow = (filters.page - 1) * PAGE_SIZE + bookings.length
+
+  // Reviews every pending date in the selected booking's series, reporting per date
+  async function reviewSeries(series: Booking[], status: 'approved' | 'rejected', admin_note?: string) {
+    const results = await bulkReview.mutateAsync({ bookings: series, status, admin_note })
+    if (results.every(r => r.ok)) {
+      toast.success(`${status === 'approved' ? 'Approved' : 'Rejected'} all ${results.length} dates in the series`)
+    } else {
+      setBulkReport(results)
+    }
+  }
 
   async function handleApprove(values: BookingApprovalFormValues) {
     if (!selectedBooking) return
+    const toReject = rejectOverlapping ? overlappingPending : []
+    const series = reviewsSeries ? seriesPending : null
     setIsProcessing(true)
     try {
-      setBookings(prev => prev.map(b =>
-        b.id === selectedBooking.id ? { ...b, status: 'approved', admin_note: values.admin_note } : b
-      ))
       setOpenApprove(false)
       reset()
-      toast.success('Approving booking...')
-      await api.patch(`/bookings/${selectedBooking.id}`, { status: 'approved', admin_note: values.admin_note })
-      await fetchBookings()
-      toast.success('Booking approved successfully!')
-    } catch (err: any) {
-      await fetchBookings()
-      toast.error(err.message || 'Failed to approve booking')
+      if (series) {
+        await reviewSeries(series, 'approved', values.admin_note)
+      } else {
+        toast.success('Approving booking...')
+        await reviewBooking.mutateAsync({ id: selectedBooking.id, status: 'approved', admin_note: values.admin_note })
+        toast.success('Booking approved successfully!')
+      }
+
+      if (toReject.length > 0) {
+        const results = await bulkReview.mutateAsync({
+          bookings: toReject,
+          status: 'rejected',
+          admin_note: 'Another request for this time slot was approved',
+        })
+        if (results.every(r => r.ok)) {
+          toast.success(`Rejected ${results.length} overlapping request${results.length === 1 ? '' : 's'}`)
+        } else {
+          setBulkReport(results)
+        }
+      }
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to approve booking'))
     } finally {
       setIsProcessing(false)
     }
@@ -154,20 +419,20 @@ const Bookings: React.FC = () => {
 
   async function handleReject(values: BookingApprovalFormValues) {
     if (!selectedBooking) return
+    const series = reviewsSeries ? seriesPending : null
     setIsProcessing(true)
     try {
-      setBookings(prev => prev.map(b =>
-        b.id === selectedBooking.id ? { ...b, status: 'rejected', admin_note: values.admin_note } : b
-      ))
       setOpenReject(false)
       reset()
+      if (series) {
+        await reviewSeries(series, 'rejected', values.admin_note)
+        return
+      }
       toast.success('Rejecting booking...')
-      await api.patch(`/bookings/${selectedBooking.id}`, { status: 'rejected', admin_note: values.admin_note })
-      await fetchBookings()
+      await reviewBooking.mutateAsync({ id: selectedBooking.id, status: 'rejected', admin_note: values.admin_note })
       toast.success('Booking rejected!')
-    } catch (err: any) {
-      await fetchBookings()
-      toast.error(err.message || 'Failed to reject booking')
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to reject booking'))
     } finally {
       setIsProcessing(false)
     }
@@ -177,24 +442,77 @@ const Bookings: React.FC = () => {
     if (!selectedBooking) return
     setIsProcessing(true)
     try {
-      setBookings(prev => prev.filter(b => b.id !== selectedBooking.id))
       setOpenDelete(false)
       toast.success('Deleting booking...')
-      await api.del(`/bookings/${selectedBooking.id}`)
+      await cancelBooking.mutateAsync({ id: selectedBooking.id })
       toast.success('Booking deleted!')
-    } catch (err: any) {
-      await fetchBookings()
-      toast.error(err.message || 'Failed to delete booking')
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to delete booking'))
     } finally {
       setIsProcessing(false)
     }
   }
 
+  // Human-readable summary of the current view for exported reports
+  function describeFilters() {
+    const resource = resources.find(r => r.id === filters.resource)
+    const employee = usersData?.users.find(u => u.id === filters.employee)
+    return [
+      `Status: ${getStatusConfig(filters.status).label}`,
+      filters.resource && `Resource: ${resource?.name ?? `#${filters.resource}`}`,
+      filters.employee && `Employee: ${employee ? `${employee.name} (${employee.employee_id})` : `#${filters.employee}`}`,
+      (filters.from || filters.to) && `Dates: ${filters.from || 'any'} to ${filters.to || 'any'}`,
+      `Sorted by ${filters.sort.replace(/_/g, ' ')} (${filters.order === 'asc' ? 'ascending' : 'descending'})`,
+    ].filter((line): line is string => Boolean(line))
+  }
+
+  // Exports every booking matching the filters, not just the visible page
+  async function exportBookings(format: 'csv' | 'pdf') {
+    const rows = await bookingsApi.listAll(toListParams(filters))
+    if (format === 'csv') {
+      downloadCsv(exportFilename('bookings', 'csv'), bookingExportColumns, rows)
+    } else {
+      downloadPdf(exportFilename('bookings', 'pdf'), {
+        title: 'Bookings Report',
+        filters: describeFilters(),
+        tables: [toTable(`${rows.length} booking${rows.length === 1 ? '' : 's'}`, bookingExportColumns, rows)],
+      })
+    }
+  }
+
+  function openApproveDialog(booking: Booking) {
+    setSelectedBooking(booking)
+    setRejectOverlapping(true)
+    setOverridePolicy(false)
+    setApplyToSeries(true)
+    setOpenApprove(true)
+  }
+
+  function openRejectDialog(booking: Booking) {
+    setSelectedBooking(booking)
+    setApplyToSeries(true)
+    setOpenReject(true)
+  }
+
   function handleRowClick(booking: Booking) {
     setSelectedBooking(booking)
+    setChangeNote('')
     setOpenView(true)
   }
 
+  // Approving moves the booking; the server re-checks the new slot first
+  async function handleReviewChange(booking: Booking, status: 'approved' | 'rejected') {
+    const change = pendingChange(booking)
+    if (!change) return
+    try {
+      await reviewChange.mutateAsync({ id: booking.id, changeId: change.id, status, admin_note: changeNote.trim() || undefined })
+      toast.success(status === 'approved' ? `Moved to ${formatChangeSlot(change.start_time, change.end_time)}` : 'Change declined')
+      setOpenView(false)
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to review the change'))
+    }
+  }
+
   return (
     <div className="max-w-7xl">
       <Breadcrumbs
@@ -204,18 +522,26 @@ const Bookings: React.FC = () => {
         ]}
       />
 
-      <div className="mb-8">
-        <h1 className="text-4xl font-bold text-neutral-900 mb-2" style={{ fontFamily: "'Playfair Display', serif" }}>
-          Bookings Management
-        </h1>
-        <p className="text-neutral-500">Review and manage resource booking requests</p>
+      <div className="flex items-start justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-4xl font-bold text-neutral-900 mb-2" style={{ fontFamily: "'Playfair Display', serif" }}>
+            Bookings Management
+          </h1>
+          <p className="text-neutral-500">Review and manage resource booking requests</p>
+        </div>
+        <ExportMenu
+          disabled={total === 0}
+          options={[
+            { label: 'Export as CSV', format: 'csv', onSelect: () => exportBookings('csv') },
+            { label: 'Export as PDF', format: 'pdf', onSelect: () => exportBookings('pdf') },
+          ]}
+        />
       </div>
 
       {/* Status Tabs */}
       <div className="flex gap-2 mb-6 overflow-x-auto pb-2">
-        {(Object.keys(statusConfig) as BookingStatus[]).map((status) => {
+        {(Object.keys(statusConfig) as StatusFilter[]).map((status) => {
           const config = getStatusConfig(status)
-          const count = status === 'all' ? bookings.length : bookings.filter(b => b.status === status).length
           const Icon = config.icon
           const isActive = activeStatus === status
 
@@ -223,7 +549,7 @@ const Bookings: React.FC = () => {
             <Button
               key={status}
               variant={isActive ? 'default' : 'outline'}
-              onClick={() => setActiveStatus(status)}
+              onClick={() => updateFilters({ status })}
               className={`flex items-center gap-2 whitespace-nowrap transition-all ${
                 isActive
                   ? 'bg-neutral-900 text-white hover:bg-neutral-800 shadow-md'
@@ -232,25 +558,132 @@ const Bookings: React.FC = () => {
             >
               <Icon className="w-4 h-4" />
               {config.label}
-              <Badge variant="secondary" className={`${isActive ? 'bg-white/20 text-white' : 'bg-neutral-100'}`}>
-                {count}
-              </Badge>
+              {isActive && (
+                <Badge variant="secondary" className="bg-white/20 text-white">
+                  {total}
+                </Badge>
+              )}
             </Button>
           )
         })}
       </div>
 
+      {/* Filters */}
+      <div className="flex flex-wrap items-end gap-3 mb-6">
+        <div className="space-y-1">
+          <Label className="text-xs text-neutral-500">Resource</Label>
+          <Select
+            value={filters.resource ? String(filters.resource) : 'all'}
+            onValueChange={(v) => updateFilters({ resource: v === 'all' ? null : Number(v) })}
+          >
+            <SelectTrigger className="w-52 border-neutral-200"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All resources</SelectItem>
+              {resources.map(r => (
+                <SelectItem key={r.id} value={String(r.id)}>{r.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-neutral-500">Employee</Label>
+          <Select
+            value={filters.employee ? String(filters.employee) : 'all'}
+            onValueChange={(v) => updateFilters({ employee: v === 'all' ? null : Number(v) })}
+          >
+            <SelectTrigger className="w-52 border-neutral-200"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All employees</SelectItem>
+              {usersData?.users.map(u => (
+                <SelectItem key={u.id} value={String(u.id)}>{u.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-from" className="text-xs text-neutral-500">From</Label>
+          <Input
+            id="filter-from"
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => updateFilters({ from: e.target.value })}
+            className="w-40 border-neutral-200"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-to" className="text-xs text-neutral-500">To</Label>
+          <Input
+            id="filter-to"
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => updateFilters({ to: e.target.value })}
+            className="w-40 border-neutral-200"
+          />
+        </div>
+        <Button variant="outline" onClick={showThisWeek} className="border-neutral-200 text-neutral-600">
+          This week
+        </Button>
+        <Button
+          variant={filters.changes ? 'default' : 'outline'}
+          onClick={() => updateFilters({ changes: !filters.changes })}
+          className={filters.changes ? 'bg-neutral-900 text-white hover:bg-neutral-800' : 'border-neutral-200 text-neutral-600'}
+        >
+          <CalendarClock className="w-4 h-4 mr-2" />
+          Change requests
+        </Button>
+        {hasFilters && (
+          <Button
+            variant="ghost"
+            onClick={() => updateFilters({ resource: null, employee: null, changes: false, from: '', to: '' })}
+            className="text-neutral-500"
+          >
+            Clear filters
+          </Button>
+        )}
+      </div>
+
+      {/* Bulk Actions */}
+      {selectedCount > 0 && (
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4 px-4 py-3 bg-neutral-900 text-white rounded-xl">
+          <div className="text-sm">
+            <span className="font-semibold">{selectedCount}</span> pending booking{selectedCount === 1 ? '' : 's'} selected
+            {!selectAllMatching && activeStatus === 'pending' && allPageSelected && total > selected.size && (
+              <button
+                type="button"
+                onClick={() => setSelectAllMatching(true)}
+                className="ml-3 underline underline-offset-2 text-neutral-300 hover:text-white"
+              >
+                Select all {total} matching
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button size="sm" onClick={() => openBulkDialog('approved')} className="bg-emerald-600 hover:bg-emerald-700 text-white">
+              <CheckCircle className="w-4 h-4 mr-1" /> Approve
+            </Button>
+            <Button size="sm" onClick={() => openBulkDialog('rejected')} className="bg-red-600 hover:bg-red-700 text-white">
+              <XCircle className="w-4 h-4 mr-1" /> Reject
+            </Button>
+            <Button size="sm" variant="ghost" onClick={clearSelection} className="text-neutral-300 hover:text-white hover:bg-neutral-800">
+              Clear
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Bookings Table */}
       <Card className="shadow-sm border-neutral-200 rounded-2xl overflow-hidden">
         <CardHeader className="bg-neutral-50 border-b border-neutral-100">
           <CardTitle className="text-lg text-neutral-900">
-            {filteredBookings.length} {getStatusConfig(activeStatus).label}
+            {total} {getStatusConfig(activeStatus).label}
           </CardTitle>
         </CardHeader>
         <CardContent className="p-0">
           {loading ? (
-            <div className="p-6"><TableSkeleton rows={5} columns={6} /></div>
-          ) : filteredBookings.length === 0 ? (
+            <div className="p-6"><TableSkeleton rows={5} columns={7} /></div>
+          ) : bookings.length === 0 ? (
             <div className="text-center py-16">
               <div className="w-20 h-20 bg-neutral-100 rounded-full flex items-center justify-center mx-auto mb-4">
                 <Calendar className="w-10 h-10 text-neutral-400" />
@@ -268,16 +701,24 @@ const Bookings: React.FC = () => {
             <Table>
               <TableHeader>
                 <TableRow className="bg-neutral-50/50">
-                  <TableHead className="text-neutral-600 font-semibold">Resource</TableHead>
-                  <TableHead className="text-neutral-600 font-semibold">Employee</TableHead>
-                  <TableHead className="text-neutral-600 font-semibold">Date & Time</TableHead>
-                  <TableHead className="text-neutral-600 font-semibold">Status</TableHead>
-                  <TableHead className="text-neutral-600 font-semibold">Created</TableHead>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      aria-label="Select all pending bookings on this page"
+                      checked={allPageSelected ? true : somePageSelected ? 'indeterminate' : false}
+                      onCheckedChange={(checked) => togglePage(checked === true)}
+                      disabled={pendingOnPage.length === 0}
+                    />
+                  </TableHead>
+                  <SortableHead field="resource_name" label="Resource" filters={filters} onSort={handleSort} />
+                  <SortableHead field="employee_name" label="Employee" filters={filters} onSort={handleSort} />
+                  <SortableHead field="start_time" label="Date & Time" filters={filters} onSort={handleSort} />
+                  <SortableHead field="status" label="Status" filters={filters} onSort={handleSort} />
+                  <SortableHead field="created_at" label="Created" filters={filters} onSort={handleSort} />
                   <TableHead className="text-right text-neutral-600 font-semibold">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredBookings.map((booking) => {
+                {bookings.map((booking) => {
                   const display = getBookingDisplay(booking)
                   const style = getStatusConfig(booking.status)
 
@@ -287,6 +728,15 @@ const Bookings: React.FC = () => {
                       className="cursor-pointer hover:bg-neutral-50 transition-colors"
                       onClick={() => handleRowClick(booking)}
                     >
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        {booking.status === 'pending' && (
+                          <Checkbox
+                            aria-label={`Select booking for ${display.resourceName}`}
+                            checked={selectAllMatching || selected.has(booking.id)}
+                            onCheckedChange={(checked) => toggleRow(booking, checked === true)}
+                          />
+                        )}
+                      </TableCell>
                       <TableCell>
                         <div className="flex items-start gap-3">
                           <div className="w-10 h-10 bg-neutral-100 border border-neutral-200 rounded-xl flex items-center justify-center flex-shrink-0">
@@ -294,6 +744,14 @@ const Bookings: React.FC = () => {
                           </div>
                           <div>
                             <p className="font-medium text-neutral-900">{display.resourceName}</p>
+                            {booking.title && (
+                              <p className="text-sm text-neutral-700">
+                                {booking.title}
+                                {booking.attendees.length > 0 && (
+                                  <span className="text-neutral-400"> · {booking.attendees.length + 1} people</span>
+                                )}
+                              </p>
+                            )}
                             {display.resourceLocation && (
                               <p className="text-sm text-neutral-500">{display.resourceLocation}</p>
                             )}
@@ -316,19 +774,27 @@ const Bookings: React.FC = () => {
                           <div className="flex items-center gap-1 text-sm">
                             <Calendar className="w-3 h-3 text-neutral-400" />
                             <span className="font-medium text-neutral-900">
-                              {dayjs(booking.start_time).format('MMM D, YYYY')}
+                              {formatBookingDates(booking)}
                             </span>
+                            {booking.series_id != null && (
+                              <Repeat className="w-3 h-3 text-neutral-400" aria-label="Recurring" />
+                            )}
                           </div>
                           <div className="flex items-center gap-1 text-sm text-neutral-500">
                             <Clock className="w-3 h-3 text-neutral-400" />
-                            {dayjs(booking.start_time).format('h:mm A')} – {dayjs(booking.end_time).format('h:mm A')}
+                            {formatBookingTimes(booking)}
                           </div>
                         </div>
                       </TableCell>
                       <TableCell>
-                        <Badge className={`${style.color} border`}>
-                          {booking.status.replace(/_/g, ' ')}
-                        </Badge>
+                        <div className="flex flex-wrap items-center gap-1">
+                          <Badge className={`${style.color} border`}>
+                            {booking.status.replace(/_/g, ' ')}
+                          </Badge>
+                          {pendingChange(booking) && (
+                            <Badge className="bg-amber-50 text-amber-700 border-amber-200 border">change requested</Badge>
+                          )}
+                        </div>
                       </TableCell>
                       <TableCell className="text-sm text-neutral-500">
                         {dayjs(booking.created_at).format('MMM D, h:mm A')}
@@ -339,7 +805,7 @@ const Bookings: React.FC = () => {
                             <>
                               <Button
                                 size="sm"
-                                onClick={(e) => { e.stopPropagation(); setSelectedBooking(booking); setOpenApprove(true) }}
+                                onClick={(e) => { e.stopPropagation(); openApproveDialog(booking) }}
                                 className="bg-emerald-600 hover:bg-emerald-700 text-white"
                               >
                                 <CheckCircle className="w-4 h-4 mr-1" /> Approve
@@ -347,13 +813,33 @@ const Bookings: React.FC = () => {
                               <Button
                                 size="sm"
                                 variant="outline"
-                                onClick={(e) => { e.stopPropagation(); setSelectedBooking(booking); setOpenReject(true) }}
+                                onClick={(e) => { e.stopPropagation(); openRejectDialog(booking) }}
                                 className="border-red-200 text-red-600 hover:bg-red-50"
                               >
                                 <XCircle className="w-4 h-4 mr-1" /> Reject
                               </Button>
                             </>
                           )}
+                          {isLoan(booking) && booking.status === 'approved' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={(e) => { e.stopPropagation(); setHandoverBooking(booking) }}
+                              className="border-neutral-200 text-neutral-700"
+                            >
+                              <PackageOpen className="w-4 h-4 mr-1" /> Hand Over
+                            </Button>
+                          )}
+                          {isLoan(booking) && booking.status === 'checked_in' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={(e) => { e.stopPropagation(); setHandoverBooking(booking) }}
+                              className="border-neutral-200 text-neutral-700"
+                            >
+                              <PackageCheck className="w-4 h-4 mr-1" /> Record Return
+                            </Button>
+                          )}
                           <Button
                             size="sm"
                             variant="ghost"
@@ -370,11 +856,39 @@ const Bookings: React.FC = () => {
               </TableBody>
             </Table>
           )}
+          {total > 0 && (
+            <div className="flex items-center justify-between px-6 py-4 border-t border-neutral-100">
+              <p className="text-sm text-neutral-500">
+                Showing {firstRow}–{lastRow} of {total}
+              </p>
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={filters.page === 1 || isFetching}
+                  onClick={() => updateFilters({ page: filters.page - 1 })}
+                  className="border-neutral-200"
+                >
+                  <ChevronLeft className="w-4 h-4 mr-1" /> Previous
+                </Button>
+                <span className="text-sm text-neutral-600">Page {filters.page}</span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!data?.has_more || isFetching}
+                  onClick={() => updateFilters({ page: filters.page + 1 })}
+                  className="border-neutral-200"
+                >
+                  Next <ChevronRight className="w-4 h-4 ml-1" />
+                </Button>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
       {/* View Details Dialog */}
-      <Dialog open={openView} onOpenChange={setOpenView}>
+      <Dialog open={openView} onOpenChange={(open) => { setOpenView(open); if (!open) clearLinkedBooking() }}>
         <DialogContent className="max-w-2xl bg-white border border-neutral-200 shadow-2xl rounded-2xl">
           <DialogHeader>
             <DialogTitle className="text-2xl font-semibold text-neutral-900">
@@ -403,24 +917,45 @@ const Bookings: React.FC = () => {
                   </div>
                 </div>
 
+                <BookingPurpose booking={selectedBooking} />
+
                 <div className="bg-neutral-50 rounded-xl p-4 space-y-2 border border-neutral-100">
                   <p className="text-xs font-semibold text-neutral-400 uppercase tracking-wider mb-2">Schedule</p>
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm text-neutral-600">Date</span>
-                    <span className="font-medium text-neutral-900">{dayjs(selectedBooking.start_time).format('MMMM D, YYYY')}</span>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm text-neutral-600">Time</span>
-                    <span className="font-medium text-neutral-900">
-                      {dayjs(selectedBooking.start_time).format('h:mm A')} – {dayjs(selectedBooking.end_time).format('h:mm A')}
-                    </span>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm text-neutral-600">Duration</span>
-                    <span className="font-medium text-neutral-900">
-                      {dayjs(selectedBooking.end_time).diff(dayjs(selectedBooking.start_time), 'minute')} min
-                    </span>
-                  </div>
+                  {isMultiDay(selectedBooking) ? (
+                    <>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-neutral-600">Checkout</span>
+                        <span className="font-medium text-neutral-900">{dayjs(selectedBooking.start_time).format('MMMM D, YYYY')}</span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-neutral-600">Return</span>
+                        <span className="font-medium text-neutral-900">{dayjs(selectedBooking.end_time).format('MMMM D, YYYY')}</span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-neutral-600">Length</span>
+                        <span className="font-medium text-neutral-900">{loanDays(selectedBooking)} days</span>
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-neutral-600">Date</span>
+                        <span className="font-medium text-neutral-900">{dayjs(selectedBooking.start_time).format('MMMM D, YYYY')}</span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-neutral-600">Time</span>
+                        <span className="font-medium text-neutral-900">
+                          {dayjs(selectedBooking.start_time).format('h:mm A')} – {dayjs(selectedBooking.end_time).format('h:mm A')}
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-neutral-600">Duration</span>
+                        <span className="font-medium text-neutral-900">
+                          {dayjs(selectedBooking.end_time).diff(dayjs(selectedBooking.start_time), 'minute')} min
+                        </span>
+                      </div>
+                    </>
+                  )}
                 </div>
 
                 <div className="flex items-center gap-3">
@@ -430,11 +965,34 @@ const Bookings: React.FC = () => {
                   </Badge>
                   {selectedBooking.checked_in_at && (
                     <span className="text-sm text-neutral-500">
-                      Checked in at {dayjs(selectedBooking.checked_in_at).format('h:mm A')}
+                      {isLoan(selectedBooking)
+                        ? `Handed over ${dayjs(selectedBooking.checked_in_at).format('MMM D, h:mm A')}`
+                        : `Checked in at ${dayjs(selectedBooking.checked_in_at).format('h:mm A')}`}
                     </span>
                   )}
                 </div>
 
+                {selectedBooking.returned_at && (
+                  <div className="bg-neutral-50 rounded-xl p-4 border border-neutral-100">
+                    <p className="text-sm font-medium text-neutral-900 mb-1">
+                      Returned {dayjs(selectedBooking.returned_at).format('MMM D, h:mm A')}
+                      {selectedBooking.return_condition && ` · ${returnConditionLabels[selectedBooking.return_condition]}`}
+                    </p>
+                    {selectedBooking.return_note && (
+                      <p className="text-sm text-neutral-600">{selectedBooking.return_note}</p>
+                    )}
+                    {selectedBooking.return_photo_urls.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-2">
+                        {selectedBooking.return_photo_urls.map(url => (
+                          <a key={url} href={url} target="_blank" rel="noreferrer">
+                            <img src={url} alt="Return condition" className="w-16 h-16 object-cover rounded-md border border-neutral-200" />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {selectedBooking.admin_note && (
                   <div className="bg-amber-50 border border-amber-200 rounded-xl p-4">
                     <p className="text-sm font-medium text-amber-900 mb-1">Admin Note</p>
@@ -442,18 +1000,67 @@ const Bookings: React.FC = () => {
                   </div>
                 )}
 
+                {(() => {
+                  const change = pendingChange(selectedBooking)
+                  return change && (
+                    <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 space-y-3">
+                      <div>
+                        <p className="text-sm font-medium text-amber-900 flex items-center gap-2">
+                          <CalendarClock className="w-4 h-4" /> Change requested {dayjs(change.created_at).format('MMM D, h:mm A')}
+                        </p>
+                        <p className="text-sm text-amber-800 mt-1">
+                          {formatChangeSlot(change.previous_start_time, change.previous_end_time)} → {' '}
+                          <span className="font-semibold">{formatChangeSlot(change.start_time, change.end_time)}</span>
+                          {movesResource(change) && change.resource_name && ` in ${change.resource_name}`}
+                        </p>
+                        {change.reason && <p className="text-sm text-amber-800 mt-1">“{change.reason}”</p>}
+                      </div>
+                      <Textarea
+                        aria-label="Note for the employee"
+                        placeholder="Note for the employee (optional)"
+                        rows={2}
+                        maxLength={500}
+                        value={changeNote}
+                        onChange={(e) => setChangeNote(e.target.value)}
+                        className="bg-white border-amber-200"
+                      />
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          disabled={reviewChange.isPending}
+                          onClick={() => handleReviewChange(selectedBooking, 'approved')}
+                          className="bg-emerald-600 hover:bg-emerald-700 text-white"
+                        >
+                          <CheckCircle className="w-4 h-4 mr-1" /> Approve Change
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={reviewChange.isPending}
+                          onClick={() => handleReviewChange(selectedBooking, 'rejected')}
+                          className="bg-white border-red-200 text-red-600 hover:bg-red-50"
+                        >
+                          <XCircle className="w-4 h-4 mr-1" /> Decline
+                        </Button>
+                      </div>
+                    </div>
+                  )
+                })()}
+
+                <BookingChangeHistory changes={selectedBooking.change_requests} />
+
                 <div className="flex gap-3 pt-2">
                   {selectedBooking.status === 'pending' && (
                     <>
                       <Button
-                        onClick={() => { setOpenView(false); setOpenApprove(true) }}
+                        onClick={() => { setOpenView(false); openApproveDialog(selectedBooking) }}
                         className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white"
                       >
                         <CheckCircle className="w-4 h-4 mr-2" /> Approve
                       </Button>
                       <Button
                         variant="outline"
-                        onClick={() => { setOpenView(false); setOpenReject(true) }}
+                        onClick={() => { setOpenView(false); openRejectDialog(selectedBooking) }}
                         className="flex-1 border-red-200 text-red-600 hover:bg-red-50"
                       >
                         <XCircle className="w-4 h-4 mr-2" /> Reject
@@ -472,11 +1079,86 @@ const Bookings: React.FC = () => {
 
       {/* Approve Dialog */}
       <Dialog open={openApprove} onOpenChange={setOpenApprove}>
-        <DialogContent className="bg-white border border-neutral-200 shadow-2xl rounded-2xl">
+        <DialogContent className="max-w-2xl bg-white border border-neutral-200 shadow-2xl rounded-2xl">
           <DialogHeader>
             <DialogTitle className="text-xl text-emerald-700">Approve Booking</DialogTitle>
-            <DialogDescription className="text-neutral-500">Add an optional note for the employee</DialogDescription>
+            <DialogDescription className="text-neutral-500">
+              {selectedBooking
+                ? `${selectedBooking.resource_name} for ${selectedBooking.employee_name}, ${dayjs(selectedBooking.start_time).format('h:mm A')} – ${dayjs(selectedBooking.end_time).format('h:mm A')}`
+                : 'Add an optional note for the employee'}
+            </DialogDescription>
           </DialogHeader>
+          {selectedBooking && (
+            <div className="space-y-3 mt-2">
+              <BookingPurpose booking={selectedBooking} />
+              {loadingDay ? (
+                <div className="h-24 bg-neutral-50 rounded-lg animate-pulse" />
+              ) : (
+                <BookingTimeline
+                  candidate={selectedBooking}
+                  bookings={sameDayBookings}
+                  conflictIds={new Set(conflicts.map(b => b.id))}
+                />
+              )}
+              {conflicts.length > 0 && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg space-y-2">
+                  <p className="text-sm font-semibold text-red-800 flex items-center gap-2">
+                    <XCircle className="w-4 h-4" />
+                    Overlaps {conflicts.length} other booking{conflicts.length === 1 ? '' : 's'}
+                  </p>
+                  <ul className="space-y-1">
+                    {conflicts.map(b => (
+                      <li key={b.id} className="text-xs text-red-700">
+                        {b.employee_name} · {dayjs(b.start_time).format('h:mm A')} – {dayjs(b.end_time).format('h:mm A')} · {getStatusConfig(b.status).label}
+                      </li>
+                    ))}
+                  </ul>
+                  {overlappingPending.length > 0 && (
+                    <label className="flex items-center gap-2 pt-1 text-sm text-red-800 cursor-pointer">
+                      <Checkbox
+                        checked={rejectOverlapping}
+                        onCheckedChange={(checked) => setRejectOverlapping(checked === true)}
+                      />
+                      Also reject the {overlappingPending.length} overlapping pending request{overlappingPending.length === 1 ? '' : 's'}
+                    </label>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          {seriesPending.length > 1 && (
+            <label className="flex items-center gap-2 p-3 bg-neutral-50 border border-neutral-200 rounded-lg text-sm text-neutral-700 cursor-pointer">
+              <Checkbox
+                checked={applyToSeries}
+                onCheckedChange={(checked) => setApplyToSeries(checked === true)}
+              />
+              <Repeat className="w-4 h-4 text-neutral-500" />
+              Apply to all {seriesPending.length} pending dates in this recurring booking
+            </label>
+          )}
+          {checkingPolicy && (
+            <p className="text-xs text-neutral-500">Checking the booking policy...</p>
+          )}
+          {policyProblems.length > 0 && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-2">
+              <p className="text-sm font-semibold text-amber-900 flex items-center gap-2">
+                <ShieldAlert className="w-4 h-4" />
+                Breaks the {approvalPolicy?.source === 'resource' ? "resource's" : "resource type's"} booking policy
+              </p>
+              <ul className="space-y-1">
+                {policyProblems.map(problem => (
+                  <li key={problem} className="text-xs text-amber-800">{problem}</li>
+                ))}
+              </ul>
+              <label className="flex items-center gap-2 pt-1 text-sm text-amber-900 cursor-pointer">
+                <Checkbox
+                  checked={overridePolicy}
+                  onCheckedChange={(checked) => setOverridePolicy(checked === true)}
+                />
+                Approve as an exception
+              </label>
+            </div>
+          )}
           <form onSubmit={handleSubmit(handleApprove)} className="space-y-4 mt-4">
             <div className="space-y-2">
               <Label htmlFor="admin_note" className="text-neutral-700">Admin Note (Optional)</Label>
@@ -494,7 +1176,11 @@ const Bookings: React.FC = () => {
               <Button type="button" variant="outline" onClick={() => { setOpenApprove(false); reset() }} disabled={isSubmitting || isProcessing} className="flex-1 border-neutral-200">
                 Cancel
               </Button>
-              <Button type="submit" disabled={isSubmitting || isProcessing} className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white">
+              <Button
+                type="submit"
+                disabled={isSubmitting || isProcessing || checkingPolicy || (policyProblems.length > 0 && !overridePolicy)}
+                className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white"
+              >
                 {isSubmitting || isProcessing ? (
                   <><span className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />Approving...</>
                 ) : (
@@ -513,6 +1199,16 @@ const Bookings: React.FC = () => {
             <DialogTitle className="text-xl text-red-700">Reject Booking</DialogTitle>
             <DialogDescription className="text-neutral-500">Please provide a reason for rejection</DialogDescription>
           </DialogHeader>
+          {seriesPending.length > 1 && (
+            <label className="flex items-center gap-2 p-3 bg-neutral-50 border border-neutral-200 rounded-lg text-sm text-neutral-700 cursor-pointer">
+              <Checkbox
+                checked={applyToSeries}
+                onCheckedChange={(checked) => setApplyToSeries(checked === true)}
+              />
+              <Repeat className="w-4 h-4 text-neutral-500" />
+              Apply to all {seriesPending.length} pending dates in this recurring booking
+            </label>
+          )}
           <form onSubmit={handleSubmit(handleReject)} className="space-y-4 mt-4">
             <div className="space-y-2">
               <Label htmlFor="admin_note_reject" className="text-neutral-700">Reason for Rejection *</Label>
@@ -542,6 +1238,8 @@ const Bookings: React.FC = () => {
         </DialogContent>
       </Dialog>
 
+      <EquipmentHandoverDialog booking={handoverBooking} onClose={() => setHandoverBooking(null)} />
+
       {/* Delete Confirmation */}
       <Dialog open={openDelete} onOpenChange={setOpenDelete}>
         <DialogContent className="bg-white border border-neutral-200 shadow-2xl rounded-2xl">
@@ -565,6 +1263,89 @@ const Bookings: React.FC = () => {
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Bulk Review Dialog */}
+      <Dialog open={bulkAction !== null} onOpenChange={(open) => !open && setBulkAction(null)}>
+        <DialogContent className="bg-white border border-neutral-200 shadow-2xl rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className={`text-xl ${bulkAction === 'approved' ? 'text-emerald-700' : 'text-red-700'}`}>
+              {bulkAction === 'approved' ? 'Approve' : 'Reject'} {selectedCount} Booking{selectedCount === 1 ? '' : 's'}
+            </DialogTitle>
+            <DialogDescription className="text-neutral-500">
+              The same note is sent to every employee in this batch
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={bulkForm.handleSubmit(handleBulkReview)} className="space-y-4 mt-4">
+            <div className="space-y-2">
+              <Label htmlFor="bulk_admin_note" className="text-neutral-700">Admin Note (Optional)</Label>
+              <Textarea
+                id="bulk_admin_note"
+                placeholder={bulkAction === 'approved' ? 'e.g., Approved. Please arrive 5 minutes early.' : 'e.g., Resource unavailable due to maintenance'}
+                {...bulkForm.register('admin_note')}
+                disabled={bulkReview.isPending}
+                rows={4}
+                className="border-neutral-200 focus:ring-neutral-400"
+              />
+              {bulkForm.formState.errors.admin_note && (
+                <p className="text-sm text-red-600">{bulkForm.formState.errors.admin_note.message}</p>
+              )}
+            </div>
+            <div className="flex gap-3">
+              <Button type="button" variant="outline" onClick={() => setBulkAction(null)} disabled={bulkReview.isPending} className="flex-1 border-neutral-200">
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={bulkForm.formState.isSubmitting}
+                className={`flex-1 text-white ${bulkAction === 'approved' ? 'bg-emerald-600 hover:bg-emerald-700' : 'bg-red-600 hover:bg-red-700'}`}
+              >
+                {bulkForm.formState.isSubmitting ? (
+                  <><span className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />Processing...</>
+                ) : (
+                  <>{bulkAction === 'approved' ? <CheckCircle className="w-4 h-4 mr-2" /> : <XCircle className="w-4 h-4 mr-2" />}
+                    {bulkAction === 'approved' ? 'Approve' : 'Reject'} All</>
+                )}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Bulk Result Report */}
+      <Dialog open={bulkReport !== null} onOpenChange={(open) => !open && setBulkReport(null)}>
+        <DialogContent className="max-w-2xl bg-white border border-neutral-200 shadow-2xl rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-xl text-neutral-900">Bulk Review Results</DialogTitle>
+            <DialogDescription className="text-neutral-500">
+              {bulkReport?.filter(r => r.ok).length ?? 0} succeeded, {bulkReport?.filter(r => !r.ok).length ?? 0} failed.
+              {bulkReport?.some(r => !r.ok) && ' Failed bookings are still selected.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-96 overflow-y-auto divide-y divide-neutral-100 border border-neutral-200 rounded-xl">
+            {bulkReport?.map(({ booking, ok, error }) => (
+              <div key={booking.id} className="flex items-start gap-3 px-4 py-3">
+                {ok
+                  ? <CheckCircle className="w-4 h-4 mt-0.5 text-emerald-600 flex-shrink-0" />
+                  : <XCircle className="w-4 h-4 mt-0.5 text-red-600 flex-shrink-0" />}
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-neutral-900">
+                    {booking.resource_name} · {booking.employee_name}
+                  </p>
+                  <p className="text-xs text-neutral-500">
+                    {dayjs(booking.start_time).format('MMM D, YYYY h:mm A')} – {dayjs(booking.end_time).format('h:mm A')}
+                  </p>
+                  {!ok && <p className="text-xs text-red-600 mt-1">{error}</p>}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end mt-4">
+            <Button onClick={() => setBulkReport(null)} className="bg-neutral-900 hover:bg-neutral-800 text-white">
+              Done
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
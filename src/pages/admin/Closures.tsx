@@ -0,0 +1,594 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { Controller, useForm, useWatch } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Closure } from '../../lib/schemas'
+import { errorMessage } from '../../lib/apiError'
+import { closureSchema, ClosureFormValues, ClosureScope, ResourceType } from '../../utils/validators'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from '@/components/ui/table'
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { CalendarOff, Plus, Upload, Pencil, Trash2, CheckCircle, XCircle } from 'lucide-react'
+import { toast } from 'sonner'
+import { Breadcrumbs } from '../../components/Breadcrumbs'
+import { TableSkeleton } from '../../components/TableSkeleton'
+import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts'
+import {
+  ImportResult, useClosures, useCreateClosure, useDeleteClosure, useImportClosures,
+  useUpdateClosure, useUpdateWeekdayRule, useWeekdayRules,
+} from '../../hooks/useClosures'
+import { useResourceInventory } from '../../hooks/useResources'
+import { useResourceTypeDefinitions } from '../../hooks/useResourceTypes'
+import {
+  closedWeekdaysFor, ImportedClosure, parseClosuresCsv, parseClosuresIcs, weekdayNames,
+} from '../../utils/closures'
+import dayjs from 'dayjs'
+
+const scopeLabels: Record<ClosureScope, string> = {
+  company: 'Company holiday',
+  location: 'Location closure',
+  resource: 'Resource blackout',
+}
+
+const scopeColors: Record<ClosureScope, string> = {
+  company: 'bg-violet-50 text-violet-700 border-violet-200',
+  location: 'bg-amber-50 text-amber-700 border-amber-200',
+  resource: 'bg-blue-50 text-blue-700 border-blue-200',
+}
+
+const emptyClosure: ClosureFormValues = {
+  name: '',
+  scope: 'company',
+  start_date: dayjs().format('YYYY-MM-DD'),
+  end_date: dayjs().format('YYYY-MM-DD'),
+}
+
+function formatDates(c: Pick<Closure, 'start_date' | 'end_date'>) {
+  const start = dayjs(c.start_date)
+  if (c.start_date === c.end_date) return start.format('ddd, MMM D, YYYY')
+  return `${start.format('MMM D')} – ${dayjs(c.end_date).format('MMM D, YYYY')}`
+}
+
+const Closures: React.FC = () => {
+  const { types: resourceTypes } = useResourceTypeDefinitions()
+  const [showPast, setShowPast] = useState(false)
+  const [scopeFilter, setScopeFilter] = useState<ClosureScope | 'all'>('all')
+  const [formOpen, setFormOpen] = useState(false)
+  const [editing, setEditing] = useState<Closure | null>(null)
+  const [allDay, setAllDay] = useState(true)
+  const [toDelete, setToDelete] = useState<Closure | null>(null)
+  const [imported, setImported] = useState<{ fileName: string; rows: ImportedClosure[] } | null>(null)
+  const [importReport, setImportReport] = useState<ImportResult[] | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const { data, isLoading, isError } = useClosures({
+    start_date: showPast ? undefined : dayjs().format('YYYY-MM-DD'),
+    limit: 500,
+  })
+  const { data: weekdayRules = [] } = useWeekdayRules()
+  const { data: resources = [] } = useResourceInventory()
+  const createClosure = useCreateClosure()
+  const updateClosure = useUpdateClosure()
+  const deleteClosure = useDeleteClosure()
+  const importClosures = useImportClosures()
+  const updateWeekdayRule = useUpdateWeekdayRule()
+
+  const locations = useMemo(
+    () => [...new Set(resources.map(r => r.location).filter(Boolean))].sort(),
+    [resources]
+  )
+
+  const closures = useMemo(() => [...(data?.closures ?? [])]
+    .filter(c => scopeFilter === 'all' || c.scope === scopeFilter)
+    .sort((a, b) => a.start_date.localeCompare(b.start_date)), [data, scopeFilter])
+
+  const { register, handleSubmit, reset, control, setValue, formState: { errors, isSubmitting } } = useForm<ClosureFormValues>({
+    resolver: zodResolver(closureSchema),
+    defaultValues: emptyClosure,
+  })
+  const scope = useWatch({ control, name: 'scope' })
+
+  useKeyboardShortcuts([
+    {
+      key: 'Escape',
+      callback: () => {
+        if (formOpen) setFormOpen(false)
+        if (toDelete) setToDelete(null)
+        if (imported) setImported(null)
+      }
+    }
+  ])
+
+  useEffect(() => {
+    if (isError) toast.error('Failed to load closures')
+  }, [isError])
+
+  function openCreate() {
+    setEditing(null)
+    setAllDay(true)
+    reset(emptyClosure)
+    setFormOpen(true)
+  }
+
+  function openEdit(closure: Closure) {
+    setEditing(closure)
+    setAllDay(!closure.start_time)
+    reset({
+      name: closure.name,
+      scope: closure.scope,
+      location: closure.location ?? undefined,
+      resource_id: closure.resource_id ?? undefined,
+      start_date: closure.start_date,
+      end_date: closure.end_date,
+      start_time: closure.start_time ?? undefined,
+      end_time: closure.end_time ?? undefined,
+    })
+    setFormOpen(true)
+  }
+
+  function toggleAllDay(checked: boolean) {
+    setAllDay(checked)
+    setValue('start_time', checked ? undefined : '09:00')
+    setValue('end_time', checked ? undefined : '18:00')
+  }
+
+  async function onSubmit(values: ClosureFormValues) {
+    // Only keep the target that matches the scope
+    const payload: ClosureFormValues = {
+      ...values,
+      location: values.scope === 'location' ? values.location : undefined,
+      resource_id: values.scope === 'resource' ? values.resource_id : undefined,
+    }
+    try {
+      if (editing) {
+        await updateClosure.mutateAsync({ id: editing.id, values: payload })
+        toast.success('Closure updated')
+      } else {
+        await createClosure.mutateAsync(payload)
+        toast.success('Closure added')
+      }
+      setFormOpen(false)
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to save closure'))
+    }
+  }
+
+  async function handleDelete(closure: Closure) {
+    setToDelete(null)
+    try {
+      await deleteClosure.mutateAsync(closure.id)
+      toast.success('Closure removed')
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to remove closure'))
+    }
+  }
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const text = await file.text()
+    const isIcs = file.name.toLowerCase().endsWith('.ics') || text.includes('BEGIN:VCALENDAR')
+    const rows = isIcs ? parseClosuresIcs(text) : parseClosuresCsv(text)
+    if (rows.length === 0) {
+      toast.error('No closures found in that file')
+      return
+    }
+    setImported({ fileName: file.name, rows })
+  }
+
+  async function handleImport() {
+    if (!imported) return
+    const valid = imported.rows.flatMap(r => r.values ? [r.values] : [])
+    setImported(null)
+    try {
+      const results = await importClosures.mutateAsync(valid)
+      if (results.every(r => r.ok)) toast.success(`Imported ${results.length} closure${results.length === 1 ? '' : 's'}`)
+      else setImportReport(results)
+    } catch (err) {
+      toast.error(errorMessage(err, 'Import failed'))
+    }
+  }
+
+  function toggleWeekday(type: ResourceType, day: number, closed: boolean) {
+    const current = closedWeekdaysFor(weekdayRules, type)
+    const closed_weekdays = closed
+      ? [...current, day].sort((a, b) => a - b)
+      : current.filter(d => d !== day)
+    updateWeekdayRule.mutate({ type, closed_weekdays }, {
+      onError: (err) => toast.error(err.message || 'Failed to update weekday rule'),
+    })
+  }
+
+  const describeTarget = (c: Closure) => {
+    if (c.scope === 'location') return c.location
+    if (c.scope === 'resource') return c.resource_name ?? resources.find(r => r.id === c.resource_id)?.name ?? `Resource #${c.resource_id}`
+    return 'All resources'
+  }
+
+  const importValid = imported?.rows.filter(r => r.values).length ?? 0
+  const importInvalid = imported?.rows.filter(r => r.error) ?? []
+
+  return (
+    <div className="max-w-7xl">
+      <Breadcrumbs
+        items={[
+          { label: 'Admin Dashboard', href: '/dashboard/admin' },
+          { label: 'Holidays & Closures' }
+        ]}
+      />
+
+      <div className="flex items-start justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-4xl font-bold text-neutral-900 mb-2" style={{ fontFamily: "'Playfair Display', serif" }}>
+            Holidays & Closures
+          </h1>
+          <p className="text-neutral-500">Block dates company-wide, by location or for a single resource</p>
+        </div>
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.ics,text/csv,text/calendar"
+            className="hidden"
+            onChange={handleFile}
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importClosures.isPending}
+            className="border-neutral-200 text-neutral-700"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {importClosures.isPending ? 'Importing...' : 'Import CSV / iCal'}
+          </Button>
+          <Button onClick={openCreate} className="bg-neutral-900 hover:bg-neutral-800 text-white">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Closure
+          </Button>
+        </div>
+      </div>
+
+      {/* Weekday rules */}
+      <Card className="shadow-sm border-neutral-200 rounded-2xl overflow-hidden mb-6">
+        <CardHeader className="bg-neutral-50 border-b border-neutral-100">
+          <CardTitle className="text-neutral-900">Closed Weekdays</CardTitle>
+          <p className="text-sm text-neutral-500">Ticked days can't be booked for that resource type</p>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-neutral-50/50">
+                <TableHead className="text-neutral-600 font-semibold">Resource type</TableHead>
+                {weekdayNames.map(day => (
+                  <TableHead key={day} className="text-center text-neutral-600 font-semibold">{day.slice(0, 3)}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {resourceTypes.map(({ key: type, label }) => {
+                const closed = closedWeekdaysFor(weekdayRules, type)
+                return (
+                  <TableRow key={type}>
+                    <TableCell className="font-medium text-neutral-900">{label}</TableCell>
+                    {weekdayNames.map((day, i) => (
+                      <TableCell key={day} className="text-center">
+                        <Checkbox
+                          aria-label={`${label} closed on ${day}`}
+                          checked={closed.includes(i)}
+                          onCheckedChange={(checked) => toggleWeekday(type, i, checked === true)}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Closures */}
+      <Card className="shadow-sm border-neutral-200 rounded-2xl overflow-hidden">
+        <CardHeader className="bg-neutral-50 border-b border-neutral-100">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <CardTitle className="text-neutral-900">
+              {closures.length} {showPast ? '' : 'Upcoming '}Closure{closures.length === 1 ? '' : 's'}
+            </CardTitle>
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-2 text-sm text-neutral-600 cursor-pointer">
+                <Checkbox checked={showPast} onCheckedChange={(checked) => setShowPast(checked === true)} />
+                Include past
+              </label>
+              <Select value={scopeFilter} onValueChange={(v) => setScopeFilter(v as ClosureScope | 'all')}>
+                <SelectTrigger className="w-48 border-neutral-200 bg-white"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All closures</SelectItem>
+                  {(Object.keys(scopeLabels) as ClosureScope[]).map(s => (
+                    <SelectItem key={s} value={s}>{scopeLabels[s]}s</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-6"><TableSkeleton rows={5} columns={5} /></div>
+          ) : closures.length === 0 ? (
+            <div className="text-center py-16">
+              <CalendarOff className="w-16 h-16 text-neutral-300 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-neutral-900 mb-2">No closures</h3>
+              <p className="text-neutral-500">Add a holiday or import your company calendar</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-neutral-50/50">
+                  <TableHead className="text-neutral-600 font-semibold">Name</TableHead>
+                  <TableHead className="text-neutral-600 font-semibold">Applies to</TableHead>
+                  <TableHead className="text-neutral-600 font-semibold">Dates</TableHead>
+                  <TableHead className="text-neutral-600 font-semibold">Hours</TableHead>
+                  <TableHead className="text-right text-neutral-600 font-semibold">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {closures.map(closure => (
+                  <TableRow key={closure.id}>
+                    <TableCell>
+                      <p className="font-medium text-neutral-900">{closure.name}</p>
+                      <Badge className={`${scopeColors[closure.scope]} border mt-1`}>{scopeLabels[closure.scope]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-neutral-700">{describeTarget(closure)}</TableCell>
+                    <TableCell className="text-neutral-700">{formatDates(closure)}</TableCell>
+                    <TableCell className="text-neutral-700">
+                      {closure.start_time ? `${closure.start_time} – ${closure.end_time}` : 'All day'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button size="sm" variant="outline" onClick={() => openEdit(closure)} className="border-neutral-200">
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setToDelete(closure)}
+                          className="border-red-200 text-red-600 hover:bg-red-50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add / Edit Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="bg-white border border-neutral-200 shadow-2xl rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-2xl font-semibold text-neutral-900">
+              {editing ? 'Edit Closure' : 'Add Closure'}
+            </DialogTitle>
+            <DialogDescription className="text-neutral-500">
+              Existing bookings are kept; new ones can't be made while it applies
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 mt-2">
+            <div className="space-y-2">
+              <Label htmlFor="closure-name" className="text-neutral-700">Name</Label>
+              <Input id="closure-name" placeholder="e.g., Diwali, HVAC maintenance" {...register('name')} className="border-neutral-200" />
+              {errors.name && <p className="text-sm text-red-600">{errors.name.message}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-neutral-700">Applies to</Label>
+              <Controller
+                control={control}
+                name="scope"
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger className="border-neutral-200"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="company">Whole company</SelectItem>
+                      <SelectItem value="location">One location</SelectItem>
+                      <SelectItem value="resource">One resource</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+
+            {scope === 'location' && (
+              <div className="space-y-2">
+                <Label className="text-neutral-700">Location</Label>
+                <Controller
+                  control={control}
+                  name="location"
+                  render={({ field }) => (
+                    <Select value={field.value ?? ''} onValueChange={field.onChange}>
+                      <SelectTrigger className="border-neutral-200"><SelectValue placeholder="Select a location" /></SelectTrigger>
+                      <SelectContent>
+                        {locations.map(location => (
+                          <SelectItem key={location} value={location}>{location}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+                {errors.location && <p className="text-sm text-red-600">{errors.location.message}</p>}
+              </div>
+            )}
+
+            {scope === 'resource' && (
+              <div className="space-y-2">
+                <Label className="text-neutral-700">Resource</Label>
+                <Controller
+                  control={control}
+                  name="resource_id"
+                  render={({ field }) => (
+                    <Select value={field.value ? String(field.value) : ''} onValueChange={(v) => field.onChange(Number(v))}>
+                      <SelectTrigger className="border-neutral-200"><SelectValue placeholder="Select a resource" /></SelectTrigger>
+                      <SelectContent>
+                        {resources.map(r => (
+                          <SelectItem key={r.id} value={String(r.id)}>{r.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+                {errors.resource_id && <p className="text-sm text-red-600">{errors.resource_id.message}</p>}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="closure-start" className="text-neutral-700">From</Label>
+                <Input id="closure-start" type="date" {...register('start_date')} className="border-neutral-200" />
+                {errors.start_date && <p className="text-sm text-red-600">{errors.start_date.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="closure-end" className="text-neutral-700">To</Label>
+                <Input id="closure-end" type="date" {...register('end_date')} className="border-neutral-200" />
+                {errors.end_date && <p className="text-sm text-red-600">{errors.end_date.message}</p>}
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-neutral-700 cursor-pointer">
+              <Checkbox checked={allDay} onCheckedChange={(checked) => toggleAllDay(checked === true)} />
+              All day
+            </label>
+
+            {!allDay && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="closure-start-time" className="text-neutral-700">Daily from</Label>
+                  <Input id="closure-start-time" type="time" {...register('start_time')} className="border-neutral-200" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="closure-end-time" className="text-neutral-700">Until</Label>
+                  <Input id="closure-end-time" type="time" {...register('end_time')} className="border-neutral-200" />
+                  {errors.end_time && <p className="text-sm text-red-600">{errors.end_time.message}</p>}
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-3 pt-2">
+              <Button type="button" variant="outline" onClick={() => setFormOpen(false)} className="flex-1 border-neutral-200">
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting} className="flex-1 bg-neutral-900 hover:bg-neutral-800 text-white">
+                {isSubmitting ? 'Saving...' : editing ? 'Save Changes' : 'Add Closure'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Import Preview */}
+      <Dialog open={imported !== null} onOpenChange={(open) => !open && setImported(null)}>
+        <DialogContent className="max-w-2xl bg-white border border-neutral-200 shadow-2xl rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-2xl font-semibold text-neutral-900">Import Closures</DialogTitle>
+            <DialogDescription className="text-neutral-500">
+              {imported?.fileName}: {importValid} ready to import{importInvalid.length > 0 && `, ${importInvalid.length} skipped`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-80 overflow-y-auto divide-y divide-neutral-100 rounded-xl border border-neutral-200">
+            {imported?.rows.map(row => (
+              <div key={row.row} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                {row.values ? (
+                  <>
+                    <span className="text-neutral-800">
+                      {row.values.name}
+                      <span className="text-neutral-400"> · {formatDates(row.values)}</span>
+                    </span>
+                    <Badge className={`${scopeColors[row.values.scope]} border shrink-0`}>{scopeLabels[row.values.scope]}</Badge>
+                  </>
+                ) : (
+                  <span className="text-red-700">Row {row.row}: {row.error}</span>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-3 pt-2">
+            <Button variant="outline" onClick={() => setImported(null)} className="flex-1 border-neutral-200">Cancel</Button>
+            <Button
+              onClick={handleImport}
+              disabled={importValid === 0}
+              className="flex-1 bg-neutral-900 hover:bg-neutral-800 text-white"
+            >
+              Import {importValid} Closure{importValid === 1 ? '' : 's'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Import Report */}
+      <Dialog open={importReport !== null} onOpenChange={(open) => !open && setImportReport(null)}>
+        <DialogContent className="max-w-2xl bg-white border border-neutral-200 shadow-2xl rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-2xl font-semibold text-neutral-900">Import Results</DialogTitle>
+            <DialogDescription className="text-neutral-500">
+              {importReport?.filter(r => r.ok).length} imported, {importReport?.filter(r => !r.ok).length} failed
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-80 overflow-y-auto divide-y divide-neutral-100 rounded-xl border border-neutral-200">
+            {importReport?.map((result, i) => (
+              <div key={i} className="flex items-center gap-3 px-3 py-2 text-sm">
+                {result.ok
+                  ? <CheckCircle className="w-4 h-4 text-emerald-600 shrink-0" />
+                  : <XCircle className="w-4 h-4 text-red-600 shrink-0" />}
+                <span className="text-neutral-800">{result.values.name} · {formatDates(result.values)}</span>
+                {result.error && <span className="text-red-600 ml-auto">{result.error}</span>}
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={toDelete !== null} onOpenChange={(open) => !open && setToDelete(null)}>
+        <AlertDialogContent className="bg-white border border-neutral-200 shadow-2xl rounded-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-red-700">Remove Closure</AlertDialogTitle>
+            <AlertDialogDescription className="text-neutral-500">
+              {toDelete?.name} will no longer block bookings.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="border-neutral-200">Keep It</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => toDelete && handleDelete(toDelete)}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
+
+export default Closures
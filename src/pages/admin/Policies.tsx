@@ -0,0 +1,449 @@
+import React, { useEffect, useState } from 'react'
+import { Controller, useForm, useWatch } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { BookingPolicy } from '../../lib/schemas'
+import { errorMessage } from '../../lib/apiError'
+import {
+  bookingPolicySchema, BookingPolicyFormValues, policyDurationOptions, ResourceType,
+} from '../../utils/validators'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from '@/components/ui/table'
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { ShieldCheck, Plus, Pencil, Trash2, RotateCcw } from 'lucide-react'
+import { toast } from 'sonner'
+import { Breadcrumbs } from '../../components/Breadcrumbs'
+import { TableSkeleton } from '../../components/TableSkeleton'
+import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts'
+import {
+  useBookingPolicies, useCreateBookingPolicy, useDeleteBookingPolicy, useUpdateBookingPolicy,
+} from '../../hooks/usePolicies'
+import { useResourceInventory } from '../../hooks/useResources'
+import { useResourceTypeDefinitions } from '../../hooks/useResourceTypes'
+import { defaultPolicy, describePolicy, EffectivePolicy, formatHours, policyFor } from '../../utils/policies'
+
+function toFormValues(policy: EffectivePolicy): BookingPolicyFormValues {
+  return {
+    resource_type: policy.resource_type,
+    resource_id: policy.resource_id ?? undefined,
+    allowed_durations: policy.allowed_durations,
+    max_advance_days: policy.max_advance_days,
+    max_active_bookings: policy.max_active_bookings ?? undefined,
+    check_in_opens_minutes: policy.check_in_opens_minutes,
+    check_in_closes_minutes: policy.check_in_closes_minutes,
+    auto_approve: policy.auto_approve,
+    buffer_minutes: policy.buffer_minutes,
+  }
+}
+
+const Policies: React.FC = () => {
+  const { types: resourceTypes, definitionOf } = useResourceTypeDefinitions()
+  const [formOpen, setFormOpen] = useState(false)
+  // What the form edits: a type's policy or a single-resource override
+  const [target, setTarget] = useState<'type' | 'resource'>('type')
+  const [editing, setEditing] = useState<BookingPolicy | null>(null)
+  const [toDelete, setToDelete] = useState<BookingPolicy | null>(null)
+
+  const { data: policies = [], isLoading, isError } = useBookingPolicies()
+  const { data: resources = [] } = useResourceInventory()
+  const createPolicy = useCreateBookingPolicy()
+  const updatePolicy = useUpdateBookingPolicy()
+  const deletePolicy = useDeleteBookingPolicy()
+
+  const overrides = policies.filter(p => p.resource_id !== null)
+  const typePolicy = (type: ResourceType) => policies.find(p => p.resource_id === null && p.resource_type === type) ?? null
+
+  const { register, handleSubmit, reset, control, setError, formState: { errors, isSubmitting } } = useForm<BookingPolicyFormValues>({
+    resolver: zodResolver(bookingPolicySchema),
+    defaultValues: toFormValues(defaultPolicy('meeting_room')),
+  })
+  const resourceType = useWatch({ control, name: 'resource_type' })
+
+  useKeyboardShortcuts([
+    {
+      key: 'Escape',
+      callback: () => {
+        if (formOpen) setFormOpen(false)
+        if (toDelete) setToDelete(null)
+      }
+    }
+  ])
+
+  useEffect(() => {
+    if (isError) toast.error('Failed to load booking policies')
+  }, [isError])
+
+  function openTypeForm(type: ResourceType) {
+    const existing = typePolicy(type)
+    setTarget('type')
+    setEditing(existing)
+    reset(toFormValues(existing ? { ...existing, source: 'type' } : defaultPolicy(type)))
+    setFormOpen(true)
+  }
+
+  function openOverrideForm(policy: BookingPolicy | null) {
+    setTarget('resource')
+    setEditing(policy)
+    reset(toFormValues(policy ? { ...policy, source: 'resource' } : defaultPolicy('meeting_room')))
+    setFormOpen(true)
+  }
+
+  // Start an override from the rules the resource currently gets
+  function selectOverrideResource(resourceId: number) {
+    const resource = resources.find(r => r.id === resourceId)
+    if (!resource) return
+    const inherited = policyFor(policies.filter(p => p.resource_id === null), resource)
+    reset({ ...toFormValues(inherited), resource_id: resource.id, resource_type: resource.resource_type })
+  }
+
+  async function onSubmit(values: BookingPolicyFormValues) {
+    if (target === 'resource' && values.resource_id === undefined) {
+      setError('resource_id', { message: 'Resource is required' })
+      return
+    }
+    const payload = { ...values, resource_id: target === 'resource' ? values.resource_id : undefined }
+    try {
+      if (editing) {
+        await updatePolicy.mutateAsync({ id: editing.id, values: payload })
+        toast.success('Policy updated')
+      } else {
+        await createPolicy.mutateAsync(payload)
+        toast.success('Policy saved')
+      }
+      setFormOpen(false)
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to save policy'))
+    }
+  }
+
+  async function handleDelete(policy: BookingPolicy) {
+    setToDelete(null)
+    try {
+      await deletePolicy.mutateAsync(policy.id)
+      toast.success(policy.resource_id !== null ? 'Override removed' : 'Policy reset to defaults')
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to remove policy'))
+    }
+  }
+
+  const overrideName = (p: BookingPolicy) =>
+    p.resource_name ?? resources.find(r => r.id === p.resource_id)?.name ?? `Resource #${p.resource_id}`
+
+  const numberError = (field: keyof BookingPolicyFormValues) =>
+    errors[field] && <p className="text-sm text-red-600">{errors[field]?.message}</p>
+
+  return (
+    <div className="max-w-7xl">
+      <Breadcrumbs
+        items={[
+          { label: 'Admin Dashboard', href: '/dashboard/admin' },
+          { label: 'Booking Policies' }
+        ]}
+      />
+
+      <div className="flex items-start justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-4xl font-bold text-neutral-900 mb-2" style={{ fontFamily: "'Playfair Display', serif" }}>
+            Booking Policies
+          </h1>
+          <p className="text-neutral-500">Durations, limits, check-in and approval rules per resource type</p>
+        </div>
+        <Button onClick={() => openOverrideForm(null)} className="bg-neutral-900 hover:bg-neutral-800 text-white">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Override
+        </Button>
+      </div>
+
+      {/* Per-type policies */}
+      <Card className="shadow-sm border-neutral-200 rounded-2xl overflow-hidden mb-6">
+        <CardHeader className="bg-neutral-50 border-b border-neutral-100">
+          <CardTitle className="text-neutral-900">Resource Types</CardTitle>
+          <p className="text-sm text-neutral-500">Every resource of a type follows its policy unless it has an override</p>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-6"><TableSkeleton rows={4} columns={3} /></div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-neutral-50/50">
+                  <TableHead className="text-neutral-600 font-semibold">Resource type</TableHead>
+                  <TableHead className="text-neutral-600 font-semibold">Rules</TableHead>
+                  <TableHead className="text-right text-neutral-600 font-semibold">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {resourceTypes.map(({ key: type, label }) => {
+                  const policy = typePolicy(type)
+                  return (
+                    <TableRow key={type}>
+                      <TableCell className="align-top">
+                        <p className="font-medium text-neutral-900">{label}</p>
+                        {!policy && (
+                          <Badge className="bg-neutral-100 text-neutral-500 border border-neutral-200 mt-1">Default</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <ul className="text-sm text-neutral-600 space-y-0.5">
+                          {describePolicy(policy ? { ...policy, source: 'type' } : defaultPolicy(type)).map(line => (
+                            <li key={line}>{line}</li>
+                          ))}
+                        </ul>
+                      </TableCell>
+                      <TableCell className="text-right align-top">
+                        <div className="flex items-center justify-end gap-2">
+                          <Button size="sm" variant="outline" onClick={() => openTypeForm(type)} className="border-neutral-200">
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          {policy && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setToDelete(policy)}
+                              title="Reset to defaults"
+                              className="border-neutral-200"
+                            >
+                              <RotateCcw className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Single-resource overrides */}
+      <Card className="shadow-sm border-neutral-200 rounded-2xl overflow-hidden">
+        <CardHeader className="bg-neutral-50 border-b border-neutral-100">
+          <CardTitle className="text-neutral-900">
+            {overrides.length} Resource Override{overrides.length === 1 ? '' : 's'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-6"><TableSkeleton rows={3} columns={3} /></div>
+          ) : overrides.length === 0 ? (
+            <div className="text-center py-16">
+              <ShieldCheck className="w-16 h-16 text-neutral-300 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-neutral-900 mb-2">No overrides</h3>
+              <p className="text-neutral-500">Every resource follows its type's policy</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-neutral-50/50">
+                  <TableHead className="text-neutral-600 font-semibold">Resource</TableHead>
+                  <TableHead className="text-neutral-600 font-semibold">Rules</TableHead>
+                  <TableHead className="text-right text-neutral-600 font-semibold">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {overrides.map(policy => (
+                  <TableRow key={policy.id}>
+                    <TableCell className="align-top">
+                      <p className="font-medium text-neutral-900">{overrideName(policy)}</p>
+                      <p className="text-sm text-neutral-500">{definitionOf(policy.resource_type).label}</p>
+                    </TableCell>
+                    <TableCell>
+                      <ul className="text-sm text-neutral-600 space-y-0.5">
+                        {describePolicy({ ...policy, source: 'resource' }).map(line => <li key={line}>{line}</li>)}
+                      </ul>
+                    </TableCell>
+                    <TableCell className="text-right align-top">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button size="sm" variant="outline" onClick={() => openOverrideForm(policy)} className="border-neutral-200">
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setToDelete(policy)}
+                          className="border-red-200 text-red-600 hover:bg-red-50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add / Edit Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-xl bg-white border border-neutral-200 shadow-2xl rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-2xl font-semibold text-neutral-900">
+              {target === 'resource'
+                ? editing ? `Override for ${overrideName(editing)}` : 'Add Override'
+                : `${definitionOf(resourceType).label} Policy`}
+            </DialogTitle>
+            <DialogDescription className="text-neutral-500">
+              Applies to new bookings; existing ones are kept
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 mt-2">
+            {target === 'resource' && !editing && (
+              <div className="space-y-2">
+                <Label className="text-neutral-700">Resource</Label>
+                <Controller
+                  control={control}
+                  name="resource_id"
+                  render={({ field }) => (
+                    <Select
+                      value={field.value ? String(field.value) : ''}
+                      onValueChange={(v) => selectOverrideResource(Number(v))}
+                    >
+                      <SelectTrigger className="border-neutral-200"><SelectValue placeholder="Select a resource" /></SelectTrigger>
+                      <SelectContent>
+                        {resources
+                          .filter(r => !overrides.some(p => p.resource_id === r.id))
+                          .map(r => (
+                            <SelectItem key={r.id} value={String(r.id)}>{r.name}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+                {errors.resource_id && <p className="text-sm text-red-600">{errors.resource_id.message}</p>}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label className="text-neutral-700">Allowed durations</Label>
+              <Controller
+                control={control}
+                name="allowed_durations"
+                render={({ field }) => (
+                  <div className="flex flex-wrap gap-4">
+                    {policyDurationOptions.map(hours => (
+                      <label key={hours} className="flex items-center gap-2 text-sm text-neutral-700 cursor-pointer">
+                        <Checkbox
+                          checked={field.value.includes(hours)}
+                          onCheckedChange={(checked) => field.onChange(checked === true
+                            ? [...field.value, hours].sort((a, b) => a - b)
+                            : field.value.filter(h => h !== hours))}
+                        />
+                        {formatHours(hours)}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              />
+              {errors.allowed_durations && <p className="text-sm text-red-600">{errors.allowed_durations.message}</p>}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="policy-advance" className="text-neutral-700">Book up to (days ahead)</Label>
+                <Input id="policy-advance" type="number" min={0} {...register('max_advance_days', { valueAsNumber: true })} className="border-neutral-200" />
+                {numberError('max_advance_days')}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="policy-active" className="text-neutral-700">Active bookings per person</Label>
+                <Input
+                  id="policy-active"
+                  type="number"
+                  min={1}
+                  placeholder="No limit"
+                  {...register('max_active_bookings', { setValueAs: (v) => v === '' || v == null ? undefined : Number(v) })}
+                  className="border-neutral-200"
+                />
+                {numberError('max_active_bookings')}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="policy-checkin-opens" className="text-neutral-700">Check-in opens (min before)</Label>
+                <Input id="policy-checkin-opens" type="number" min={0} {...register('check_in_opens_minutes', { valueAsNumber: true })} className="border-neutral-200" />
+                {numberError('check_in_opens_minutes')}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="policy-checkin-closes" className="text-neutral-700">Check-in closes (min after)</Label>
+                <Input id="policy-checkin-closes" type="number" min={0} {...register('check_in_closes_minutes', { valueAsNumber: true })} className="border-neutral-200" />
+                {numberError('check_in_closes_minutes')}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="policy-buffer" className="text-neutral-700">Buffer between bookings (min)</Label>
+              <Input id="policy-buffer" type="number" min={0} {...register('buffer_minutes', { valueAsNumber: true })} className="border-neutral-200" />
+              {numberError('buffer_minutes')}
+            </div>
+
+            <Controller
+              control={control}
+              name="auto_approve"
+              render={({ field }) => (
+                <label className="flex items-center gap-2 text-sm text-neutral-700 cursor-pointer">
+                  <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  Approve bookings automatically
+                </label>
+              )}
+            />
+
+            <div className="flex gap-3 pt-2">
+              <Button type="button" variant="outline" onClick={() => setFormOpen(false)} className="flex-1 border-neutral-200">
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting} className="flex-1 bg-neutral-900 hover:bg-neutral-800 text-white">
+                {isSubmitting ? 'Saving...' : 'Save Policy'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete / Reset Confirmation */}
+      <AlertDialog open={toDelete !== null} onOpenChange={(open) => !open && setToDelete(null)}>
+        <AlertDialogContent className="bg-white border border-neutral-200 shadow-2xl rounded-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-red-700">
+              {toDelete?.resource_id !== null ? 'Remove Override' : 'Reset Policy'}
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-neutral-500">
+              {toDelete && (toDelete.resource_id !== null
+                ? `${overrideName(toDelete)} will follow the ${definitionOf(toDelete.resource_type).label.toLowerCase()} policy again.`
+                : `${definitionOf(toDelete.resource_type).label} will go back to the default rules.`)}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="border-neutral-200">Keep It</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => toDelete && handleDelete(toDelete)}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              {toDelete?.resource_id !== null ? 'Remove' : 'Reset'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
+
+export default Policies
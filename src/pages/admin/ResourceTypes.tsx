@@ -0,0 +1,530 @@
+import React, { useEffect, useState } from 'react'
+import { Controller, Path, useFieldArray, useForm, useWatch } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { errorMessage } from '../../lib/apiError'
+import { ResourceTypeDefinition } from '../../lib/schemas'
+import {
+  PropertyField, propertyFieldTypeSchema, PropertyFieldType, resourceTypeDefinitionSchema,
+  ResourceTypeDefinitionFormValues, resourceTypeIconSchema,
+} from '../../utils/validators'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from '@/components/ui/table'
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Plus, Pencil, Trash2, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { Breadcrumbs } from '../../components/Breadcrumbs'
+import { TableSkeleton } from '../../components/TableSkeleton'
+import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts'
+import { useResourceInventory } from '../../hooks/useResources'
+import {
+  useCreateResourceType, useDeleteResourceType, useResourceTypes, useUpdateResourceType,
+} from '../../hooks/useResourceTypes'
+import { resourceTypeIcons } from '../../utils/resourceTypes'
+import { applyFieldErrors } from '../../utils/formErrors'
+
+const fieldTypeLabels: Record<PropertyFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  boolean: 'Yes / No',
+  select: 'Choice',
+}
+
+const emptyField: PropertyField = { key: '', label: '', type: 'text', required: false, filterable: false, options: [] }
+
+const emptyType: ResourceTypeDefinitionFormValues = {
+  key: '',
+  label: '',
+  singular_label: '',
+  description: '',
+  icon: 'box',
+  properties: [],
+}
+
+// 'Parking Spot' -> 'parking_spot'
+const toKey = (label: string) =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').replace(/^[^a-z]+/, '')
+
+const optionalNumber = (v: unknown) => v === '' || v == null ? undefined : Number(v)
+
+// Inputs that show an error message, for server-side validation
+const typeFormFields = (values: ResourceTypeDefinitionFormValues): Path<ResourceTypeDefinitionFormValues>[] => [
+  'key',
+  'label',
+  'singular_label',
+  'description',
+  ...values.properties.flatMap((_, i) => [`properties.${i}.key`, `properties.${i}.label`] as const),
+]
+
+function toFormValues(type: ResourceTypeDefinition): ResourceTypeDefinitionFormValues {
+  return {
+    key: type.key,
+    label: type.label,
+    singular_label: type.singular_label,
+    description: type.description ?? '',
+    icon: type.icon,
+    properties: type.properties,
+  }
+}
+
+// Blank option lines are only there while typing
+function cleanValues(values: ResourceTypeDefinitionFormValues): ResourceTypeDefinitionFormValues {
+  return {
+    ...values,
+    properties: values.properties.map(field => ({
+      ...field,
+      options: field.type === 'select' ? field.options.map(o => o.trim()).filter(Boolean) : [],
+    })),
+  }
+}
+
+const ResourceTypes: React.FC = () => {
+  const [formOpen, setFormOpen] = useState(false)
+  const [editing, setEditing] = useState<ResourceTypeDefinition | null>(null)
+  const [toDelete, setToDelete] = useState<ResourceTypeDefinition | null>(null)
+
+  const { data: types = [], isLoading, isError } = useResourceTypes()
+  const { data: resources = [] } = useResourceInventory()
+  const createType = useCreateResourceType()
+  const updateType = useUpdateResourceType()
+  const deleteType = useDeleteResourceType()
+
+  const resourceCount = (key: string) => resources.filter(r => r.resource_type === key).length
+
+  const { register, handleSubmit, reset, control, setValue, getValues, setError, formState: { errors, isSubmitting } } =
+    useForm<ResourceTypeDefinitionFormValues>({
+      resolver: zodResolver(resourceTypeDefinitionSchema),
+      defaultValues: emptyType,
+    })
+  const { fields, append, remove } = useFieldArray({ control, name: 'properties' })
+  const properties = useWatch({ control, name: 'properties' })
+
+  useKeyboardShortcuts([
+    {
+      key: 'Escape',
+      callback: () => {
+        if (formOpen) setFormOpen(false)
+        if (toDelete) setToDelete(null)
+      }
+    }
+  ])
+
+  useEffect(() => {
+    if (isError) toast.error('Failed to load resource types')
+  }, [isError])
+
+  function openForm(type: ResourceTypeDefinition | null) {
+    setEditing(type)
+    reset(type ? toFormValues(type) : emptyType)
+    setFormOpen(true)
+  }
+
+  async function onSubmit(values: ResourceTypeDefinitionFormValues) {
+    const payload = cleanValues(values)
+    try {
+      if (editing) {
+        await updateType.mutateAsync({ key: editing.key, values: payload })
+        toast.success(`${payload.label} updated`)
+      } else {
+        await createType.mutateAsync(payload)
+        toast.success(`${payload.label} added`)
+      }
+      setFormOpen(false)
+    } catch (err) {
+      if (applyFieldErrors(err, setError, typeFormFields(payload))) {
+        toast.error('Please fix the highlighted fields')
+      } else {
+        toast.error(errorMessage(err, 'Failed to save resource type'))
+      }
+    }
+  }
+
+  async function handleDelete(type: ResourceTypeDefinition) {
+    setToDelete(null)
+    try {
+      await deleteType.mutateAsync(type.key)
+      toast.success(`${type.label} removed`)
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to remove resource type'))
+    }
+  }
+
+  return (
+    <div className="max-w-7xl">
+      <Breadcrumbs
+        items={[
+          { label: 'Admin Dashboard', href: '/dashboard/admin' },
+          { label: 'Resource Types' }
+        ]}
+      />
+
+      <div className="flex items-start justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-4xl font-bold text-neutral-900 mb-2" style={{ fontFamily: "'Playfair Display', serif" }}>
+            Resource Types
+          </h1>
+          <p className="text-neutral-500">What can be booked, and the properties each kind of resource carries</p>
+        </div>
+        <Button onClick={() => openForm(null)} className="bg-neutral-900 hover:bg-neutral-800 text-white">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Type
+        </Button>
+      </div>
+
+      <Card className="shadow-sm border-neutral-200 rounded-2xl overflow-hidden">
+        <CardHeader className="bg-neutral-50 border-b border-neutral-100">
+          <CardTitle className="text-neutral-900">{types.length} Resource Types</CardTitle>
+          <p className="text-sm text-neutral-500">Resource forms, tabs and the booking picker are built from these</p>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-6"><TableSkeleton rows={4} columns={4} /></div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-neutral-50/50">
+                  <TableHead className="text-neutral-600 font-semibold">Type</TableHead>
+                  <TableHead className="text-neutral-600 font-semibold">Properties</TableHead>
+                  <TableHead className="text-neutral-600 font-semibold">Resources</TableHead>
+                  <TableHead className="text-right text-neutral-600 font-semibold">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {types.map(type => {
+                  const Icon = resourceTypeIcons[type.icon]
+                  const count = resourceCount(type.key)
+                  return (
+                    <TableRow key={type.key}>
+                      <TableCell className="align-top">
+                        <div className="flex items-center gap-3">
+                          <div className="w-9 h-9 bg-neutral-900 rounded-lg flex items-center justify-center shrink-0">
+                            <Icon className="w-4 h-4 text-white" />
+                          </div>
+                          <div>
+                            <p className="font-medium text-neutral-900 flex items-center gap-2">
+                              {type.label}
+                              {type.built_in && <Badge variant="outline" className="border-neutral-200 text-neutral-500">Built in</Badge>}
+                            </p>
+                            <p className="text-xs text-neutral-400 font-mono">{type.key}</p>
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {type.properties.length === 0 ? (
+                          <span className="text-sm text-neutral-400">None</span>
+                        ) : (
+                          <div className="flex flex-wrap gap-1.5">
+                            {type.properties.map(field => (
+                              <Badge key={field.key} variant="outline" className="border-neutral-200 text-neutral-600 font-normal">
+                                {field.label}{field.required && ' *'}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-neutral-600">{count}</TableCell>
+                      <TableCell className="text-right align-top">
+                        <div className="flex items-center justify-end gap-2">
+                          <Button size="sm" variant="outline" onClick={() => openForm(type)} className="border-neutral-200">
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          {!type.built_in && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setToDelete(type)}
+                              disabled={count > 0}
+                              title={count > 0 ? 'Move or delete its resources first' : undefined}
+                              className="border-red-200 text-red-600 hover:bg-red-50"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add / Edit Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto bg-white border border-neutral-200 shadow-2xl rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-2xl font-semibold text-neutral-900">
+              {editing ? `Edit ${editing.label}` : 'Add Resource Type'}
+            </DialogTitle>
+            <DialogDescription className="text-neutral-500">
+              {editing
+                ? 'Existing resources keep their values; new required fields apply when they are next edited'
+                : 'Resources of this type can be added once it is saved'}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 mt-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="type-singular" className="text-neutral-700">Name *</Label>
+                <Input
+                  id="type-singular"
+                  placeholder="e.g., Parking Spot"
+                  {...register('singular_label', {
+                    onBlur: (e) => {
+                      if (!editing && !getValues('key')) setValue('key', toKey(e.target.value))
+                    },
+                  })}
+                  className="border-neutral-200"
+                />
+                {errors.singular_label && <p className="text-sm text-red-600">{errors.singular_label.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="type-label" className="text-neutral-700">Plural name *</Label>
+                <Input id="type-label" placeholder="e.g., Parking Spots" {...register('label')} className="border-neutral-200" />
+                {errors.label && <p className="text-sm text-red-600">{errors.label.message}</p>}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="type-key" className="text-neutral-700">Key *</Label>
+                <Input
+                  id="type-key"
+                  placeholder="e.g., parking_spot"
+                  disabled={editing !== null}
+                  {...register('key')}
+                  className="border-neutral-200 font-mono"
+                />
+                {errors.key && <p className="text-sm text-red-600">{errors.key.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label className="text-neutral-700">Icon</Label>
+                <Controller
+                  control={control}
+                  name="icon"
+                  render={({ field }) => (
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger className="border-neutral-200"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {resourceTypeIconSchema.options.map(icon => {
+                          const Icon = resourceTypeIcons[icon]
+                          return (
+                            <SelectItem key={icon} value={icon}>
+                              <span className="flex items-center gap-2 capitalize"><Icon className="w-4 h-4" />{icon}</span>
+                            </SelectItem>
+                          )
+                        })}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="type-description" className="text-neutral-700">Description</Label>
+              <Input
+                id="type-description"
+                placeholder="Shown on the booking page, e.g., Covered spots in the basement garage"
+                {...register('description')}
+                className="border-neutral-200"
+              />
+              {errors.description && <p className="text-sm text-red-600">{errors.description.message}</p>}
+            </div>
+
+            <div className="space-y-3 border-t border-neutral-100 pt-4">
+              <div className="flex items-center justify-between">
+                <Label className="text-neutral-700">Properties</Label>
+                <Button type="button" size="sm" variant="outline" onClick={() => append(emptyField)} className="border-neutral-200">
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Field
+                </Button>
+              </div>
+              {fields.length === 0 && (
+                <p className="text-sm text-neutral-500">No properties. Resources of this type will only have a name, location and description.</p>
+              )}
+              {fields.map((item, i) => {
+                const fieldType = properties?.[i]?.type ?? item.type
+                const fieldErrors = errors.properties?.[i]
+                return (
+                  <div key={item.id} className="border border-neutral-200 rounded-lg p-3 space-y-3">
+                    <div className="grid grid-cols-[1fr_1fr_9rem_auto] gap-3 items-start">
+                      <div className="space-y-1">
+                        <Input
+                          placeholder="Label, e.g., Spot Number"
+                          aria-label="Field label"
+                          {...register(`properties.${i}.label`, {
+                            onBlur: (e) => {
+                              if (!getValues(`properties.${i}.key`)) setValue(`properties.${i}.key`, toKey(e.target.value))
+                            },
+                          })}
+                          className="border-neutral-200"
+                        />
+                        {fieldErrors?.label && <p className="text-xs text-red-600">{fieldErrors.label.message}</p>}
+                      </div>
+                      <div className="space-y-1">
+                        <Input
+                          placeholder="key"
+                          aria-label="Field key"
+                          {...register(`properties.${i}.key`)}
+                          className="border-neutral-200 font-mono"
+                        />
+                        {fieldErrors?.key && <p className="text-xs text-red-600">{fieldErrors.key.message}</p>}
+                      </div>
+                      <Controller
+                        control={control}
+                        name={`properties.${i}.type`}
+                        render={({ field }) => (
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <SelectTrigger className="border-neutral-200" aria-label="Field type"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              {propertyFieldTypeSchema.options.map(type => (
+                                <SelectItem key={type} value={type}>{fieldTypeLabels[type]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => remove(i)}
+                        aria-label="Remove field"
+                        className="text-neutral-400 hover:text-neutral-700"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+
+                    {fieldType === 'number' && (
+                      <div className="grid grid-cols-3 gap-3">
+                        <Input placeholder="Unit, e.g., sq ft" aria-label="Unit" {...register(`properties.${i}.unit`)} className="border-neutral-200" />
+                        <Input
+                          type="number"
+                          placeholder="Min"
+                          aria-label="Minimum"
+                          {...register(`properties.${i}.min`, { setValueAs: optionalNumber })}
+                          className="border-neutral-200"
+                        />
+                        <Input
+                          type="number"
+                          placeholder="Max"
+                          aria-label="Maximum"
+                          {...register(`properties.${i}.max`, { setValueAs: optionalNumber })}
+                          className="border-neutral-200"
+                        />
+                      </div>
+                    )}
+
+                    {fieldType === 'select' && (
+                      <div className="space-y-1">
+                        <Controller
+                          control={control}
+                          name={`properties.${i}.options`}
+                          render={({ field }) => (
+                            <Textarea
+                              rows={3}
+                              placeholder={'One choice per line, e.g.\nCovered\nOpen air'}
+                              value={field.value.join('\n')}
+                              onChange={(e) => field.onChange(e.target.value.split('\n'))}
+                              className="border-neutral-200"
+                            />
+                          )}
+                        />
+                        {fieldErrors?.options && <p className="text-xs text-red-600">{fieldErrors.options.message}</p>}
+                      </div>
+                    )}
+
+                    <div className="flex items-center gap-4">
+                      {fieldType !== 'boolean' && (
+                        <>
+                          <Input
+                            placeholder="Placeholder (optional)"
+                            aria-label="Placeholder"
+                            {...register(`properties.${i}.placeholder`)}
+                            className="border-neutral-200 flex-1"
+                          />
+                          <Controller
+                            control={control}
+                            name={`properties.${i}.required`}
+                            render={({ field }) => (
+                              <label className="flex items-center gap-2 text-sm text-neutral-700 cursor-pointer shrink-0">
+                                <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                                Required
+                              </label>
+                            )}
+                          />
+                        </>
+                      )}
+                      <Controller
+                        control={control}
+                        name={`properties.${i}.filterable`}
+                        render={({ field }) => (
+                          <label className="flex items-center gap-2 text-sm text-neutral-700 cursor-pointer shrink-0">
+                            <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                            Filter when booking
+                          </label>
+                        )}
+                      />
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+
+            <div className="flex gap-3 pt-2">
+              <Button type="button" variant="outline" onClick={() => setFormOpen(false)} className="flex-1 border-neutral-200">
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting} className="flex-1 bg-neutral-900 hover:bg-neutral-800 text-white">
+                {isSubmitting ? 'Saving...' : 'Save Type'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={toDelete !== null} onOpenChange={(open) => !open && setToDelete(null)}>
+        <AlertDialogContent className="bg-white border border-neutral-200 shadow-2xl rounded-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-red-700">Remove Resource Type</AlertDialogTitle>
+            <AlertDialogDescription className="text-neutral-500">
+              {toDelete && `${toDelete.label} will no longer be offered when adding or booking resources.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="border-neutral-200">Keep It</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => toDelete && handleDelete(toDelete)}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
+
+export default ResourceTypes
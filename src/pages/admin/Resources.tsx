@@ -1,8 +1,10 @@
 import React, { useEffect, useState, useRef } from 'react'
-import { useForm } from 'react-hook-form'
+import { Path, Resolver, useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { api } from '../../lib/api'
-import { resourceSchema, ResourceFormValues, ResourceType } from '../../utils/validators'
+import { Resource, ResourceTypeDefinition } from '../../lib/schemas'
+import { errorMessage } from '../../lib/apiError'
+import { resourceSchemaFor, ResourceFormValues, ResourceType } from '../../utils/validators'
+import { applyFieldErrors } from '../../utils/formErrors'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import {
@@ -47,10 +49,6 @@ import {
   Plus,
   Edit,
   Trash2,
-  DoorOpen,
-  Smartphone,
-  Laptop as LaptopIcon,
-  Sprout,
   MapPin,
   Eye,
   Search
@@ -60,33 +58,21 @@ import { Breadcrumbs } from '../../components/Breadcrumbs'
 import { TableSkeleton } from '../../components/TableSkeleton'
 import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts'
 import { DynamicPropertyFields } from '../../components/DynamicPropertyFields'
-
-interface Resource {
-  id: number
-  name: string
-  resource_type: ResourceType
-  description?: string
-  location: string
-  is_active: boolean
-  properties: Record<string, any>
-  created_at: string
-}
-
-interface ResourcesResponse {
-  resources: Resource[]
-  total: number
-  limit: number
-  offset: number
-  has_more: boolean
-}
-
-const fromApiResourceType = (type: string): ResourceType => {
-  if (type === 'meeting-room') return 'meeting_room'
-  return type as ResourceType
-}
-
-const toApiResourceType = (type: ResourceType) =>
-  type === 'meeting_room' ? 'meeting-room' : type
+import { useCreateResource, useDeleteResource, useResourceInventory, useUpdateResource } from '../../hooks/useResources'
+import { useResourceTypeDefinitions } from '../../hooks/useResourceTypes'
+import { useWaitlistDepth } from '../../hooks/useWaitlist'
+import { useMaintenanceTickets } from '../../hooks/useMaintenance'
+import { MaintenanceTickets } from '../../components/MaintenanceTickets'
+import { AssetHistoryTimeline } from '../../components/AssetHistoryTimeline'
+import { isEquipment } from '../../utils/equipment'
+import { formatPropertyValue, propertySummary, resourceTypeIcons } from '../../utils/resourceTypes'
+
+// Inputs that show an error message, for server-side validation
+const resourceFormFields = (definition: ResourceTypeDefinition): Path<ResourceFormValues>[] => [
+  'name',
+  'location',
+  ...definition.properties.map(f => `properties.${f.key}` as Path<ResourceFormValues>),
+]
 
 const Resources: React.FC = () => {
   const [openCreate, setOpenCreate] = useState(false)
@@ -94,12 +80,22 @@ const Resources: React.FC = () => {
   const [openView, setOpenView] = useState(false)
   const [openDelete, setOpenDelete] = useState(false)
 
-  const [meetingRooms, setMeetingRooms] = useState<Resource[]>([])
-  const [phones, setPhones] = useState<Resource[]>([])
-  const [laptops, setLaptops] = useState<Resource[]>([])
-  const [turfs, setTurfs] = useState<Resource[]>([])
+  const { data: allResources = [], isLoading: loading, isError } = useResourceInventory()
+  const { data: waitlistDepth = [] } = useWaitlistDepth()
+  const waitingFor = (id: number) => waitlistDepth.find(d => d.resource_id === id)?.waiting ?? 0
+  const { data: unresolvedTickets } = useMaintenanceTickets({ unresolved: true, limit: 100 })
+  const inMaintenance = (id: number) => unresolvedTickets?.tickets.some(t => t.resource_id === id) ?? false
+  const createResource = useCreateResource()
+  const updateResource = useUpdateResource()
+  const deleteResource = useDeleteResource()
+  const { types, definitionOf } = useResourceTypeDefinitions()
+
+  const resourcesOfType = (type: ResourceType) => allResources.filter(r => r.resource_type === type)
+
+  // Properties are checked against the definition of whichever type is picked
+  const resolver: Resolver<ResourceFormValues> = (values, context, options) =>
+    zodResolver(resourceSchemaFor(definitionOf(values.resource_type).properties))(values, context, options) as ReturnType<Resolver<ResourceFormValues>>
 
-  const [loading, setLoading] = useState(false)
   const [activeTab, setActiveTab] = useState<ResourceType>('meeting_room')
   const [selectedResource, setSelectedResource] = useState<Resource | null>(null)
   const [resourceToDelete, setResourceToDelete] = useState<Resource | null>(null)
@@ -115,8 +111,9 @@ const Resources: React.FC = () => {
     reset,
     formState: { errors, isSubmitting },
     setValue,
+    setError,
   } = useForm<ResourceFormValues>({
-    resolver: zodResolver(resourceSchema),
+    resolver,
     defaultValues: {
       resource_type: 'meeting_room',
       name: '',
@@ -131,9 +128,10 @@ const Resources: React.FC = () => {
     watch: watchEdit,
     reset: resetEdit,
     formState: { errors: editErrors, isSubmitting: isEditing },
-    setValue: setEditValue
+    setValue: setEditValue,
+    setError: setEditError
   } = useForm<ResourceFormValues>({
-    resolver: zodResolver(resourceSchema),
+    resolver,
     defaultValues: {
       resource_type: 'meeting_room',
       name: '',
@@ -168,50 +166,9 @@ const Resources: React.FC = () => {
     }
   ])
 
-  async function fetchResources() {
-    setLoading(true)
-    try {
-      let allResources: Resource[] = []
-      let offset = 0
-      const limit = 100
-      let hasMore = true
-
-      while (hasMore) {
-        const res = await api.get<ResourcesResponse>(`/resources?limit=${limit}&offset=${offset}`)
-
-        if (res.resources && Array.isArray(res.resources)) {
-          const normalizedResources = res.resources.map((r: any) => ({
-            ...r,
-            resource_type: fromApiResourceType(r.resource_type),
-          }))
-          allResources = [...allResources, ...normalizedResources]
-
-          hasMore = res.has_more || false
-          offset += limit
-        } else {
-          hasMore = false
-        }
-      }
-
-      setMeetingRooms(allResources.filter(r => r.resource_type === 'meeting_room'))
-      setPhones(allResources.filter(r => r.resource_type === 'phone'))
-      setLaptops(allResources.filter(r => r.resource_type === 'laptop'))
-      setTurfs(allResources.filter(r => r.resource_type === 'turf'))
-    } catch (err) {
-      console.error('Failed to fetch resources:', err)
-      toast.error('Failed to fetch resources')
-      setMeetingRooms([])
-      setPhones([])
-      setLaptops([])
-      setTurfs([])
-    } finally {
-      setLoading(false)
-    }
-  }
-
   useEffect(() => {
-    fetchResources()
-  }, [])
+    if (isError) toast.error('Failed to fetch resources')
+  }, [isError])
 
   useEffect(() => {
     if (openCreate) {
@@ -221,83 +178,44 @@ const Resources: React.FC = () => {
 
   async function onSubmit(values: ResourceFormValues) {
     try {
-      const payload = {
-        ...values,
-        resource_type: toApiResourceType(values.resource_type)
-      }
-
-      // Optimistic update
-      const tempResource: Resource = {
-        id: Date.now(),
-        ...values,
-        created_at: new Date().toISOString()
-      }
-
-      if (values.resource_type === 'meeting_room') {
-        setMeetingRooms(prev => [tempResource, ...prev])
-      } else if (values.resource_type === 'phone') {
-        setPhones(prev => [tempResource, ...prev])
-      } else if (values.resource_type === 'laptop') {
-        setLaptops(prev => [tempResource, ...prev])
-      } else if (values.resource_type === 'turf') {
-        setTurfs(prev => [tempResource, ...prev])
-      }
-
       setOpenCreate(false)
       reset()
       toast.success('Creating resource...')
 
-      await api.post('/resources', payload)
-      await fetchResources()
+      await createResource.mutateAsync(values)
       toast.success('Resource created successfully!')
-    } catch (err: any) {
-      // Revert optimistic update
-      await fetchResources()
-      toast.error(err.message || 'Failed to create resource')
+    } catch (err) {
+      reset(values)
       setOpenCreate(true)
+      if (applyFieldErrors(err, setError, resourceFormFields(definitionOf(values.resource_type)))) {
+        toast.error('Please fix the highlighted fields')
+      } else {
+        toast.error(errorMessage(err, 'Failed to create resource'))
+      }
     }
   }
 
   async function onEdit(values: ResourceFormValues) {
     if (!selectedResource) return
+    const resource = selectedResource
 
     try {
-      const payload = {
-        ...values,
-        resource_type: toApiResourceType(values.resource_type)
-      }
-
-      // Optimistic update
-      const updatedResource = {
-        ...selectedResource,
-        ...values
-      }
-
-      const updateList = (prev: Resource[]) =>
-        prev.map(r => r.id === selectedResource.id ? updatedResource : r)
-
-      if (values.resource_type === 'meeting_room') {
-        setMeetingRooms(updateList)
-      } else if (values.resource_type === 'phone') {
-        setPhones(updateList)
-      } else if (values.resource_type === 'laptop') {
-        setLaptops(updateList)
-      } else if (values.resource_type === 'turf') {
-        setTurfs(updateList)
-      }
-
       setOpenEdit(false)
       setSelectedResource(null)
       resetEdit()
       toast.success('Updating resource...')
 
-      await api.patch(`/resources/${selectedResource.id}`, payload)
-      await fetchResources()
+      await updateResource.mutateAsync({ id: resource.id, values })
       toast.success('Resource updated successfully!')
-    } catch (err: any) {
-      await fetchResources()
-      toast.error(err.message || 'Failed to update resource')
+    } catch (err) {
+      resetEdit(values)
+      setSelectedResource(resource)
       setOpenEdit(true)
+      if (applyFieldErrors(err, setEditError, resourceFormFields(definitionOf(values.resource_type)))) {
+        toast.error('Please fix the highlighted fields')
+      } else {
+        toast.error(errorMessage(err, 'Failed to update resource'))
+      }
     }
   }
 
@@ -307,29 +225,14 @@ const Resources: React.FC = () => {
     setIsDeleting(true)
 
     try {
-      // Optimistic update
-      const removeFromList = (prev: Resource[]) =>
-        prev.filter(r => r.id !== resourceToDelete.id)
-
-      if (resourceToDelete.resource_type === 'meeting_room') {
-        setMeetingRooms(removeFromList)
-      } else if (resourceToDelete.resource_type === 'phone') {
-        setPhones(removeFromList)
-      } else if (resourceToDelete.resource_type === 'laptop') {
-        setLaptops(removeFromList)
-      } else if (resourceToDelete.resource_type === 'turf') {
-        setTurfs(removeFromList)
-      }
-
       setOpenDelete(false)
       setResourceToDelete(null)
       toast.success('Deleting resource...')
 
-      await api.del(`/resources/${resourceToDelete.id}`)
+      await deleteResource.mutateAsync(resourceToDelete.id)
       toast.success('Resource deleted successfully!')
-    } catch (err: any) {
-      await fetchResources()
-      toast.error(err.message || 'Failed to delete resource')
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to delete resource'))
     } finally {
       setIsDeleting(false)
     }
@@ -339,31 +242,16 @@ const Resources: React.FC = () => {
     try {
       const newStatus = !resource.is_active
 
-      // Optimistic update
-      const updateList = (prev: Resource[]) =>
-        prev.map(r => r.id === resource.id ? { ...r, is_active: newStatus } : r)
-
-      if (resource.resource_type === 'meeting_room') {
-        setMeetingRooms(updateList)
-      } else if (resource.resource_type === 'phone') {
-        setPhones(updateList)
-      } else if (resource.resource_type === 'laptop') {
-        setLaptops(updateList)
-      } else if (resource.resource_type === 'turf') {
-        setTurfs(updateList)
-      }
-
       toast.success(`${newStatus ? 'Activating' : 'Deactivating'} resource...`)
 
-      await api.patch(`/resources/${resource.id}`, {
-        is_active: newStatus,
-        resource_type: toApiResourceType(resource.resource_type)
+      await updateResource.mutateAsync({
+        id: resource.id,
+        values: { is_active: newStatus, resource_type: resource.resource_type }
       })
 
       toast.success(`Resource ${newStatus ? 'activated' : 'deactivated'} successfully!`)
-    } catch (err: any) {
-      await fetchResources()
-      toast.error(err.message || 'Failed to update resource')
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to update resource'))
     }
   }
 
@@ -390,23 +278,10 @@ const Resources: React.FC = () => {
     setOpenDelete(true)
   }
 
-  const getResourceIcon = (type: ResourceType) => {
-    switch (type) {
-      case 'meeting_room': return DoorOpen
-      case 'phone': return Smartphone
-      case 'laptop': return LaptopIcon
-      case 'turf': return Sprout
-    }
-  }
+  const getResourceIcon = (type: ResourceType) => resourceTypeIcons[definitionOf(type).icon]
 
   const getResourceList = () => {
-    let list: Resource[] = []
-    switch (activeTab) {
-      case 'meeting_room': list = meetingRooms; break
-      case 'phone': list = phones; break
-      case 'laptop': list = laptops; break
-      case 'turf': list = turfs; break
-    }
+    const list = resourcesOfType(activeTab)
 
     if (!searchQuery.trim()) return list
 
@@ -414,7 +289,9 @@ const Resources: React.FC = () => {
     return list.filter(r =>
       r.name.toLowerCase().includes(query) ||
       r.location.toLowerCase().includes(query) ||
-      r.description?.toLowerCase().includes(query)
+      r.description?.toLowerCase().includes(query) ||
+      String(r.properties?.asset_tag ?? '').toLowerCase().includes(query) ||
+      String(r.properties?.serial_number ?? '').toLowerCase().includes(query)
     )
   }
 
@@ -434,7 +311,7 @@ const Resources: React.FC = () => {
           Resource Management
         </h1>
         <p className="text-gray-600">
-          Manage meeting rooms, phones, laptops, and turfs
+          Manage every bookable resource, grouped by type
         </p>
       </div>
 
@@ -458,36 +335,29 @@ const Resources: React.FC = () => {
       </div>
 
       <Tabs value={activeTab} onValueChange={(v: any) => setActiveTab(v as ResourceType)} className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4">
-          <TabsTrigger value="meeting_room" className="flex items-center gap-2">
-            <DoorOpen className="w-4 h-4" />
-            Meeting Rooms ({meetingRooms.length})
-          </TabsTrigger>
-          <TabsTrigger value="phone" className="flex items-center gap-2">
-            <Smartphone className="w-4 h-4" />
-            Phones ({phones.length})
-          </TabsTrigger>
-          <TabsTrigger value="laptop" className="flex items-center gap-2">
-            <LaptopIcon className="w-4 h-4" />
-            Laptops ({laptops.length})
-          </TabsTrigger>
-          <TabsTrigger value="turf" className="flex items-center gap-2">
-            <Sprout className="w-4 h-4" />
-            Turfs ({turfs.length})
-          </TabsTrigger>
+        <TabsList className="flex flex-wrap h-auto w-full justify-start">
+          {types.map(definition => {
+            const Icon = resourceTypeIcons[definition.icon]
+            return (
+              <TabsTrigger key={definition.key} value={definition.key} className="flex items-center gap-2">
+                <Icon className="w-4 h-4" />
+                {definition.label} ({resourcesOfType(definition.key).length})
+              </TabsTrigger>
+            )
+          })}
         </TabsList>
 
         <TabsContent value={activeTab}>
           <Card>
             <CardHeader>
               <CardTitle>
-                {filteredList.length} {activeTab.replace('_', ' ').toUpperCase()}
+                {filteredList.length} {definitionOf(activeTab).label.toUpperCase()}
                 {searchQuery && ` (filtered)`}
               </CardTitle>
             </CardHeader>
             <CardContent>
               {loading ? (
-                <TableSkeleton rows={5} columns={5} />
+                <TableSkeleton rows={5} columns={6} />
               ) : filteredList.length === 0 ? (
                 <div className="text-center py-12">
                   {React.createElement(getResourceIcon(activeTab), { className: "w-12 h-12 text-gray-400 mx-auto mb-4" })}
@@ -515,6 +385,7 @@ const Resources: React.FC = () => {
                       <TableHead>Location</TableHead>
                       <TableHead>Status</TableHead>
                       <TableHead>Properties</TableHead>
+                      <TableHead>Waitlist</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -544,24 +415,30 @@ const Resources: React.FC = () => {
                               <Badge variant={resource.is_active ? 'default' : 'secondary'}>
                                 {resource.is_active ? 'Active' : 'Inactive'}
                               </Badge>
+                              {inMaintenance(resource.id) && (
+                                <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                                  In maintenance
+                                </Badge>
+                              )}
                             </div>
                           </TableCell>
                           <TableCell>
                             <div className="text-sm text-gray-600">
-                              {resource.resource_type === 'meeting_room' && (
-                                <span>Capacity: {resource.properties?.capacity || 'N/A'}</span>
-                              )}
-                              {resource.resource_type === 'phone' && (
-                                <span>{resource.properties?.brand} {resource.properties?.model}</span>
-                              )}
-                              {resource.resource_type === 'laptop' && (
-                                <span>{resource.properties?.brand} {resource.properties?.model}</span>
-                              )}
-                              {resource.resource_type === 'turf' && (
-                                <span>{resource.properties?.area_sqft} sq ft</span>
+                              <span>{propertySummary(definitionOf(resource.resource_type), resource.properties)}</span>
+                              {isEquipment(resource.resource_type) && resource.properties?.asset_tag && (
+                                <span className="block text-xs text-gray-400">{resource.properties.asset_tag}</span>
                               )}
                             </div>
                           </TableCell>
+                          <TableCell>
+                            {waitingFor(resource.id) > 0 ? (
+                              <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                                {waitingFor(resource.id)} waiting
+                              </Badge>
+                            ) : (
+                              <span className="text-sm text-gray-400">—</span>
+                            )}
+                          </TableCell>
                           <TableCell className="text-right">
                             <div className="flex items-center justify-end gap-2">
                               <Button
@@ -612,19 +489,17 @@ const Resources: React.FC = () => {
             <div className="space-y-2 ">
               <Label htmlFor="resource_type">Resource Type</Label>
               <Select
-
-                defaultValue="meeting_room"
-                onValueChange={(value) => setValue('resource_type', value as ResourceType)}
+                value={type}
+                onValueChange={(value) => setValue('resource_type', value)}
                 disabled={isSubmitting}
               >
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent className="bg-white">
-                  <SelectItem value="meeting_room">Meeting Room</SelectItem>
-                  <SelectItem value="phone">Phone</SelectItem>
-                  <SelectItem value="laptop">Laptop</SelectItem>
-                  <SelectItem value="turf">Turf</SelectItem>
+                  {types.map(definition => (
+                    <SelectItem key={definition.key} value={definition.key}>{definition.singular_label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -681,8 +556,7 @@ const Resources: React.FC = () => {
             </div> */}
 
             <DynamicPropertyFields
-              resourceType={type}
-              register={register}
+              definition={definitionOf(type)}
               setValue={setValue}
               errors={errors}
               disabled={isSubmitting}
@@ -781,8 +655,7 @@ const Resources: React.FC = () => {
 
 
             <DynamicPropertyFields
-              resourceType={editType}
-              register={registerEdit}
+              definition={definitionOf(editType)}
               setValue={setEditValue}
               errors={editErrors}
               disabled={isEditing}
@@ -824,7 +697,7 @@ const Resources: React.FC = () => {
 
       {/* View Dialog */}
       <Dialog open={openView} onOpenChange={setOpenView}>
-        <DialogContent className="bg-white">
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto bg-white">
           <DialogHeader>
             <DialogTitle>Resource Details</DialogTitle>
           </DialogHeader>
@@ -836,7 +709,7 @@ const Resources: React.FC = () => {
               </div>
               <div>
                 <Label className="text-gray-600">Type</Label>
-                <p className="font-medium capitalize">{selectedResource.resource_type.replace('_', ' ')}</p>
+                <p className="font-medium">{definitionOf(selectedResource.resource_type).singular_label}</p>
               </div>
               <div>
                 <Label className="text-gray-600">Location</Label>
@@ -856,12 +729,28 @@ const Resources: React.FC = () => {
                   </Badge>
                 </p>
               </div>
-              <div>
-                <Label className="text-gray-600">Properties</Label>
-                <pre className="bg-gray-50 p-3 rounded text-sm overflow-auto">
-                  {JSON.stringify(selectedResource.properties, null, 2)}
-                </pre>
-              </div>
+              {definitionOf(selectedResource.resource_type).properties.length > 0 && (
+                <div className="grid grid-cols-2 gap-4">
+                  {definitionOf(selectedResource.resource_type).properties.map(field => (
+                    <div key={field.key}>
+                      <Label className="text-gray-600">{field.label}</Label>
+                      <p className="font-medium">{formatPropertyValue(field, selectedResource.properties?.[field.key]) ?? '—'}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {isEquipment(selectedResource.resource_type) && (
+                <>
+                  <div className="space-y-2 border-t pt-4">
+                    <Label className="text-gray-600">Maintenance</Label>
+                    <MaintenanceTickets resource={selectedResource} />
+                  </div>
+                  <div className="space-y-2 border-t pt-4">
+                    <Label className="text-gray-600">History</Label>
+                    <AssetHistoryTimeline resourceId={selectedResource.id} />
+                  </div>
+                </>
+              )}
             </div>
           )}
         </DialogContent>
@@ -1,8 +1,10 @@
-import React, { useState, useEffect, useRef } from 'react'
+import React, { useState, useEffect, useMemo, useRef } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { api } from '../../lib/api'
+import { UserRecord as User } from '../../lib/schemas'
+import { errorMessage } from '../../lib/apiError'
 import { userSchema, UserFormValues } from '../../utils/validators'
+import { applyFieldErrors } from '../../utils/formErrors'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import {
@@ -46,33 +48,20 @@ import { toast } from 'sonner'
 import { Breadcrumbs } from '../../components/Breadcrumbs'
 import { TableSkeleton } from '../../components/TableSkeleton'
 import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts'
+import { useCreateUser, useDeleteUser, useUsers } from '../../hooks/useUsers'
 
-interface User {
-  id: number
-  employee_id: string
-  name: string
-  email: string
-  role: 'admin' | 'employee'
-  created_at: string
-}
-
-interface UsersResponse {
-  users: User[]
-  total: number
-  limit: number
-  offset: number
-  has_more: boolean
-}
+const userFormFields = ['employee_id', 'name', 'email', 'password', 'role'] as const
 
 const Users: React.FC = () => {
   const [open, setOpen] = useState(false)
-  const [users, setUsers] = useState<User[]>([])
-  const [loading, setLoading] = useState(false)
+  const { data, isLoading: loading, isError } = useUsers()
+  const createUser = useCreateUser()
+  const deleteUser = useDeleteUser()
+  const users = useMemo(() => data?.users ?? [], [data])
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [userToDelete, setUserToDelete] = useState<User | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
-  const [filteredUsers, setFilteredUsers] = useState<User[]>([])
   const emailInputRef = useRef<HTMLInputElement>(null)
 
   const { 
@@ -80,7 +69,8 @@ const Users: React.FC = () => {
     handleSubmit, 
     reset, 
     formState: { errors, isSubmitting }, 
-    setValue 
+    setValue,
+    setError
   } = useForm<UserFormValues>({
     resolver: zodResolver(userSchema),
     defaultValues: {
@@ -111,40 +101,20 @@ const Users: React.FC = () => {
     }
   ])
 
-  async function fetchUsers() {
-    setLoading(true)
-    try {
-      const res = await api.get<UsersResponse>('/users')
-      setUsers(res.users || [])
-      setFilteredUsers(res.users || [])
-    } catch (err: any) {
-      console.error('Failed to fetch users:', err)
-      setUsers([])
-      setFilteredUsers([])
-      toast.error('Failed to fetch users')
-    } finally {
-      setLoading(false)
-    }
-  }
-
   useEffect(() => {
-    fetchUsers()
-  }, [])
+    if (isError) toast.error('Failed to fetch users')
+  }, [isError])
 
   // Filter users based on search query
-  useEffect(() => {
-    if (!searchQuery.trim()) {
-      setFilteredUsers(users)
-      return
-    }
+  const filteredUsers = useMemo(() => {
+    if (!searchQuery.trim()) return users
 
     const query = searchQuery.toLowerCase()
-    const filtered = users.filter(user => 
+    return users.filter(user => 
       user.name.toLowerCase().includes(query) ||
       user.email.toLowerCase().includes(query) ||
       user.employee_id.toLowerCase().includes(query)
     )
-    setFilteredUsers(filtered)
   }, [searchQuery, users])
 
   // Focus email input when dialog opens
@@ -156,43 +126,22 @@ const Users: React.FC = () => {
 
   async function onSubmit(values: UserFormValues) {
     try {
-      // Optimistic update
-      const tempUser: User = {
-        id: Date.now(), // Temporary ID
-        employee_id: values.employee_id,
-        name: values.name,
-        email: values.email,
-        role: values.role as 'admin' | 'employee',
-        created_at: new Date().toISOString()
-      }
-
-      setUsers(prev => [tempUser, ...prev])
       setOpen(false)
       reset()
       toast.success('Creating user...')
 
-      // Actual API call
-      await api.post('/users', values)
-      
-      // Refresh to get actual data
-      await fetchUsers()
+      await createUser.mutateAsync(values)
       toast.success('User created successfully!')
-    } catch (err: any) {
-      // Revert optimistic update
-      setUsers(prev => prev.filter(u => u.id !== Date.now()))
-      
-      const errorMessage = err.message || 'Failed to create user'
-      
-      // Handle specific validation errors
-      if (errorMessage.includes('email') || errorMessage.includes('Email')) {
-        toast.error('Email already exists or is invalid')
-      } else if (errorMessage.includes('employee_id')) {
-        toast.error('Employee ID already exists')
+    } catch (err) {
+      // Reopen dialog with what was entered so user can fix errors
+      reset(values)
+      setOpen(true)
+
+      if (applyFieldErrors(err, setError, userFormFields)) {
+        toast.error('Please fix the highlighted fields')
       } else {
-        toast.error(errorMessage)
+        toast.error(errorMessage(err, 'Failed to create user'))
       }
-      
-      setOpen(true) // Reopen dialog so user can fix errors
     }
   }
 
@@ -200,22 +149,14 @@ const Users: React.FC = () => {
     setIsDeleting(true)
 
     try {
-      // Optimistic update
-      const previousUsers = [...users]
-      setUsers(prev => prev.filter(u => u.id !== user.id))
       setDeleteDialogOpen(false)
       setUserToDelete(null)
       toast.success('Deleting user...')
 
-      // Actual API call
-      await api.del(`/users/${user.id}`)
+      await deleteUser.mutateAsync(user.id)
       toast.success('User deleted successfully!')
-    } catch (err: any) {
-      // Revert optimistic update
-      await fetchUsers()
-      
-      const errorMessage = err.message || 'Failed to delete user'
-      toast.error(errorMessage)
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to delete user'))
     } finally {
       setIsDeleting(false)
     }
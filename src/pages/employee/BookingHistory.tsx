@@ -1,5 +1,9 @@
 import React, { useState, useEffect } from 'react'
-import { api } from '../../lib/api'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { errorMessage } from '../../lib/apiError'
+import { Booking } from '../../lib/schemas'
+import { bookingSeriesUpdateSchema, BookingSeriesUpdateValues } from '../../utils/validators'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
@@ -7,35 +11,49 @@ import {
   Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
 } from '@/components/ui/table'
 import {
-  Dialog, DialogContent, DialogHeader, DialogTitle,
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle,
 } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
 import {
   AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
   AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
-import { Calendar, Clock, CheckCircle, XCircle, MapPin, LogIn, Trash2 } from 'lucide-react'
+import { Calendar, CalendarClock, CalendarPlus, Clock, MapPin, LogIn, Trash2, Repeat, Users } from 'lucide-react'
 import { toast } from 'sonner'
 import { Breadcrumbs } from '../../components/Breadcrumbs'
 import { TableSkeleton } from '../../components/TableSkeleton'
+import { BookingChangeHistory } from '../../components/BookingChangeHistory'
+import { BookingPurpose } from '../../components/BookingPurpose'
+import { RescheduleDialog } from '../../components/RescheduleDialog'
 import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts'
+import { useLinkedBooking } from '../../hooks/useLinkedBooking'
+import { usePolicyForBooking } from '../../hooks/usePolicies'
+import { canCheckIn as withinCheckInWindow } from '../../utils/policies'
+import {
+  useBookings, useCancelBooking, useCancelBookingSeries, useCheckInBooking, useUpdateBookingSeries,
+  useWithdrawBookingChange
+} from '../../hooks/useBookings'
+import { useResourceTypeOf } from '../../hooks/useResources'
+import { useAuth } from '../../store/authStore'
+import { bookingExportColumns, downloadCalendar, downloadCsv, downloadPdf, exportFilename, toTable } from '../../utils/export'
+import { canAddToCalendar } from '../../utils/ical'
+import { ExportMenu } from '../../components/ExportMenu'
+import { WaitlistCard } from '../../components/WaitlistCard'
+import { formatBookingDates, formatBookingTimes, isEquipment, isMultiDay } from '../../utils/equipment'
+import { canRequestChange, formatChangeSlot, movesResource, pendingChange } from '../../utils/bookingChanges'
 import dayjs from 'dayjs'
 
-interface Booking {
-  id: number
-  resource_id: number
-  start_time: string
-  end_time: string
-  status: string
-  employee_id?: string
-  employee_name?: string
-  resource_name?: string
-  checked_in_at?: string | null
-  admin_note?: string | null
-  created_at: string
-  resource?: { id: number; name: string; resource_type: string; location?: string }
+type FilterStatus = 'all' | 'active' | 'past'
+
+const filterLabels: Record<FilterStatus, string> = {
+  all: 'All bookings',
+  active: 'Active bookings',
+  past: 'Past bookings',
 }
 
-type FilterStatus = 'all' | 'active' | 'past'
+// The employee columns would just repeat the signed-in user on every row
+const historyExportColumns = bookingExportColumns.filter(c => !c.header.startsWith('Employee'))
 
 const statusConfig: Record<string, { color: string }> = {
   pending:    { color: 'bg-amber-50 text-amber-700 border-amber-200' },
@@ -44,6 +62,7 @@ const statusConfig: Record<string, { color: string }> = {
   checked_in: { color: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
   completed:  { color: 'bg-violet-50 text-violet-700 border-violet-200' },
   cancelled:  { color: 'bg-neutral-100 text-neutral-500 border-neutral-200' },
+  no_show:    { color: 'bg-orange-50 text-orange-700 border-orange-200' },
 }
 
 const defaultColor = 'bg-neutral-100 text-neutral-500 border-neutral-200'
@@ -53,23 +72,38 @@ function getStatusColor(status: string) {
 }
 
 function getResourceName(b: Booking) {
-  return b.resource_name || b.resource?.name || 'Unknown Resource'
+  return b.resource_name
 }
 
 function getResourceLocation(b: Booking) {
-  return b.resource?.location || ''
+  return b.resource_location
 }
 
 const BookingHistory: React.FC = () => {
-  const [bookings, setBookings] = useState<Booking[]>([])
-  const [loading, setLoading] = useState(false)
+  const { data, isLoading: loading, isError } = useBookings()
+  const checkInBooking = useCheckInBooking()
+  const policyForBooking = usePolicyForBooking()
+  const cancelBooking = useCancelBooking()
+  const cancelSeries = useCancelBookingSeries()
+  const updateSeries = useUpdateBookingSeries()
+  const withdrawChange = useWithdrawBookingChange()
+  const resourceTypeOf = useResourceTypeOf()
+  const bookings = data?.bookings ?? []
   const [filter, setFilter] = useState<FilterStatus>('all')
+  const user = useAuth(state => state.user)
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null)
   const [openView, setOpenView] = useState(false)
   const [openCheckIn, setOpenCheckIn] = useState(false)
   const [openCancel, setOpenCancel] = useState(false)
+  const [openCancelSeries, setOpenCancelSeries] = useState(false)
+  const [openEditSeries, setOpenEditSeries] = useState(false)
+  const [rescheduling, setRescheduling] = useState<Booking | null>(null)
   const [isProcessing, setIsProcessing] = useState(false)
 
+  const seriesForm = useForm<BookingSeriesUpdateValues>({
+    resolver: zodResolver(bookingSeriesUpdateSchema)
+  })
+
   useKeyboardShortcuts([
     {
       key: 'Escape',
@@ -77,43 +111,40 @@ const BookingHistory: React.FC = () => {
         if (openView) setOpenView(false)
         if (openCheckIn) setOpenCheckIn(false)
         if (openCancel) setOpenCancel(false)
+        if (openCancelSeries) setOpenCancelSeries(false)
+        if (openEditSeries) setOpenEditSeries(false)
+        if (rescheduling) setRescheduling(null)
       }
     }
   ])
 
-  async function fetchBookings() {
-    setLoading(true)
-    try {
-      const res = await api.get<{ bookings: Booking[] }>('/bookings')
-      setBookings(res.bookings || [])
-    } catch (err: any) {
-      toast.error('Failed to load bookings')
-      setBookings([])
-    } finally {
-      setLoading(false)
-    }
-  }
+  useEffect(() => {
+    if (isError) toast.error('Failed to load bookings')
+  }, [isError])
 
-  useEffect(() => { fetchBookings() }, [])
+  // Deep link from a notification
+  const { linkedBooking, clearLinkedBooking } = useLinkedBooking()
+  useEffect(() => {
+    if (!linkedBooking) return
+    setSelectedBooking(linkedBooking)
+    setOpenView(true)
+  }, [linkedBooking])
 
   const filteredBookings = bookings.filter(b => {
     if (filter === 'active') return ['pending', 'approved', 'checked_in'].includes(b.status) && dayjs(b.start_time).isAfter(dayjs())
-    if (filter === 'past') return ['completed', 'rejected', 'cancelled'].includes(b.status) || dayjs(b.end_time).isBefore(dayjs())
+    if (filter === 'past') return ['completed', 'rejected', 'cancelled', 'no_show'].includes(b.status) || dayjs(b.end_time).isBefore(dayjs())
     return true
   })
 
   async function handleCheckIn(booking: Booking) {
     setIsProcessing(true)
     try {
-      setBookings(prev => prev.map(b => b.id === booking.id ? { ...b, status: 'checked_in', checked_in_at: new Date().toISOString() } : b))
       setOpenCheckIn(false)
       toast.success('Checking in...')
-      await api.post(`/bookings/${booking.id}/check_in`)
-      await fetchBookings()
+      await checkInBooking.mutateAsync({ id: booking.id })
       toast.success('Checked in successfully!')
-    } catch (err: any) {
-      await fetchBookings()
-      toast.error(err.message || 'Failed to check in')
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to check in'))
     } finally {
       setIsProcessing(false)
     }
@@ -122,36 +153,99 @@ const BookingHistory: React.FC = () => {
   async function handleCancel(booking: Booking) {
     setIsProcessing(true)
     try {
-      setBookings(prev => prev.filter(b => b.id !== booking.id))
       setOpenCancel(false)
       toast.success('Cancelling booking...')
-      await api.del(`/bookings/${booking.id}`)
+      await cancelBooking.mutateAsync({ id: booking.id })
       toast.success('Booking cancelled!')
-    } catch (err: any) {
-      await fetchBookings()
-      toast.error(err.message || 'Failed to cancel booking')
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to cancel booking'))
     } finally {
       setIsProcessing(false)
     }
   }
 
+  // Series actions apply from the chosen occurrence onwards; earlier ones are history
+  async function handleCancelSeries(booking: Booking) {
+    if (booking.series_id == null) return
+    setIsProcessing(true)
+    try {
+      setOpenCancelSeries(false)
+      toast.success('Cancelling upcoming occurrences...')
+      await cancelSeries.mutateAsync({ seriesId: booking.series_id, from: booking.start_time })
+      toast.success('Recurring booking cancelled from this date on')
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to cancel the series'))
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  function openEditSeriesDialog(booking: Booking) {
+    seriesForm.reset({
+      start_time: dayjs(booking.start_time).format('HH:mm'),
+      end_time: dayjs(booking.end_time).format('HH:mm'),
+    })
+    setOpenView(false)
+    setOpenEditSeries(true)
+  }
+
+  async function handleEditSeries(values: BookingSeriesUpdateValues) {
+    if (!selectedBooking || selectedBooking.series_id == null) return
+    try {
+      await updateSeries.mutateAsync({ seriesId: selectedBooking.series_id, from: selectedBooking.start_time, ...values })
+      setOpenEditSeries(false)
+      toast.success('Series updated. Changed occurrences go back for approval.')
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to update the series'))
+    }
+  }
+
+  async function handleWithdrawChange(booking: Booking) {
+    const change = pendingChange(booking)
+    if (!change) return
+    try {
+      await withdrawChange.mutateAsync({ id: booking.id, changeId: change.id })
+      setSelectedBooking({ ...booking, change_requests: booking.change_requests.map(c => c.id === change.id ? { ...c, status: 'withdrawn' } : c) })
+      toast.success('Change request withdrawn')
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to withdraw the change'))
+    }
+  }
+
+  function exportBookings(format: 'csv' | 'pdf') {
+    if (format === 'csv') {
+      downloadCsv(exportFilename('my-bookings', 'csv'), historyExportColumns, filteredBookings)
+    } else {
+      downloadPdf(exportFilename('my-bookings', 'pdf'), {
+        title: 'My Bookings',
+        filters: [
+          user ? `Employee: ${user.name}${user.employee_id ? ` (${user.employee_id})` : ''}` : '',
+          `Showing: ${filterLabels[filter]}`,
+        ].filter(Boolean),
+        tables: [toTable(`${filteredBookings.length} booking${filteredBookings.length === 1 ? '' : 's'}`, historyExportColumns, filteredBookings)],
+      })
+    }
+  }
+
   function handleRowClick(booking: Booking) {
     setSelectedBooking(booking)
     setOpenView(true)
   }
 
+  // No check-in until the booking's policy is known
   const canCheckIn = (booking: Booking) => {
-    if (booking.status !== 'approved') return false
-    const now = dayjs()
-    const start = dayjs(booking.start_time)
-    const minutesUntilStart = start.diff(now, 'minute')
-    return minutesUntilStart <= 15 && minutesUntilStart >= -15
+    const policy = policyForBooking(booking)
+    return policy !== null && withinCheckInWindow(policy, booking)
   }
 
   const canCancel = (booking: Booking) => {
     return ['pending', 'approved'].includes(booking.status) && dayjs(booking.start_time).isAfter(dayjs())
   }
 
+  // Loans are moved by an admin; slot bookings can be moved by their owner
+  const canReschedule = (booking: Booking) =>
+    canRequestChange(booking) && !isMultiDay(booking) && !isEquipment(resourceTypeOf(booking))
+
   return (
     <div className="max-w-7xl">
       <Breadcrumbs
@@ -161,11 +255,20 @@ const BookingHistory: React.FC = () => {
         ]}
       />
 
-      <div className="mb-8">
-        <h1 className="text-4xl font-bold text-neutral-900 mb-2" style={{ fontFamily: "'Playfair Display', serif" }}>
-          My Bookings
-        </h1>
-        <p className="text-neutral-500">View and manage your resource bookings</p>
+      <div className="flex items-start justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-4xl font-bold text-neutral-900 mb-2" style={{ fontFamily: "'Playfair Display', serif" }}>
+            My Bookings
+          </h1>
+          <p className="text-neutral-500">View and manage your resource bookings</p>
+        </div>
+        <ExportMenu
+          disabled={filteredBookings.length === 0}
+          options={[
+            { label: 'Export as CSV', format: 'csv', onSelect: () => exportBookings('csv') },
+            { label: 'Export as PDF', format: 'pdf', onSelect: () => exportBookings('pdf') },
+          ]}
+        />
       </div>
 
       {/* Filter Tabs */}
@@ -174,7 +277,7 @@ const BookingHistory: React.FC = () => {
           const isActive = filter === f
           const count = f === 'all' ? bookings.length
             : f === 'active' ? bookings.filter(b => ['pending', 'approved', 'checked_in'].includes(b.status) && dayjs(b.start_time).isAfter(dayjs())).length
-            : bookings.filter(b => ['completed', 'rejected', 'cancelled'].includes(b.status) || dayjs(b.end_time).isBefore(dayjs())).length
+            : bookings.filter(b => ['completed', 'rejected', 'cancelled', 'no_show'].includes(b.status) || dayjs(b.end_time).isBefore(dayjs())).length
           const labels = { all: 'All', active: 'Active', past: 'Past' }
           return (
             <Button
@@ -230,6 +333,16 @@ const BookingHistory: React.FC = () => {
                         </div>
                         <div>
                           <p className="font-medium text-neutral-900">{getResourceName(booking)}</p>
+                          {booking.title && (
+                            <p className="text-sm text-neutral-700 flex items-center gap-1">
+                              {booking.title}
+                              {booking.attendees.length > 0 && (
+                                <span className="text-neutral-400 inline-flex items-center gap-0.5 ml-1">
+                                  <Users className="w-3 h-3" />{booking.attendees.length}
+                                </span>
+                              )}
+                            </p>
+                          )}
                           {getResourceLocation(booking) && <p className="text-sm text-neutral-500">{getResourceLocation(booking)}</p>}
                         </div>
                       </div>
@@ -238,18 +351,26 @@ const BookingHistory: React.FC = () => {
                       <div className="space-y-1">
                         <div className="flex items-center gap-1 text-sm">
                           <Calendar className="w-3 h-3 text-neutral-400" />
-                          <span className="font-medium">{dayjs(booking.start_time).format('MMM D, YYYY')}</span>
+                          <span className="font-medium">{formatBookingDates(booking)}</span>
+                          {booking.series_id != null && (
+                            <Repeat className="w-3 h-3 text-neutral-400" aria-label="Recurring" />
+                          )}
                         </div>
                         <div className="flex items-center gap-1 text-sm text-neutral-500">
                           <Clock className="w-3 h-3 text-neutral-400" />
-                          {dayjs(booking.start_time).format('h:mm A')} – {dayjs(booking.end_time).format('h:mm A')}
+                          {formatBookingTimes(booking)}
                         </div>
                       </div>
                     </TableCell>
                     <TableCell>
-                      <Badge className={`${getStatusColor(booking.status)} border`}>
-                        {booking.status.replace(/_/g, ' ')}
-                      </Badge>
+                      <div className="flex flex-wrap items-center gap-1">
+                        <Badge className={`${getStatusColor(booking.status)} border`}>
+                          {booking.status.replace(/_/g, ' ')}
+                        </Badge>
+                        {pendingChange(booking) && (
+                          <Badge className="bg-amber-50 text-amber-700 border-amber-200 border">change requested</Badge>
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
                       <div className="flex items-center justify-end gap-2">
@@ -262,6 +383,28 @@ const BookingHistory: React.FC = () => {
                             <LogIn className="w-4 h-4 mr-1" /> Check In
                           </Button>
                         )}
+                        {canAddToCalendar(booking) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={(e) => { e.stopPropagation(); downloadCalendar(`booking-${booking.id}.ics`, [booking]) }}
+                            className="border-neutral-200"
+                            aria-label="Add to calendar"
+                          >
+                            <CalendarPlus className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {canReschedule(booking) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={(e) => { e.stopPropagation(); setRescheduling(booking) }}
+                            className="border-neutral-200"
+                            aria-label="Reschedule"
+                          >
+                            <CalendarClock className="w-4 h-4" />
+                          </Button>
+                        )}
                         {canCancel(booking) && (
                           <Button
                             size="sm"
@@ -282,8 +425,10 @@ const BookingHistory: React.FC = () => {
         </CardContent>
       </Card>
 
+      <WaitlistCard />
+
       {/* View Dialog */}
-      <Dialog open={openView} onOpenChange={setOpenView}>
+      <Dialog open={openView} onOpenChange={(open) => { setOpenView(open); if (!open) clearLinkedBooking() }}>
         <DialogContent className="bg-white border border-neutral-200 shadow-2xl rounded-2xl">
           <DialogHeader>
             <DialogTitle className="text-2xl font-semibold text-neutral-900">Booking Details</DialogTitle>
@@ -300,15 +445,21 @@ const BookingHistory: React.FC = () => {
                 )}
               </div>
 
+              <BookingPurpose booking={selectedBooking} />
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <p className="text-sm text-neutral-500 mb-1">Date</p>
-                  <p className="font-medium text-neutral-900">{dayjs(selectedBooking.start_time).format('MMMM D, YYYY')}</p>
+                  <p className="text-sm text-neutral-500 mb-1">{isMultiDay(selectedBooking) ? 'Checkout – Return' : 'Date'}</p>
+                  <p className="font-medium text-neutral-900">
+                    {isMultiDay(selectedBooking)
+                      ? formatBookingDates(selectedBooking)
+                      : dayjs(selectedBooking.start_time).format('MMMM D, YYYY')}
+                  </p>
                 </div>
                 <div>
-                  <p className="text-sm text-neutral-500 mb-1">Time</p>
+                  <p className="text-sm text-neutral-500 mb-1">{isMultiDay(selectedBooking) ? 'Length' : 'Time'}</p>
                   <p className="font-medium text-neutral-900">
-                    {dayjs(selectedBooking.start_time).format('h:mm A')} – {dayjs(selectedBooking.end_time).format('h:mm A')}
+                    {formatBookingTimes(selectedBooking)}
                   </p>
                 </div>
               </div>
@@ -320,6 +471,29 @@ const BookingHistory: React.FC = () => {
                 </Badge>
               </div>
 
+              {selectedBooking.series_id != null && (
+                <div className="bg-neutral-50 border border-neutral-200 rounded-xl p-4">
+                  <p className="text-sm font-medium text-neutral-900 flex items-center gap-2">
+                    <Repeat className="w-4 h-4 text-neutral-500" /> Part of a recurring booking
+                  </p>
+                  {canCancel(selectedBooking) && (
+                    <div className="flex flex-wrap gap-2 mt-3">
+                      <Button size="sm" variant="outline" onClick={() => openEditSeriesDialog(selectedBooking)} className="border-neutral-200">
+                        Edit series
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => { setOpenView(false); setOpenCancelSeries(true) }}
+                        className="border-red-200 text-red-600 hover:bg-red-50"
+                      >
+                        Cancel this and later
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {selectedBooking.admin_note && (
                 <div className="bg-amber-50 border border-amber-200 rounded-xl p-4">
                   <p className="text-sm font-medium text-amber-900 mb-1">Admin Note</p>
@@ -327,15 +501,52 @@ const BookingHistory: React.FC = () => {
                 </div>
               )}
 
+              {(() => {
+                const change = pendingChange(selectedBooking)
+                return change && (
+                  <div className="bg-amber-50 border border-amber-200 rounded-xl p-4">
+                    <p className="text-sm font-medium text-amber-900 mb-1 flex items-center gap-2">
+                      <CalendarClock className="w-4 h-4" /> Waiting to move to
+                    </p>
+                    <p className="text-sm text-amber-800">
+                      {formatChangeSlot(change.start_time, change.end_time)}
+                      {movesResource(change) && change.resource_name && ` in ${change.resource_name}`}
+                    </p>
+                    <p className="text-xs text-amber-700 mt-1">Your current time stands until an admin approves the change.</p>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={withdrawChange.isPending}
+                      onClick={() => handleWithdrawChange(selectedBooking)}
+                      className="mt-3 bg-white border-amber-200"
+                    >
+                      Withdraw request
+                    </Button>
+                  </div>
+                )
+              })()}
+
+              <BookingChangeHistory changes={selectedBooking.change_requests} />
+
               <div className="flex gap-3 pt-4">
                 {canCheckIn(selectedBooking) && (
                   <Button onClick={() => { setOpenView(false); setOpenCheckIn(true) }} className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white">
                     <LogIn className="w-4 h-4 mr-2" /> Check In
                   </Button>
                 )}
+                {canAddToCalendar(selectedBooking) && (
+                  <Button variant="outline" onClick={() => downloadCalendar(`booking-${selectedBooking.id}.ics`, [selectedBooking])} className="flex-1 border-neutral-200">
+                    <CalendarPlus className="w-4 h-4 mr-2" /> Add to Calendar
+                  </Button>
+                )}
+                {canReschedule(selectedBooking) && (
+                  <Button variant="outline" onClick={() => { setOpenView(false); setRescheduling(selectedBooking) }} className="flex-1 border-neutral-200">
+                    <CalendarClock className="w-4 h-4 mr-2" /> Reschedule
+                  </Button>
+                )}
                 {canCancel(selectedBooking) && (
                   <Button variant="outline" onClick={() => { setOpenView(false); setOpenCancel(true) }} className="flex-1 border-red-200 text-red-600 hover:bg-red-50">
-                    Cancel Booking
+                    {selectedBooking.series_id != null ? 'Cancel This Date' : 'Cancel Booking'}
                   </Button>
                 )}
                 <Button variant="outline" onClick={() => setOpenView(false)} className="flex-1 border-neutral-200">Close</Button>
@@ -345,6 +556,8 @@ const BookingHistory: React.FC = () => {
         </DialogContent>
       </Dialog>
 
+      {rescheduling && <RescheduleDialog booking={rescheduling} onClose={() => setRescheduling(null)} />}
+
       {/* Check-In Confirmation */}
       <AlertDialog open={openCheckIn} onOpenChange={setOpenCheckIn}>
         <AlertDialogContent className="bg-white border border-neutral-200 shadow-2xl rounded-2xl">
@@ -384,6 +597,65 @@ const BookingHistory: React.FC = () => {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Cancel Series Confirmation */}
+      <AlertDialog open={openCancelSeries} onOpenChange={setOpenCancelSeries}>
+        <AlertDialogContent className="bg-white border border-neutral-200 shadow-2xl rounded-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-red-700">Cancel Recurring Booking</AlertDialogTitle>
+            <AlertDialogDescription className="text-neutral-500">
+              This cancels the occurrence on {selectedBooking && dayjs(selectedBooking.start_time).format('MMMM D')} and every one after it. Earlier dates are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isProcessing} className="border-neutral-200">No, Keep Them</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => selectedBooking && handleCancelSeries(selectedBooking)}
+              disabled={isProcessing}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              {isProcessing ? <><span className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />Cancelling...</> : 'Yes, Cancel All'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Edit Series */}
+      <Dialog open={openEditSeries} onOpenChange={setOpenEditSeries}>
+        <DialogContent className="bg-white border border-neutral-200 shadow-2xl rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-2xl font-semibold text-neutral-900">Edit Recurring Booking</DialogTitle>
+            <DialogDescription className="text-neutral-500">
+              New times apply from {selectedBooking && dayjs(selectedBooking.start_time).format('MMMM D')} onwards.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={seriesForm.handleSubmit(handleEditSeries)} className="space-y-4 mt-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="series-start" className="text-neutral-700">Start time</Label>
+                <Input id="series-start" type="time" step={1800} {...seriesForm.register('start_time')} className="border-neutral-200" />
+                {seriesForm.formState.errors.start_time && (
+                  <p className="text-sm text-red-600">{seriesForm.formState.errors.start_time.message}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="series-end" className="text-neutral-700">End time</Label>
+                <Input id="series-end" type="time" step={1800} {...seriesForm.register('end_time')} className="border-neutral-200" />
+                {seriesForm.formState.errors.end_time && (
+                  <p className="text-sm text-red-600">{seriesForm.formState.errors.end_time.message}</p>
+                )}
+              </div>
+            </div>
+            <p className="text-xs text-neutral-500">Moved occurrences are checked for conflicts and need approval again.</p>
+            <div className="flex gap-3 pt-2">
+              <Button type="submit" disabled={seriesForm.formState.isSubmitting} className="flex-1 bg-neutral-900 hover:bg-neutral-800 text-white">
+                {seriesForm.formState.isSubmitting ? 'Saving...' : 'Save Changes'}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setOpenEditSeries(false)} className="flex-1 border-neutral-200">Cancel</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
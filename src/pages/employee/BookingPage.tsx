@@ -1,6 +1,11 @@
 import React, { useState, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { api } from '../../lib/api'
+import { bookingConflictFrom, bookingsApi, resourcesApi } from '../../lib/client'
+import { AvailabilityResponse, Resource, TimeSlot } from '../../lib/schemas'
+import { useClosures, useWeekdayRules } from '../../hooks/useClosures'
+import { useBookingPolicies } from '../../hooks/usePolicies'
+import { defaultPolicy, latestBookableDate, policyFor } from '../../utils/policies'
+import { closedWeekdaysFor, closureOverlapping, closuresFor, fullDayClosureOn, weekdayNames } from '../../utils/closures'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Label } from '@/components/ui/label'
@@ -12,7 +17,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { Calendar, Clock, MapPin, Users, Check, X, AlertCircle } from 'lucide-react'
+import { Calendar, CalendarOff, Clock, MapPin, Users, Check, X, AlertCircle } from 'lucide-react'
 import { toast } from 'sonner'
 import { Breadcrumbs } from '../../components/Breadcrumbs'
 import dayjs from 'dayjs'
@@ -24,70 +29,46 @@ dayjs.extend(timezone)
 
 const IST_TIMEZONE = 'Asia/Kolkata'
 
-interface Resource {
-  id: number
-  name: string
-  resource_type: string
-  location?: string
-  is_active: boolean
-  properties?: { capacity?: number }
-}
-
-interface AvailableSlot {
-  start_time: string
-  end_time: string
-  available: boolean
-}
-
-interface AvailabilityResponse {
-  resource_id: number
-  resource_name: string
-  query_date: string
-  slot_duration_hours: number
-  available_slots: AvailableSlot[]
-}
-
-interface AlternativeResource {
-  id: number
-  name: string
-  resource_type: string
-  location?: string
-}
-
-interface BookingError {
-  errors: string[]
-  suggestions?: {
-    available_resources?: AlternativeResource[]
-    available_slots?: AvailableSlot[]
-  }
-}
-
 const BookingPage: React.FC = () => {
   const navigate = useNavigate()
   const [resources, setResources] = useState<Resource[]>([])
   const [selectedResource, setSelectedResource] = useState<Resource | null>(null)
   const [selectedDate, setSelectedDate] = useState(dayjs().format('YYYY-MM-DD'))
   const [availability, setAvailability] = useState<AvailabilityResponse | null>(null)
-  const [selectedSlot, setSelectedSlot] = useState<AvailableSlot | null>(null)
+  const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null)
   const [loading, setLoading] = useState(false)
   const [bookingLoading, setBookingLoading] = useState(false)
-  const [alternativeResources, setAlternativeResources] = useState<AlternativeResource[]>([])
-  const [alternativeSlots, setAlternativeSlots] = useState<AvailableSlot[]>([])
+  const [alternativeResources, setAlternativeResources] = useState<Resource[]>([])
+  const [alternativeSlots, setAlternativeSlots] = useState<TimeSlot[]>([])
+
+  const { data: closureData } = useClosures({ start_date: dayjs().format('YYYY-MM-DD'), limit: 500 })
+  const { data: weekdayRules = [] } = useWeekdayRules()
+  const resourceClosures = closuresFor(closureData?.closures ?? [], selectedResource)
+  const closedDays = closedWeekdaysFor(weekdayRules, selectedResource?.resource_type ?? null)
+  const closedWeekday = closedDays.includes(dayjs(selectedDate).day())
+  const closedReason = closedWeekday
+    ? `Closed on ${weekdayNames[dayjs(selectedDate).day()]}s`
+    : fullDayClosureOn(resourceClosures, selectedDate)?.name ?? null
+
+  const { data: policies = [] } = useBookingPolicies()
+  const policy = selectedResource ? policyFor(policies, selectedResource) : defaultPolicy('meeting_room')
+  // This page books hour-long slots where the policy allows them
+  const slotHours = policy.allowed_durations.includes(1) ? 1 : policy.allowed_durations[0]
 
   useEffect(() => {
     fetchResources()
   }, [])
 
   useEffect(() => {
-    if (selectedResource && selectedDate) {
+    if (selectedResource && selectedDate && !closedReason) {
       fetchAvailability()
     }
-  }, [selectedResource, selectedDate])
+  }, [selectedResource, selectedDate, closedReason, slotHours])
 
   async function fetchResources() {
     try {
-      const res = await api.get<{ resources: Resource[]; total: number }>('/resources')
-      const activeResources = (res.resources || []).filter(r => r.is_active)
+      const res = await resourcesApi.list()
+      const activeResources = res.resources.filter(r => r.is_active)
       setResources(activeResources)
     } catch (err: any) {
       console.error('Failed to fetch resources:', err)
@@ -104,9 +85,7 @@ const BookingPage: React.FC = () => {
     setSelectedSlot(null)
     
     try {
-      const res = await api.get<AvailabilityResponse>(
-        `/resources/${selectedResource.id}/availability?date=${selectedDate}&duration=1.0`
-      )
+      const res = await resourcesApi.availability(selectedResource.id, selectedDate, slotHours)
       setAvailability(res)
     } catch (err: any) {
       console.error('Failed to fetch availability:', err)
@@ -128,13 +107,15 @@ const BookingPage: React.FC = () => {
     setAlternativeSlots([])
 
     try {
-      await api.post('/bookings', {
+      await bookingsApi.create({
         resource_id: selectedResource.id,
         start_time: selectedSlot.start_time,
         end_time: selectedSlot.end_time,
       })
 
-      toast.success('Booking created successfully! Awaiting admin approval.')
+      toast.success(policy.auto_approve
+        ? 'Booking confirmed!'
+        : 'Booking created successfully! Awaiting admin approval.')
       
       // Navigate based on user role
       setTimeout(() => {
@@ -148,17 +129,14 @@ const BookingPage: React.FC = () => {
     } catch (err: any) {
       console.error('Booking failed:', err)
       
-      // Handle 422 with suggestions
-      if (err.response?.status === 422 && err.response?.data) {
-        const errorData = err.response.data as BookingError
-        
-        toast.error(errorData.errors?.[0] || 'Time slot not available')
-        
-        if (errorData.suggestions?.available_resources) {
-          setAlternativeResources(errorData.suggestions.available_resources)
-        }
-        if (errorData.suggestions?.available_slots) {
-          setAlternativeSlots(errorData.suggestions.available_slots)
+      // Slot taken in the meantime, possibly with suggestions
+      const conflict = bookingConflictFrom(err)
+      if (conflict) {
+        toast.error(conflict.message || 'Time slot not available')
+
+        if (conflict.suggestions) {
+          setAlternativeResources(conflict.suggestions.resources)
+          setAlternativeSlots(conflict.suggestions.slots)
         }
       } else {
         toast.error(err.message || 'Failed to create booking')
@@ -168,18 +146,19 @@ const BookingPage: React.FC = () => {
     }
   }
 
-  function getSlotStatus(slot: AvailableSlot): 'available' | 'booked' | 'past' | 'current' {
+  function getSlotStatus(slot: TimeSlot): 'available' | 'booked' | 'past' | 'current' | 'closed' {
     const now = dayjs().tz(IST_TIMEZONE)
     const slotStart = dayjs(slot.start_time).tz(IST_TIMEZONE)
     const slotEnd = dayjs(slot.end_time).tz(IST_TIMEZONE)
 
     if (slotEnd.isBefore(now)) return 'past'
     if (slotStart.isBefore(now) && slotEnd.isAfter(now)) return 'current'
+    if (closureOverlapping(resourceClosures, slot)) return 'closed'
     if (!slot.available) return 'booked'
     return 'available'
   }
 
-  function getSlotBadge(status: 'available' | 'booked' | 'past' | 'current') {
+  function getSlotBadge(status: 'available' | 'booked' | 'past' | 'current' | 'closed') {
     const configs = {
       available: { 
         label: 'Available', 
@@ -201,6 +180,11 @@ const BookingPage: React.FC = () => {
         className: 'bg-blue-50 text-blue-700 border-blue-200',
         icon: Clock 
       },
+      closed: {
+        label: 'Closed',
+        className: 'bg-neutral-100 text-neutral-500 border-neutral-200',
+        icon: CalendarOff
+      },
     }
     return configs[status]
   }
@@ -213,7 +197,7 @@ const BookingPage: React.FC = () => {
   }, {} as Record<string, Resource[]>)
 
   const minDate = dayjs().format('YYYY-MM-DD')
-  const maxDate = dayjs().add(30, 'day').format('YYYY-MM-DD')
+  const maxDate = latestBookableDate(policy).format('YYYY-MM-DD')
 
   return (
     <div className="max-w-7xl">
@@ -380,6 +364,14 @@ const BookingPage: React.FC = () => {
                   </div>
                   <p className="text-neutral-500">Select a resource to view available time slots</p>
                 </div>
+              ) : closedReason ? (
+                <div className="text-center py-12">
+                  <div className="w-16 h-16 bg-neutral-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <CalendarOff className="w-8 h-8 text-neutral-400" />
+                  </div>
+                  <p className="font-medium text-neutral-900">{closedReason}</p>
+                  <p className="text-neutral-500 mt-1">{selectedResource.name} can't be booked on this date</p>
+                </div>
               ) : loading ? (
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                   {[1, 2, 3, 4, 5, 6].map(i => (
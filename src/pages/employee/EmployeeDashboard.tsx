@@ -1,10 +1,19 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useMemo } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { api } from '../../lib/api'
+import { bookingsApi } from '../../lib/client'
+import { errorMessage } from '../../lib/apiError'
+import { Booking } from '../../lib/schemas'
+import { useBookings, useCheckInBooking } from '../../hooks/useBookings'
+import { usePolicyForBooking } from '../../hooks/usePolicies'
+import { missedCheckIn, canCheckIn as withinCheckInWindow } from '../../utils/policies'
+import { formatBookingDates, formatBookingTimes, isMultiDay } from '../../utils/equipment'
+import { downloadCalendar } from '../../utils/export'
+import { canAddToCalendar } from '../../utils/ical'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { Calendar, Clock, CheckCircle, XCircle, Eye, MapPin, AlertCircle } from 'lucide-react'
+import { Calendar, CalendarPlus, Clock, CheckCircle, XCircle, Eye, MapPin, AlertCircle, Users } from 'lucide-react'
+import { BookingPurpose } from '../../components/BookingPurpose'
 import {
     Dialog,
     DialogContent,
@@ -21,31 +30,6 @@ dayjs.extend(timezone)
 
 const IST = 'Asia/Kolkata'
 
-interface Booking {
-    id: number
-    resource_id: number
-    user_id: number
-    start_time: string
-    end_time: string
-    status: 'pending' | 'approved' | 'rejected' | 'checked_in' | 'completed' | 'cancelled'
-    checked_in_at?: string | null
-    admin_note?: string | null
-    created_at: string
-    updated_at: string
-    resource?: {
-        id: number
-        name: string
-        resource_type: string
-        location?: string
-    }
-    resource_name?: string
-    user?: {
-        id: number
-        name: string
-        email: string
-    }
-}
-
 const statusBadgeStyles: Record<string, string> = {
     pending: 'bg-amber-50 text-amber-700 border border-amber-200',
     approved: 'bg-blue-50 text-blue-700 border border-blue-200',
@@ -53,70 +37,74 @@ const statusBadgeStyles: Record<string, string> = {
     checked_in: 'bg-emerald-50 text-emerald-700 border border-emerald-200',
     completed: 'bg-violet-50 text-violet-700 border border-violet-200',
     cancelled: 'bg-neutral-100 text-neutral-500 border border-neutral-200',
+    no_show: 'bg-orange-50 text-orange-700 border border-orange-200',
 }
 
 const EmployeeDashboard: React.FC = () => {
     const navigate = useNavigate()
-    const [activeBookings, setActiveBookings] = useState<Booking[]>([])
-    const [recentBookings, setRecentBookings] = useState<Booking[]>([])
-    const [loading, setLoading] = useState(false)
+    const { data, isLoading: loading, isError } = useBookings()
+    const { data: attendingData } = useBookings({ attending: true })
+    const checkInBooking = useCheckInBooking()
+    const policyForBooking = usePolicyForBooking()
     const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
     const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null)
     const [openView, setOpenView] = useState(false)
 
-    async function fetchMyBookings() {
-        setLoading(true)
-        try {
-            const res = await api.get<{ bookings: Booking[] }>('/bookings')
-            const allBookings = res.bookings || []
-
-            const now = dayjs.utc()
-            const active = allBookings
-                .filter(b =>
-                    (b.status === 'approved' || b.status === 'checked_in') &&
-                    dayjs.utc(b.end_time).isAfter(now)
-                )
-                .sort((a, b) => dayjs.utc(b.created_at).valueOf() - dayjs.utc(a.created_at).valueOf())
-                .slice(0, 3)
-
-
-            const recent = allBookings
-                .sort((a, b) => dayjs.utc(b.created_at).valueOf() - dayjs.utc(a.created_at).valueOf())
-                .slice(0, 3)
-
-            setActiveBookings(active)
-            setRecentBookings(recent)
-        } catch (err: any) {
-            console.error('Failed to fetch bookings:', err)
-            setMessage({ type: 'error', text: 'Failed to fetch bookings' })
-        } finally {
-            setLoading(false)
+    const { upcomingBookings, recentBookings } = useMemo(() => {
+        const byNewest = [...(data?.bookings ?? [])]
+            .sort((a, b) => dayjs.utc(b.created_at).valueOf() - dayjs.utc(a.created_at).valueOf())
+
+        const now = dayjs.utc()
+        return {
+            upcomingBookings: byNewest.filter(b =>
+                (b.status === 'approved' || b.status === 'checked_in') &&
+                dayjs.utc(b.end_time).isAfter(now)
+            ),
+            recentBookings: byNewest.slice(0, 3),
         }
-    }
-
-    useEffect(() => {
-        fetchMyBookings()
-    }, [])
+    }, [data])
+
+    // Other people's bookings this employee was invited to, soonest first
+    const invitedBookings = useMemo(() => {
+        const now = dayjs.utc()
+        return (attendingData?.bookings ?? [])
+            .filter(b => (b.status === 'approved' || b.status === 'checked_in') && dayjs.utc(b.end_time).isAfter(now))
+            .sort((a, b) => dayjs.utc(a.start_time).valueOf() - dayjs.utc(b.start_time).valueOf())
+            .slice(0, 5)
+    }, [attendingData])
+
+    // Only the organiser checks in
+    const isInvite = (booking: Booking) => (attendingData?.bookings ?? []).some(b => b.id === booking.id)
+
+    // Missed check-ins are about to be released as no-shows
+    const activeBookings = upcomingBookings
+        .filter(b => {
+            const policy = policyForBooking(b)
+            return !policy || !missedCheckIn(policy, b)
+        })
+        .slice(0, 3)
+
+    // A load failure shows until something newer replaces it
+    const banner = message ?? (isError ? { type: 'error', text: 'Failed to fetch bookings' } : null)
 
     async function onCheckIn(booking: Booking) {
         // if (!confirm(`Check in for ${booking.resource_name}?`)) return
 
         setMessage(null)
         try {
-            await api.post(`/bookings/${booking.id}/check_in`, {})
+            await checkInBooking.mutateAsync({ id: booking.id })
             setMessage({ type: 'success', text: 'Checked in successfully!' })
-            fetchMyBookings()
-        } catch (err: any) {
-            setMessage({ type: 'error', text: err.message || 'Failed to check in' })
+        } catch (err) {
+            setMessage({ type: 'error', text: errorMessage(err, 'Failed to check in') })
         }
     }
 
     async function onViewDetails(booking: Booking) {
         try {
-            const res = await api.get<Booking>(`/bookings/${booking.id}`)
+            const res = await bookingsApi.get(booking.id)
             setSelectedBooking(res)
             setOpenView(true)
-        } catch (err: any) {
+        } catch {
             setMessage({ type: 'error', text: 'Failed to fetch booking details' })
         }
     }
@@ -125,18 +113,10 @@ const EmployeeDashboard: React.FC = () => {
         return statusBadgeStyles[status] || 'bg-neutral-100 text-neutral-500 border border-neutral-200'
     }
 
+    // The window comes from the resource's booking policy
     const canCheckIn = (booking: Booking) => {
-        if (booking.status !== 'approved' || booking.checked_in_at) return false
-
-        const IST = 'Asia/Kolkata'
-
-        const now = dayjs().tz(IST)
-        const start = dayjs.tz(booking.start_time, IST)
-
-        const checkInWindowStart = start.subtract(20, 'minute')
-        const checkInWindowEnd = start.add(15, 'minute')
-
-        return now.isAfter(checkInWindowStart) && now.isBefore(checkInWindowEnd)
+        const policy = policyForBooking(booking)
+        return policy !== null && withinCheckInWindow(policy, booking)
     }
 
 
@@ -166,12 +146,12 @@ const EmployeeDashboard: React.FC = () => {
             </div>
 
             {/* Message Banner */}
-            {message && (
-                <div className={`mb-6 p-4 rounded-lg border ${message.type === 'success'
+            {banner && (
+                <div className={`mb-6 p-4 rounded-lg border ${banner.type === 'success'
                     ? 'bg-emerald-50 border-emerald-200 text-emerald-800'
                     : 'bg-red-50 border-red-200 text-red-800'
                     }`}>
-                    {message.text}
+                    {banner.text}
                 </div>
             )}
 
@@ -198,7 +178,9 @@ const EmployeeDashboard: React.FC = () => {
             <Card className="mb-8 border-neutral-200 shadow-sm">
                 <CardHeader className="border-b border-neutral-100 bg-neutral-50/50">
                     <CardTitle className="text-2xl text-neutral-900">Active & Upcoming Bookings</CardTitle>
-                    <CardDescription className="text-neutral-500">Your approved bookings that need check-in</CardDescription>
+                    <CardDescription className="text-neutral-500">
+                        Your approved bookings that need check-in. Bookings not checked in on time are released as no-shows.
+                    </CardDescription>
                 </CardHeader>
                 <CardContent className="p-6">
                     {loading ? (
@@ -220,7 +202,7 @@ const EmployeeDashboard: React.FC = () => {
                                         <div className="flex-1">
                                             <div className="flex items-center gap-3 mb-3">
                                                 <h4 className="text-lg font-semibold text-neutral-900">
-                                                    {booking?.resource_name || 'Unknown Resource'}
+                                                    {booking.resource_name}
                                                 </h4>
                                                 <Badge variant="secondary" className={getStatusBadge(booking.status)}>
                                                     {booking.status.replace('_', ' ').toUpperCase()}
@@ -232,26 +214,37 @@ const EmployeeDashboard: React.FC = () => {
                                                     </div>
                                                 )}
                                             </div>
+                                            {booking.title && (
+                                                <p className="text-sm text-neutral-700 -mt-2 mb-3">{booking.title}</p>
+                                            )}
 
                                             <div className="grid grid-cols-2 gap-4 text-sm">
                                                 <div className="flex items-center gap-2 text-neutral-500">
                                                     <Calendar className="w-4 h-4" />
-                                                    <span>{formatDate(booking.start_time)}</span>
+                                                    <span>{isMultiDay(booking) ? formatBookingDates(booking) : formatDate(booking.start_time)}</span>
                                                 </div>
                                                 <div className="flex items-center gap-2 text-neutral-500">
                                                     <Clock className="w-4 h-4" />
                                                     <span>
-                                                        {formatTime(booking.start_time)} - {formatTime(booking.end_time)}
+                                                        {isMultiDay(booking)
+                                                            ? formatBookingTimes(booking)
+                                                            : `${formatTime(booking.start_time)} - ${formatTime(booking.end_time)}`}
                                                     </span>
                                                 </div>
-                                                {booking.resource?.location && (
+                                                {booking.resource_location && (
                                                     <div className="flex items-center gap-2 text-neutral-500">
                                                         <MapPin className="w-4 h-4" />
-                                                        <span>{booking.resource.location}</span>
+                                                        <span>{booking.resource_location}</span>
+                                                    </div>
+                                                )}
+                                                {booking.attendees.length > 0 && (
+                                                    <div className="flex items-center gap-2 text-neutral-500">
+                                                        <Users className="w-4 h-4" />
+                                                        <span>{booking.attendees.length} attending</span>
                                                     </div>
                                                 )}
                                                 {/* <div className="flex items-center gap-2 text-neutral-500 capitalize">
-                                                    {booking.resource?.resource_type?.replace('_', ' ') || '-'}
+                                                    {booking.resource_type?.replace('_', ' ') || '-'}
                                                 </div> */}
                                             </div>
                                         </div>
@@ -266,6 +259,16 @@ const EmployeeDashboard: React.FC = () => {
                                                     Check In
                                                 </Button>
                                             )}
+                                            {canAddToCalendar(booking) && (
+                                                <Button
+                                                    variant="outline"
+                                                    onClick={() => downloadCalendar(`booking-${booking.id}.ics`, [booking])}
+                                                    className="border-neutral-300 text-neutral-700 hover:bg-neutral-50"
+                                                    aria-label="Add to calendar"
+                                                >
+                                                    <CalendarPlus className="w-4 h-4" />
+                                                </Button>
+                                            )}
                                             <Button
                                                 variant="outline"
                                                 onClick={() => onViewDetails(booking)}
@@ -283,6 +286,42 @@ const EmployeeDashboard: React.FC = () => {
                 </CardContent>
             </Card>
 
+            {/* Invited To */}
+            {invitedBookings.length > 0 && (
+                <Card className="mb-8 border-neutral-200 shadow-sm">
+                    <CardHeader className="border-b border-neutral-100 bg-neutral-50/50">
+                        <CardTitle className="text-2xl text-neutral-900">You're Invited</CardTitle>
+                        <CardDescription className="text-neutral-500">Upcoming bookings where you're on the attendee list</CardDescription>
+                    </CardHeader>
+                    <CardContent className="p-6">
+                        <div className="space-y-3">
+                            {invitedBookings.map((booking) => (
+                                <div
+                                    key={booking.id}
+                                    onClick={() => onViewDetails(booking)}
+                                    className="border border-neutral-200 rounded-lg p-3 hover:bg-neutral-50 cursor-pointer transition-colors"
+                                >
+                                    <div className="flex items-center justify-between">
+                                        <div className="flex-1">
+                                            <div className="font-medium text-neutral-900 mb-1">{booking.title ?? booking.resource_name}</div>
+                                            <div className="flex flex-wrap items-center gap-4 text-sm text-neutral-500">
+                                                <span>{formatDateTime(booking.start_time)}</span>
+                                                <span className="flex items-center gap-1">
+                                                    <MapPin className="w-3 h-3" />
+                                                    {booking.resource_name}
+                                                </span>
+                                                <span>Organised by {booking.employee_name}</span>
+                                            </div>
+                                        </div>
+                                        <Eye className="w-4 h-4 text-neutral-300" />
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
             {/* Recent Bookings */}
             <Card className="border-neutral-200 shadow-sm">
                 <CardHeader className="border-b border-neutral-100 bg-neutral-50/50">
@@ -305,7 +344,8 @@ const EmployeeDashboard: React.FC = () => {
                                     <div className="flex items-center justify-between">
                                         <div className="flex-1">
                                             <div className="flex items-center gap-2 mb-1">
-                                                <span className="font-medium text-neutral-900">{booking.resource_name || 'Unknown'}</span>
+                                                <span className="font-medium text-neutral-900">{booking.resource_name}</span>
+                                                {booking.title && <span className="text-sm text-neutral-500 truncate">{booking.title}</span>}
                                                 <Badge variant="secondary" className={`${getStatusBadge(booking.status)} text-xs`}>
                                                     {booking.status.replace('_', ' ').toUpperCase()}
                                                 </Badge>
@@ -355,9 +395,9 @@ const EmployeeDashboard: React.FC = () => {
                                 <div className="grid grid-cols-2 gap-4">
                                     <div>
                                         <div className="text-xs font-semibold text-neutral-400 uppercase mb-1">Resource</div>
-                                        <div className="font-medium text-neutral-900">{selectedBooking.resource?.name}</div>
+                                        <div className="font-medium text-neutral-900">{selectedBooking.resource_name}</div>
                                         <div className="text-sm text-neutral-500 capitalize">
-                                            {selectedBooking.resource?.resource_type?.replace('_', ' ')}
+                                            {selectedBooking.resource_type?.replace('_', ' ')}
                                         </div>
                                     </div>
 
@@ -378,10 +418,10 @@ const EmployeeDashboard: React.FC = () => {
                                         <div className="text-sm text-neutral-900">{formatDateTime(selectedBooking.end_time)}</div>
                                     </div>
 
-                                    {selectedBooking.resource?.location && (
+                                    {selectedBooking.resource_location && (
                                         <div>
                                             <div className="text-xs font-semibold text-neutral-400 uppercase mb-1">Location</div>
-                                            <div className="text-sm text-neutral-900">{selectedBooking.resource.location}</div>
+                                            <div className="text-sm text-neutral-900">{selectedBooking.resource_location}</div>
                                         </div>
                                     )}
 
@@ -411,7 +451,9 @@ const EmployeeDashboard: React.FC = () => {
                                 )}
                             </div>
 
-                            {canCheckIn(selectedBooking) && (
+                            <BookingPurpose booking={selectedBooking} />
+
+                            {canCheckIn(selectedBooking) && !isInvite(selectedBooking) && (
                                 <Button
                                     onClick={() => {
                                         onCheckIn(selectedBooking)
@@ -423,6 +465,17 @@ const EmployeeDashboard: React.FC = () => {
                                     Check In Now
                                 </Button>
                             )}
+
+                            {canAddToCalendar(selectedBooking) && (
+                                <Button
+                                    variant="outline"
+                                    onClick={() => downloadCalendar(`booking-${selectedBooking.id}.ics`, [selectedBooking])}
+                                    className="w-full border-neutral-300 text-neutral-700 hover:bg-neutral-50"
+                                >
+                                    <CalendarPlus className="w-4 h-4 mr-2" />
+                                    Add to Calendar
+                                </Button>
+                            )}
                         </div>
                     )}
                 </DialogContent>
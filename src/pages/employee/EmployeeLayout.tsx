@@ -1,12 +1,14 @@
 import React from 'react'
 import { NavLink, Outlet } from 'react-router-dom'
 import Header from '../../components/Header'
-import { CalendarCheck, PlusCircle, History } from 'lucide-react'
+import { CalendarCheck, CalendarDays, PlusCircle, History, LayoutGrid } from 'lucide-react'
 
 const navItems = [
   { to: '/dashboard/employee', label: 'My Bookings', icon: CalendarCheck, end: true },
   { to: '/dashboard/employee/book', label: 'Book Resource', icon: PlusCircle },
   { to: '/dashboard/employee/history', label: 'Booking History', icon: History },
+  { to: '/dashboard/employee/calendar', label: 'Calendar', icon: CalendarDays },
+  { to: '/dashboard/employee/availability', label: 'Availability', icon: LayoutGrid },
 ]
 
 const linkClass = (isActive: boolean) =>
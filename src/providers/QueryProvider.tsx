@@ -2,6 +2,7 @@ import React from 'react'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools'
 import config from '../config'
+import { useAuth } from '../store/authStore'
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -17,6 +18,11 @@ const queryClient = new QueryClient({
   },
 })
 
+// Cached bookings belong to whoever was signed in - drop them on logout
+useAuth.subscribe((state, prev) => {
+  if (prev.token && !state.token) queryClient.clear()
+})
+
 interface QueryProviderProps {
   children: React.ReactNode
 }
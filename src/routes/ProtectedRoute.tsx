@@ -2,6 +2,7 @@ import React, { useEffect } from 'react'
 import { Navigate } from 'react-router-dom'
 import { useAuth } from '../store/authStore'
 import { useAutoLogout } from '../hooks/AutoLogout'
+import { useRealtimeSync } from '../hooks/useRealtime'
 import { Role } from '../types/auth'
 
 interface ProtectedRouteProps {
@@ -17,15 +18,17 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   const user = useAuth(state => state.user)
   const loadFromStorage = useAuth(state => state.loadFromStorage)
   const isTokenExpired = useAuth(state => state.isTokenExpired)
+  const refresh_token = useAuth(state => state.refresh_token)
 
   useAutoLogout()
+  useRealtimeSync()
 
   useEffect(() => {
     loadFromStorage()
   }, [loadFromStorage])
 
-  // Check if token is expired
-  if (isTokenExpired()) {
+  // Check if token is expired - useAutoLogout renews it when it can
+  if (isTokenExpired() && !refresh_token) {
     return <Navigate to="/login" replace />
   }
 
@@ -1,13 +1,15 @@
 import { create } from 'zustand'
-import { User, LoginResponse } from '../types/auth'
+import { User, LoginResponse, RefreshResponse } from '../types/auth'
 import config from '../config'
 
 type AuthState = {
   token: string | null
   user: User | null
   expires_at: string | null
+  refresh_token: string | null
   rememberMe: boolean
   login: (data: LoginResponse, rememberMe?: boolean) => void
+  updateTokens: (data: RefreshResponse) => void
   logout: () => void
   loadFromStorage: () => void
   setUser: (user: User | null) => void
@@ -22,6 +24,7 @@ const getInitialState = () => {
     token: null,
     user: null,
     expires_at: null,
+    refresh_token: null,
     rememberMe: false,
   }
 
@@ -33,8 +36,9 @@ const getInitialState = () => {
     if (stored) {
       const data = JSON.parse(stored)
       
-      // Check expiry immediately
-      if (data.expires_at) {
+      // Check expiry immediately - an expired access token is still usable
+      // as long as we hold a refresh token to renew it with
+      if (data.expires_at && !data.refresh_token) {
         const expiryTime = new Date(data.expires_at).getTime()
         const now = Date.now()
         if (now >= expiryTime) {
@@ -49,6 +53,7 @@ const getInitialState = () => {
         token: data.token,
         user: data.user,
         expires_at: data.expires_at,
+        refresh_token: data.refresh_token || null,
         rememberMe: data.rememberMe || false,
       }
     }
@@ -68,6 +73,7 @@ export const useAuth = create<AuthState>((set, get) => ({
       token: data.token,
       user: data.user,
       expires_at: data.expires_at,
+      refresh_token: data.refresh_token || null,
       rememberMe
     }
     
@@ -76,6 +82,7 @@ export const useAuth = create<AuthState>((set, get) => ({
       token: data.token,
       user: data.user,
       expires_at: data.expires_at,
+      refresh_token: data.refresh_token || null,
       rememberMe
     })
 
@@ -87,8 +94,29 @@ export const useAuth = create<AuthState>((set, get) => ({
     }
   },
 
+  updateTokens: (data) => {
+    // Keep the current refresh token unless the backend rotated it
+    const refresh_token = data.refresh_token || get().refresh_token
+    set({ token: data.token, expires_at: data.expires_at, refresh_token })
+
+    const localStored = localStorage.getItem(config.tokenKey)
+    const sessionStored = sessionStorage.getItem(config.tokenKey)
+    const stored = localStored || sessionStored
+
+    if (stored) {
+      const persisted = JSON.parse(stored)
+      const storageToUse = localStored ? localStorage : sessionStorage
+      storageToUse.setItem(config.tokenKey, JSON.stringify({
+        ...persisted,
+        token: data.token,
+        expires_at: data.expires_at,
+        refresh_token,
+      }))
+    }
+  },
+
   logout: () => {
-    set({ token: null, user: null, expires_at: null, rememberMe: false })
+    set({ token: null, user: null, expires_at: null, refresh_token: null, rememberMe: false })
     localStorage.removeItem(config.tokenKey)
     sessionStorage.removeItem(config.tokenKey)
   },
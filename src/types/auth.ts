@@ -14,4 +14,13 @@ export interface LoginResponse {
   token: string
   user: User
   expires_at: string
-}
\ No newline at end of file
+  // Some backends send null rather than leaving it out
+  refresh_token?: string | null
+}
+
+// POST /auth/refresh - the backend may rotate the refresh token
+export interface RefreshResponse {
+  token: string
+  expires_at: string
+  refresh_token?: string
+}
@@ -0,0 +1,31 @@
+import dayjs from 'dayjs'
+import { Booking, BookingChange, BookingChangeStatus } from '../lib/schemas'
+
+export const changeStatusConfig: Record<BookingChangeStatus, { label: string; color: string }> = {
+  pending: { label: 'Awaiting approval', color: 'bg-amber-50 text-amber-700 border-amber-200' },
+  approved: { label: 'Applied', color: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  rejected: { label: 'Declined', color: 'bg-red-50 text-red-700 border-red-200' },
+  withdrawn: { label: 'Withdrawn', color: 'bg-neutral-100 text-neutral-500 border-neutral-200' },
+}
+
+// At most one change is open at a time; the server refuses a second
+export function pendingChange(booking: Pick<Booking, 'change_requests'>) {
+  return booking.change_requests.find(c => c.status === 'pending') ?? null
+}
+
+// Only slots that haven't started can move, and not while a change is already waiting
+export function canRequestChange(booking: Booking) {
+  return ['pending', 'approved'].includes(booking.status) &&
+    !booking.checked_in_at &&
+    dayjs(booking.start_time).isAfter(dayjs()) &&
+    pendingChange(booking) === null
+}
+
+// 'Tue, Oct 20 · 3:00 PM – 4:00 PM'
+export function formatChangeSlot(start: string, end: string) {
+  return `${dayjs(start).format('ddd, MMM D')} · ${dayjs(start).format('h:mm A')} – ${dayjs(end).format('h:mm A')}`
+}
+
+export function movesResource(change: BookingChange) {
+  return change.resource_id !== change.previous_resource_id
+}
@@ -0,0 +1,19 @@
+import dayjs from 'dayjs'
+import { Booking, BookingStatus } from '../lib/schemas'
+
+// Statuses that hold (or may soon hold) a resource's time slot
+export const slotHoldingStatuses: BookingStatus[] = ['approved', 'pending', 'checked_in']
+
+export function bookingsOverlap(a: Pick<Booking, 'start_time' | 'end_time'>, b: Pick<Booking, 'start_time' | 'end_time'>) {
+  return dayjs(a.start_time).isBefore(dayjs(b.end_time)) && dayjs(b.start_time).isBefore(dayjs(a.end_time))
+}
+
+// Other bookings on the same resource that would clash with `candidate`
+export function findConflicts(candidate: Booking, bookings: Booking[]) {
+  return bookings.filter(b =>
+    b.id !== candidate.id &&
+    b.resource_id === candidate.resource_id &&
+    slotHoldingStatuses.includes(b.status) &&
+    bookingsOverlap(candidate, b)
+  )
+}
@@ -0,0 +1,19 @@
+import { CheckCircle, Clock, Filter, LucideIcon, UserX, XCircle } from 'lucide-react'
+
+// Status palette shared by the bookings table and the calendar
+export const statusConfig: Record<string, { label: string; color: string; icon: LucideIcon }> = {
+  all:        { label: 'All Bookings', color: 'bg-neutral-100 text-neutral-700 border-neutral-300', icon: Filter },
+  pending:    { label: 'Pending',      color: 'bg-amber-50 text-amber-700 border-amber-200',       icon: Clock },
+  approved:   { label: 'Approved',     color: 'bg-blue-50 text-blue-700 border-blue-200',          icon: CheckCircle },
+  checked_in: { label: 'Checked In',   color: 'bg-emerald-50 text-emerald-700 border-emerald-200', icon: CheckCircle },
+  completed:  { label: 'Completed',    color: 'bg-violet-50 text-violet-700 border-violet-200',    icon: CheckCircle },
+  rejected:   { label: 'Rejected',     color: 'bg-red-50 text-red-700 border-red-200',             icon: XCircle },
+  cancelled:  { label: 'Cancelled',    color: 'bg-neutral-100 text-neutral-500 border-neutral-200', icon: XCircle },
+  no_show:    { label: 'No-show',      color: 'bg-orange-50 text-orange-700 border-orange-200',    icon: UserX },
+}
+
+const defaultStatusStyle = { label: 'Unknown', color: 'bg-neutral-100 text-neutral-500 border-neutral-200', icon: Filter }
+
+export function getStatusConfig(status: string) {
+  return statusConfig[status] || defaultStatusStyle
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest'
+import dayjs from 'dayjs'
+import { Closure } from '../lib/schemas'
+import { closedDates, closureOverlapping, parseClosuresCsv, parseClosuresIcs } from './closures'
+
+function closure(overrides: Partial<Closure> = {}): Closure {
+  return {
+    id: 1,
+    name: 'Maintenance',
+    scope: 'company',
+    location: null,
+    resource_id: null,
+    resource_name: null,
+    start_date: '2026-12-01',
+    end_date: '2026-12-03',
+    start_time: '12:00',
+    end_time: '13:00',
+    ...overrides,
+  }
+}
+
+// Local wall-clock times, as the booking screens build them
+const slot = (day: string, from: string, to: string) => ({
+  start_time: dayjs(`${day}T${from}`).toISOString(),
+  end_time: dayjs(`${day}T${to}`).toISOString(),
+})
+
+const ics = (...lines: string[]) => ['BEGIN:VCALENDAR', ...lines, 'END:VCALENDAR'].join('\r\n')
+
+describe('parseClosuresCsv', () => {
+  it('defaults the scope to a company holiday and the end date to the start date', () => {
+    const [row] = parseClosuresCsv('name,start_date\nChristmas Day,2026-12-25\n')
+
+    expect(row).toEqual({
+      row: 2,
+      error: null,
+      values: { name: 'Christmas Day', scope: 'company', start_date: '2026-12-25', end_date: '2026-12-25' },
+    })
+  })
+
+  it('reads quoted cells with commas and doubled quotes', () => {
+    const [row] = parseClosuresCsv('name,start_date,end_date\n"Shutdown, ""winter"" edition",2026-12-24,2026-12-31')
+
+    expect(row.values?.name).toBe('Shutdown, "winter" edition')
+    expect(row.values?.end_date).toBe('2026-12-31')
+  })
+
+  it('matches headers in any order and case, and skips a BOM, CRLF and blank lines', () => {
+    const text = '\uFEFFStart_Date,Scope,Location,Name\r\n\r\n2026-11-02,location,Pune,Office move\r\n'
+    const rows = parseClosuresCsv(text)
+
+    expect(rows).toHaveLength(1)
+    expect(rows[0].values).toMatchObject({ name: 'Office move', scope: 'location', location: 'Pune', start_date: '2026-11-02' })
+  })
+
+  it('turns resource_id into a number and keeps daily windows', () => {
+    const [row] = parseClosuresCsv(
+      'name,scope,resource_id,start_date,end_date,start_time,end_time\nProjector service,resource,12,2026-12-01,2026-12-03,12:00,13:00'
+    )
+
+    expect(row.values).toMatchObject({ resource_id: 12, start_time: '12:00', end_time: '13:00' })
+  })
+
+  it('reports invalid rows by line number and keeps the valid ones', () => {
+    const rows = parseClosuresCsv('name,start_date,end_date\nGood,2026-12-25,2026-12-25\n,2026-12-26,2026-12-26\nBackwards,2026-12-31,2026-12-30')
+
+    expect(rows.map(r => [r.row, r.error])).toEqual([
+      [2, null],
+      [3, 'Name is required'],
+      [4, 'End date must not be before start date'],
+    ])
+    expect(rows[1].values).toBeNull()
+  })
+
+  it('returns nothing for an empty file', () => {
+    expect(parseClosuresCsv('\n\n')).toEqual([])
+  })
+})
+
+describe('parseClosuresIcs', () => {
+  it('treats an all-day DTEND as exclusive', () => {
+    const [single, multi] = parseClosuresIcs(ics(
+      'BEGIN:VEVENT', 'SUMMARY:Christmas Day', 'DTSTART;VALUE=DATE:20261225', 'DTEND;VALUE=DATE:20261226', 'END:VEVENT',
+      'BEGIN:VEVENT', 'SUMMARY:Year end', 'DTSTART;VALUE=DATE:20261228', 'DTEND;VALUE=DATE:20270101', 'END:VEVENT',
+    ))
+
+    expect(single.values).toMatchObject({ scope: 'company', start_date: '2026-12-25', end_date: '2026-12-25' })
+    expect(single.values?.start_time).toBeUndefined()
+    expect(multi.values).toMatchObject({ start_date: '2026-12-28', end_date: '2026-12-31' })
+  })
+
+  it('falls back to the start day when DTEND is missing', () => {
+    const [row] = parseClosuresIcs(ics('BEGIN:VEVENT', 'SUMMARY:Founders day', 'DTSTART:20261110', 'END:VEVENT'))
+    expect(row.values).toMatchObject({ start_date: '2026-11-10', end_date: '2026-11-10' })
+  })
+
+  it('keeps floating times as written', () => {
+    const [row] = parseClosuresIcs(ics(
+      'BEGIN:VEVENT', 'SUMMARY:Fire drill', 'DTSTART:20261204T150000', 'DTEND:20261204T163000', 'END:VEVENT',
+    ))
+    expect(row.values).toMatchObject({ start_date: '2026-12-04', end_date: '2026-12-04', start_time: '15:00', end_time: '16:30' })
+  })
+
+  it('converts UTC times to local ones', () => {
+    // Early enough in UTC that the hour stays on one local day in every zone
+    const [row] = parseClosuresIcs(ics(
+      'BEGIN:VEVENT', 'SUMMARY:Network work', 'DTSTART:20261204T020000Z', 'DTEND:20261204T030000Z', 'END:VEVENT',
+    ))
+    const start = dayjs('2026-12-04T02:00:00Z')
+    expect(row.values).toMatchObject({
+      start_date: start.format('YYYY-MM-DD'),
+      start_time: start.format('HH:mm'),
+      end_time: start.add(1, 'hour').format('HH:mm'),
+    })
+  })
+
+  it('unfolds continuation lines and unescapes text', () => {
+    const [row] = parseClosuresIcs(ics(
+      'BEGIN:VEVENT', 'SUMMARY:Offsite\\, all', '  hands\\; day one', 'DTSTART:20261201', 'END:VEVENT',
+    ))
+    expect(row.values?.name).toBe('Offsite, all hands; day one')
+  })
+
+  it('numbers events and reports an unreadable DTSTART', () => {
+    const rows = parseClosuresIcs(ics(
+      'BEGIN:VEVENT', 'SUMMARY:Fine', 'DTSTART:20261201', 'END:VEVENT',
+      'BEGIN:VEVENT', 'SUMMARY:Broken', 'DTSTART:next tuesday', 'END:VEVENT',
+    ))
+    expect(rows.map(r => [r.row, r.error])).toEqual([[1, null], [2, 'Missing or unreadable DTSTART']])
+  })
+})
+
+describe('closureOverlapping', () => {
+  const closures = [closure()]
+
+  it('finds a daily window the slot runs into', () => {
+    expect(closureOverlapping(closures, slot('2026-12-02', '12:30', '13:30'))).toBe(closures[0])
+    expect(closureOverlapping(closures, slot('2026-12-02', '11:00', '12:30'))).toBe(closures[0])
+  })
+
+  it('allows slots that only touch the window', () => {
+    expect(closureOverlapping(closures, slot('2026-12-02', '11:00', '12:00'))).toBeNull()
+    expect(closureOverlapping(closures, slot('2026-12-02', '13:00', '14:00'))).toBeNull()
+  })
+
+  it('only applies between the start and end dates', () => {
+    expect(closureOverlapping(closures, slot('2026-12-01', '12:00', '13:00'))).toBe(closures[0])
+    expect(closureOverlapping(closures, slot('2026-12-03', '12:00', '13:00'))).toBe(closures[0])
+    expect(closureOverlapping(closures, slot('2026-12-04', '12:00', '13:00'))).toBeNull()
+  })
+
+  it('ignores all-day closures, which close the whole date instead', () => {
+    const allDay = closure({ start_time: null, end_time: null })
+    expect(closureOverlapping([allDay], slot('2026-12-02', '12:00', '13:00'))).toBeNull()
+    expect(closedDates([allDay])).toEqual(['2026-12-01', '2026-12-02', '2026-12-03'])
+  })
+})
@@ -0,0 +1,149 @@
+import dayjs from 'dayjs'
+import { Closure, Resource, WeekdayRule } from '../lib/schemas'
+import { ClosureFormValues, closureSchema, ResourceType } from './validators'
+
+// Resource types without a rule keep the office week
+export const DEFAULT_CLOSED_WEEKDAYS = [0, 6]
+
+export const weekdayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+export function closedWeekdaysFor(rules: WeekdayRule[], type: ResourceType | null) {
+  return rules.find(r => r.resource_type === type)?.closed_weekdays ?? DEFAULT_CLOSED_WEEKDAYS
+}
+
+// Company holidays plus anything closing the resource's location or the resource itself
+export function closuresFor(closures: Closure[], resource: Pick<Resource, 'id' | 'location'> | null) {
+  return closures.filter(c =>
+    c.scope === 'company' ||
+    (c.scope === 'location' && c.location === resource?.location) ||
+    (c.scope === 'resource' && c.resource_id === resource?.id)
+  )
+}
+
+// The all-day closure covering `date`, if any
+export function fullDayClosureOn(closures: Closure[], date: Date | string) {
+  const day = dayjs(date).format('YYYY-MM-DD')
+  return closures.find(c => !c.start_time && c.start_date <= day && day <= c.end_date) ?? null
+}
+
+// A daily window (e.g. maintenance) overlapping the slot, if any
+export function closureOverlapping(closures: Closure[], slot: { start_time: string; end_time: string }) {
+  const start = dayjs(slot.start_time)
+  const end = dayjs(slot.end_time)
+  const day = start.format('YYYY-MM-DD')
+
+  return closures.find(c => {
+    if (!c.start_time || !c.end_time || day < c.start_date || day > c.end_date) return false
+    return start.isBefore(dayjs(`${day}T${c.end_time}`)) && end.isAfter(dayjs(`${day}T${c.start_time}`))
+  }) ?? null
+}
+
+// Every date closed all day, for skipping recurring occurrences
+export function closedDates(closures: Closure[]) {
+  return closures.filter(c => !c.start_time).flatMap(c => {
+    const dates: string[] = []
+    for (let d = dayjs(c.start_date); !d.isAfter(dayjs(c.end_date)); d = d.add(1, 'day')) {
+      dates.push(d.format('YYYY-MM-DD'))
+    }
+    return dates
+  })
+}
+
+// ── Import ──
+
+export interface ImportedClosure {
+  // 1-based line (CSV) or event (iCal) number, for error messages
+  row: number
+  values: ClosureFormValues | null
+  error: string | null
+}
+
+function validate(row: number, raw: Record<string, unknown>): ImportedClosure {
+  const result = closureSchema.safeParse(raw)
+  return result.success
+    ? { row, values: result.data, error: null }
+    : { row, values: null, error: result.error.issues[0]?.message ?? 'Invalid row' }
+}
+
+function splitCsvLine(line: string) {
+  const cells: string[] = []
+  let cell = ''
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i]
+    if (quoted && ch === '"' && line[i + 1] === '"') { cell += '"'; i++ }
+    else if (ch === '"') quoted = !quoted
+    else if (ch === ',' && !quoted) { cells.push(cell); cell = '' }
+    else cell += ch
+  }
+  cells.push(cell)
+  return cells.map(c => c.trim())
+}
+
+// Header row required. Only name and start_date are mandatory; scope defaults
+// to a company holiday and end_date to start_date.
+export function parseClosuresCsv(text: string): ImportedClosure[] {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim())
+  if (lines.length === 0) return []
+  const headers = splitCsvLine(lines[0]).map(h => h.toLowerCase())
+
+  return lines.slice(1).map((line, i) => {
+    const cells = splitCsvLine(line)
+    const get = (key: string) => cells[headers.indexOf(key)] || undefined
+    const resourceId = get('resource_id')
+    return validate(i + 2, {
+      // Blank rather than missing, so the error says the name is required
+      name: get('name') ?? '',
+      scope: get('scope') ?? 'company',
+      location: get('location'),
+      resource_id: resourceId ? Number(resourceId) : undefined,
+      start_date: get('start_date'),
+      end_date: get('end_date') ?? get('start_date'),
+      start_time: get('start_time'),
+      end_time: get('end_time'),
+    })
+  })
+}
+
+// Reads DTSTART/DTEND values: 20261225 or 20261225T090000(Z)
+function parseIcsDate(value: string) {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z?))?$/)
+  if (!match) return null
+  const [, y, m, d, hh, mm, utc] = match
+  if (!hh) return { date: dayjs(`${y}-${m}-${d}`), timed: false }
+  const iso = `${y}-${m}-${d}T${hh}:${mm}:00${utc ? 'Z' : ''}`
+  return { date: dayjs(iso), timed: true }
+}
+
+// Each VEVENT becomes a company-wide closure. All-day DTENDs are exclusive.
+export function parseClosuresIcs(text: string): ImportedClosure[] {
+  // Unfold continuation lines (RFC 5545 3.1)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+  const events: Record<string, string>[] = []
+  let current: Record<string, string> | null = null
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT') current = {}
+    else if (line === 'END:VEVENT' && current) { events.push(current); current = null }
+    else if (current) {
+      const separator = line.indexOf(':')
+      if (separator > 0) current[line.slice(0, separator).split(';')[0].toUpperCase()] = line.slice(separator + 1)
+    }
+  })
+
+  return events.map((event, i) => {
+    const start = parseIcsDate(event.DTSTART ?? '')
+    const end = parseIcsDate(event.DTEND ?? '') ?? start
+    if (!start || !end) return { row: i + 1, values: null, error: 'Missing or unreadable DTSTART' }
+
+    const lastDay = end.timed ? end.date : end.date.subtract(1, 'day')
+    return validate(i + 1, {
+      name: (event.SUMMARY ?? '').replace(/\\([,;\\])/g, '$1').replace(/\\n/gi, ' '),
+      scope: 'company',
+      start_date: start.date.format('YYYY-MM-DD'),
+      end_date: (lastDay.isBefore(start.date) ? start.date : lastDay).format('YYYY-MM-DD'),
+      start_time: start.timed ? start.date.format('HH:mm') : undefined,
+      end_time: start.timed ? end.date.format('HH:mm') : undefined,
+    })
+  })
+}
@@ -0,0 +1,39 @@
+import dayjs from 'dayjs'
+import { Booking } from '../lib/schemas'
+import { ResourceType } from './validators'
+
+// Borrowed by the day with a checkout and return, instead of booked by the slot
+export const equipmentTypes: ResourceType[] = ['laptop', 'phone']
+
+export function isEquipment(type: ResourceType | null | undefined) {
+  return type != null && equipmentTypes.includes(type)
+}
+
+// A loan runs from the start of the checkout day to the end of the return day
+export function loanWindow(checkout: Date, returnDate: Date) {
+  return {
+    start_time: dayjs(checkout).startOf('day').toISOString(),
+    end_time: dayjs(returnDate).endOf('day').toISOString(),
+  }
+}
+
+export function isMultiDay(booking: Pick<Booking, 'start_time' | 'end_time'>) {
+  return !dayjs(booking.start_time).isSame(dayjs(booking.end_time), 'day')
+}
+
+export function loanDays(booking: Pick<Booking, 'start_time' | 'end_time'>) {
+  return dayjs(booking.end_time).startOf('day').diff(dayjs(booking.start_time).startOf('day'), 'day') + 1
+}
+
+// The date and time lines booking tables show; loans read as a date range
+export function formatBookingDates(booking: Pick<Booking, 'start_time' | 'end_time'>) {
+  const start = dayjs(booking.start_time)
+  return isMultiDay(booking)
+    ? `${start.format('MMM D')} – ${dayjs(booking.end_time).format('MMM D, YYYY')}`
+    : start.format('MMM D, YYYY')
+}
+
+export function formatBookingTimes(booking: Pick<Booking, 'start_time' | 'end_time'>) {
+  if (isMultiDay(booking)) return `${loanDays(booking)} days`
+  return `${dayjs(booking.start_time).format('h:mm A')} – ${dayjs(booking.end_time).format('h:mm A')}`
+}
@@ -0,0 +1,127 @@
+import { jsPDF } from 'jspdf'
+import autoTable from 'jspdf-autotable'
+import dayjs from 'dayjs'
+import { Booking } from '../lib/schemas'
+import { CalendarBooking, toICalendar } from './ical'
+
+export interface ExportColumn<T> {
+  header: string
+  value: (row: T) => string | number | null | undefined
+}
+
+export interface ExportTable {
+  title: string
+  head: string[]
+  body: string[][]
+}
+
+export interface PdfReport {
+  title: string
+  // One line per active filter, printed under the title
+  filters?: string[]
+  tables: ExportTable[]
+}
+
+export const bookingExportColumns: ExportColumn<Booking>[] = [
+  { header: 'ID', value: b => b.id },
+  { header: 'Resource', value: b => b.resource_name },
+  { header: 'Location', value: b => b.resource_location },
+  { header: 'Employee', value: b => b.employee_name },
+  { header: 'Employee ID', value: b => b.employee_id },
+  { header: 'Start', value: b => dayjs(b.start_time).format('YYYY-MM-DD HH:mm') },
+  { header: 'End', value: b => dayjs(b.end_time).format('YYYY-MM-DD HH:mm') },
+  { header: 'Status', value: b => b.status.replace(/_/g, ' ') },
+  { header: 'Created', value: b => dayjs(b.created_at).format('YYYY-MM-DD HH:mm') },
+  { header: 'Admin Note', value: b => b.admin_note },
+]
+
+function cellText(value: string | number | null | undefined) {
+  return value == null ? '' : String(value)
+}
+
+// Quote when needed, and defuse values a spreadsheet would run as a formula
+function csvCell(value: string | number | null | undefined) {
+  let text = cellText(value)
+  if (/^[=+\-@]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toTable<T>(title: string, columns: ExportColumn<T>[], rows: T[]): ExportTable {
+  return {
+    title,
+    head: columns.map(c => c.header),
+    body: rows.map(row => columns.map(c => cellText(c.value(row)))),
+  }
+}
+
+function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  // Some browsers start the download after click() returns; revoking straight
+  // away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+// Date-stamped file name, e.g. bookings-2026-10-19.csv
+export function exportFilename(base: string, extension: 'csv' | 'pdf') {
+  return `${base}-${dayjs().format('YYYY-MM-DD')}.${extension}`
+}
+
+export function downloadCsv<T>(filename: string, columns: ExportColumn<T>[], rows: T[]) {
+  const lines = [
+    columns.map(c => csvCell(c.header)).join(','),
+    ...rows.map(row => columns.map(c => csvCell(c.value(row))).join(',')),
+  ]
+  // BOM so Excel opens UTF-8 names correctly
+  saveBlob(new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' }), filename)
+}
+
+// One event per booking, opened by whatever calendar app handles .ics
+export function downloadCalendar(filename: string, bookings: CalendarBooking[]) {
+  saveBlob(new Blob([toICalendar(bookings)], { type: 'text/calendar;charset=utf-8' }), filename)
+}
+
+export function downloadPdf(filename: string, report: PdfReport) {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' })
+  const margin = 40
+
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(18)
+  doc.text(report.title, margin, 50)
+
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(9)
+  doc.setTextColor(115)
+  doc.text(`Generated ${dayjs().format('MMM D, YYYY h:mm A')}`, margin, 66)
+
+  let y = 82
+  const filters = report.filters?.length ? report.filters : ['No filters applied']
+  filters.forEach(line => {
+    doc.text(line, margin, y)
+    y += 12
+  })
+
+  report.tables.forEach(table => {
+    y += 16
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(12)
+    doc.setTextColor(23)
+    doc.text(table.title, margin, y)
+
+    autoTable(doc, {
+      head: [table.head],
+      body: table.body.length ? table.body : [[{ content: 'No data', colSpan: table.head.length }]],
+      startY: y + 8,
+      margin: { left: margin, right: margin },
+      styles: { fontSize: 8, cellPadding: 4 },
+      headStyles: { fillColor: [23, 23, 23], textColor: 255 },
+      alternateRowStyles: { fillColor: [245, 245, 245] },
+      didDrawPage: data => { y = data.cursor?.y ?? y },
+    })
+  })
+
+  doc.save(filename)
+}
@@ -0,0 +1,23 @@
+import { FieldValues, Path, UseFormSetError } from 'react-hook-form'
+import { isApiError } from '../lib/apiError'
+
+// Puts the server's validation messages on the inputs they belong to. Only
+// `fields` the form actually renders are set; returns whether any were, so
+// callers can fall back to a toast.
+export function applyFieldErrors<T extends FieldValues>(
+  err: unknown,
+  setError: UseFormSetError<T>,
+  fields: readonly Path<T>[]
+) {
+  if (!isApiError(err)) return false
+
+  let applied = false
+  for (const [field, message] of Object.entries(err.fieldErrors)) {
+    // Resource properties may come back bare ('capacity') or nested
+    const name = fields.find(f => f === field || f === `properties.${field}`)
+    if (!name) continue
+    setError(name, { type: 'server', message }, { shouldFocus: !applied })
+    applied = true
+  }
+  return applied
+}
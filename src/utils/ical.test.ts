@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest'
+import dayjs from 'dayjs'
+import { CalendarBooking, toICalendar } from './ical'
+
+const NOW = dayjs('2026-01-15T12:00:00Z')
+
+function booking(overrides: Partial<CalendarBooking> = {}): CalendarBooking {
+  return {
+    id: 1,
+    status: 'approved',
+    start_time: '2026-06-01T14:00:00Z',
+    end_time: '2026-06-01T15:00:00Z',
+    resource_name: 'Room A',
+    resource_location: '',
+    title: null,
+    description: null,
+    updated_at: '2026-01-10T09:30:00Z',
+    ...overrides,
+  }
+}
+
+// Undo folding so each property is one string again
+function unfold(ics: string) {
+  return ics.replace(/\r\n /g, '').split('\r\n').filter(Boolean)
+}
+
+function componentsOf(lines: string[], name: string) {
+  const found: string[][] = []
+  let current: string[] | null = null
+  for (const line of lines) {
+    if (line === `BEGIN:${name}`) current = []
+    else if (line === `END:${name}` && current) {
+      found.push(current)
+      current = null
+    } else if (current) current.push(line)
+  }
+  return found
+}
+
+const valueOf = (component: string[], property: string) =>
+  component.find(line => line.startsWith(`${property}:`) || line.startsWith(`${property};`))?.split(':').slice(1).join(':')
+
+describe('toICalendar', () => {
+  it('wraps the events in a VCALENDAR with CRLF line endings', () => {
+    const ics = toICalendar([booking()], 'UTC', NOW)
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true)
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    // No bare line feeds anywhere
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/)
+  })
+
+  it('writes one VEVENT per booking with a stable UID and status', () => {
+    const lines = unfold(toICalendar([booking(), booking({ id: 2, status: 'cancelled' })], 'UTC', NOW))
+    const events = componentsOf(lines, 'VEVENT')
+
+    expect(events).toHaveLength(2)
+    expect(valueOf(events[0], 'UID')).toBe('booking-1@resource-allocator')
+    expect(valueOf(events[0], 'STATUS')).toBe('CONFIRMED')
+    expect(valueOf(events[1], 'STATUS')).toBe('CANCELLED')
+    expect(valueOf(events[0], 'DTSTAMP')).toBe('20260115T120000Z')
+    expect(valueOf(events[0], 'LAST-MODIFIED')).toBe('20260110T093000Z')
+  })
+
+  describe('in a zone with daylight saving (America/New_York)', () => {
+    const bookings = [
+      // Before the March change: EST, UTC-5
+      booking({ id: 1, start_time: '2026-03-02T14:00:00Z', end_time: '2026-03-02T15:00:00Z' }),
+      // Between the changes: EDT, UTC-4
+      booking({ id: 2, start_time: '2026-07-01T14:00:00Z', end_time: '2026-07-01T15:00:00Z' }),
+      // After the November change: EST again
+      booking({ id: 3, start_time: '2026-11-02T14:00:00Z', end_time: '2026-11-02T15:00:00Z' }),
+    ]
+    const lines = unfold(toICalendar(bookings, 'America/New_York', NOW))
+
+    it('converts UTC times to local wall-clock times on either side of each change', () => {
+      const events = componentsOf(lines, 'VEVENT')
+
+      expect(events[0]).toContain('DTSTART;TZID=America/New_York:20260302T090000')
+      expect(events[0]).toContain('DTEND;TZID=America/New_York:20260302T100000')
+      expect(events[1]).toContain('DTSTART;TZID=America/New_York:20260701T100000')
+      expect(events[2]).toContain('DTSTART;TZID=America/New_York:20261102T090000')
+    })
+
+    it('describes both transitions in the VTIMEZONE', () => {
+      const [timezone] = componentsOf(lines, 'VTIMEZONE')
+      expect(timezone[0]).toBe('TZID:America/New_York')
+
+      const daylight = componentsOf(timezone, 'DAYLIGHT')
+      const standard = componentsOf(timezone, 'STANDARD')
+
+      // Clocks go forward at 2am on March 8 and back at 2am on November 1
+      expect(daylight).toEqual([
+        ['DTSTART:20260308T020000', 'TZOFFSETFROM:-0500', 'TZOFFSETTO:-0400'],
+      ])
+      expect(standard).toEqual([
+        ['DTSTART:20260101T000000', 'TZOFFSETFROM:-0500', 'TZOFFSETTO:-0500'],
+        ['DTSTART:20261101T020000', 'TZOFFSETFROM:-0400', 'TZOFFSETTO:-0500'],
+      ])
+    })
+  })
+
+  describe('in a fixed-offset zone (Asia/Kolkata)', () => {
+    const lines = unfold(toICalendar([booking()], 'Asia/Kolkata', NOW))
+
+    it('applies the half-hour offset', () => {
+      const [event] = componentsOf(lines, 'VEVENT')
+      expect(event).toContain('DTSTART;TZID=Asia/Kolkata:20260601T193000')
+      expect(event).toContain('DTEND;TZID=Asia/Kolkata:20260601T203000')
+    })
+
+    it('has a single standard observance and no daylight one', () => {
+      const [timezone] = componentsOf(lines, 'VTIMEZONE')
+      expect(componentsOf(timezone, 'DAYLIGHT')).toEqual([])
+      expect(componentsOf(timezone, 'STANDARD')).toEqual([
+        ['DTSTART:20260101T000000', 'TZOFFSETFROM:+0530', 'TZOFFSETTO:+0530'],
+      ])
+    })
+  })
+
+  it('escapes backslashes, semicolons, commas and newlines in text', () => {
+    const lines = unfold(toICalendar([booking({
+      title: 'Planning; Q3, draft',
+      description: 'Bring C:\\notes\nand snacks',
+      resource_location: 'Floor 2, East',
+    })], 'UTC', NOW))
+    const [event] = componentsOf(lines, 'VEVENT')
+
+    expect(event).toContain('SUMMARY:Planning\\; Q3\\, draft')
+    expect(event).toContain('DESCRIPTION:Bring C:\\\\notes\\nand snacks')
+    expect(event).toContain('LOCATION:Room A\\, Floor 2\\, East')
+  })
+
+  it('falls back to the resource name when there is no title', () => {
+    const [event] = componentsOf(unfold(toICalendar([booking()], 'UTC', NOW)), 'VEVENT')
+    expect(event).toContain('SUMMARY:Room A')
+  })
+
+  it('folds lines longer than 75 octets without splitting multi-byte characters', () => {
+    const description = 'Café meeting — '.repeat(20)
+    const ics = toICalendar([booking({ description })], 'UTC', NOW)
+    const physical = ics.split('\r\n')
+    const encoder = new TextEncoder()
+
+    for (const line of physical) expect(encoder.encode(line).length).toBeLessThanOrEqual(75)
+    expect(physical.some(line => line.startsWith(' '))).toBe(true)
+    // Nothing lost or mangled once unfolded
+    expect(unfold(ics)).toContain(`DESCRIPTION:${description}`)
+  })
+})
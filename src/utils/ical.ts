@@ -0,0 +1,206 @@
+import dayjs, { Dayjs } from 'dayjs'
+import utc from 'dayjs/plugin/utc'
+import { Booking } from '../lib/schemas'
+
+dayjs.extend(utc)
+
+// iCalendar (RFC 5545) for bookings. Times are written in the viewer's zone
+// with a matching VTIMEZONE, so calendar apps show them as booked rather than
+// shifted by whatever zone they guess.
+
+const PRODUCT_ID = '-//Resource Allocator//Bookings//EN'
+const UID_DOMAIN = 'resource-allocator'
+
+export type CalendarBooking = Pick<Booking,
+  'id' | 'status' | 'start_time' | 'end_time' | 'resource_name' | 'resource_location' | 'title' | 'description' | 'updated_at'>
+
+// Only bookings that will actually happen belong in someone's calendar
+export function canAddToCalendar(booking: Pick<Booking, 'status' | 'end_time'>) {
+  return ['approved', 'checked_in'].includes(booking.status) && dayjs(booking.end_time).isAfter(dayjs())
+}
+
+function localTimezone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string) {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  let size = 0
+  for (const char of line) {
+    const bytes = encoder.encode(char).length
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74
+    if (size + bytes > limit) {
+      parts.push(current)
+      current = ''
+      size = 0
+    }
+    current += char
+    size += bytes
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+function utcStamp(time: Dayjs) {
+  return time.utc().format('YYYYMMDD[T]HHmmss[Z]')
+}
+
+function localStamp(time: Dayjs) {
+  return time.format('YYYYMMDD[T]HHmmss')
+}
+
+// +0530, -0800
+function formatOffset(minutes: number) {
+  const sign = minutes < 0 ? '-' : '+'
+  const abs = Math.abs(minutes)
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+// Minutes ahead of UTC in `zone` at that instant. Read from Intl rather than
+// dayjs' timezone plugin, which slips when the browser's own zone changes offset.
+function offsetAt(time: Dayjs, zone: string) {
+  let formatter = formatters.get(zone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone, hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+    })
+    formatters.set(zone, formatter)
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(time.toDate()).map(p => [p.type, Number(p.value)]))
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return Math.round((wallClock - time.startOf('second').valueOf()) / 60000)
+}
+
+// The instant shifted by `offset` and read in UTC mode, so it formats as that
+// wall-clock time. dayjs' utcOffset() mixes in the host's own offset, which is
+// an hour out around the host's DST changes.
+function wallClock(time: Dayjs, offset: number) {
+  return dayjs.utc(time.valueOf() + offset * 60 * 1000)
+}
+
+function inZone(time: Dayjs, zone: string) {
+  return wallClock(time, offsetAt(time, zone))
+}
+
+interface OffsetChange {
+  at: Dayjs
+  from: number
+  to: number
+}
+
+// Every change of UTC offset in `zone` over whole years, found day by day and
+// then narrowed to the minute
+function offsetChanges(zone: string, firstYear: number, lastYear: number): OffsetChange[] {
+  const changes: OffsetChange[] = []
+  let day = dayjs.utc(`${firstYear}-01-01`)
+  const end = dayjs.utc(`${lastYear + 1}-01-01`)
+  while (day.isBefore(end)) {
+    const next = day.add(1, 'day')
+    const from = offsetAt(day, zone)
+    const to = offsetAt(next, zone)
+    if (from !== to) {
+      let low = day.valueOf()
+      let high = next.valueOf()
+      while (high - low > 60 * 1000) {
+        const mid = Math.floor((low + high) / 2)
+        if (offsetAt(dayjs.utc(mid), zone) === from) low = mid
+        else high = mid
+      }
+      changes.push({ at: dayjs.utc(high).startOf('minute'), from, to })
+    }
+    day = next
+  }
+  return changes
+}
+
+// A VTIMEZONE covering the years the events fall in. Each change is listed
+// outright instead of as a rule, which every client reads the same way.
+function buildTimezone(zone: string, from: Dayjs, to: Dayjs): string[] {
+  const firstYear = inZone(from, zone).year()
+  const lastYear = inZone(to, zone).year()
+  const changes = offsetChanges(zone, firstYear, lastYear)
+  const newYear = dayjs.utc(`${firstYear}-01-01`)
+  const start = newYear.subtract(offsetAt(newYear, zone), 'minute')
+  const initial = offsetAt(start, zone)
+  const standard = Math.min(initial, ...changes.map(c => c.to))
+
+  const observance = (at: Dayjs, offsetFrom: number, offsetTo: number) => {
+    const kind = offsetTo > standard ? 'DAYLIGHT' : 'STANDARD'
+    return [
+      `BEGIN:${kind}`,
+      // Written as the wall-clock time just before the change
+      `DTSTART:${localStamp(wallClock(at, offsetFrom))}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${kind}`,
+    ]
+  }
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${zone}`,
+    ...observance(start, initial, initial),
+    ...changes.flatMap(c => observance(c.at, c.from, c.to)),
+    'END:VTIMEZONE',
+  ]
+}
+
+const eventStatus: Record<string, string> = {
+  pending: 'TENTATIVE',
+  approved: 'CONFIRMED',
+  checked_in: 'CONFIRMED',
+  completed: 'CONFIRMED',
+}
+
+function buildEvent(booking: CalendarBooking, zone: string, now: Dayjs = dayjs()): string[] {
+  const location = [booking.resource_name, booking.resource_location].filter(Boolean).join(', ')
+  return [
+    'BEGIN:VEVENT',
+    // Stable per booking, so a second download updates the event instead of duplicating it
+    `UID:booking-${booking.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${utcStamp(now)}`,
+    ...(booking.updated_at ? [`LAST-MODIFIED:${utcStamp(dayjs(booking.updated_at))}`] : []),
+    `DTSTART;TZID=${zone}:${localStamp(inZone(dayjs(booking.start_time), zone))}`,
+    `DTEND;TZID=${zone}:${localStamp(inZone(dayjs(booking.end_time), zone))}`,
+    `SUMMARY:${escapeText(booking.title ?? booking.resource_name)}`,
+    ...(location ? [`LOCATION:${escapeText(location)}`] : []),
+    ...(booking.description ? [`DESCRIPTION:${escapeText(booking.description)}`] : []),
+    `STATUS:${eventStatus[booking.status] ?? 'CANCELLED'}`,
+    'END:VEVENT',
+  ]
+}
+
+export function toICalendar(bookings: CalendarBooking[], zone: string = localTimezone(), now: Dayjs = dayjs()): string {
+  const starts = bookings.map(b => dayjs(b.start_time).valueOf())
+  const ends = bookings.map(b => dayjs(b.end_time).valueOf())
+  const timezoneLines = bookings.length > 0
+    ? buildTimezone(zone, dayjs(Math.min(...starts)), dayjs(Math.max(...ends)))
+    : []
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...timezoneLines,
+    ...bookings.flatMap(b => buildEvent(b, zone, now)),
+    'END:VCALENDAR',
+  ]
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,147 @@
+import dayjs from 'dayjs'
+import { Booking, BookingPolicy, Resource } from '../lib/schemas'
+import { bookingsOverlap, slotHoldingStatuses } from './bookingConflicts'
+import { isEquipment } from './equipment'
+import { ResourceType } from './validators'
+
+export type EffectivePolicy = Omit<BookingPolicy, 'id' | 'resource_name'> & {
+  // Where the rules came from, so screens can say so
+  source: 'default' | 'type' | 'resource'
+}
+
+// Applies until an admin sets a policy - the rules the app used to hardcode
+export function defaultPolicy(type: ResourceType): EffectivePolicy {
+  return {
+    resource_type: type,
+    resource_id: null,
+    allowed_durations: [0.5, 1],
+    max_advance_days: 30,
+    max_active_bookings: null,
+    check_in_opens_minutes: 20,
+    check_in_closes_minutes: 15,
+    auto_approve: false,
+    buffer_minutes: 0,
+    source: 'default',
+  }
+}
+
+// A resource's own override wins over its type's policy
+export function policyFor(policies: BookingPolicy[], resource: Pick<Resource, 'id' | 'resource_type'>): EffectivePolicy {
+  const override = policies.find(p => p.resource_id === resource.id)
+  if (override) return { ...override, source: 'resource' }
+  const typePolicy = policies.find(p => p.resource_id === null && p.resource_type === resource.resource_type)
+  if (typePolicy) return { ...typePolicy, source: 'type' }
+  return defaultPolicy(resource.resource_type)
+}
+
+export function formatHours(hours: number) {
+  if (hours < 1) return `${Math.round(hours * 60)} minutes`
+  return hours === 1 ? '1 hour' : `${hours} hours`
+}
+
+export function latestBookableDate(policy: EffectivePolicy) {
+  return dayjs().add(policy.max_advance_days, 'day').endOf('day')
+}
+
+// Equipment is checked out by an admin at handover, not checked in by the borrower
+export function canCheckIn(policy: EffectivePolicy, booking: Pick<Booking, 'status' | 'start_time' | 'checked_in_at'>) {
+  if (isEquipment(policy.resource_type)) return false
+  if (booking.status !== 'approved' || booking.checked_in_at) return false
+  const start = dayjs(booking.start_time)
+  const now = dayjs()
+  return now.isAfter(start.subtract(policy.check_in_opens_minutes, 'minute')) &&
+    now.isBefore(start.add(policy.check_in_closes_minutes, 'minute'))
+}
+
+// Approved but never checked in and the window has closed. The server marks
+// these as no-shows and frees the slot; until it does they shouldn't look active.
+export function missedCheckIn(policy: EffectivePolicy, booking: Pick<Booking, 'status' | 'start_time' | 'checked_in_at'>) {
+  return !isEquipment(policy.resource_type) && booking.status === 'approved' && !booking.checked_in_at &&
+    dayjs().isAfter(dayjs(booking.start_time).add(policy.check_in_closes_minutes, 'minute'))
+}
+
+// Upcoming bookings that count towards the policy's per-person limit: the same
+// resource for an override, any resource of the type otherwise
+export function activeBookingsUnder(
+  policy: EffectivePolicy,
+  bookings: Booking[],
+  resources: Pick<Resource, 'id' | 'resource_type'>[]
+) {
+  const covered = policy.resource_id !== null
+    ? [policy.resource_id]
+    : resources.filter(r => r.resource_type === policy.resource_type).map(r => r.id)
+  const now = dayjs()
+  return bookings.filter(b =>
+    covered.includes(b.resource_id) &&
+    slotHoldingStatuses.includes(b.status) &&
+    dayjs(b.end_time).isAfter(now)
+  )
+}
+
+// Plain-language rules, for the booking page and the policy list
+export function describePolicy(policy: EffectivePolicy) {
+  const lines = isEquipment(policy.resource_type)
+    ? [
+      'Borrowed by the day: pick checkout and return dates',
+      `Return within ${policy.max_advance_days} day${policy.max_advance_days === 1 ? '' : 's'} from today`,
+      'Collect from and return to an admin',
+    ]
+    : [
+      `Durations: ${policy.allowed_durations.map(formatHours).join(', ')}`,
+      `Book up to ${policy.max_advance_days} day${policy.max_advance_days === 1 ? '' : 's'} ahead`,
+      `Check in from ${policy.check_in_opens_minutes} min before to ${policy.check_in_closes_minutes} min after the start`,
+    ]
+  if (policy.max_active_bookings !== null) {
+    lines.push(`Up to ${policy.max_active_bookings} active booking${policy.max_active_bookings === 1 ? '' : 's'} per person`)
+  }
+  if (policy.buffer_minutes > 0) lines.push(`${policy.buffer_minutes} min gap kept between bookings`)
+  lines.push(policy.auto_approve ? 'Confirmed instantly' : 'Needs admin approval')
+  return lines
+}
+
+// Why a pending booking breaks its policy, for the approval dialog. `active` is
+// the employee's upcoming bookings under the policy, `sameDay` the resource's.
+export function policyViolations(
+  policy: EffectivePolicy,
+  booking: Booking,
+  context: { active: Booking[]; sameDay: Booking[] }
+) {
+  const problems: string[] = []
+  const start = dayjs(booking.start_time)
+  const end = dayjs(booking.end_time)
+
+  // Loans are whole days; the slot durations don't apply
+  const hours = end.diff(start, 'minute') / 60
+  if (!isEquipment(policy.resource_type) && !policy.allowed_durations.includes(hours)) {
+    problems.push(`${formatHours(hours)} isn't an allowed duration (${policy.allowed_durations.map(formatHours).join(', ')})`)
+  }
+
+  const daysAhead = start.startOf('day').diff(dayjs(booking.created_at).startOf('day'), 'day')
+  if (daysAhead > policy.max_advance_days) {
+    problems.push(`Requested ${daysAhead} days ahead; the limit is ${policy.max_advance_days}`)
+  }
+
+  const otherActive = context.active.filter(b => b.id !== booking.id).length
+  if (policy.max_active_bookings !== null && otherActive >= policy.max_active_bookings) {
+    problems.push(`${booking.employee_name} already has ${otherActive} active booking${otherActive === 1 ? '' : 's'}; the limit is ${policy.max_active_bookings}`)
+  }
+
+  if (policy.buffer_minutes > 0) {
+    const padded = {
+      start_time: start.subtract(policy.buffer_minutes, 'minute').toISOString(),
+      end_time: end.add(policy.buffer_minutes, 'minute').toISOString(),
+    }
+    const tooClose = context.sameDay.filter(b =>
+      b.id !== booking.id &&
+      b.resource_id === booking.resource_id &&
+      slotHoldingStatuses.includes(b.status) &&
+      bookingsOverlap(padded, b) &&
+      !bookingsOverlap(booking, b)
+    )
+    if (tooClose.length > 0) {
+      problems.push(`Less than ${policy.buffer_minutes} min from ${tooClose.length} other booking${tooClose.length === 1 ? '' : 's'}`)
+    }
+  }
+
+  return problems
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import dayjs from 'dayjs'
+import { defaultRecurrence, expandRecurrence } from './recurrence'
+import { MAX_OCCURRENCES, RecurrenceFormValues } from './validators'
+
+// 9-10am local on Monday, October 19, 2026
+const first = {
+  start_time: dayjs('2026-10-19T09:00').toISOString(),
+  end_time: dayjs('2026-10-19T10:00').toISOString(),
+}
+
+function rule(overrides: Partial<RecurrenceFormValues> = {}): RecurrenceFormValues {
+  return { ...defaultRecurrence, ...overrides }
+}
+
+const days = (occurrences: { start_time: string }[]) => occurrences.map(o => dayjs(o.start_time).format('YYYY-MM-DD'))
+
+describe('expandRecurrence', () => {
+  it('repeats weekly from the first occurrence, keeping its time and length', () => {
+    const occurrences = expandRecurrence(first, rule({ count: 3 }), [])
+
+    expect(days(occurrences)).toEqual(['2026-10-19', '2026-10-26', '2026-11-02'])
+    for (const o of occurrences) {
+      expect(dayjs(o.start_time).format('HH:mm')).toBe('09:00')
+      expect(dayjs(o.end_time).diff(dayjs(o.start_time), 'minute')).toBe(60)
+      expect(o.skipped).toBeNull()
+    }
+  })
+
+  it('steps by the interval', () => {
+    const occurrences = expandRecurrence(first, rule({ interval: 2, count: 3 }), [])
+    expect(days(occurrences)).toEqual(['2026-10-19', '2026-11-02', '2026-11-16'])
+  })
+
+  it('keeps skipped weekend days but does not count them', () => {
+    const thursday = {
+      start_time: dayjs('2026-10-22T09:00').toISOString(),
+      end_time: dayjs('2026-10-22T10:00').toISOString(),
+    }
+    const occurrences = expandRecurrence(thursday, rule({ frequency: 'daily', count: 4 }), [])
+
+    expect(occurrences.map(o => [dayjs(o.start_time).format('ddd'), o.skipped])).toEqual([
+      ['Thu', null],
+      ['Fri', null],
+      ['Sat', 'weekend'],
+      ['Sun', 'weekend'],
+      ['Mon', null],
+      ['Tue', null],
+    ])
+  })
+
+  it("uses the resource type's own closed weekdays", () => {
+    const occurrences = expandRecurrence(first, rule({ frequency: 'daily', count: 3 }), [], [2])
+    expect(occurrences.map(o => o.skipped)).toEqual([null, 'weekend', null, null])
+  })
+
+  it('books weekends when they are not skipped', () => {
+    const saturday = {
+      start_time: dayjs('2026-10-24T09:00').toISOString(),
+      end_time: dayjs('2026-10-24T10:00').toISOString(),
+    }
+    const occurrences = expandRecurrence(saturday, rule({ count: 2, skip_weekends: false }), [])
+    expect(occurrences.map(o => o.skipped)).toEqual([null, null])
+  })
+
+  it('skips holidays and adds a date in their place', () => {
+    const occurrences = expandRecurrence(first, rule({ count: 3 }), ['2026-10-26'])
+
+    expect(days(occurrences)).toEqual(['2026-10-19', '2026-10-26', '2026-11-02', '2026-11-09'])
+    expect(occurrences[1].skipped).toBe('holiday')
+    expect(occurrences.filter(o => !o.skipped)).toHaveLength(3)
+  })
+
+  it('books holidays when they are not skipped', () => {
+    const occurrences = expandRecurrence(first, rule({ count: 2, skip_holidays: false }), ['2026-10-26'])
+    expect(occurrences.map(o => o.skipped)).toEqual([null, null])
+  })
+
+  it('runs until the end date, including that day', () => {
+    const occurrences = expandRecurrence(first, rule({ frequency: 'daily', ends: 'on_date', until: '2026-10-23' }), [])
+    expect(days(occurrences)).toEqual(['2026-10-19', '2026-10-20', '2026-10-21', '2026-10-22', '2026-10-23'])
+  })
+
+  it(`stops at ${MAX_OCCURRENCES} bookings however far away the end date is`, () => {
+    const occurrences = expandRecurrence(first, rule({ ends: 'on_date', until: '2030-01-01', skip_weekends: false }), [])
+    expect(occurrences).toHaveLength(MAX_OCCURRENCES)
+  })
+})
@@ -0,0 +1,68 @@
+import dayjs from 'dayjs'
+import { DEFAULT_CLOSED_WEEKDAYS } from './closures'
+import { MAX_OCCURRENCES, RecurrenceFormValues } from './validators'
+
+export interface Occurrence {
+  start_time: string
+  end_time: string
+  // Set for dates the rule lands on but the series leaves out
+  skipped: 'weekend' | 'holiday' | null
+}
+
+export const defaultRecurrence: RecurrenceFormValues = {
+  frequency: 'weekly',
+  interval: 1,
+  ends: 'after_count',
+  count: 4,
+  skip_weekends: true,
+  skip_holidays: true,
+}
+
+// Expands a rule from its first occurrence. Skipped dates are kept (flagged)
+// so the preview can say why a week is missing, but don't count towards `count`.
+// `closedWeekdays` is the resource type's weekend, which isn't always Sat/Sun.
+export function expandRecurrence(
+  first: { start_time: string; end_time: string },
+  rule: RecurrenceFormValues,
+  holidays: string[],
+  closedWeekdays: number[] = DEFAULT_CLOSED_WEEKDAYS
+): Occurrence[] {
+  const start = dayjs(first.start_time)
+  const minutes = dayjs(first.end_time).diff(start, 'minute')
+  const unit = rule.frequency === 'daily' ? 'day' : 'week'
+  const until = rule.ends === 'on_date' && rule.until ? dayjs(rule.until).endOf('day') : null
+  const limit = rule.ends === 'after_count' ? Math.min(rule.count ?? 1, MAX_OCCURRENCES) : MAX_OCCURRENCES
+
+  const occurrences: Occurrence[] = []
+  let booked = 0
+  for (let i = 0; booked < limit && occurrences.length < MAX_OCCURRENCES * 2; i++) {
+    const occurrenceStart = start.add(i * rule.interval, unit)
+    if (until && occurrenceStart.isAfter(until)) break
+
+    const weekend = closedWeekdays.includes(occurrenceStart.day())
+    const holiday = holidays.includes(occurrenceStart.format('YYYY-MM-DD'))
+    const skipped = rule.skip_weekends && weekend ? 'weekend'
+      : rule.skip_holidays && holiday ? 'holiday'
+      : null
+
+    occurrences.push({
+      start_time: occurrenceStart.toISOString(),
+      end_time: occurrenceStart.add(minutes, 'minute').toISOString(),
+      skipped,
+    })
+    if (!skipped) booked++
+  }
+  return occurrences
+}
+
+// e.g. "Every 2 weeks, 6 times" or "Daily, until Nov 30, 2026"
+export function describeRecurrence(rule: RecurrenceFormValues) {
+  const unit = rule.frequency === 'daily' ? 'day' : 'week'
+  const every = rule.interval === 1
+    ? (rule.frequency === 'daily' ? 'Daily' : 'Weekly')
+    : `Every ${rule.interval} ${unit}s`
+  const ends = rule.ends === 'after_count'
+    ? `${rule.count ?? 0} times`
+    : `until ${dayjs(rule.until).format('MMM D, YYYY')}`
+  return `${every}, ${ends}`
+}
@@ -0,0 +1,86 @@
+import dayjs from 'dayjs'
+import { Resource, ResourceTypeDefinition, TimeSlot } from '../lib/schemas'
+import { PropertyField } from './validators'
+
+export type FilterValue = number | boolean | string
+
+export interface ResourceFilters {
+  location: string | null
+  // By property key: a minimum for numbers, must-have for yes/no, an exact
+  // match for choices and text
+  properties: Record<string, FilterValue>
+  // 'name', 'location', or a number property to list largest first
+  sort: string
+}
+
+export const emptyResourceFilters: ResourceFilters = { location: null, properties: {}, sort: 'name' }
+
+export function filterableFields(definition: ResourceTypeDefinition) {
+  return definition.properties.filter(f => f.filterable)
+}
+
+function matchesField(field: PropertyField, wanted: FilterValue, value: unknown) {
+  if (field.type === 'number') return typeof value === 'number' && value >= Number(wanted)
+  if (field.type === 'boolean') return !wanted || value === true
+  return String(value ?? '').toLowerCase() === String(wanted).toLowerCase()
+}
+
+export function matchesFilters(definition: ResourceTypeDefinition, filters: ResourceFilters, resource: Resource) {
+  if (filters.location && resource.location !== filters.location) return false
+  return filterableFields(definition).every(field => {
+    const wanted = filters.properties[field.key]
+    return wanted === undefined || matchesField(field, wanted, resource.properties[field.key])
+  })
+}
+
+export function sortResources(resources: Resource[], sort: string) {
+  const byName = (a: Resource, b: Resource) => a.name.localeCompare(b.name)
+  return [...resources].sort((a, b) => {
+    if (sort === 'name') return byName(a, b)
+    if (sort === 'location') return a.location.localeCompare(b.location) || byName(a, b)
+    // Resources without the number go last
+    const size = (r: Resource) => typeof r.properties[sort] === 'number' ? r.properties[sort] : -Infinity
+    return size(b) - size(a) || byName(a, b)
+  })
+}
+
+export function filterResources(definition: ResourceTypeDefinition, filters: ResourceFilters, resources: Resource[]) {
+  return sortResources(resources.filter(r => matchesFilters(definition, filters, r)), filters.sort)
+}
+
+export function activeFilterCount(filters: ResourceFilters) {
+  return (filters.location ? 1 : 0) + Object.keys(filters.properties).length
+}
+
+// The choices for a free-text filter are whatever the resources actually have,
+// e.g. every brand in the laptop pool
+export function distinctValues(resources: Resource[], key: string) {
+  const values = resources.map(r => r.properties[key]).filter(v => typeof v === 'string' && v.trim() !== '')
+  return [...new Set(values as string[])].sort((a, b) => a.localeCompare(b))
+}
+
+export function locationsOf(resources: Resource[]) {
+  return [...new Set(resources.map(r => r.location).filter(Boolean))].sort((a, b) => a.localeCompare(b))
+}
+
+// A 'when' to check every matching resource against, e.g. tomorrow 15:00-16:00
+export interface TimeWindow {
+  date: string
+  from: string
+  to: string
+}
+
+export const emptyTimeWindow: TimeWindow = { date: '', from: '', to: '' }
+
+export function windowSlot(window: TimeWindow) {
+  if (!window.date || !window.from || !window.to) return null
+  const start = dayjs(`${window.date}T${window.from}`)
+  const end = dayjs(`${window.date}T${window.to}`)
+  if (!start.isValid() || !end.isValid() || !end.isAfter(start)) return null
+  return { start, end, duration: end.diff(start, 'minute') / 60 }
+}
+
+// Whether a resource's slots for the window's date include the window itself
+export function freeDuring(slots: TimeSlot[], start: dayjs.Dayjs) {
+  return slots.some(s => s.available && dayjs(s.start_time).isSame(start))
+}
@@ -0,0 +1,123 @@
+import {
+  Armchair, Box, Car, DoorOpen, Laptop, LucideIcon, Projector, Smartphone, Sprout,
+} from 'lucide-react'
+import { ResourceTypeDefinition } from '../lib/schemas'
+import { PropertyField, ResourceType, ResourceTypeIcon } from './validators'
+
+export const resourceTypeIcons: Record<ResourceTypeIcon, LucideIcon> = {
+  door: DoorOpen,
+  phone: Smartphone,
+  laptop: Laptop,
+  sprout: Sprout,
+  car: Car,
+  desk: Armchair,
+  projector: Projector,
+  box: Box,
+}
+
+const text = (key: string, label: string, extra: Partial<PropertyField> = {}): PropertyField =>
+  ({ key, label, type: 'text', required: false, filterable: false, options: [], ...extra })
+
+const number = (key: string, label: string, extra: Partial<PropertyField> = {}): PropertyField =>
+  ({ key, label, type: 'number', required: false, filterable: true, options: [], min: 1, ...extra })
+
+const flag = (key: string, label: string): PropertyField =>
+  ({ key, label, type: 'boolean', required: false, filterable: true, options: [] })
+
+// What the app shipped with. The backend returns these too, possibly edited;
+// they stand in until the list loads and for older backends without the endpoint.
+export const builtInResourceTypeDefinitions: ResourceTypeDefinition[] = [
+  {
+    key: 'meeting_room',
+    label: 'Meeting Rooms',
+    singular_label: 'Meeting Room',
+    description: 'Conference spaces with projectors',
+    icon: 'door',
+    built_in: true,
+    properties: [
+      number('capacity', 'Capacity', { required: true, max: 1000, unit: 'people', placeholder: 'e.g., 10' }),
+      flag('has_projector', 'Has Projector'),
+      flag('has_whiteboard', 'Has Whiteboard'),
+      flag('has_video_conference', 'Has Video Conference'),
+    ],
+  },
+  {
+    key: 'phone',
+    label: 'Phones',
+    singular_label: 'Phone',
+    description: 'Mobile devices for testing',
+    icon: 'phone',
+    built_in: true,
+    properties: [
+      text('brand', 'Brand', { required: true, filterable: true, placeholder: 'e.g., Apple, Samsung' }),
+      text('model', 'Model', { required: true, placeholder: 'e.g., iPhone 14 Pro' }),
+      text('asset_tag', 'Asset Tag', { placeholder: 'e.g., IT-PH-0042' }),
+      text('serial_number', 'Serial Number'),
+      text('phone_number', 'Phone Number', { placeholder: 'e.g., +1234567890' }),
+    ],
+  },
+  {
+    key: 'laptop',
+    label: 'Laptops',
+    singular_label: 'Laptop',
+    description: 'Portable workstations',
+    icon: 'laptop',
+    built_in: true,
+    properties: [
+      text('brand', 'Brand', { required: true, filterable: true, placeholder: 'e.g., Dell, HP, Apple' }),
+      text('model', 'Model', { required: true, placeholder: 'e.g., MacBook Pro 16' }),
+      text('asset_tag', 'Asset Tag', { placeholder: 'e.g., IT-LT-0042' }),
+      text('serial_number', 'Serial Number'),
+      text('processor', 'Processor', { placeholder: 'e.g., Intel i7, M2' }),
+      number('ram_gb', 'RAM', { unit: 'GB', placeholder: 'e.g., 16' }),
+      { key: 'storage_type', label: 'Storage Type', type: 'select', required: false, filterable: true, options: ['SSD', 'HDD'] },
+    ],
+  },
+  {
+    key: 'turf',
+    label: 'Turf',
+    singular_label: 'Turf',
+    description: 'Outdoor recreational space',
+    icon: 'sprout',
+    built_in: true,
+    properties: [
+      number('area_sqft', 'Area', { required: true, unit: 'sq ft', placeholder: 'e.g., 5000' }),
+      number('max_participants', 'Max Participants', { required: true, placeholder: 'e.g., 20' }),
+      text('surface_type', 'Surface Type', { filterable: true, placeholder: 'e.g., Artificial Grass, Natural Grass' }),
+      flag('has_lighting', 'Has Lighting'),
+    ],
+  },
+]
+
+// The backend's list, with any built-in it left out added back
+export function withBuiltIns(types: ResourceTypeDefinition[]) {
+  const missing = builtInResourceTypeDefinitions.filter(b => !types.some(t => t.key === b.key))
+  return [...missing, ...types]
+}
+
+// Never undefined, so screens can render resources of a type that was deleted
+// or hasn't loaded yet
+export function definitionFor(types: ResourceTypeDefinition[], key: ResourceType): ResourceTypeDefinition {
+  const known = types.find(t => t.key === key)
+  if (known) return known
+  const label = key.split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ')
+  return { key, label, singular_label: label, icon: 'box', built_in: false, properties: [] }
+}
+
+export function formatPropertyValue(field: PropertyField, value: unknown) {
+  if (value === undefined || value === null || value === '') return null
+  if (field.type === 'boolean') return value ? 'Yes' : 'No'
+  if (field.type === 'number' && field.unit) return `${value} ${field.unit}`
+  return String(value)
+}
+
+// A line for tables: the required fields, e.g. 'Apple · iPhone 14 Pro' or '10 people'
+export function propertySummary(definition: ResourceTypeDefinition, properties: Record<string, unknown>) {
+  const fields = definition.properties.filter(f => f.required && f.type !== 'boolean')
+  return fields.flatMap(field => {
+    const value = formatPropertyValue(field, properties[field.key])
+    if (value === null) return []
+    // Bare numbers need their label to mean anything
+    return [field.type === 'number' && !field.unit ? `${field.label}: ${value}` : value]
+  }).join(' · ')
+}
@@ -0,0 +1,40 @@
+import dayjs from 'dayjs'
+import { Resource, TimeSlot } from '../lib/schemas'
+
+// How well `candidate` stands in for `requested`. Features the requested
+// resource has (a projector, enough seats) count most; a shared location or
+// brand only breaks ties.
+function similarity(requested: Resource, candidate: Resource) {
+  let score = candidate.location === requested.location ? 1 : 0
+
+  for (const [key, wanted] of Object.entries(requested.properties)) {
+    const offered = candidate.properties[key]
+    if (wanted === true) {
+      score += offered === true ? 3 : -3
+    } else if (typeof wanted === 'number' && wanted > 0) {
+      // At least as big is what matters; closer in size is better after that
+      score += typeof offered === 'number' && offered >= wanted ? 3 - Math.min(1, (offered - wanted) / wanted) : -3
+    } else if (typeof wanted === 'string' && wanted !== '') {
+      score += offered === wanted ? 1 : 0
+    }
+  }
+  return score
+}
+
+// Other active resources of the same type, best match first
+export function rankAlternativeResources(requested: Resource, candidates: Resource[]) {
+  return candidates
+    .filter(c => c.id !== requested.id && c.resource_type === requested.resource_type && c.is_active)
+    .map(resource => ({ resource, score: similarity(requested, resource) }))
+    .sort((a, b) => b.score - a.score || a.resource.name.localeCompare(b.resource.name))
+    .map(({ resource }) => resource)
+}
+
+// Free slots closest in time to the one asked for, earlier first on a tie
+export function rankNearbySlots(requested: Pick<TimeSlot, 'start_time'>, slots: TimeSlot[]) {
+  const start = dayjs(requested.start_time)
+  const distance = (slot: TimeSlot) => Math.abs(dayjs(slot.start_time).diff(start, 'minute'))
+  return slots
+    .filter(s => s.available && !dayjs(s.start_time).isSame(start))
+    .sort((a, b) => distance(a) - distance(b) || dayjs(a.start_time).diff(dayjs(b.start_time)))
+}
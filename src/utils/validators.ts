@@ -21,23 +21,133 @@ export const userSchema = z.object({
 export type UserFormValues = z.infer<typeof userSchema>
 
 
+export const MAX_ATTENDEES = 50
+
+// What a booking is for and who's coming. `capacity` is the room's, and the
+// person booking takes one of the seats.
+export function bookingDetailsSchemaFor(capacity: number | null) {
+  return z.object({
+    title: z.string().trim().min(1, { message: 'Say what the booking is for' }).max(100, 'Title too long'),
+    description: z.string().max(1000, 'Description too long').optional(),
+    attendee_emails: z.array(z.string().email({ message: 'Invalid email' }))
+      .max(MAX_ATTENDEES, `At most ${MAX_ATTENDEES} attendees`)
+      .refine(emails => capacity === null || emails.length + 1 <= capacity, {
+        message: `The room holds ${capacity} people, including you`
+      })
+  })
+}
+
+export const bookingDetailsSchema = bookingDetailsSchemaFor(null)
+
+export type BookingDetailsFormValues = z.infer<typeof bookingDetailsSchema>
+
+export const emptyBookingDetails: BookingDetailsFormValues = { title: '', description: '', attendee_emails: [] }
+
 // Booking Schema for Create Booking Form
 export const bookingSchema = z.object({
   resource_id: z.number({ message: 'Resource is required' }),
   start_time: z.string().min(1, { message: 'Start time is required' }),
   end_time: z.string().min(1, { message: 'End time is required' })
-})
+}).extend(bookingDetailsSchema.partial().shape)
 
 export type BookingFormValues = z.infer<typeof bookingSchema>
 
+// Recurring bookings - a series is capped so one request can't block a room for years
+export const MAX_OCCURRENCES = 52
+
+export const recurrenceSchema = z.object({
+  frequency: z.enum(['daily', 'weekly']),
+  interval: z.number().int().min(1).max(4),
+  ends: z.enum(['on_date', 'after_count']),
+  until: z.string().optional(),
+  count: z.number({ message: 'Enter a number' })
+    .int()
+    .min(2, { message: 'Repeat at least twice' })
+    .max(MAX_OCCURRENCES, { message: `At most ${MAX_OCCURRENCES} occurrences` })
+    .optional(),
+  skip_weekends: z.boolean(),
+  skip_holidays: z.boolean(),
+})
+  .refine(r => r.ends !== 'on_date' || !!r.until, { message: 'End date is required', path: ['until'] })
+  .refine(r => r.ends !== 'after_count' || r.count !== undefined, { message: 'Number of occurrences is required', path: ['count'] })
+
+export type RecurrenceFormValues = z.infer<typeof recurrenceSchema>
+
+// The previewed occurrences are sent as-is, so what was checked is what gets booked
+export const bookingSeriesSchema = z.object({
+  resource_id: z.number({ message: 'Resource is required' }),
+  recurrence: recurrenceSchema,
+  occurrences: z.array(z.object({
+    start_time: z.string(),
+    end_time: z.string(),
+  })).min(1, { message: 'No free occurrences to book' })
+}).extend(bookingDetailsSchema.partial().shape)
+
+export type BookingSeriesFormValues = z.infer<typeof bookingSeriesSchema>
+
+// Editing a series moves every upcoming occurrence to a new time of day
+export const bookingSeriesUpdateSchema = z.object({
+  start_time: z.string().regex(/^\d{2}:\d{2}$/, { message: 'Start time is required' }),
+  end_time: z.string().regex(/^\d{2}:\d{2}$/, { message: 'End time is required' }),
+}).refine(v => v.end_time > v.start_time, { message: 'End time must be after start time', path: ['end_time'] })
+
+export type BookingSeriesUpdateValues = z.infer<typeof bookingSeriesUpdateSchema>
+
+// Moving one booking, possibly to a similar resource
+export const bookingChangeSchema = bookingSchema.pick({ resource_id: true, start_time: true, end_time: true }).extend({
+  reason: z.string().max(500, 'Reason too long').optional()
+})
+
+export type BookingChangeFormValues = z.infer<typeof bookingChangeSchema>
+
 // Booking Approval Schema
 export const bookingApprovalSchema = z.object({
   admin_note: z.string().max(500, 'Note too long').optional()
 })
 
 export type BookingApprovalFormValues = z.infer<typeof bookingApprovalSchema>
-// Resource Type Schema
-export const resourceTypeSchema = z.enum(['meeting_room', 'phone', 'laptop', 'turf'])
+
+// Equipment return: what state the item came back in
+export const returnConditionSchema = z.enum(['good', 'worn', 'damaged', 'missing_parts'])
+export type ReturnCondition = z.infer<typeof returnConditionSchema>
+
+export const returnConditionLabels: Record<ReturnCondition, string> = {
+  good: 'Good',
+  worn: 'Worn',
+  damaged: 'Damaged',
+  missing_parts: 'Missing parts',
+}
+
+export const equipmentReturnSchema = z.object({
+  condition: returnConditionSchema,
+  note: z.string().max(500, 'Note too long').optional()
+}).refine(v => v.condition === 'good' || v.condition === 'worn' || !!v.note?.trim(), {
+  message: 'Describe what is damaged or missing',
+  path: ['note'],
+})
+
+export type EquipmentReturnFormValues = z.infer<typeof equipmentReturnSchema>
+
+// Photos attached to a return, sent alongside the form as multipart
+export const MAX_RETURN_PHOTOS = 4
+
+// Maintenance tickets block the resource until resolved
+export const maintenanceTicketSchema = z.object({
+  title: z.string().min(1, 'Title is required').max(100, 'Title too long'),
+  description: z.string().max(1000, 'Description too long').optional()
+})
+
+export type MaintenanceTicketFormValues = z.infer<typeof maintenanceTicketSchema>
+
+// Resource types. Meeting rooms, phones, laptops and turf are built in; admins
+// can define more, so a type is any key the backend knows about.
+export const builtInResourceTypes = ['meeting_room', 'phone', 'laptop', 'turf']
+
+const keySchema = z.string().regex(/^[a-z][a-z0-9_]*$/, {
+  message: 'Use lowercase letters, numbers and underscores, starting with a letter'
+})
+
+export const resourceTypeSchema = keySchema
 export type ResourceType = z.infer<typeof resourceTypeSchema>
 
 // Base Resource Schema
@@ -52,32 +162,130 @@ export const resourceSchema = z.object({
 
 export type ResourceFormValues = z.infer<typeof resourceSchema>
 
-// Property validation per resource type
-export const meetingRoomPropertiesSchema = z.object({
-  capacity: z.number().min(1, 'Capacity must be at least 1').max(1000, 'Capacity too high'),
-  has_projector: z.boolean().optional(),
-  has_whiteboard: z.boolean().optional(),
-  has_video_conference: z.boolean().optional()
+// Property definitions: each resource type lists the fields its resources carry
+export const propertyFieldTypeSchema = z.enum(['text', 'number', 'boolean', 'select'])
+export type PropertyFieldType = z.infer<typeof propertyFieldTypeSchema>
+
+export const propertyFieldSchema = z.object({
+  key: keySchema,
+  label: z.string().min(1, 'Label is required').max(50, 'Label too long'),
+  type: propertyFieldTypeSchema,
+  required: z.boolean(),
+  // Offered as a filter when picking a resource to book
+  filterable: z.boolean(),
+  // Choices for select fields
+  options: z.array(z.string()),
+  // Shown after number values, e.g. 'GB' or 'sq ft'
+  unit: z.string().max(20, 'Unit too long').optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  placeholder: z.string().max(100, 'Placeholder too long').optional()
+}).refine(f => f.type !== 'select' || f.options.some(o => o.trim()), {
+  message: 'Add at least one option',
+  path: ['options']
 })
 
-export const phonePropertiesSchema = z.object({
-  brand: z.string().min(1, 'Brand is required'),
-  model: z.string().min(1, 'Model is required'),
-  phone_number: z.string().optional()
+export type PropertyField = z.infer<typeof propertyFieldSchema>
+
+// Lucide icons an admin can pick for a type
+export const resourceTypeIconSchema = z.enum(['door', 'phone', 'laptop', 'sprout', 'car', 'desk', 'projector', 'box'])
+export type ResourceTypeIcon = z.infer<typeof resourceTypeIconSchema>
+
+export const resourceTypeDefinitionSchema = z.object({
+  key: resourceTypeSchema,
+  // Plural, as used for tabs and categories ('Parking Spots')
+  label: z.string().min(1, 'Name is required').max(50, 'Name too long'),
+  singular_label: z.string().min(1, 'Singular name is required').max(50, 'Name too long'),
+  description: z.string().max(200, 'Description too long').optional(),
+  icon: resourceTypeIconSchema,
+  properties: z.array(propertyFieldSchema)
+}).superRefine((values, ctx) => {
+  const seen = new Set<string>()
+  values.properties.forEach((field, i) => {
+    if (seen.has(field.key)) {
+      ctx.addIssue({ code: 'custom', message: 'Keys must be unique', path: ['properties', i, 'key'] })
+    }
+    seen.add(field.key)
+  })
 })
 
-export const laptopPropertiesSchema = z.object({
-  brand: z.string().min(1, 'Brand is required'),
-  model: z.string().min(1, 'Model is required'),
-  processor: z.string().optional(),
-  ram_gb: z.number().min(1).optional(),
-  storage_type: z.enum(['HDD', 'SSD']).optional()
+export type ResourceTypeDefinitionFormValues = z.infer<typeof resourceTypeDefinitionSchema>
+
+// Validates a resource's properties against its type's fields. Keys the
+// definition doesn't mention (e.g. from a field since removed) pass through.
+export function propertiesSchemaFor(fields: PropertyField[]) {
+  const shape: Record<string, z.ZodType> = {}
+  for (const field of fields) {
+    let schema: z.ZodType
+    switch (field.type) {
+      case 'number': {
+        let number = z.number({ message: `${field.label} is required` })
+        if (field.min !== undefined) number = number.min(field.min, `${field.label} must be at least ${field.min}`)
+        if (field.max !== undefined) number = number.max(field.max, `${field.label} must be at most ${field.max}`)
+        schema = number
+        break
+      }
+      case 'boolean':
+        schema = z.boolean()
+        break
+      case 'select':
+        schema = z.string().refine(v => field.options.includes(v), `Choose a ${field.label.toLowerCase()}`)
+        break
+      default:
+        schema = field.required ? z.string().trim().min(1, `${field.label} is required`) : z.string()
+    }
+    shape[field.key] = field.required && field.type !== 'boolean' ? schema : schema.nullish()
+  }
+  return z.object(shape).catchall(z.any())
+}
+
+export function resourceSchemaFor(fields: PropertyField[]) {
+  return resourceSchema.extend({ properties: propertiesSchemaFor(fields) })
+}
+
+// Holidays, location closures and resource blackout windows
+export const closureScopeSchema = z.enum(['company', 'location', 'resource'])
+export type ClosureScope = z.infer<typeof closureScopeSchema>
+
+const timeOfDay = z.string().regex(/^\d{2}:\d{2}$/, { message: 'Use HH:MM' })
+
+export const closureSchema = z.object({
+  name: z.string().min(1, { message: 'Name is required' }).max(100, { message: 'Name too long' }),
+  scope: closureScopeSchema,
+  location: z.string().optional(),
+  resource_id: z.number().optional(),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Start date is required' }),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'End date is required' }),
+  // Both omitted for an all-day closure
+  start_time: timeOfDay.optional(),
+  end_time: timeOfDay.optional(),
 })
+  .refine(c => c.end_date >= c.start_date, { message: 'End date must not be before start date', path: ['end_date'] })
+  .refine(c => c.scope !== 'location' || !!c.location, { message: 'Location is required', path: ['location'] })
+  .refine(c => c.scope !== 'resource' || c.resource_id !== undefined, { message: 'Resource is required', path: ['resource_id'] })
+  .refine(c => !c.start_time === !c.end_time, { message: 'Give both times or neither', path: ['end_time'] })
+  .refine(c => !c.start_time || !c.end_time || c.end_time > c.start_time, { message: 'End time must be after start time', path: ['end_time'] })
+
+export type ClosureFormValues = z.infer<typeof closureSchema>
+
+// Booking policies - one per resource type, optionally overridden for a single resource
+export const policyDurationOptions = [0.5, 1, 2, 4, 8]
 
-export const turfPropertiesSchema = z.object({
-  area_sqft: z.number().min(1, 'Area must be positive'),
-  max_participants: z.number().min(1, 'Must allow at least 1 participant'),
-  has_lighting: z.boolean().optional(),
-  surface_type: z.string().optional()
+const minutesSchema = z.number({ message: 'Enter a number' }).int().min(0, { message: 'Must not be negative' }).max(240, { message: 'At most 240 minutes' })
+
+export const bookingPolicySchema = z.object({
+  resource_type: resourceTypeSchema,
+  // Set for a single-resource override
+  resource_id: z.number().optional(),
+  // Hours
+  allowed_durations: z.array(z.number()).min(1, { message: 'Allow at least one duration' }),
+  max_advance_days: z.number({ message: 'Enter a number' }).int().min(0, { message: 'Must not be negative' }).max(365, { message: 'At most 365 days' }),
+  // Omitted for no limit
+  max_active_bookings: z.number().int().min(1, { message: 'At least 1' }).max(50, { message: 'At most 50' }).optional(),
+  check_in_opens_minutes: minutesSchema,
+  check_in_closes_minutes: minutesSchema,
+  auto_approve: z.boolean(),
+  buffer_minutes: minutesSchema,
 })
 
+export type BookingPolicyFormValues = z.infer<typeof bookingPolicySchema>
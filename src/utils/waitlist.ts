@@ -0,0 +1,29 @@
+import dayjs from 'dayjs'
+import { TimeSlot, WaitlistEntry, WaitlistStatus } from '../lib/schemas'
+
+// Entries still in the queue or holding an offer
+export const queuedStatuses: WaitlistStatus[] = ['waiting', 'offered']
+
+export function isQueued(entry: Pick<WaitlistEntry, 'status'>) {
+  return queuedStatuses.includes(entry.status)
+}
+
+// The caller's live entry for a slot, if they're queued for it
+export function waitlistEntryFor(
+  entries: WaitlistEntry[],
+  resourceId: number,
+  slot: Pick<TimeSlot, 'start_time' | 'end_time'>
+) {
+  return entries.find(e =>
+    isQueued(e) &&
+    e.resource_id === resourceId &&
+    dayjs(e.start_time).isSame(dayjs(slot.start_time)) &&
+    dayjs(e.end_time).isSame(dayjs(slot.end_time))
+  )
+}
+
+// An offer can be claimed until its hold runs out; the server moves on after that
+export function canClaim(entry: Pick<WaitlistEntry, 'status' | 'hold_expires_at'>) {
+  return entry.status === 'offered' &&
+    (entry.hold_expires_at === null || dayjs().isBefore(dayjs(entry.hold_expires_at)))
+}